@@ -9,6 +9,7 @@
 
 import { Mongo } from 'meteor/mongo';
 import { Meteor } from 'meteor/meteor';
+import { getCurrentApiTokenId } from '../apiTokens/context';
 import type { ActivityLog } from './types';
 
 /**
@@ -19,6 +20,27 @@ import type { ActivityLog } from './types';
  */
 export const ActivityLogsCollection = new Mongo.Collection<ActivityLog>('activityLogs');
 
+/**
+ * Called with every log right after it is written (server only)
+ */
+type ActivityLogListener = (log: ActivityLog) => void;
+
+const listeners: ActivityLogListener[] = [];
+
+/**
+ * Run code for every activity log written from now on
+ *
+ * WHY: Other modules react to changes (webhooks/outbox.ts) without every
+ * method that logs having to call them
+ *
+ * NOTE: Listeners run inside the method that logged, so they must be
+ * quick - queue work, don't do it. A throwing listener is logged and
+ * doesn't fail the method.
+ */
+export function onActivityLogged(listener: ActivityLogListener): void {
+  listeners.push(listener);
+}
+
 // ============================================================================
 // SERVER-SIDE CONFIGURATION
 // ============================================================================
@@ -120,5 +142,34 @@ if (Meteor.isServer) {
     remove: () => true,
   });
 
+  // --------------------------------------------------------------------------
+  // API TOKEN STAMP AND LISTENERS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Record the API token on every log written during a token call, then
+   * tell the listeners
+   *
+   * WHY HERE: Logs are inserted from every domain's methods; stamping at
+   * the collection means none of them can forget it, and none of them
+   * has to know tokens (or webhooks) exist
+   */
+  const insertLog = ActivityLogsCollection.insert.bind(ActivityLogsCollection);
+  ActivityLogsCollection.insert = (log: ActivityLog, ...rest: any[]) => {
+    const apiTokenId = getCurrentApiTokenId();
+    const stamped = apiTokenId ? { ...log, apiTokenId } : log;
+    const logId = insertLog(stamped, ...rest);
+
+    listeners.forEach((listener) => {
+      try {
+        listener({ ...stamped, _id: logId });
+      } catch (error) {
+        console.error('❌ Activity log listener failed:', error);
+      }
+    });
+
+    return logId;
+  };
+
   console.log('✅ ActivityLogs collection indexes and security configured');
 }
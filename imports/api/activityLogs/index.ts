@@ -16,4 +16,4 @@ export type {
 } from './types';
 
 // Export collection
-export { ActivityLogsCollection } from './collection';
+export { ActivityLogsCollection, onActivityLogged } from './collection';
@@ -23,7 +23,13 @@ export type ActivityAction =
 /**
  * Types of entities that can be acted upon
  */
-export type EntityType = 'project' | 'task';
+export type EntityType =
+  | 'project'
+  | 'task'
+  | 'template'
+  | 'organization'
+  | 'user'
+  | 'team';
 
 /**
  * Structure for tracking what changed in an update
@@ -82,6 +88,10 @@ export interface ActivityLog {
   // Examples: comment text, previous assignee, reason for change
   metadata?: Record<string, any>;
 
+  // Personal access token the change was made with (unset for normal
+  // logins) - stamped on insert, see collection.ts
+  apiTokenId?: string;
+
   // When it happened
   // INDEXED: Primary sort order (newest first)
   // Also used for TTL-based automatic deletion
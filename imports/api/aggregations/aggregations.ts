@@ -33,11 +33,114 @@
  */
 
 import { Meteor } from 'meteor/meteor';
-import { check } from 'meteor/check';
-import { TasksCollection } from '../tasks';
-import { ProjectsCollection } from '../projects';
+import { check, Match } from 'meteor/check';
+import { TasksCollection, NOT_TRASHED } from '../tasks';
+import {
+  ProjectsCollection,
+  ProjectWorkflow,
+  StatusCategory,
+  DEFAULT_WORKFLOW,
+  getProjectWorkflow,
+  getStatusCategory,
+  getStatusesInCategory,
+  buildOpenTasksFilter,
+} from '../projects';
 import { ActivityLogsCollection } from '../activityLogs';
-import { UsersCollection } from '../users';
+import { TimeEntriesCollection } from '../timeEntries';
+import {
+  getActiveOrganizationAsync,
+  getWorkspaceProjectIds,
+  getWorkspaceActivitySelector,
+} from '../organizations';
+import { can, userCanAsync, getWorkspaceUserAsync, aboutUser } from '../policy';
+
+// ============================================================================
+// WORKFLOW HELPERS
+// ============================================================================
+
+/**
+ * Load the workflow of each project
+ *
+ * WHY: Status keys are defined per project, so reports that span several
+ * projects must interpret each task's status with its own project's workflow
+ *
+ * @param projectIds - Projects to load (missing projects get the default)
+ */
+async function getWorkflowsByProject(
+  projectIds: string[]
+): Promise<Map<string, ProjectWorkflow>> {
+  const workflows = new Map<string, ProjectWorkflow>();
+  projectIds.forEach((id) => workflows.set(id, DEFAULT_WORKFLOW));
+
+  const projects = await ProjectsCollection.find(
+    { _id: { $in: projectIds } },
+    { fields: { workflow: 1 } }
+  ).fetchAsync();
+
+  projects.forEach((project) => {
+    workflows.set(project._id!, getProjectWorkflow(project));
+  });
+
+  return workflows;
+}
+
+/**
+ * Build a zeroed counter for every status of the given workflows
+ *
+ * Keeps the workflow order, so the result can be rendered as board columns
+ */
+function emptyStatusCounts(
+  workflows: Iterable<ProjectWorkflow>,
+  filter: (category: StatusCategory) => boolean = () => true
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const workflow of workflows) {
+    workflow.statuses
+      .filter((status) => filter(status.category))
+      .forEach((status) => {
+        counts[status.key] = 0;
+      });
+  }
+  return counts;
+}
+
+/**
+ * Restrict a $match to one project, or to the projects of a workspace
+ *
+ * @param projectId - A single project (wins if given)
+ * @param workspaceProjectIds - Otherwise: every project of the workspace
+ */
+function projectScope(projectId?: string, workspaceProjectIds?: string[]) {
+  if (projectId) return { projectId };
+  if (workspaceProjectIds) return { projectId: { $in: workspaceProjectIds } };
+  return {};
+}
+
+/**
+ * Build an aggregation expression: is the task's status in a category?
+ *
+ * WHY: A status key only has a category within its own project's
+ * workflow, so the test is made per project
+ *
+ * EXAMPLE OUTPUT (category 'done'):
+ * { $or: [
+ *   { $and: [{ $eq: ['$projectId', 'p1'] }, { $in: ['$status', ['done']] }] },
+ *   { $and: [{ $eq: ['$projectId', 'p2'] }, { $in: ['$status', ['shipped', 'wont_fix']] }] },
+ * ] }
+ */
+function statusInCategoryExpression(
+  workflows: Map<string, ProjectWorkflow>,
+  category: StatusCategory
+) {
+  return {
+    $or: Array.from(workflows, ([projectId, workflow]) => ({
+      $and: [
+        { $eq: ['$projectId', projectId] },
+        { $in: ['$status', getStatusesInCategory(workflow, category)] },
+      ],
+    })),
+  };
+}
 
 // ============================================================================
 // AGGREGATION HELPER FUNCTIONS
@@ -51,58 +154,74 @@ import { UsersCollection } from '../users';
  * RETURNS:
  * {
  *   totalTasksAssigned: 15,
- *   tasksByStatus: { todo: 5, in_progress: 7, review: 1, done: 2 },
+ *   tasksByStatus: { todo: 5, in_progress: 7, review: 1, done: 2 }, // keys from project workflows
+ *   tasksByCategory: { todo: 5, in_progress: 8, done: 2 },
  *   tasksByPriority: { low: 3, medium: 10, high: 2 },
  *   averageCompletionTime: 3.5, // days
  *   overdueCount: 2
  * }
  *
  * @param userId - User to get stats for
+ * @param workspaceProjectIds - Optional: Only count tasks in these projects
  */
-export async function getUserStatistics(userId: string) {
+export async function getUserStatistics(userId: string, workspaceProjectIds?: string[]) {
   check(userId, String);
 
+  const scope = projectScope(undefined, workspaceProjectIds);
+
+  // WORKFLOWS: The user's tasks may span projects with different workflows
+  const projectIds: string[] = await TasksCollection.rawCollection().distinct('projectId', {
+    assignedToId: userId,
+    ...scope,
+    ...NOT_TRASHED,
+  });
+  const workflows = await getWorkflowsByProject(projectIds);
+
   // AGGREGATION 1: Count tasks by status
   // STAGES:
   // 1. $match: Filter to user's tasks
-  // 2. $group: Group by status and count
+  // 2. $group: Group by project + status and count
+  //    WHY projectId: the same key can mean different things in two projects
   const tasksByStatus = await TasksCollection.rawCollection()
     .aggregate([
       {
-        // Stage 1: Filter to this user's tasks
+        // Stage 1: Filter to this user's tasks (trash excluded)
         $match: {
           assignedToId: userId,
+          ...scope,
+          ...NOT_TRASHED,
         },
       },
       {
-        // Stage 2: Group by status
-        // _id: The field to group by
+        // Stage 2: Group by project and status
+        // _id: The fields to group by
         // count: Accumulator - counts documents in each group
         $group: {
-          _id: '$status', // Group by status field
+          _id: { projectId: '$projectId', status: '$status' },
           count: { $sum: 1 }, // Count each document as 1
         },
       },
-      {
-        // Stage 3: Sort by status for consistent output
-        $sort: { _id: 1 },
-      },
     ])
     .toArray();
 
-  // Transform array to object for easier access
-  const statusCounts = tasksByStatus.reduce(
-    (acc, item) => {
-      acc[item._id] = item.count;
-      return acc;
-    },
-    { todo: 0, in_progress: 0, review: 0, done: 0 }
-  );
+  // Transform array to objects for easier access
+  const statusCounts = emptyStatusCounts(workflows.values());
+  const categoryCounts: Record<StatusCategory, number> = { todo: 0, in_progress: 0, done: 0 };
+
+  tasksByStatus.forEach((item) => {
+    const { projectId, status } = item._id;
+    statusCounts[status] = (statusCounts[status] || 0) + item.count;
+
+    const category = getStatusCategory(workflows.get(projectId) || DEFAULT_WORKFLOW, status);
+    if (category) {
+      categoryCounts[category] += item.count;
+    }
+  });
 
   // AGGREGATION 2: Count tasks by priority
   const tasksByPriority = await TasksCollection.rawCollection()
     .aggregate([
-      { $match: { assignedToId: userId } },
+      { $match: { assignedToId: userId, ...scope, ...NOT_TRASHED } },
       { $group: { _id: '$priority', count: { $sum: 1 } } },
       { $sort: { _id: 1 } },
     ])
@@ -118,14 +237,15 @@ export async function getUserStatistics(userId: string) {
 
   // AGGREGATION 3: Average completion time
   // CHALLENGE: Calculate days between createdAt and completedAt
-  // ONLY for completed tasks
+  // ONLY for completed tasks (completedAt is set when entering a 'done' status)
   const completionTimes = await TasksCollection.rawCollection()
     .aggregate([
       {
         $match: {
           assignedToId: userId,
-          status: 'done',
           completedAt: { $exists: true },
+          ...scope,
+          ...NOT_TRASHED,
         },
       },
       {
@@ -152,18 +272,26 @@ export async function getUserStatistics(userId: string) {
   const avgCompletionDays = avgCompletionMs / (1000 * 60 * 60 * 24);
 
   // AGGREGATION 4: Count overdue tasks
+  // "Open" depends on each project's workflow
   const overdueCount = await TasksCollection.find({
     assignedToId: userId,
-    status: { $nin: ['done'] },
     dueDate: { $lt: new Date() },
+    ...scope,
+    ...NOT_TRASHED,
+    ...buildOpenTasksFilter(workflows),
   }).countAsync();
 
   // Total tasks assigned
-  const totalTasks = await TasksCollection.find({ assignedToId: userId }).countAsync();
+  const totalTasks = await TasksCollection.find({
+    assignedToId: userId,
+    ...scope,
+    ...NOT_TRASHED,
+  }).countAsync();
 
   return {
     totalTasksAssigned: totalTasks,
     tasksByStatus: statusCounts,
+    tasksByCategory: categoryCounts,
     tasksByPriority: priorityCounts,
     averageCompletionDays: Math.round(avgCompletionDays * 10) / 10, // Round to 1 decimal
     overdueCount,
@@ -190,23 +318,29 @@ export async function getUserStatistics(userId: string) {
 export async function getProjectStatistics(projectId: string) {
   check(projectId, String);
 
+  const project = await ProjectsCollection.findOneAsync(projectId, {
+    fields: { workflow: 1 },
+  });
+  const workflow = getProjectWorkflow(project);
+
   // Total tasks in project
-  const totalTasks = await TasksCollection.find({ projectId }).countAsync();
+  const totalTasks = await TasksCollection.find({ projectId, ...NOT_TRASHED }).countAsync();
 
   // Tasks by status
   const tasksByStatus = await TasksCollection.rawCollection()
     .aggregate([
-      { $match: { projectId } },
+      { $match: { projectId, ...NOT_TRASHED } },
       { $group: { _id: '$status', count: { $sum: 1 } } },
     ])
     .toArray();
 
+  // Seed every status of the workflow so empty columns still show up
   const statusCounts = tasksByStatus.reduce(
     (acc, item) => {
       acc[item._id] = item.count;
       return acc;
     },
-    { todo: 0, in_progress: 0, review: 0, done: 0 }
+    emptyStatusCounts([workflow])
   );
 
   // AGGREGATION: Tasks by assignee (with user info)
@@ -214,7 +348,7 @@ export async function getProjectStatistics(projectId: string) {
   const tasksByAssignee = await TasksCollection.rawCollection()
     .aggregate([
       {
-        $match: { projectId, assignedToId: { $exists: true } },
+        $match: { projectId, assignedToId: { $exists: true }, ...NOT_TRASHED },
       },
       {
         $group: {
@@ -258,13 +392,16 @@ export async function getProjectStatistics(projectId: string) {
     .toArray();
 
   // Completion rate
-  const completedTasks = statusCounts.done;
+  const completedTasks = getStatusesInCategory(workflow, 'done').reduce(
+    (sum, status) => sum + (statusCounts[status] || 0),
+    0
+  );
   const completionRate = totalTasks > 0 ? completedTasks / totalTasks : 0;
 
   // AGGREGATION: Sum of estimated and actual hours
   const hourStats = await TasksCollection.rawCollection()
     .aggregate([
-      { $match: { projectId } },
+      { $match: { projectId, ...NOT_TRASHED } },
       {
         $group: {
           _id: null,
@@ -299,8 +436,8 @@ export async function getProjectStatistics(projectId: string) {
  *   {
  *     userId: 'abc',
  *     name: 'John Doe',
- *     tasksCompleted: 25,
- *     tasksInProgress: 5,
+ *     tasksCompleted: 25, // statuses in the 'done' category
+ *     tasksInProgress: 5, // statuses in the 'in_progress' category
  *     averageCompletionDays: 2.5,
  *     onTimeRate: 0.8 // 80% completed before due date
  *   },
@@ -308,25 +445,34 @@ export async function getProjectStatistics(projectId: string) {
  * ]
  *
  * @param projectId - Optional: Limit to specific project
+ * @param workspaceProjectIds - Optional: Otherwise limit to these projects
  */
-export async function getTeamPerformance(projectId?: string) {
+export async function getTeamPerformance(projectId?: string, workspaceProjectIds?: string[]) {
   if (projectId) check(projectId, String);
 
   // Build match criteria
-  const matchCriteria: any = {};
-  if (projectId) {
-    matchCriteria.projectId = projectId;
-  }
+  const matchCriteria: any = {
+    ...NOT_TRASHED,
+    ...projectScope(projectId, workspaceProjectIds),
+    assignedToId: { $exists: true },
+  };
+
+  // WORKFLOWS: "Completed" and "in progress" are categories of each
+  // task's own project workflow
+  const projectIds: string[] = await TasksCollection.rawCollection().distinct(
+    'projectId',
+    matchCriteria
+  );
+  const workflows = await getWorkflowsByProject(projectIds);
+  const isDone = statusInCategoryExpression(workflows, 'done');
+  const isInProgress = statusInCategoryExpression(workflows, 'in_progress');
 
   // COMPLEX AGGREGATION: Multi-stage pipeline
   const performance = await TasksCollection.rawCollection()
     .aggregate([
       {
         // Stage 1: Filter tasks (optionally by project)
-        $match: {
-          ...matchCriteria,
-          assignedToId: { $exists: true },
-        },
+        $match: matchCriteria,
       },
       {
         // Stage 2: Group by user
@@ -334,17 +480,17 @@ export async function getTeamPerformance(projectId?: string) {
           _id: '$assignedToId',
           tasksTotal: { $sum: 1 },
           tasksCompleted: {
-            // Conditional sum: only count if status is 'done'
-            $sum: { $cond: [{ $eq: ['$status', 'done'] }, 1, 0] },
+            // Conditional sum: only count if status is in the 'done' category
+            $sum: { $cond: [isDone, 1, 0] },
           },
           tasksInProgress: {
-            $sum: { $cond: [{ $eq: ['$status', 'in_progress'] }, 1, 0] },
+            $sum: { $cond: [isInProgress, 1, 0] },
           },
           // Calculate average completion time
           completedTasks: {
             $push: {
               $cond: [
-                { $eq: ['$status', 'done'] },
+                isDone,
                 {
                   created: '$createdAt',
                   completed: '$completedAt',
@@ -452,12 +598,16 @@ export async function getTeamPerformance(projectId?: string) {
  * ]
  *
  * @param options - Filter by userId or entityId
+ * @param scope - Optional: Extra filter, e.g. a workspace's entities
  */
-export async function getActivityTimeline(options: {
-  userId?: string;
-  entityId?: string;
-  days?: number;
-}) {
+export async function getActivityTimeline(
+  options: {
+    userId?: string;
+    entityId?: string;
+    days?: number;
+  },
+  scope: Record<string, any> = {}
+) {
   const { userId, entityId, days = 30 } = options;
 
   // Calculate date range
@@ -466,6 +616,7 @@ export async function getActivityTimeline(options: {
 
   // Build match criteria
   const matchCriteria: any = {
+    ...scope,
     createdAt: { $gte: startDate },
   };
   if (userId) matchCriteria.userId = userId;
@@ -534,48 +685,373 @@ export async function getActivityTimeline(options: {
  * EXAMPLE USE: Strategic planning, capacity analysis
  *
  * WHY: Understand if team is focused on the right priorities
+ *
+ * WORKFLOWS: Columns are the unfinished statuses of the projects involved
+ * (e.g. { high: { todo, in_progress, review } } for the default workflow)
+ *
+ * @param projectId - Optional: Limit to specific project
+ * @param workspaceProjectIds - Optional: Otherwise limit to these projects
  */
-export async function getPriorityDistribution() {
+export async function getPriorityDistribution(
+  projectId?: string,
+  workspaceProjectIds?: string[]
+) {
+  if (projectId) check(projectId, String);
+
+  const matchCriteria: any = {
+    ...NOT_TRASHED,
+    ...projectScope(projectId, workspaceProjectIds),
+  };
+
   const distribution = await TasksCollection.rawCollection()
     .aggregate([
       {
-        $match: {
-          status: { $ne: 'done' }, // Only active tasks
-        },
+        $match: matchCriteria,
       },
       {
+        // Group by project too: done-ness depends on the project's workflow
         $group: {
           _id: {
+            projectId: '$projectId',
             priority: '$priority',
             status: '$status',
           },
           count: { $sum: 1 },
         },
       },
-      {
-        $sort: { '_id.priority': -1, '_id.status': 1 },
-      },
     ])
     .toArray();
 
-  // Transform to nested structure
+  const projectIds: string[] = projectId
+    ? [projectId]
+    : Array.from(new Set(distribution.map((item) => item._id.projectId)));
+  const workflows = await getWorkflowsByProject(projectIds);
+
+  // Transform to nested structure, only active (non-done) statuses
+  const isActive = (category: StatusCategory) => category !== 'done';
   const result: any = {
-    high: { todo: 0, in_progress: 0, review: 0 },
-    medium: { todo: 0, in_progress: 0, review: 0 },
-    low: { todo: 0, in_progress: 0, review: 0 },
+    high: emptyStatusCounts(workflows.values(), isActive),
+    medium: emptyStatusCounts(workflows.values(), isActive),
+    low: emptyStatusCounts(workflows.values(), isActive),
   };
 
   distribution.forEach((item) => {
-    const priority = item._id.priority;
-    const status = item._id.status;
-    if (result[priority] && result[priority][status] !== undefined) {
-      result[priority][status] = item.count;
+    const { projectId: taskProjectId, priority, status } = item._id;
+    const workflow = workflows.get(taskProjectId) || DEFAULT_WORKFLOW;
+    const category = getStatusCategory(workflow, status);
+
+    if (result[priority] && category && isActive(category)) {
+      result[priority][status] = (result[priority][status] || 0) + item.count;
     }
   });
 
   return result;
 }
 
+/**
+ * Get the full dependency chain of a task
+ *
+ * EXAMPLE USE: Release planning, "what's really left before this ships?"
+ *
+ * ADVANCED: Uses $graphLookup to walk the dependency graph recursively
+ * - upstream: every task this one waits for (blockers of blockers...)
+ * - downstream: every task waiting for this one
+ *
+ * RETURNS:
+ * {
+ *   task: { _id, title, status, ... },
+ *   upstream: [{ _id, title, status, depth: 0, isDone: false, ... }, ...],
+ *   downstream: [{ _id, title, status, depth: 0, ... }, ...],
+ *   criticalPath: { taskIds: ['a', 'b', 'task'], remainingHours: 12 }
+ * }
+ *
+ * CRITICAL PATH:
+ * The upstream chain with the most unfinished estimated work, ending at
+ * this task. Finished tasks cost 0 hours.
+ *
+ * @param taskId - Task to get the chain for
+ */
+export async function getDependencyChain(taskId: string) {
+  check(taskId, String);
+
+  const chainFields = {
+    _id: 1,
+    title: 1,
+    status: 1,
+    projectId: 1,
+    estimatedHours: 1,
+    blockedByIds: 1,
+    depth: 1,
+  };
+
+  const [result] = await TasksCollection.rawCollection()
+    .aggregate([
+      { $match: { _id: taskId, ...NOT_TRASHED } },
+      {
+        // STAGE: $graphLookup - Recursive join on the same collection
+        // Starts from this task's blockers and keeps following blockedByIds
+        // restrictSearchWithMatch: trashed tasks are not part of the chain
+        $graphLookup: {
+          from: 'tasks',
+          startWith: '$blockedByIds',
+          connectFromField: 'blockedByIds',
+          connectToField: '_id',
+          as: 'upstream',
+          depthField: 'depth', // 0 = direct blocker
+          maxDepth: 50,
+          restrictSearchWithMatch: NOT_TRASHED,
+        },
+      },
+      {
+        // Reverse direction: tasks whose blockedByIds contain this task,
+        // then tasks blocked by those...
+        // Uses the { blockedByIds: 1 } multi-key index
+        $graphLookup: {
+          from: 'tasks',
+          startWith: '$_id',
+          connectFromField: '_id',
+          connectToField: 'blockedByIds',
+          as: 'downstream',
+          depthField: 'depth',
+          maxDepth: 50,
+          restrictSearchWithMatch: NOT_TRASHED,
+        },
+      },
+      {
+        // Keep the payload small - $graphLookup returns whole documents
+        $project: {
+          ...chainFields,
+          upstream: chainFields,
+          downstream: chainFields,
+        },
+      },
+    ])
+    .toArray();
+
+  if (!result) {
+    return null;
+  }
+
+  const { upstream, downstream, ...task } = result;
+
+  // Interpret statuses with each project's workflow
+  const workflows = await getWorkflowsByProject([task.projectId]);
+  const workflow = workflows.get(task.projectId) || DEFAULT_WORKFLOW;
+  const isDone = (t: any) => getStatusCategory(workflow, t.status) === 'done';
+
+  // CRITICAL PATH: Longest (by remaining hours) upstream chain
+  // WHY NOT IN AGGREGATION: Longest-path needs memoized recursion
+  const byId = new Map<string, any>(upstream.map((t: any) => [t._id, t]));
+  const memo = new Map<string, { taskIds: string[]; remainingHours: number }>();
+
+  const longestPathTo = (node: any): { taskIds: string[]; remainingHours: number } => {
+    const cached = memo.get(node._id);
+    if (cached) return cached;
+
+    let best = { taskIds: [] as string[], remainingHours: 0 };
+    for (const blockerId of node.blockedByIds || []) {
+      const blocker = byId.get(blockerId);
+      if (!blocker) continue;
+      const path = longestPathTo(blocker);
+      if (
+        path.remainingHours > best.remainingHours ||
+        (path.remainingHours === best.remainingHours && path.taskIds.length > best.taskIds.length)
+      ) {
+        best = path;
+      }
+    }
+
+    const cost = isDone(node) ? 0 : node.estimatedHours || 0;
+    const path = {
+      taskIds: [...best.taskIds, node._id],
+      remainingHours: best.remainingHours + cost,
+    };
+    memo.set(node._id, path);
+    return path;
+  };
+
+  const sortByDepth = (a: any, b: any) => a.depth - b.depth;
+
+  return {
+    task,
+    upstream: upstream.sort(sortByDepth).map((t: any) => ({ ...t, isDone: isDone(t) })),
+    downstream: downstream.sort(sortByDepth).map((t: any) => ({ ...t, isDone: isDone(t) })),
+    criticalPath: longestPathTo(task),
+  };
+}
+
+/**
+ * Get weekly timesheets from the time entry ledger
+ *
+ * EXAMPLE USE: Payroll (hours per person per week), client billing
+ *
+ * RETURNS: One row per user per ISO week
+ * [
+ *   {
+ *     userId: 'abc',
+ *     name: 'John Doe',
+ *     isoYear: 2024,
+ *     isoWeek: 3,
+ *     weekStart: Date, // Monday 00:00 UTC
+ *     totalHours: 38.5,
+ *     billableHours: 30,
+ *     byProject: [{ projectId: 'p1', hours: 30, billableHours: 30 }, ...],
+ *     byDay: [7.5, 8, 8, 7, 8, 0, 0] // Monday..Sunday
+ *   },
+ *   ...
+ * ]
+ *
+ * NOTE: Weeks follow ISO 8601 (Monday start) in UTC
+ *
+ * @param options - Date range, optionally filtered by user and/or project
+ * @param workspaceProjectIds - Optional: Only time logged in these projects
+ */
+export async function getWeeklyTimesheet(
+  options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+    projectId?: string;
+  },
+  workspaceProjectIds?: string[]
+) {
+  const { from, to, userId, projectId } = options;
+
+  const matchCriteria: any = {
+    startedAt: { $gte: from, $lt: to },
+    ...projectScope(projectId, workspaceProjectIds),
+  };
+  if (userId) matchCriteria.userId = userId;
+
+  const timesheet = await TimeEntriesCollection.rawCollection()
+    .aggregate([
+      // Stage 1: Entries in range (uses { userId: 1, startedAt: -1 } index)
+      { $match: matchCriteria },
+      {
+        // Stage 2: Extract ISO week parts once
+        $project: {
+          userId: 1,
+          projectId: 1,
+          hours: 1,
+          billableHours: { $cond: ['$billable', '$hours', 0] },
+          isoYear: { $isoWeekYear: '$startedAt' },
+          isoWeek: { $isoWeek: '$startedAt' },
+          isoDay: { $isoDayOfWeek: '$startedAt' }, // 1 = Monday
+        },
+      },
+      {
+        // Stage 3: Total per user + week + project + day
+        $group: {
+          _id: {
+            userId: '$userId',
+            isoYear: '$isoYear',
+            isoWeek: '$isoWeek',
+            projectId: '$projectId',
+            isoDay: '$isoDay',
+          },
+          hours: { $sum: '$hours' },
+          billableHours: { $sum: '$billableHours' },
+        },
+      },
+      {
+        // Stage 4: Roll up to user + week, keeping the breakdowns
+        $group: {
+          _id: {
+            userId: '$_id.userId',
+            isoYear: '$_id.isoYear',
+            isoWeek: '$_id.isoWeek',
+          },
+          totalHours: { $sum: '$hours' },
+          billableHours: { $sum: '$billableHours' },
+          cells: {
+            $push: {
+              projectId: '$_id.projectId',
+              isoDay: '$_id.isoDay',
+              hours: '$hours',
+              billableHours: '$billableHours',
+            },
+          },
+        },
+      },
+      {
+        // Stage 5: Join with users for names
+        $lookup: {
+          from: 'users',
+          localField: '_id.userId',
+          foreignField: '_id',
+          as: 'user',
+        },
+      },
+      {
+        // Keep rows for deleted users (preserveNullAndEmptyArrays)
+        $unwind: { path: '$user', preserveNullAndEmptyArrays: true },
+      },
+      {
+        $project: {
+          _id: 0,
+          userId: '$_id.userId',
+          isoYear: '$_id.isoYear',
+          isoWeek: '$_id.isoWeek',
+          weekStart: {
+            $dateFromParts: {
+              isoWeekYear: '$_id.isoYear',
+              isoWeek: '$_id.isoWeek',
+              isoDayOfWeek: 1,
+            },
+          },
+          name: {
+            $concat: [
+              { $ifNull: ['$user.profile.firstName', ''] },
+              ' ',
+              { $ifNull: ['$user.profile.lastName', ''] },
+            ],
+          },
+          totalHours: 1,
+          billableHours: 1,
+          cells: 1,
+        },
+      },
+      {
+        $sort: { isoYear: -1, isoWeek: -1, name: 1 }, // Latest week first
+      },
+    ])
+    .toArray();
+
+  // Post-processing: Pivot cells into per-project and per-day breakdowns
+  // WHY NOT IN AGGREGATION: Two pivots of the same array are much easier to read in JS
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  return timesheet.map(({ cells, ...week }: any) => {
+    const byProject = new Map<string, { projectId: string; hours: number; billableHours: number }>();
+    const byDay = [0, 0, 0, 0, 0, 0, 0];
+
+    cells.forEach((cell: any) => {
+      const project = byProject.get(cell.projectId) || {
+        projectId: cell.projectId,
+        hours: 0,
+        billableHours: 0,
+      };
+      project.hours += cell.hours;
+      project.billableHours += cell.billableHours;
+      byProject.set(cell.projectId, project);
+
+      byDay[cell.isoDay - 1] += cell.hours;
+    });
+
+    return {
+      ...week,
+      totalHours: round(week.totalHours),
+      billableHours: round(week.billableHours),
+      byProject: Array.from(byProject.values()).map((p) => ({
+        ...p,
+        hours: round(p.hours),
+        billableHours: round(p.billableHours),
+      })),
+      byDay: byDay.map(round),
+    };
+  });
+}
+
 // ============================================================================
 // METEOR METHODS FOR AGGREGATIONS
 // ============================================================================
@@ -590,16 +1066,35 @@ export async function getPriorityDistribution() {
  * - Client calls when needed (on-demand)
  */
 
+/**
+ * Resolve the current user's workspace for a statistics call
+ *
+ * SECURITY: A project outside the workspace is reported as not found,
+ * the same as one that doesn't exist
+ *
+ * @returns IDs of the workspace's projects
+ */
+async function workspaceScope(userId: string, projectId?: string): Promise<string[]> {
+  const organization = await getActiveOrganizationAsync(userId);
+  const projectIds = getWorkspaceProjectIds(organization?._id);
+
+  if (projectId && !projectIds.includes(projectId)) {
+    throw new Meteor.Error('not-found', 'Project not found');
+  }
+
+  return projectIds;
+}
+
 Meteor.methods({
   /**
-   * Get statistics for current user
+   * Get statistics for current user (active workspace only)
    */
   async 'aggregations.getUserStatistics'() {
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'Must be logged in');
     }
 
-    return await getUserStatistics(this.userId);
+    return await getUserStatistics(this.userId, await workspaceScope(this.userId));
   },
 
   /**
@@ -618,14 +1113,7 @@ Meteor.methods({
       throw new Meteor.Error('not-found', 'Project not found');
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!(await userCanAsync(this.userId, 'project.view', { project }))) {
       throw new Meteor.Error('not-authorized', 'No access to this project');
     }
 
@@ -643,15 +1131,16 @@ Meteor.methods({
     }
 
     // SECURITY: Check role (managers and admins only)
-    const user = UsersCollection.findOne(this.userId);
-    if (user?.profile?.role === 'member') {
+    if (!(await userCanAsync(this.userId, 'team.viewPerformance', null))) {
       throw new Meteor.Error(
         'not-authorized',
         'Only managers and admins can view team performance'
       );
     }
 
-    return await getTeamPerformance(projectId);
+    const projectIds = await workspaceScope(this.userId, projectId);
+
+    return await getTeamPerformance(projectId, projectIds);
   },
 
   /**
@@ -667,25 +1156,118 @@ Meteor.methods({
     }
 
     // If requesting another user's activity, must be admin
-    if (options.userId && options.userId !== this.userId) {
-      const user = UsersCollection.findOne(this.userId);
-      if (user?.profile?.role !== 'admin') {
-        throw new Meteor.Error('not-authorized', 'Cannot view other users activity');
+    if (
+      options.userId &&
+      !(await userCanAsync(this.userId, 'user.viewActivity', aboutUser(options.userId)))
+    ) {
+      throw new Meteor.Error('not-authorized', 'Cannot view other users activity');
+    }
+
+    const organization = await getActiveOrganizationAsync(this.userId);
+
+    return await getActivityTimeline(options, getWorkspaceActivitySelector(organization?._id));
+  },
+
+  /**
+   * Get the dependency chain of a task
+   */
+  async 'aggregations.getDependencyChain'(taskId: string) {
+    check(taskId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'Must be logged in');
+    }
+
+    // SECURITY: Verify access to the task's project
+    const task = await TasksCollection.findOneAsync({ _id: taskId, ...NOT_TRASHED });
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    const project = await ProjectsCollection.findOneAsync(task.projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!(await userCanAsync(this.userId, 'project.view', { project }))) {
+      throw new Meteor.Error('not-authorized', 'No access to this project');
+    }
+
+    return await getDependencyChain(taskId);
+  },
+
+  /**
+   * Get weekly timesheets
+   *
+   * SECURITY:
+   * - Everyone can see their own timesheet
+   * - Managers and admins can see everyone's in their workspace (payroll, billing)
+   * - Only time logged in the active workspace is counted
+   */
+  async 'aggregations.getTimesheet'(options: {
+    from: Date;
+    to: Date;
+    userId?: string;
+    projectId?: string;
+  }) {
+    check(options, {
+      from: Date,
+      to: Date,
+      userId: Match.Maybe(String),
+      projectId: Match.Maybe(String),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'Must be logged in');
+    }
+
+    if (options.to <= options.from) {
+      throw new Meteor.Error('validation-error', '"to" must be after "from"');
+    }
+
+    const user = await getWorkspaceUserAsync(this.userId);
+    const projectIds = await workspaceScope(this.userId, options.projectId ?? undefined);
+
+    if (options.userId) {
+      if (!can(user, 'user.viewTimesheet', aboutUser(options.userId))) {
+        throw new Meteor.Error('not-authorized', 'Cannot view other users timesheets');
       }
+      return await getWeeklyTimesheet(options, projectIds);
     }
 
-    return await getActivityTimeline(options);
+    // No user given: everyone's time for those who may see it,
+    // otherwise (members) only their own
+    if (can(user, 'team.viewPerformance', null)) {
+      return await getWeeklyTimesheet(options, projectIds);
+    }
+    return await getWeeklyTimesheet({ ...options, userId: this.userId }, projectIds);
   },
 
   /**
    * Get priority distribution
+   *
+   * SECURITY:
+   * - One project: anyone who can view it
+   * - All projects of the workspace: managers and admins (same as team performance)
    */
-  async 'aggregations.getPriorityDistribution'() {
+  async 'aggregations.getPriorityDistribution'(projectId?: string) {
+    if (projectId) check(projectId, String);
+
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'Must be logged in');
     }
 
-    return await getPriorityDistribution();
+    const allowed = projectId
+      ? await userCanAsync(this.userId, 'project.view', {
+          project: await ProjectsCollection.findOneAsync(projectId),
+        })
+      : await userCanAsync(this.userId, 'team.viewPerformance', null);
+
+    if (!allowed) {
+      throw new Meteor.Error('not-authorized', 'No access to these statistics');
+    }
+
+    return await getPriorityDistribution(projectId, await workspaceScope(this.userId, projectId));
   },
 });
 
@@ -702,6 +1284,8 @@ Meteor.methods({
  * 8. $cond: Conditional logic
  * 9. $dateToString: Date formatting
  * 10. rawCollection(): Direct MongoDB driver access for aggregations
+ * 11. $graphLookup: Recursive traversal (dependency chains)
+ * 12. $isoWeek / $dateFromParts: Calendar bucketing (timesheets)
  *
  * PERFORMANCE TIPS:
  *
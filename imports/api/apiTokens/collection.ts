@@ -0,0 +1,60 @@
+/**
+ * API Tokens Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the ApiTokens collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { ApiToken } from './types';
+
+/**
+ * API Tokens Collection
+ */
+export const ApiTokensCollection = new Mongo.Collection<ApiToken>('apiTokens');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Hashed Token (unique)
+   *
+   * QUERY PATTERN: "Which token is this?"
+   * Runs on every token-authenticated call
+   */
+  ApiTokensCollection.createIndexAsync({ hashedToken: 1 }, { unique: true });
+
+  /**
+   * Index: Owner + Created Date
+   *
+   * QUERY PATTERN: "Show me my tokens"
+   * Common in: apiTokens.mine publication
+   */
+  ApiTokensCollection.createIndexAsync({ userId: 1, createdAt: -1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  ApiTokensCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ API tokens collection indexes and security configured');
+}
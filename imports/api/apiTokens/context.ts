@@ -0,0 +1,52 @@
+/**
+ * API Token Context
+ *
+ * SINGLE RESPONSIBILITY: Remember which token a connection or call is
+ * using
+ *
+ * TWO LEVELS:
+ * - Connection: apiTokens.authenticate ties a DDP connection to a token
+ *   until it closes
+ * - Call: while a method or subscription runs for a token, the token is
+ *   in CurrentApiToken - nested Meteor.call and activity log inserts
+ *   see it without it being passed along
+ */
+
+import { Meteor } from 'meteor/meteor';
+import type { ApiTokenContext } from './types';
+
+/**
+ * Token of the method or subscription currently running, if any
+ */
+export const CurrentApiToken = new Meteor.EnvironmentVariable<ApiTokenContext | undefined>();
+
+/**
+ * Token-authenticated connections, by connection ID
+ */
+const connectionTokens = new Map<string, ApiTokenContext>();
+
+/**
+ * The token a DDP connection authenticated with, if any
+ */
+export function getConnectionApiToken(connectionId: string): ApiTokenContext | undefined {
+  return connectionTokens.get(connectionId);
+}
+
+/**
+ * Tie a connection to a token, forgetting it when the connection closes
+ */
+export function setConnectionApiToken(connection: any, context: ApiTokenContext): void {
+  if (!connectionTokens.has(connection.id)) {
+    connection.onClose(() => connectionTokens.delete(connection.id));
+  }
+  connectionTokens.set(connection.id, context);
+}
+
+/**
+ * ID of the token the current call runs for
+ *
+ * @returns undefined for calls from a normal login (or no call at all)
+ */
+export function getCurrentApiTokenId(): string | undefined {
+  return CurrentApiToken.get()?.tokenId;
+}
@@ -0,0 +1,88 @@
+/**
+ * API Token Guard
+ *
+ * SINGLE RESPONSIBILITY: Hold token-authenticated calls to their scopes
+ *
+ * HOW: Wraps every registered method and publication once, at startup.
+ * Calls from normal logins pass straight through. Calls from a
+ * token-authenticated connection:
+ * 1. Re-check the token (revoked, expired or deactivated user stop it at once)
+ * 2. Need the scope listed in scopes.ts - unlisted names are refused
+ * 3. Run inside CurrentApiToken, so activity logs record the token
+ *
+ * WHY ONE WRAPPER INSTEAD OF A CHECK IN EVERY METHOD: Permission checks
+ * stay exactly those of a logged-in user; the token only narrows what
+ * can be reached, and a new method is closed to tokens until listed.
+ *
+ * NOTE: Server-only. Run after all methods and publications are registered.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { CurrentApiToken, getConnectionApiToken } from './context';
+import { findUsableApiToken } from './tokens';
+import { METHOD_SCOPES, PUBLICATION_SCOPES } from './scopes';
+import type { ApiScope, ApiTokenContext } from './types';
+
+/**
+ * Refuse a token without the given scope
+ */
+export function assertApiTokenHasScope(context: ApiTokenContext, scope: ApiScope): void {
+  if (!context.scopes.includes(scope)) {
+    throw new Meteor.Error('not-authorized', `This API token is missing the ${scope} scope`);
+  }
+}
+
+/**
+ * Refuse a name the token can't reach
+ */
+export function assertApiTokenScope(
+  context: ApiTokenContext,
+  table: Record<string, ApiScope | null>,
+  name: string
+): void {
+  if (!(name in table)) {
+    throw new Meteor.Error('not-authorized', `${name} can't be used with an API token`);
+  }
+
+  const scope = table[name];
+  if (scope) {
+    assertApiTokenHasScope(context, scope);
+  }
+}
+
+/**
+ * Wrap one handler table (methods or publications)
+ *
+ * NOTE: Exported for tests, which guard a table of their own
+ */
+export function guardHandlers(
+  handlers: Record<string, (...args: any[]) => any>,
+  table: Record<string, ApiScope | null>
+): void {
+  Object.keys(handlers).forEach((name) => {
+    const handler = handlers[name];
+
+    handlers[name] = function (this: any, ...args: any[]) {
+      // Nested calls were already checked with the outer call
+      const connectionToken = this.connection && getConnectionApiToken(this.connection.id);
+      if (!connectionToken || CurrentApiToken.get()) {
+        return handler.apply(this, args);
+      }
+
+      findUsableApiToken(connectionToken.tokenId);
+      assertApiTokenScope(connectionToken, table, name);
+
+      return CurrentApiToken.withValue(connectionToken, () => handler.apply(this, args));
+    };
+  });
+}
+
+/**
+ * Put every method and publication behind the token guard
+ */
+export function enforceApiTokenScopes(): void {
+  const server = Meteor.server as any;
+
+  guardHandlers(server.method_handlers, METHOD_SCOPES);
+  guardHandlers(server.publish_handlers, PUBLICATION_SCOPES);
+}
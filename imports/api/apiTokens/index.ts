@@ -0,0 +1,21 @@
+/**
+ * API Tokens Module
+ *
+ * Barrel export for all API token-related functionality
+ *
+ * import { ApiTokensCollection, ApiToken } from '/imports/api/apiTokens';
+ *
+ * NOTE: tokens.ts and guard.ts are server-only and imported directly
+ */
+
+// Export types
+export type { ApiToken, ApiScope, ApiTokenContext, NewApiToken } from './types';
+
+// Export collection
+export { ApiTokensCollection } from './collection';
+
+// Export scopes
+export { API_SCOPES, METHOD_SCOPES, PUBLICATION_SCOPES } from './scopes';
+
+// Export call context (read by activity logs)
+export { CurrentApiToken, getCurrentApiTokenId } from './context';
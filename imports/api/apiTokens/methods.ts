@@ -0,0 +1,165 @@
+/**
+ * API Tokens Methods
+ *
+ * Handles creating and revoking personal access tokens, and logging a
+ * DDP connection in with one.
+ *
+ * SPECIAL CONSIDERATIONS FOR API TOKENS:
+ * - The token is returned once, by apiTokens.create - afterwards only
+ *   its hash exists
+ * - Tokens are personal: everyone manages only their own
+ * - Creating and revoking need a real login; a token can't mint tokens
+ *   (apiTokens.create is not in scopes.ts)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { ApiTokensCollection, NewApiToken, ApiScope, API_SCOPES } from './index';
+import { setConnectionApiToken } from './context';
+import { generateApiToken, verifyApiToken } from './tokens';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TOKEN_TTL_DAYS = 90;
+const MAX_TOKEN_TTL_DAYS = 365;
+
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
+
+const ScopePattern = Match.OneOf(...API_SCOPES);
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Create a personal access token
+   *
+   * EXAMPLE:
+   * ('CI deploy bot', ['read:tasks', 'write:tasks'], 30)
+   * -> { tokenId, token: 'tmk_...' } - store the token now, it can't be
+   *    shown again
+   *
+   * @param name - Label for the token
+   * @param scopes - What it may do (at least one)
+   * @param expiresInDays - Lifetime, 1-365 days (default 90)
+   * @returns Token ID and the token itself
+   */
+  'apiTokens.create'(
+    name: string,
+    scopes: ApiScope[],
+    expiresInDays: number = DEFAULT_TOKEN_TTL_DAYS
+  ): { tokenId: string; token: string } {
+    check(name, String);
+    check(scopes, [ScopePattern]);
+    check(expiresInDays, Match.Integer);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (name.trim().length === 0 || name.length > 100) {
+      throw new Meteor.Error('validation-error', 'Token name must be 1-100 characters');
+    }
+
+    if (scopes.length === 0) {
+      throw new Meteor.Error('validation-error', 'Choose at least one scope');
+    }
+
+    if (expiresInDays < 1 || expiresInDays > MAX_TOKEN_TTL_DAYS) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Tokens expire after 1 to ${MAX_TOKEN_TTL_DAYS} days`
+      );
+    }
+
+    const { token, hashedToken, prefix } = generateApiToken();
+    const now = new Date();
+
+    const apiToken: NewApiToken = {
+      userId: this.userId,
+      name: name.trim(),
+      hashedToken,
+      prefix,
+      scopes: [...new Set(scopes)],
+      expiresAt: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000),
+      createdAt: now,
+    };
+
+    const tokenId = ApiTokensCollection.insert(apiToken);
+
+    return { tokenId, token };
+  },
+
+  /**
+   * Revoke one of your tokens
+   *
+   * SIDE EFFECTS: Connections using it are refused from their next call
+   *
+   * @param tokenId - Token to revoke
+   */
+  'apiTokens.revoke'(tokenId: string): void {
+    check(tokenId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    // SECURITY: Someone else's token is "not found", not "not yours"
+    const apiToken = ApiTokensCollection.findOne({ _id: tokenId, userId: this.userId });
+    if (!apiToken) {
+      throw new Meteor.Error('not-found', 'API token not found');
+    }
+
+    if (apiToken.revokedAt) {
+      throw new Meteor.Error('validation-error', 'API token is already revoked');
+    }
+
+    ApiTokensCollection.update(tokenId, { $set: { revokedAt: new Date() } });
+  },
+
+  /**
+   * Log this DDP connection in with a token
+   *
+   * WHY NOT AN ACCOUNTS LOGIN HANDLER: Those hand out a resume token,
+   * which would be a full login without the token's scopes. setUserId
+   * logs in this connection only, and guard.ts keeps it to the scopes.
+   *
+   * EXAMPLE (script using a DDP client):
+   * await connection.callAsync('apiTokens.authenticate', process.env.TMK_TOKEN);
+   * await connection.callAsync('tasks.insert', { ... });
+   *
+   * @param token - The token (tmk_...)
+   * @returns The token's user ID
+   */
+  async 'apiTokens.authenticate'(token: string): Promise<string> {
+    check(token, String);
+
+    if (!this.connection) {
+      throw new Meteor.Error('validation-error', 'Only client connections can authenticate');
+    }
+
+    const apiToken = verifyApiToken(token);
+
+    setConnectionApiToken(this.connection, {
+      tokenId: apiToken._id!,
+      userId: apiToken.userId,
+      scopes: apiToken.scopes,
+    });
+    await this.setUserId(apiToken.userId);
+
+    return apiToken.userId;
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Show Once, Store Hashed: The secret leaves the server exactly once
+ * 2. Connection Login: setUserId instead of a reusable resume token
+ * 3. Owner-Only Lookups: Other people's tokens simply don't exist
+ */
@@ -0,0 +1,94 @@
+/**
+ * API Token Scopes
+ *
+ * SINGLE RESPONSIBILITY: Which methods and publications a token may
+ * reach, and with which scope
+ *
+ * RULES:
+ * - Anything not listed here can't be used with a token at all - e.g.
+ *   managing tokens, passwords, workspaces and teams needs a real login
+ * - null means no scope is needed
+ * - The scope only opens the door: the method's own permission checks
+ *   still run as the token's user
+ */
+
+import type { ApiScope } from './types';
+
+export const API_SCOPES: ApiScope[] = [
+  'read:projects',
+  'write:projects',
+  'read:tasks',
+  'write:tasks',
+  'read:comments',
+  'write:comments',
+  'read:reports',
+];
+
+/**
+ * Methods a token may call
+ */
+export const METHOD_SCOPES: Record<string, ApiScope | null> = {
+  // Switching a connection over to its token
+  'apiTokens.authenticate': null,
+
+  'projects.insert': 'write:projects',
+  'projects.update': 'write:projects',
+  'projects.remove': 'write:projects',
+  'projects.restore': 'write:projects',
+  'projects.clone': 'write:projects',
+  'projects.setWorkflow': 'write:projects',
+  'projects.addTeamMember': 'write:projects',
+  'projects.removeTeamMember': 'write:projects',
+  'projects.setMemberRole': 'write:projects',
+
+  'tasks.insert': 'write:tasks',
+  'tasks.update': 'write:tasks',
+  'tasks.remove': 'write:tasks',
+  'tasks.restore': 'write:tasks',
+  'tasks.assign': 'write:tasks',
+  'tasks.move': 'write:tasks',
+  'tasks.bulkUpdate': 'write:tasks',
+  'tasks.bulkRemove': 'write:tasks',
+  'tasks.addDependency': 'write:tasks',
+  'tasks.removeDependency': 'write:tasks',
+  'tasks.addChecklistItem': 'write:tasks',
+  'tasks.setChecklistItemDone': 'write:tasks',
+  'tasks.moveChecklistItem': 'write:tasks',
+  'tasks.setRecurrence': 'write:tasks',
+  'tasks.logTime': 'write:tasks',
+  'tasks.startTimer': 'write:tasks',
+  'tasks.stopTimer': 'write:tasks',
+  'timeEntries.insert': 'write:tasks',
+  'timeEntries.update': 'write:tasks',
+  'timeEntries.remove': 'write:tasks',
+
+  'comments.insert': 'write:comments',
+  'comments.edit': 'write:comments',
+  'comments.remove': 'write:comments',
+
+  'aggregations.getUserStatistics': 'read:reports',
+  'aggregations.getProjectStatistics': 'read:reports',
+  'aggregations.getTeamPerformance': 'read:reports',
+  'aggregations.getActivityTimeline': 'read:reports',
+  'aggregations.getDependencyChain': 'read:reports',
+  'aggregations.getTimesheet': 'read:reports',
+  'aggregations.getPriorityDistribution': 'read:reports',
+};
+
+/**
+ * Publications a token may subscribe to
+ */
+export const PUBLICATION_SCOPES: Record<string, ApiScope | null> = {
+  'projects.owned': 'read:projects',
+  'projects.memberOf': 'read:projects',
+  'projects.single': 'read:projects',
+
+  'tasks.byProject': 'read:tasks',
+  'tasks.assignedToMe': 'read:tasks',
+  'tasks.assignedToMeAll': 'read:tasks',
+  'tasks.createdByMe': 'read:tasks',
+  'tasks.single': 'read:tasks',
+  'tasks.myOverdue': 'read:tasks',
+
+  'comments.forTask': 'read:comments',
+};
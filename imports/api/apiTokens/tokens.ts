@@ -0,0 +1,83 @@
+/**
+ * API Token Secrets
+ *
+ * SINGLE RESPONSIBILITY: Making tokens and checking presented ones
+ *
+ * NOTE: Server-only (node:crypto) - not exported from the barrel
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { Random } from 'meteor/random';
+import { createHash } from 'crypto';
+import { ApiTokensCollection } from './collection';
+import type { ApiToken } from './types';
+
+/**
+ * Marks the string as one of our tokens (and helps secret scanners)
+ */
+const TOKEN_PREFIX = 'tmk_';
+
+/**
+ * How often lastUsedAt is written - not on every call
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Hash a token for storage and lookup
+ *
+ * WHY SHA-256 AND NOT BCRYPT: Tokens are long random strings, not
+ * passwords - nothing to brute-force - and the hash is looked up on
+ * every call
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Make a new token
+ *
+ * @returns The token (shown to the owner once) and what gets stored
+ */
+export function generateApiToken(): { token: string; hashedToken: string; prefix: string } {
+  const token = TOKEN_PREFIX + Random.secret(40);
+  return {
+    token,
+    hashedToken: hashApiToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  };
+}
+
+/**
+ * Check that a token can still be used
+ *
+ * RULES: Not revoked, not expired, and its user still exists and isn't
+ * deactivated
+ *
+ * SECURITY: Every failure is the same error - no hint whether the token
+ * ever existed
+ *
+ * @param selector - { hashedToken } for a presented token, or the token
+ * ID for one a connection already authenticated with
+ */
+export function findUsableApiToken(selector: string | { hashedToken: string }): ApiToken {
+  const token = ApiTokensCollection.findOne(selector);
+  const user = token && Meteor.users.findOne(token.userId, { fields: { deactivatedAt: 1 } });
+
+  if (!token || token.revokedAt || token.expiresAt <= new Date() || !user || user.deactivatedAt) {
+    throw new Meteor.Error('not-authorized', 'Invalid or expired API token');
+  }
+
+  const now = new Date();
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    ApiTokensCollection.update(token._id!, { $set: { lastUsedAt: now } });
+  }
+
+  return token;
+}
+
+/**
+ * findUsableApiToken() for a token as presented by a client
+ */
+export function verifyApiToken(token: string): ApiToken {
+  return findUsableApiToken({ hashedToken: hashApiToken(token) });
+}
@@ -0,0 +1,80 @@
+/**
+ * API Token Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY API token-related types
+ */
+
+/**
+ * What a token may be used for
+ *
+ * read:* -> Subscribe to / fetch that kind of data
+ * write:* -> Call the methods that change it
+ * read:reports -> The aggregation methods (statistics, timesheets)
+ *
+ * NOTE: A scope never adds permissions - a token can do at most what its
+ * user can do, and only the parts its scopes cover (see scopes.ts)
+ */
+export type ApiScope =
+  | 'read:projects'
+  | 'write:projects'
+  | 'read:tasks'
+  | 'write:tasks'
+  | 'read:comments'
+  | 'write:comments'
+  | 'read:reports';
+
+/**
+ * Personal access token document structure
+ *
+ * PURPOSE: Scripts (CI, chat-ops) acting as a user without a password login
+ *
+ * SECURITY:
+ * - Only the SHA-256 hash of the token is stored; the token itself is
+ *   shown once, when created
+ * - Never published with hashedToken (apiTokens.mine leaves it out)
+ */
+export interface ApiToken {
+  _id?: string;
+
+  // Owner - the token acts as this user
+  // INDEXED: "My tokens" list
+  userId: string;
+
+  // Label chosen by the owner ("CI deploy bot")
+  name: string;
+
+  // INDEXED (unique): Looking a presented token up
+  hashedToken: string;
+
+  // First characters of the token, so the owner can tell tokens apart
+  prefix: string;
+
+  scopes: ApiScope[];
+
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+
+  createdAt: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewApiToken = Omit<ApiToken, '_id'>;
+
+/**
+ * The token a method or subscription is running for
+ *
+ * WHY: Carried through the call so scopes are checked once at the edge
+ * and activity logs can name the token (see context.ts)
+ */
+export interface ApiTokenContext {
+  tokenId: string;
+  userId: string;
+  scopes: ApiScope[];
+}
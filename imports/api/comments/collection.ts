@@ -0,0 +1,81 @@
+/**
+ * Comments Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the Comments collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Comment } from './types';
+
+/**
+ * Comments Collection
+ *
+ * NOTE: Comments are always read in the context of a single task,
+ * so every index starts with taskId or a thread reference
+ */
+export const CommentsCollection = new Mongo.Collection<Comment>('comments');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Task + Created Date
+   *
+   * QUERY PATTERN: "Show me the discussion on this task, oldest first"
+   * Common in: Task detail page (comments.forTask publication)
+   */
+  CommentsCollection.createIndexAsync({ taskId: 1, createdAt: 1 });
+
+  /**
+   * Index: Parent comment
+   *
+   * QUERY PATTERN: "Does this comment have replies?"
+   * Used when removing a comment (placeholder vs hard delete)
+   *
+   * WHY SPARSE: Top-level comments have no parentId
+   */
+  CommentsCollection.createIndexAsync({ parentId: 1 }, { sparse: true });
+
+  /**
+   * Index: Author + Created Date
+   *
+   * QUERY PATTERN: "Show me comments I wrote"
+   * Common in: User activity views
+   */
+  CommentsCollection.createIndexAsync({ authorId: 1, createdAt: -1 });
+
+  /**
+   * Index: Project
+   *
+   * QUERY PATTERN: "Remove every comment in this project"
+   * Used for project-wide cleanup
+   */
+  CommentsCollection.createIndexAsync({ projectId: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  CommentsCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Comments collection indexes and security configured');
+}
@@ -0,0 +1,16 @@
+/**
+ * Comments Module
+ *
+ * Barrel export for all comment-related functionality
+ *
+ * import { CommentsCollection, Comment } from '/imports/api/comments';
+ */
+
+// Export types
+export type { Comment, NewComment } from './types';
+
+// Export collection
+export { CommentsCollection } from './collection';
+
+// Export schemas (OpenAPI)
+export { CommentSchema } from './schemas';
@@ -0,0 +1,282 @@
+/**
+ * Comments Methods
+ *
+ * Handles posting, editing and removing comments on tasks.
+ *
+ * SPECIAL CONSIDERATIONS FOR COMMENTS:
+ * - Comments belong to tasks (must validate task exists)
+ * - Anyone who can see a task can discuss it (same rules as task visibility)
+ * - Replies form threads (must validate parent is on the same task)
+ * - Removing a comment with replies leaves a placeholder so threads stay intact
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { CommentsCollection, NewComment } from './index';
+import { findActiveTask } from '../tasks';
+import { ActivityLogsCollection } from '../activityLogs';
+import { userCan, inProject } from '../policy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Maximum reply nesting
+ *
+ * WHY: Deeply nested threads are unreadable and expensive to render.
+ * Replies beyond this depth are rejected; reply to an earlier comment instead.
+ */
+const MAX_THREAD_DEPTH = 5;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate comment body
+ */
+function validateBody(body: string): void {
+  if (body.trim().length === 0) {
+    throw new Meteor.Error('validation-error', 'Comment cannot be empty');
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new Meteor.Error(
+      'validation-error',
+      `Comment must be less than ${MAX_COMMENT_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Log comment activity against the task
+ *
+ * WHY entityType 'task':
+ * Comments show up in the task's activity timeline (activityLogs.forTask)
+ * without a separate query
+ */
+function logCommentActivity(
+  userId: string,
+  taskId: string,
+  metadata: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action: 'comment',
+    entityType: 'task',
+    entityId: taskId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Remove placeholders left without replies
+ *
+ * WHY: A removed comment stays as a placeholder only to hold its replies
+ * together. Once its last reply is gone it would be an empty "[deleted]"
+ * row, so it goes too - and the same may then be true of its parent.
+ *
+ * @param parentId - Parent of the comment just removed
+ */
+function removeEmptyPlaceholders(parentId: string | undefined): void {
+  while (parentId) {
+    const parent = CommentsCollection.findOne(parentId, { fields: { parentId: 1, deletedAt: 1 } });
+    if (!parent?.deletedAt || CommentsCollection.find({ parentId }).count() > 0) {
+      return;
+    }
+
+    CommentsCollection.remove(parentId);
+    parentId = parent.parentId;
+  }
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Post a comment on a task
+   *
+   * @param taskId - Task to comment on
+   * @param body - Comment text (1-5000 characters)
+   * @param parentId - Optional comment being replied to
+   * @returns New comment ID
+   */
+  'comments.insert'(taskId: string, body: string, parentId?: string): string {
+    check(taskId, String);
+    check(body, String);
+    check(parentId, Match.Maybe(String));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in to comment');
+    }
+
+    validateBody(body);
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    // SECURITY: Same rules as viewing the task
+    if (!userCan(this.userId, 'comment.create', inProject(task.projectId))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to comment on this task'
+      );
+    }
+
+    const comment: NewComment = {
+      taskId,
+      projectId: task.projectId,
+      authorId: this.userId, // SECURITY: Always from authenticated user
+      body,
+      depth: 0,
+      createdAt: new Date(),
+    };
+
+    // THREADING: Validate parent and inherit its thread
+    if (parentId) {
+      const parent = CommentsCollection.findOne(parentId);
+      if (!parent || parent.taskId !== taskId) {
+        throw new Meteor.Error('not-found', 'Parent comment not found on this task');
+      }
+      if (parent.deletedAt) {
+        throw new Meteor.Error('validation-error', 'Cannot reply to a deleted comment');
+      }
+      if (parent.depth + 1 > MAX_THREAD_DEPTH) {
+        throw new Meteor.Error(
+          'validation-error',
+          `Replies cannot be nested more than ${MAX_THREAD_DEPTH} levels deep`
+        );
+      }
+
+      comment.parentId = parentId;
+      comment.threadId = parent.threadId || parentId;
+      comment.depth = parent.depth + 1;
+    }
+
+    const commentId = CommentsCollection.insert(comment);
+
+    logCommentActivity(this.userId, taskId, {
+      commentId,
+      parentId,
+    });
+
+    return commentId;
+  },
+
+  /**
+   * Edit a comment
+   *
+   * SECURITY: Only the author can change what they wrote
+   *
+   * @param commentId - Comment to edit
+   * @param body - New comment text
+   */
+  'comments.edit'(commentId: string, body: string): void {
+    check(commentId, String);
+    check(body, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    validateBody(body);
+
+    const comment = CommentsCollection.findOne(commentId);
+    if (!comment || comment.deletedAt) {
+      throw new Meteor.Error('not-found', 'Comment not found');
+    }
+
+    // SECURITY: Author only - and the author may have lost access to the
+    // project since posting
+    if (!userCan(this.userId, 'comment.edit', { comment, ...inProject(comment.projectId) })) {
+      throw new Meteor.Error('not-authorized', 'You can only edit your own comments');
+    }
+
+    // No-op edits don't mark the comment as edited
+    if (comment.body === body) {
+      return;
+    }
+
+    const now = new Date();
+    CommentsCollection.update(commentId, {
+      $set: {
+        body,
+        editedAt: now,
+        updatedAt: now,
+      },
+    });
+
+    logCommentActivity(this.userId, comment.taskId, {
+      commentId,
+      action: 'edited comment',
+    });
+  },
+
+  /**
+   * Remove a comment
+   *
+   * DESIGN DECISION: Placeholder vs hard delete
+   * - Comment without replies: removed from the database
+   * - Comment with replies: body cleared and marked deleted
+   *
+   * WHY: Deleting a comment that others replied to would orphan the replies
+   * and lose the context of the discussion
+   *
+   * @param commentId - Comment to remove
+   */
+  'comments.remove'(commentId: string): void {
+    check(commentId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const comment = CommentsCollection.findOne(commentId);
+    if (!comment || comment.deletedAt) {
+      throw new Meteor.Error('not-found', 'Comment not found');
+    }
+
+    if (!userCan(this.userId, 'comment.remove', { comment, ...inProject(comment.projectId) })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the author, project owner or admin can remove comments'
+      );
+    }
+
+    const hasReplies = CommentsCollection.find({ parentId: commentId }).count() > 0;
+
+    if (hasReplies) {
+      CommentsCollection.update(commentId, {
+        $set: {
+          body: '',
+          deletedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+    } else {
+      CommentsCollection.remove(commentId);
+      removeEmptyPlaceholders(comment.parentId);
+    }
+
+    logCommentActivity(this.userId, comment.taskId, {
+      commentId,
+      action: 'removed comment',
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Shared Permission Rules: Reuse task visibility instead of a new rule set
+ * 2. Denormalization: projectId copied onto comments for cheap permission checks
+ * 3. Tree Structures: parentId + threadId + depth for threaded discussions
+ * 4. Soft Delete Where It Matters: Placeholders keep threads intact
+ */
@@ -0,0 +1,27 @@
+/**
+ * Comment Schemas
+ *
+ * SINGLE RESPONSIBILITY: The comment document, described once (see
+ * schemas/schema.ts) for the REST API's OpenAPI document and client
+ */
+
+import { objectOf, string, integer, date, optional } from '../schemas';
+import type { Comment } from './types';
+
+/**
+ * The comment document, as the API returns it
+ */
+export const CommentSchema = objectOf<Comment>({ name: 'Comment', source: 'comments/types' })({
+  _id: string(),
+  taskId: string(),
+  projectId: string(),
+  authorId: string(),
+  body: string(),
+  parentId: optional(string()),
+  threadId: optional(string()),
+  depth: integer(),
+  createdAt: date(),
+  updatedAt: optional(date()),
+  editedAt: optional(date()),
+  deletedAt: optional(date()),
+});
@@ -0,0 +1,63 @@
+/**
+ * Comment Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY comment-related types
+ */
+
+/**
+ * Comment document structure
+ *
+ * RELATIONSHIP DESIGN:
+ * - Belongs to one Task (taskId)
+ * - Written by one User (authorId)
+ * - Optionally replies to another Comment (parentId)
+ *
+ * WHY: Separate collection instead of embedding comments in tasks
+ * - Discussions grow unbounded (would bloat task documents)
+ * - Comments are published and paginated independently
+ * - Editing a comment doesn't rewrite the whole task
+ *
+ * THREADING:
+ * Replies reference their parent comment. We store the root comment id
+ * (threadId) and the nesting depth so a whole thread can be fetched
+ * with one indexed query instead of walking the tree.
+ */
+export interface Comment {
+  _id?: string;
+
+  // Parent task reference
+  // INDEXED: Most queries are "comments for this task"
+  taskId: string;
+
+  // Denormalized project reference
+  // WHY: Permission checks and project-wide cleanup without a task lookup
+  projectId: string;
+
+  // Author reference
+  authorId: string;
+
+  body: string;
+
+  // Threading (both undefined/0 for top-level comments)
+  parentId?: string;
+  threadId?: string;
+  depth: number;
+
+  // Audit fields
+  createdAt: Date;
+  updatedAt?: Date;
+  editedAt?: Date; // Only set when the body actually changed
+
+  // Set when a comment with replies is removed
+  // WHY: Keeps the thread readable ("[deleted]") instead of orphaning replies
+  deletedAt?: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewComment = Omit<Comment, '_id'>;
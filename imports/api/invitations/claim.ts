@@ -0,0 +1,37 @@
+/**
+ * Claiming Invitations
+ *
+ * SINGLE RESPONSIBILITY: Attach invitations sent to an email address
+ * to the account that now owns that address
+ *
+ * WHY: Invitations can be sent before the invitee has an account.
+ * Once the account exists, the invitations show up in its
+ * "my invitations" list like any other - the user still has to accept.
+ */
+
+import { InvitationsCollection } from './collection';
+
+/**
+ * Claim pending invitations for an account
+ *
+ * SECURITY: Pass verified addresses only - claiming on an unverified one
+ * would hand the invitation to whoever typed that address at sign-up
+ *
+ * @param userId - The account
+ * @param emails - The account's verified email addresses
+ * @returns Number of invitations claimed
+ */
+export function claimInvitations(userId: string, emails: string[]): number {
+  if (emails.length === 0) return 0;
+
+  return InvitationsCollection.update(
+    {
+      email: { $in: emails.map((email) => email.toLowerCase()) },
+      inviteeId: { $exists: false },
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { inviteeId: userId } },
+    { multi: true }
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Invitations Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the Invitations collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Invitation } from './types';
+
+/**
+ * Invitations Collection
+ */
+export const InvitationsCollection = new Mongo.Collection<Invitation>('invitations');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Token (unique)
+   *
+   * QUERY PATTERN: "Which invitation is this link for?"
+   * Used by invitations.accept / invitations.decline
+   */
+  InvitationsCollection.createIndexAsync({ token: 1 }, { unique: true });
+
+  /**
+   * Index: Invitee + Status
+   *
+   * QUERY PATTERN: "Show me my pending invitations"
+   * Common in: invitations.mine publication
+   *
+   * WHY SPARSE: Email invitations have no inviteeId until claimed
+   */
+  InvitationsCollection.createIndexAsync({ inviteeId: 1, status: 1 }, { sparse: true });
+
+  /**
+   * Index: Email + Status
+   *
+   * QUERY PATTERN: "Which invitations wait for this address?"
+   * Used when an account is created (claiming)
+   */
+  InvitationsCollection.createIndexAsync({ email: 1, status: 1 }, { sparse: true });
+
+  /**
+   * Index: Project + Status
+   *
+   * QUERY PATTERN: "Who has been invited to this project?"
+   * Common in: Team settings (invitations.forProject), duplicate checks
+   */
+  InvitationsCollection.createIndexAsync({ projectId: 1, status: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  InvitationsCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Invitations collection indexes and security configured');
+}
@@ -0,0 +1,16 @@
+/**
+ * Invitations Module
+ *
+ * Barrel export for all invitation-related functionality
+ *
+ * import { InvitationsCollection, Invitation } from '/imports/api/invitations';
+ */
+
+// Export types
+export type { Invitation, InvitationStatus, NewInvitation } from './types';
+
+// Export collection
+export { InvitationsCollection } from './collection';
+
+// Export claiming (used by the account creation hook)
+export { claimInvitations } from './claim';
@@ -0,0 +1,435 @@
+/**
+ * Invitations Methods
+ *
+ * Handles inviting people to a project and answering invitations.
+ *
+ * SPECIAL CONSIDERATIONS FOR INVITATIONS:
+ * - The invitee decides: nobody joins a project until they accept
+ * - Invitees are named by username (existing account) or email
+ *   (account may not exist yet - see claim.ts)
+ * - Invitations expire; expired ones can't be answered, only re-sent
+ * - Answering needs the token AND being the invitee, so a forwarded
+ *   link is useless to anyone else
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { Random } from 'meteor/random';
+import { InvitationsCollection, Invitation, NewInvitation } from './index';
+import {
+  ProjectsCollection,
+  ProjectRole,
+  PROJECT_ROLES,
+  DEFAULT_MEMBER_ROLE,
+  buildMembers,
+} from '../projects';
+import {
+  OrganizationsCollection,
+  DEFAULT_ORGANIZATION_ROLE,
+  addOrganizationMember,
+} from '../organizations';
+import { ActivityLogsCollection } from '../activityLogs';
+import { UsersCollection, findUserByEmail, getVerifiedEmails } from '../users';
+import { userCan } from '../policy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * How long an invitation stays open
+ */
+const INVITATION_TTL_DAYS = 7;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
+
+const RolePattern = Match.OneOf(...PROJECT_ROLES);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Load an invitation the current user is answering
+ *
+ * RULES:
+ * - Unknown token, or an invitation for someone else: not-found
+ *   (no hint that the token exists)
+ * - Already answered or expired: validation-error
+ */
+function findOpenInvitation(token: string, userId: string): Invitation {
+  const invitation = InvitationsCollection.findOne({ token });
+
+  const isInvitee =
+    !!invitation &&
+    (invitation.inviteeId
+      ? invitation.inviteeId === userId
+      : !!invitation.email &&
+        getVerifiedEmails(Meteor.users.findOne(userId)).includes(invitation.email));
+
+  if (!invitation || !isInvitee) {
+    throw new Meteor.Error('not-found', 'Invitation not found');
+  }
+
+  if (invitation.status !== 'pending') {
+    throw new Meteor.Error('validation-error', `Invitation was already ${invitation.status}`);
+  }
+
+  if (invitation.expiresAt <= new Date()) {
+    throw new Meteor.Error('validation-error', 'Invitation has expired');
+  }
+
+  return invitation;
+}
+
+/**
+ * Record an answer, only if nobody answered first
+ *
+ * WHY CONDITIONAL: Accepting in two tabs at once must not add the
+ * user twice or log two joins
+ */
+function answerInvitation(
+  invitation: Invitation,
+  status: Exclude<Invitation['status'], 'pending'>,
+  userId: string
+): void {
+  const updated = InvitationsCollection.update(
+    { _id: invitation._id, status: 'pending' },
+    {
+      $set: {
+        status,
+        inviteeId: invitation.inviteeId || userId,
+        respondedAt: new Date(),
+        respondedBy: userId,
+      },
+    }
+  );
+
+  if (updated === 0) {
+    throw new Meteor.Error('validation-error', 'Invitation was already answered');
+  }
+}
+
+/**
+ * Bring an invitee into the project's organization
+ *
+ * WHY: A project invitation is how most people reach a workspace; they
+ * join it as DEFAULT_ORGANIZATION_ROLE, and it becomes their active one
+ * if they had none
+ */
+function joinProjectOrganization(userId: string, organizationId: string): void {
+  const organization = OrganizationsCollection.findOne(organizationId);
+  if (!organization) {
+    throw new Meteor.Error('not-found', 'Organization no longer exists');
+  }
+
+  if (!organization.memberIds.includes(userId)) {
+    OrganizationsCollection.update(organizationId, {
+      $addToSet: { memberIds: userId },
+      $set: {
+        members: addOrganizationMember(
+          organization.members,
+          userId,
+          DEFAULT_ORGANIZATION_ROLE
+        ),
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  UsersCollection.update(
+    { _id: userId, activeOrganizationId: { $exists: false } },
+    { $set: { activeOrganizationId: organizationId } }
+  );
+}
+
+/**
+ * Log invitation activity against the project
+ */
+function logInvitationActivity(
+  userId: string,
+  projectId: string,
+  metadata: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action: 'update',
+    entityType: 'project',
+    entityId: projectId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Invite someone to a project
+   *
+   * EXAMPLES:
+   * ('project1', 'jdoe') -> existing user by username
+   * ('project1', 'new.hire@example.com', 'viewer') -> by email, account optional
+   *
+   * RE-INVITING: A pending invitation for the same person is renewed
+   * (new expiry and role, same link) instead of duplicated
+   *
+   * PERMISSION RULES: Same as adding a team member directly
+   *
+   * @param projectId - Project to invite to
+   * @param invitee - Username or email address
+   * @param role - Role given on accept (default: contributor)
+   * @returns Invitation ID and token (for sharing the link by hand)
+   */
+  'invitations.create'(
+    projectId: string,
+    invitee: string,
+    role: ProjectRole = DEFAULT_MEMBER_ROLE
+  ): { invitationId: string; token: string } {
+    check(projectId, String);
+    check(invitee, String);
+    check(role, RolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
+      throw new Meteor.Error('not-authorized', 'You do not have permission to invite to this project');
+    }
+
+    if (
+      role === 'maintainer' &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can invite maintainers'
+      );
+    }
+
+    if (project.status === 'archived') {
+      throw new Meteor.Error('validation-error', 'Cannot invite to an archived project');
+    }
+
+    // RESOLVE INVITEE: Username must exist, an email may not (yet)
+    const name = invitee.trim();
+    let inviteeId: string | undefined;
+    let email: string | undefined;
+
+    if (name.includes('@')) {
+      if (!EMAIL_PATTERN.test(name)) {
+        throw new Meteor.Error('validation-error', 'Invalid email address');
+      }
+      email = name.toLowerCase();
+      inviteeId = findUserByEmail(email)?._id;
+    } else {
+      inviteeId = Meteor.users.findOne({ username: name })?._id;
+      if (!inviteeId) {
+        throw new Meteor.Error('not-found', 'No user with that username');
+      }
+    }
+
+    if (inviteeId === project.ownerId || (inviteeId && project.teamMemberIds.includes(inviteeId))) {
+      throw new Meteor.Error('validation-error', 'User is already on this project');
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    // RE-INVITE: Renew the open invitation for the same person
+    const existing = InvitationsCollection.findOne({
+      projectId,
+      status: 'pending',
+      ...(inviteeId ? { inviteeId } : { email }),
+    });
+
+    if (existing) {
+      InvitationsCollection.update(existing._id!, {
+        $set: { role, expiresAt, invitedBy: this.userId },
+      });
+      return { invitationId: existing._id!, token: existing.token };
+    }
+
+    const invitation: NewInvitation = {
+      projectId,
+      projectName: project.name,
+      role,
+      token: Random.secret(),
+      status: 'pending',
+      expiresAt,
+      invitedBy: this.userId,
+      createdAt: now,
+    };
+
+    // Only set what we know: claiming looks for email invitations without an inviteeId
+    if (inviteeId) invitation.inviteeId = inviteeId;
+    if (email) invitation.email = email;
+
+    const invitationId = InvitationsCollection.insert(invitation);
+
+    logInvitationActivity(this.userId, projectId, {
+      action: 'invited',
+      invitationId,
+      inviteeId,
+      email,
+      role,
+    });
+
+    return { invitationId, token: invitation.token };
+  },
+
+  /**
+   * Accept an invitation and join the project
+   *
+   * SIDE EFFECTS:
+   * - Adds the user to the project's organization, if not in it yet
+   * - Adds the user to teamMemberIds / members with the invited role
+   * - Logs activity on the project
+   *
+   * NOTE: Someone added directly in the meantime keeps their current role
+   *
+   * @param token - Invitation token
+   * @returns The project joined
+   */
+  'invitations.accept'(token: string): string {
+    check(token, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const invitation = findOpenInvitation(token, this.userId);
+
+    const project = ProjectsCollection.findOne(invitation.projectId);
+    if (!project || project.status === 'archived') {
+      throw new Meteor.Error('not-found', 'Project no longer exists');
+    }
+
+    answerInvitation(invitation, 'accepted', this.userId);
+
+    joinProjectOrganization(this.userId, project.organizationId);
+
+    const alreadyOnProject =
+      project.ownerId === this.userId || project.teamMemberIds.includes(this.userId);
+
+    if (!alreadyOnProject) {
+      ProjectsCollection.update(project._id!, {
+        $addToSet: { teamMemberIds: this.userId },
+        $set: {
+          members: buildMembers(
+            [...project.teamMemberIds, this.userId],
+            project.members,
+            invitation.role
+          ),
+          updatedAt: new Date(),
+        },
+      });
+    }
+
+    logInvitationActivity(this.userId, project._id!, {
+      action: 'accepted invitation',
+      invitationId: invitation._id,
+      invitedBy: invitation.invitedBy,
+      role: invitation.role,
+    });
+
+    return project._id!;
+  },
+
+  /**
+   * Decline an invitation
+   *
+   * @param token - Invitation token
+   */
+  'invitations.decline'(token: string): void {
+    check(token, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const invitation = findOpenInvitation(token, this.userId);
+
+    answerInvitation(invitation, 'declined', this.userId);
+
+    logInvitationActivity(this.userId, invitation.projectId, {
+      action: 'declined invitation',
+      invitationId: invitation._id,
+    });
+  },
+
+  /**
+   * Withdraw a pending invitation
+   *
+   * PERMISSION RULES: Whoever sent it, or anyone who manages the team
+   *
+   * @param invitationId - Invitation to revoke
+   */
+  'invitations.revoke'(invitationId: string): void {
+    check(invitationId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const invitation = InvitationsCollection.findOne(invitationId);
+    if (!invitation) {
+      throw new Meteor.Error('not-found', 'Invitation not found');
+    }
+
+    const canRevoke =
+      invitation.invitedBy === this.userId ||
+      userCan(this.userId, 'project.manageTeam', {
+        project: ProjectsCollection.findOne(invitation.projectId),
+      });
+
+    if (!canRevoke) {
+      throw new Meteor.Error('not-authorized', 'You cannot revoke this invitation');
+    }
+
+    if (invitation.status !== 'pending') {
+      throw new Meteor.Error('validation-error', `Invitation was already ${invitation.status}`);
+    }
+
+    const updated = InvitationsCollection.update(
+      { _id: invitationId, status: 'pending' },
+      {
+        $set: {
+          status: 'revoked',
+          respondedAt: new Date(),
+          respondedBy: this.userId,
+        },
+      }
+    );
+
+    if (updated === 0) {
+      throw new Meteor.Error('validation-error', 'Invitation was already answered');
+    }
+
+    logInvitationActivity(this.userId, invitation.projectId, {
+      action: 'revoked invitation',
+      invitationId,
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Consent Flow: Invite -> accept/decline instead of adding directly
+ * 2. Unguessable Tokens: Random.secret() links, checked together with identity
+ * 3. Conditional Updates: status: 'pending' in the selector settles races
+ * 4. Lazy Expiry: expiresAt compared at read time, no cleanup job needed
+ */
@@ -0,0 +1,71 @@
+/**
+ * Invitation Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY invitation-related types
+ */
+
+import type { ProjectRole } from '../projects/types';
+
+/**
+ * Invitation lifecycle
+ *
+ * pending -> Waiting for the invitee (until expiresAt)
+ * accepted -> Invitee joined the project
+ * declined -> Invitee said no
+ * revoked -> Withdrawn by the project team before an answer
+ *
+ * NOTE: There is no 'expired' status - a pending invitation past its
+ * expiresAt is simply ignored, no job has to sweep them
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+/**
+ * Invitation document structure
+ *
+ * RELATIONSHIP DESIGN:
+ * - Belongs to one Project (projectId)
+ * - Sent by one User (invitedBy)
+ * - Addressed to an existing User (inviteeId) or to an email address
+ *   that has no account yet (email only, inviteeId set once claimed)
+ *
+ * WHY: Separate collection instead of embedding in projects
+ * - Invitees query "my invitations" across all projects
+ * - Answered invitations stay as a record without bloating the project
+ */
+export interface Invitation {
+  _id?: string;
+
+  // Target project
+  projectId: string;
+  projectName: string; // Denormalized: invitees can't read the project yet
+
+  // Invitee
+  // INDEXED: "My pending invitations" by user, claiming by email
+  inviteeId?: string;
+  email?: string; // Lowercased
+
+  // Role given on accept
+  role: ProjectRole;
+
+  // Secret for the invitation link (/invitations/<token>)
+  // SECURITY: Only published to the invitee, never to the project team
+  token: string;
+
+  status: InvitationStatus;
+  expiresAt: Date;
+
+  // Audit fields
+  invitedBy: string;
+  createdAt: Date;
+  respondedAt?: Date; // Accepted, declined or revoked
+  respondedBy?: string;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewInvitation = Omit<Invitation, '_id'>;
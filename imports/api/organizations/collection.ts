@@ -0,0 +1,60 @@
+/**
+ * Organizations Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the Organizations collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Organization } from './types';
+
+/**
+ * Organizations Collection
+ */
+export const OrganizationsCollection = new Mongo.Collection<Organization>('organizations');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Slug (unique)
+   *
+   * WHY UNIQUE: The slug identifies the workspace in URLs
+   */
+  OrganizationsCollection.createIndexAsync({ slug: 1 }, { unique: true });
+
+  /**
+   * Index: Members
+   *
+   * QUERY PATTERN: "Which organizations am I in?"
+   * Common in: Workspace switcher, resolving the active workspace on
+   * every permission check
+   */
+  OrganizationsCollection.createIndexAsync({ memberIds: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  OrganizationsCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Organizations collection indexes and security configured');
+}
@@ -0,0 +1,34 @@
+/**
+ * Organizations Module
+ *
+ * Barrel export for all organization-related functionality
+ *
+ * import { OrganizationsCollection, Organization } from '/imports/api/organizations';
+ */
+
+// Export types
+export type {
+  Organization,
+  OrganizationMember,
+  OrganizationRole,
+  NewOrganization,
+} from './types';
+
+// Export membership helpers
+export {
+  ORGANIZATION_ROLES,
+  DEFAULT_ORGANIZATION_ROLE,
+  getOrganizationRole,
+  addOrganizationMember,
+} from './members';
+
+// Export collection
+export { OrganizationsCollection } from './collection';
+
+// Export active workspace helpers (server)
+export {
+  getActiveOrganization,
+  getActiveOrganizationAsync,
+  getWorkspaceProjectIds,
+  getWorkspaceActivitySelector,
+} from './workspace';
@@ -0,0 +1,41 @@
+/**
+ * Organization Membership
+ *
+ * SINGLE RESPONSIBILITY: Read and build organization member lists
+ *
+ * WHY SHARED (client + server): The policy asks for organization roles,
+ * and the workspace switcher shows them
+ */
+
+import type { Organization, OrganizationMember, OrganizationRole } from './types';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['admin', 'manager', 'member'];
+
+/**
+ * Role given to people joining through a project invitation
+ */
+export const DEFAULT_ORGANIZATION_ROLE: OrganizationRole = 'member';
+
+/**
+ * Get a user's role in an organization
+ *
+ * @returns The role, or undefined if the user is not a member
+ */
+export function getOrganizationRole(
+  organization: Pick<Organization, 'members'> | null | undefined,
+  userId: string
+): OrganizationRole | undefined {
+  return organization?.members.find((m) => m.userId === userId)?.role;
+}
+
+/**
+ * Add a user to a member list (no-op if already there)
+ */
+export function addOrganizationMember(
+  members: OrganizationMember[],
+  userId: string,
+  role: OrganizationRole
+): OrganizationMember[] {
+  if (members.some((m) => m.userId === userId)) return members;
+  return [...members, { userId, role, joinedAt: new Date() }];
+}
@@ -0,0 +1,414 @@
+/**
+ * Organizations Methods
+ *
+ * Handles creating organizations, their membership, and switching the
+ * active workspace.
+ *
+ * SPECIAL CONSIDERATIONS FOR ORGANIZATIONS:
+ * - An organization always keeps at least one admin
+ * - Leaving an organization also takes the user off its project teams
+ * - Project owners must hand their projects over before leaving
+ * - Most people join through a project invitation (see invitations);
+ *   addMember is for admins bringing in someone who already has an account
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import {
+  OrganizationsCollection,
+  NewOrganization,
+  Organization,
+  OrganizationRole,
+  ORGANIZATION_ROLES,
+  getOrganizationRole,
+  addOrganizationMember,
+} from './index';
+import { ProjectsCollection } from '../projects';
+import { TeamsCollection } from '../teams';
+import { ActivityLogsCollection } from '../activityLogs';
+import { UsersCollection, findUserByHandle } from '../users';
+import { userCan } from '../policy';
+
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
+
+const OrganizationRolePattern = Match.OneOf(...ORGANIZATION_ROLES);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate an organization name
+ */
+function validateName(name: string): void {
+  if (name.trim().length < 2) {
+    throw new Meteor.Error('validation-error', 'Organization name must be at least 2 characters');
+  }
+  if (name.length > 100) {
+    throw new Meteor.Error('validation-error', 'Organization name must be less than 100 characters');
+  }
+}
+
+/**
+ * Build a unique slug from a name
+ *
+ * EXAMPLE: 'Acme Corp' -> 'acme-corp', or 'acme-corp-2' if taken
+ */
+function uniqueSlug(name: string): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50) || 'workspace';
+
+  let slug = base;
+  for (let n = 2; OrganizationsCollection.findOne({ slug }); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+/**
+ * Load an organization the current user may manage
+ */
+function findManagedOrganization(userId: string, organizationId: string): Organization {
+  const organization = OrganizationsCollection.findOne(organizationId);
+  if (!organization) {
+    throw new Meteor.Error('not-found', 'Organization not found');
+  }
+
+  if (!userCan(userId, 'organization.manage', { organization })) {
+    throw new Meteor.Error('not-authorized', 'Only organization admins can do this');
+  }
+
+  return organization;
+}
+
+/**
+ * Refuse changes that would leave an organization without an admin
+ */
+function assertKeepsAnAdmin(organization: Organization, userId: string): void {
+  const otherAdmins = organization.members.filter(
+    (m) => m.role === 'admin' && m.userId !== userId
+  );
+  if (otherAdmins.length === 0) {
+    throw new Meteor.Error('validation-error', 'An organization needs at least one admin');
+  }
+}
+
+/**
+ * Log organization activity
+ */
+function logOrganizationActivity(
+  userId: string,
+  action: 'create' | 'update',
+  organizationId: string,
+  metadata?: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action,
+    entityType: 'organization',
+    entityId: organizationId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Create an organization
+   *
+   * The creator becomes its first admin, and it becomes their active workspace
+   *
+   * @param name - Organization name
+   * @returns New organization ID
+   */
+  'organizations.create'(name: string): string {
+    check(name, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (!userCan(this.userId, 'organization.create', null)) {
+      throw new Meteor.Error('not-authorized', 'You cannot create organizations');
+    }
+
+    validateName(name);
+
+    const now = new Date();
+    const organization: NewOrganization = {
+      name: name.trim(),
+      slug: uniqueSlug(name),
+      memberIds: [this.userId],
+      members: [{ userId: this.userId, role: 'admin', joinedAt: now }],
+      createdBy: this.userId,
+      createdAt: now,
+    };
+
+    const organizationId = OrganizationsCollection.insert(organization);
+
+    UsersCollection.update(this.userId, {
+      $set: { activeOrganizationId: organizationId },
+    });
+
+    logOrganizationActivity(this.userId, 'create', organizationId);
+
+    return organizationId;
+  },
+
+  /**
+   * Switch the active workspace
+   *
+   * WHY A METHOD: The active workspace scopes everything the server
+   * sends back, so it may only be set to an organization the user is in
+   *
+   * NOTE: Subscriptions opened before the switch keep their old data;
+   * the client re-subscribes when activeOrganizationId changes
+   *
+   * @param organizationId - Organization to work in
+   */
+  'organizations.switch'(organizationId: string): void {
+    check(organizationId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization = OrganizationsCollection.findOne({
+      _id: organizationId,
+      memberIds: this.userId,
+    });
+    if (!organization) {
+      throw new Meteor.Error('not-found', 'Organization not found');
+    }
+
+    UsersCollection.update(this.userId, {
+      $set: { activeOrganizationId: organizationId },
+    });
+  },
+
+  /**
+   * Rename an organization
+   *
+   * NOTE: The slug stays the same, so existing links keep working
+   *
+   * @param organizationId - Organization to rename
+   * @param name - New name
+   */
+  'organizations.rename'(organizationId: string, name: string): void {
+    check(organizationId, String);
+    check(name, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization = findManagedOrganization(this.userId, organizationId);
+    validateName(name);
+
+    OrganizationsCollection.update(organizationId, {
+      $set: { name: name.trim(), updatedAt: new Date() },
+    });
+
+    logOrganizationActivity(this.userId, 'update', organizationId, {
+      action: 'renamed organization',
+      previousName: organization.name,
+      name: name.trim(),
+    });
+  },
+
+  /**
+   * Add an existing user to an organization
+   *
+   * @param organizationId - Organization to add to
+   * @param handle - Username or email address
+   * @param role - Organization role (default: member)
+   * @returns The added user's ID
+   */
+  'organizations.addMember'(
+    organizationId: string,
+    handle: string,
+    role: OrganizationRole = 'member'
+  ): string {
+    check(organizationId, String);
+    check(handle, String);
+    check(role, OrganizationRolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization = findManagedOrganization(this.userId, organizationId);
+
+    const user = findUserByHandle(handle);
+    if (!user) {
+      throw new Meteor.Error('not-found', 'User not found');
+    }
+
+    if (organization.memberIds.includes(user._id!)) {
+      throw new Meteor.Error('validation-error', 'User is already in this organization');
+    }
+
+    OrganizationsCollection.update(organizationId, {
+      $addToSet: { memberIds: user._id! },
+      $set: {
+        members: addOrganizationMember(organization.members, user._id!, role),
+        updatedAt: new Date(),
+      },
+    });
+
+    logOrganizationActivity(this.userId, 'update', organizationId, {
+      action: 'added member',
+      userId: user._id,
+      role,
+    });
+
+    return user._id!;
+  },
+
+  /**
+   * Change a member's organization role
+   *
+   * @param organizationId - Organization to modify
+   * @param memberId - Member to change
+   * @param role - New organization role
+   */
+  'organizations.setMemberRole'(
+    organizationId: string,
+    memberId: string,
+    role: OrganizationRole
+  ): void {
+    check(organizationId, String);
+    check(memberId, String);
+    check(role, OrganizationRolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization = findManagedOrganization(this.userId, organizationId);
+
+    const previousRole = getOrganizationRole(organization, memberId);
+    if (!previousRole) {
+      throw new Meteor.Error('not-found', 'User is not in this organization');
+    }
+
+    if (previousRole === role) {
+      return;
+    }
+
+    if (previousRole === 'admin') {
+      assertKeepsAnAdmin(organization, memberId);
+    }
+
+    OrganizationsCollection.update(
+      { _id: organizationId, 'members.userId': memberId },
+      { $set: { 'members.$.role': role, updatedAt: new Date() } }
+    );
+
+    logOrganizationActivity(this.userId, 'update', organizationId, {
+      action: 'changed member role',
+      userId: memberId,
+      previousRole,
+      role,
+    });
+  },
+
+  /**
+   * Remove a member from an organization
+   *
+   * PERMISSION RULES: Organization admins, or the member themselves (leaving)
+   *
+   * SIDE EFFECTS:
+   * - Taken off every project team and team in the organization
+   * - Active workspace cleared if it was this one
+   *
+   * @param organizationId - Organization to modify
+   * @param memberId - Member to remove
+   */
+  'organizations.removeMember'(organizationId: string, memberId: string): void {
+    check(organizationId, String);
+    check(memberId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization =
+      memberId === this.userId
+        ? OrganizationsCollection.findOne(organizationId)
+        : findManagedOrganization(this.userId, organizationId);
+
+    const role = getOrganizationRole(organization, memberId);
+    if (!organization || !role) {
+      throw new Meteor.Error('not-found', 'User is not in this organization');
+    }
+
+    if (role === 'admin') {
+      assertKeepsAnAdmin(organization, memberId);
+    }
+
+    // VALIDATION: Owned projects would be left without an owner in reach
+    const ownedProjects = ProjectsCollection.find({ organizationId, ownerId: memberId }).count();
+    if (ownedProjects > 0) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Transfer ownership of ${ownedProjects} project(s) first (projects.transferOwnership)`
+      );
+    }
+
+    OrganizationsCollection.update(organizationId, {
+      $pull: { memberIds: memberId, members: { userId: memberId } },
+      $set: { updatedAt: new Date() },
+    });
+
+    TeamsCollection.update(
+      { organizationId, memberIds: memberId },
+      { $pull: { memberIds: memberId }, $set: { updatedAt: new Date() } },
+      { multi: true }
+    );
+    TeamsCollection.update(
+      { organizationId, leadId: memberId },
+      { $unset: { leadId: '' } },
+      { multi: true }
+    );
+
+    // NOTE: Covers team access too - they just left every team
+    ProjectsCollection.update(
+      { organizationId, teamMemberIds: memberId },
+      {
+        $pull: { teamMemberIds: memberId, members: { userId: memberId } },
+        $set: { updatedAt: new Date() },
+      },
+      { multi: true }
+    );
+
+    UsersCollection.update(
+      { _id: memberId, activeOrganizationId: organizationId },
+      { $unset: { activeOrganizationId: '' } }
+    );
+
+    logOrganizationActivity(this.userId, 'update', organizationId, {
+      action: memberId === this.userId ? 'left organization' : 'removed member',
+      userId: memberId,
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Tenant Boundary: Organization membership decides what a user can reach
+ * 2. Server-held Context: The active workspace lives on the user, set by a method
+ * 3. Invariants Before Writes: Last admin and project ownership checked up front
+ * 4. Positional Update: 'members.$.role' changes one array element in place
+ */
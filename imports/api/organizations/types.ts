@@ -0,0 +1,62 @@
+/**
+ * Organization Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY organization-related types
+ */
+
+import type { UserRole } from '../users/types';
+
+/**
+ * What a user may do in an organization
+ *
+ * WHY THE SAME VALUES AS UserRole:
+ * The admin / manager / member split stays the same, it is just held
+ * per organization now. Someone can manage projects for one client team
+ * and be a plain member of another.
+ */
+export type OrganizationRole = UserRole;
+
+/**
+ * A user's membership in an organization
+ */
+export interface OrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+/**
+ * Organization (workspace) document structure
+ *
+ * PURPOSE: Tenant boundary - projects, templates and their tasks,
+ * comments and time belong to exactly one organization, and users only
+ * see the organization they are currently working in
+ *
+ * DESIGN DECISION: Same membership shape as projects
+ * - memberIds: indexed "which organizations am I in" list
+ * - members: the role of each of them
+ * Kept in sync by the organization methods
+ */
+export interface Organization {
+  _id?: string;
+  name: string;
+
+  // URL-friendly unique name (e.g. 'acme-corp')
+  slug: string;
+
+  memberIds: string[];
+  members: OrganizationMember[];
+
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewOrganization = Omit<Organization, '_id'>;
@@ -0,0 +1,121 @@
+/**
+ * Active Workspace
+ *
+ * SINGLE RESPONSIBILITY: Work out which organization a user is working
+ * in, and what belongs to it
+ *
+ * THE ACTIVE WORKSPACE:
+ * - Stored on the user (activeOrganizationId), set by organizations.switch
+ * - Falls back to the user's first organization (by name) when unset,
+ *   or when the user has since left the stored one
+ * - undefined for users in no organization - they see nothing until
+ *   they create or join one
+ *
+ * WHY ON THE USER, NOT A METHOD ARGUMENT:
+ * Every method and publication is scoped by it. Passing it around would
+ * let a client simply claim another workspace; the server-side value
+ * is only changed after a membership check.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { OrganizationsCollection } from './collection';
+import { ProjectsCollection } from '../projects/collection';
+import { TasksCollection } from '../tasks/collection';
+import { TemplatesCollection } from '../templates/collection';
+import { TeamsCollection } from '../teams/collection';
+import type { Organization } from './types';
+import type { User } from '../users/types';
+
+/**
+ * Pick the active organization from a user's stored choice
+ */
+function activeSelector(user: Pick<User, '_id' | 'activeOrganizationId'>) {
+  return { _id: user.activeOrganizationId, memberIds: user._id };
+}
+
+const FALLBACK_OPTIONS = { sort: { name: 1 } };
+
+/**
+ * Get the organization a user is currently working in
+ */
+export function getActiveOrganization(userId: string): Organization | undefined {
+  const user: User | undefined = Meteor.users.findOne(userId, {
+    fields: { activeOrganizationId: 1 },
+  });
+  if (!user) return undefined;
+
+  return (
+    (user.activeOrganizationId && OrganizationsCollection.findOne(activeSelector(user))) ||
+    OrganizationsCollection.findOne({ memberIds: userId }, FALLBACK_OPTIONS)
+  );
+}
+
+/**
+ * getActiveOrganization() for async code (aggregations)
+ */
+export async function getActiveOrganizationAsync(
+  userId: string
+): Promise<Organization | undefined> {
+  const user: User | undefined = await Meteor.users.findOneAsync(userId, {
+    fields: { activeOrganizationId: 1 },
+  });
+  if (!user) return undefined;
+
+  return (
+    (user.activeOrganizationId &&
+      (await OrganizationsCollection.findOneAsync(activeSelector(user)))) ||
+    (await OrganizationsCollection.findOneAsync({ memberIds: userId }, FALLBACK_OPTIONS))
+  );
+}
+
+/**
+ * IDs of every project in an organization (archived included)
+ *
+ * WHY: Tasks, comments and time entries only carry a projectId -
+ * scoping them to a workspace means "projectId in these"
+ */
+export function getWorkspaceProjectIds(organizationId: string | undefined): string[] {
+  if (!organizationId) return [];
+
+  return ProjectsCollection.find({ organizationId }, { fields: { _id: 1 } }).map(
+    (project) => project._id!
+  );
+}
+
+/**
+ * Selector for activity logs about things in an organization
+ *
+ * WHY: Activity logs point at a project, task, template or team by
+ * entityId, without an organization of their own
+ *
+ * PERFORMANCE: Loads the workspace's task IDs - fine for the feeds that
+ * use it (small limits, indexed { entityType, entityId } lookups)
+ */
+export function getWorkspaceActivitySelector(organizationId: string | undefined) {
+  const projectIds = getWorkspaceProjectIds(organizationId);
+
+  // NOTE: Trashed tasks included - deletions belong in activity feeds
+  const taskIds = TasksCollection.find(
+    { projectId: { $in: projectIds } },
+    { fields: { _id: 1 } }
+  ).map((task) => task._id!);
+
+  const templateIds = organizationId
+    ? TemplatesCollection.find({ organizationId }, { fields: { _id: 1 } }).map(
+        (template) => template._id!
+      )
+    : [];
+
+  const teamIds = organizationId
+    ? TeamsCollection.find({ organizationId }, { fields: { _id: 1 } }).map((team) => team._id!)
+    : [];
+
+  return {
+    $or: [
+      { entityType: 'project', entityId: { $in: projectIds } },
+      { entityType: 'task', entityId: { $in: taskIds } },
+      { entityType: 'template', entityId: { $in: templateIds } },
+      { entityType: 'team', entityId: { $in: teamIds } },
+    ],
+  };
+}
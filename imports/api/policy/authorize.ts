@@ -0,0 +1,138 @@
+/**
+ * Server-side Authorization Helpers
+ *
+ * SINGLE RESPONSIBILITY: Load the user and resource documents, then ask
+ * the policy (policy.ts)
+ *
+ * WHY SEPARATE FROM policy.ts:
+ * The policy stays pure and testable; these helpers know about collections
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { ProjectsCollection } from '../projects/collection';
+import { UsersCollection } from '../users/collection';
+import { OrganizationsCollection } from '../organizations/collection';
+import {
+  getActiveOrganization,
+  getActiveOrganizationAsync,
+} from '../organizations/workspace';
+import { getOrganizationRole } from '../organizations/members';
+import { can } from './policy';
+import type { Task } from '../tasks/types';
+import type { User } from '../users/types';
+import type { Organization } from '../organizations/types';
+import type {
+  PolicyAction,
+  PolicyActions,
+  PolicyUser,
+  ProjectResource,
+  TaskResource,
+  UserResource,
+} from './types';
+
+/**
+ * Combine a user with the organization they act in
+ *
+ * WHY: The policy reads profile.role - here it becomes the role held in
+ * the organization. Outside of an organization there is no role at all.
+ */
+function asWorkspaceUser(
+  user: User | undefined,
+  organization: Organization | undefined
+): PolicyUser {
+  if (!user?._id) return undefined;
+  if (!organization) return { _id: user._id };
+
+  return {
+    _id: user._id,
+    profile: { ...user.profile, role: getOrganizationRole(organization, user._id)! },
+    organizationId: organization._id,
+  };
+}
+
+/**
+ * Load a user as the policy sees them
+ *
+ * @param userId - The user
+ * @param organizationId - Act in this organization instead of the active
+ * one (e.g. checking a project's new owner); ignored if not a member
+ */
+export function getWorkspaceUser(userId: string, organizationId?: string): PolicyUser {
+  const organization = organizationId
+    ? OrganizationsCollection.findOne({ _id: organizationId, memberIds: userId })
+    : getActiveOrganization(userId);
+
+  return asWorkspaceUser(Meteor.users.findOne(userId), organization);
+}
+
+/**
+ * getWorkspaceUser() for async code (aggregations)
+ */
+export async function getWorkspaceUserAsync(userId: string): Promise<PolicyUser> {
+  return asWorkspaceUser(
+    await UsersCollection.findOneAsync(userId),
+    await getActiveOrganizationAsync(userId)
+  );
+}
+
+/**
+ * can() for a user ID (as found on this.userId), in their active workspace
+ *
+ * NOTE: Sync - for methods and publications
+ */
+export function userCan<A extends PolicyAction>(
+  userId: string | null,
+  action: A,
+  resource: PolicyActions[A]
+): boolean {
+  if (!userId) return false;
+  return can(getWorkspaceUser(userId), action, resource);
+}
+
+/**
+ * can() for a user ID, loading the user asynchronously
+ *
+ * NOTE: For the async aggregation methods
+ */
+export async function userCanAsync<A extends PolicyAction>(
+  userId: string | null,
+  action: A,
+  resource: PolicyActions[A]
+): Promise<boolean> {
+  if (!userId) return false;
+  return can(await getWorkspaceUserAsync(userId), action, resource);
+}
+
+/**
+ * Build the resource for a rule about another user
+ *
+ * EXAMPLE: userCan(userId, 'user.viewTimesheet', aboutUser(otherUserId))
+ */
+export function aboutUser(userId: string): UserResource {
+  return {
+    userId,
+    organizationIds: OrganizationsCollection.find(
+      { memberIds: userId },
+      { fields: { _id: 1 } }
+    ).map((organization) => organization._id!),
+  };
+}
+
+/**
+ * Load the project a resource belongs to
+ *
+ * EXAMPLE: userCan(userId, 'project.view', inProject(task.projectId))
+ * A missing project yields { project: undefined }, which every rule denies
+ */
+export function inProject(projectId: string): ProjectResource {
+  return { project: ProjectsCollection.findOne(projectId) };
+}
+
+/**
+ * Build the resource for a task rule, loading the task's project
+ *
+ * EXAMPLE: userCan(userId, 'task.update', onTask(task))
+ */
+export function onTask(task: Task): TaskResource {
+  return { task, ...inProject(task.projectId) };
+}
@@ -0,0 +1,39 @@
+/**
+ * Policy Module
+ *
+ * Barrel export for the authorization policy
+ *
+ * import { can, userCan, inProject, onTask } from '/imports/api/policy';
+ *
+ * NOTE: Pass can() a user from getWorkspaceUser(), not a raw user
+ * document - the role that counts is the one in the active workspace
+ */
+
+// Export types
+export type {
+  PolicyUser,
+  PolicyAction,
+  PolicyActions,
+  PolicyProject,
+  ProjectResource,
+  TaskResource,
+  CommentResource,
+  TimeEntryResource,
+  TemplateResource,
+  UserResource,
+  OrganizationResource,
+} from './types';
+
+// Export the policy (pure, client + server)
+export { can } from './policy';
+
+// Export server-side helpers
+export {
+  userCan,
+  userCanAsync,
+  getWorkspaceUser,
+  getWorkspaceUserAsync,
+  inProject,
+  onTask,
+  aboutUser,
+} from './authorize';
@@ -0,0 +1,221 @@
+/**
+ * Authorization Policy
+ *
+ * SINGLE RESPONSIBILITY: Answer "can this user do this action to this
+ * resource?" - the one place permission rules are written down
+ *
+ * WHY ONE TABLE:
+ * Methods, publications and aggregations used to carry their own copies
+ * of these rules, and the copies drifted apart. Now they all ask can().
+ *
+ * WHY PURE (no database access):
+ * - Same answers on client and server (the UI can hide what it can't do)
+ * - Every rule can be tested with plain objects (tests/policy.ts)
+ * Loading the user and the resource is the caller's job (see authorize.ts)
+ *
+ * LAYERS:
+ * 0. Workspace: nothing outside the user's active organization, whatever the role
+ * 1. Workspace role (admin, manager, member) - held per organization
+ * 2. Project role (owner, maintainer, contributor, viewer) - see roles.ts
+ * 3. Relationship to the resource (creator, assignee, author)
+ */
+
+import { hasProjectCapability, ProjectCapability } from '../projects/roles';
+import { getOrganizationRole } from '../organizations/members';
+import type {
+  PolicyActions,
+  PolicyAction,
+  PolicyProject,
+  PolicyUser,
+  ProjectResource,
+  TaskResource,
+  TemplateResource,
+  TeamResource,
+  UserResource,
+} from './types';
+
+type KnownUser = NonNullable<PolicyUser> & { _id: string };
+
+type Rule<R> = (user: KnownUser, resource: R) => boolean;
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+/**
+ * Role in the active workspace (none outside of one)
+ */
+const workspaceRole = (user: KnownUser) =>
+  user.organizationId ? user.profile?.role : undefined;
+
+const isAdmin = (user: KnownUser) => workspaceRole(user) === 'admin';
+
+const isManagerOrAdmin = (user: KnownUser) =>
+  workspaceRole(user) === 'manager' || workspaceRole(user) === 'admin';
+
+const inWorkspace = (user: KnownUser, project: PolicyProject) =>
+  !!user.organizationId && project.organizationId === user.organizationId;
+
+const sharesWorkspace = (user: KnownUser, { organizationIds }: UserResource) =>
+  !!user.organizationId && organizationIds.includes(user.organizationId);
+
+const isWorkspaceTemplate = (user: KnownUser, { template }: TemplateResource) =>
+  !!user.organizationId && template.organizationId === user.organizationId;
+
+const isWorkspaceTeam = (user: KnownUser, { team }: TeamResource) =>
+  !!team && !!user.organizationId && team.organizationId === user.organizationId;
+
+const canUpdateTeam: Rule<TeamResource> = (user, resource) =>
+  isWorkspaceTeam(user, resource) && isManagerOrAdmin(user);
+
+const isOwner = (user: KnownUser, project: PolicyProject | null | undefined) =>
+  !!project && project.ownerId === user._id;
+
+const hasCapability = (
+  user: KnownUser,
+  project: PolicyProject | null | undefined,
+  capability: ProjectCapability
+) => !!project && hasProjectCapability(project, user._id, capability);
+
+const canViewProject: Rule<ProjectResource> = (user, { project }) =>
+  !!project && (isAdmin(user) || hasCapability(user, project, 'viewTasks'));
+
+const canUpdateProject: Rule<ProjectResource> = (user, { project }) =>
+  !!project && (isAdmin(user) || isOwner(user, project));
+
+/**
+ * Full edit rights on a task
+ *
+ * Contributors only for their own tasks (created or assigned)
+ */
+const canUpdateTask: Rule<TaskResource> = (user, { task, project }) => {
+  if (!project) return false;
+  if (isAdmin(user) || hasCapability(user, project, 'editAnyTask')) return true;
+
+  const isOwnTask = task.createdBy === user._id || task.assignedToId === user._id;
+  return isOwnTask && hasCapability(user, project, 'editOwnTasks');
+};
+
+const canDeleteTask: Rule<TaskResource> = (user, { task, project }) => {
+  if (!project) return false;
+  if (isAdmin(user) || hasCapability(user, project, 'deleteAnyTask')) return true;
+
+  // Assignees can't delete tasks they didn't create
+  return task.createdBy === user._id && hasCapability(user, project, 'deleteOwnTasks');
+};
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const RULES: { [A in PolicyAction]: Rule<PolicyActions[A]> } = {
+  // System-wide
+  'project.create': isManagerOrAdmin,
+  'project.viewAll': isAdmin,
+  'user.list': isManagerOrAdmin,
+  'team.viewPerformance': isManagerOrAdmin,
+  'team.create': isManagerOrAdmin,
+  'webhook.replay': isAdmin,
+
+  // Other users: yourself, or the roles that need it - for people in this workspace
+  'user.viewActivity': (user, resource) =>
+    user._id === resource.userId || (isAdmin(user) && sharesWorkspace(user, resource)),
+  'user.viewTimesheet': (user, resource) =>
+    user._id === resource.userId || (isManagerOrAdmin(user) && sharesWorkspace(user, resource)),
+
+  // Accounts are shared by every workspace the user is in: only an admin
+  // of the one workspace they're in may switch it off (never their own)
+  'user.deactivate': (user, resource) =>
+    user._id !== resource.userId &&
+    isAdmin(user) &&
+    sharesWorkspace(user, resource) &&
+    resource.organizationIds.every((id) => id === user.organizationId),
+
+  // Organizations: anyone can start one, its admins run it
+  'organization.create': () => true,
+  'organization.manage': (user, { organization }) =>
+    getOrganizationRole(organization, user._id) === 'admin',
+
+  // Teams: run by managers and admins; the lead looks after who is in it
+  'team.update': canUpdateTeam,
+  'team.manageMembers': (user, resource) =>
+    canUpdateTeam(user, resource) ||
+    (isWorkspaceTeam(user, resource) && resource.team!.leadId === user._id),
+
+  // Projects
+  'project.view': canViewProject,
+  'project.update': canUpdateProject,
+  'project.manageTeam': (user, resource) =>
+    canUpdateProject(user, resource) || hasCapability(user, resource.project, 'manageTeam'),
+  'project.manageMaintainers': canUpdateProject,
+  'project.manageWebhooks': canUpdateProject,
+
+  // Tasks
+  'task.create': (user, { project }) =>
+    !!project && (isAdmin(user) || hasCapability(user, project, 'createTasks')),
+  'task.update': canUpdateTask,
+  'task.work': canUpdateTask,
+  'task.move': (user, resource) =>
+    // Being the assignee isn't enough to take a task away
+    canUpdateTask(user, { ...resource, task: { ...resource.task, assignedToId: undefined } }),
+  'task.delete': canDeleteTask,
+  'task.restore': (user, resource) =>
+    canDeleteTask(user, resource) ||
+    // Whoever trashed it can undo that, while they can still edit tasks
+    (resource.task.deletedBy === user._id &&
+      hasCapability(user, resource.project, 'editOwnTasks')),
+
+  // Comments: anyone who sees the task can discuss it
+  'comment.create': canViewProject,
+  'comment.edit': (user, resource) =>
+    resource.comment.authorId === user._id && canViewProject(user, resource),
+  'comment.remove': (user, resource) =>
+    canViewProject(user, resource) &&
+    (resource.comment.authorId === user._id ||
+      isAdmin(user) ||
+      isOwner(user, resource.project)),
+
+  // Time entries: personal, plus whoever fixes the team's timesheets
+  'timeEntry.manage': (user, { entry, project }) =>
+    entry.userId === user._id || (!!project && (isAdmin(user) || isOwner(user, project))),
+
+  // Templates: only used and managed inside their workspace
+  'template.use': isWorkspaceTemplate,
+  'template.remove': (user, resource) =>
+    isWorkspaceTemplate(user, resource) &&
+    (resource.template.ownerId === user._id ||
+      isAdmin(user) ||
+      isOwner(user, resource.project)),
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check if a user may perform an action on a resource
+ *
+ * EXAMPLES:
+ * can(user, 'project.create', null)
+ * can(user, 'task.delete', { task, project })
+ * can(user, 'user.viewTimesheet', { userId })
+ *
+ * @param user - The user asking, with their workspace role (null/undefined: denied)
+ * @param action - What they want to do
+ * @param resource - What they want to do it to (shape depends on the action)
+ */
+export function can<A extends PolicyAction>(
+  user: PolicyUser,
+  action: A,
+  resource: PolicyActions[A]
+): boolean {
+  if (!user?._id) return false;
+
+  // TENANT BOUNDARY: A project from another workspace is off limits,
+  // before any role or relationship is looked at
+  const project = (resource as Partial<ProjectResource> | null)?.project;
+  if (project && !inWorkspace(user as KnownUser, project)) return false;
+
+  const rule = RULES[action] as Rule<PolicyActions[A]>;
+  return rule(user as KnownUser, resource);
+}
@@ -0,0 +1,139 @@
+/**
+ * Policy Types
+ *
+ * SINGLE RESPONSIBILITY: The vocabulary of authorization questions -
+ * who asks, what they want to do, and what they want to do it to
+ */
+
+import type { User, UserProfile } from '../users/types';
+import type { Project } from '../projects/types';
+import type { Task } from '../tasks/types';
+import type { Comment } from '../comments/types';
+import type { TimeEntry } from '../timeEntries/types';
+import type { Template } from '../templates/types';
+import type { Organization } from '../organizations/types';
+import type { Team } from '../teams/types';
+
+/**
+ * The user asking, as seen from their active workspace
+ *
+ * - organizationId: the workspace the question is asked in
+ * - profile.role: the user's role IN THAT WORKSPACE, not the stored
+ *   profile role (authorize.ts builds this from the organization, even
+ *   for a user without a stored profile)
+ *
+ * null/undefined = not logged in (or unknown user) - always denied
+ * No organizationId = in no workspace - only "own data" rules pass
+ */
+export type PolicyUser =
+  | (Pick<User, '_id'> & { profile?: Partial<UserProfile>; organizationId?: string })
+  | null
+  | undefined;
+
+/**
+ * Just the project fields the rules look at
+ *
+ * WHY OPTIONAL PROJECT in resources: Callers pass what they found; a
+ * missing project is denied by the rules instead of every caller
+ * checking first
+ */
+export type PolicyProject = Pick<
+  Project,
+  'organizationId' | 'ownerId' | 'teamMemberIds' | 'members'
+>;
+
+export interface ProjectResource {
+  project: PolicyProject | null | undefined;
+}
+
+export interface TaskResource extends ProjectResource {
+  task: Pick<Task, 'createdBy' | 'assignedToId' | 'deletedBy'>;
+}
+
+export interface CommentResource extends ProjectResource {
+  comment: Pick<Comment, 'authorId'>;
+}
+
+export interface TimeEntryResource extends ProjectResource {
+  entry: Pick<TimeEntry, 'userId'>;
+}
+
+export interface TemplateResource extends ProjectResource {
+  template: Pick<Template, 'ownerId' | 'organizationId'>;
+}
+
+/**
+ * Another user's data (activity, timesheets)
+ *
+ * organizationIds: the organizations that user belongs to
+ */
+export interface UserResource {
+  userId: string;
+  organizationIds: string[];
+}
+
+export interface OrganizationResource {
+  organization: Pick<Organization, 'members'> | null | undefined;
+}
+
+export interface TeamResource {
+  team: Pick<Team, 'organizationId' | 'leadId'> | null | undefined;
+}
+
+/**
+ * Every action the policy knows, with the resource it is asked about
+ *
+ * NAMING: 'entity.action', like method names
+ * null = system-wide action, no resource
+ */
+export interface PolicyActions {
+  // Workspace-wide (role in the active workspace only)
+  'project.create': null;
+  'project.viewAll': null; // Every project and project template, not just your own
+  'user.list': null;
+  'team.viewPerformance': null;
+  'team.create': null;
+  'webhook.replay': null; // Re-send failed webhook deliveries of the workspace
+
+  // Organizations (any organization the user belongs to, not just the active one)
+  'organization.create': null;
+  'organization.manage': OrganizationResource; // Members, roles, name
+
+  // Other users
+  'user.viewActivity': UserResource;
+  'user.viewTimesheet': UserResource;
+  'user.deactivate': UserResource; // Deactivate or reactivate the account
+
+  // Teams (groups of people, see teams/)
+  'team.update': TeamResource; // Rename, change lead, remove
+  'team.manageMembers': TeamResource;
+
+  // Projects
+  'project.view': ProjectResource; // The project, its tasks, comments, activity
+  'project.update': ProjectResource; // Settings, workflow, archive, purge, transfer, clone
+  'project.manageTeam': ProjectResource;
+  'project.manageMaintainers': ProjectResource; // Grant or revoke maintainer
+  'project.manageWebhooks': ProjectResource; // Register webhooks, see their secrets
+
+  // Tasks
+  'task.create': ProjectResource;
+  'task.update': TaskResource;
+  'task.work': TaskResource; // Checklist, time tracking, status and description
+  'task.move': TaskResource; // Take the task out of its project
+  'task.delete': TaskResource;
+  'task.restore': TaskResource;
+
+  // Comments
+  'comment.create': ProjectResource;
+  'comment.edit': CommentResource;
+  'comment.remove': CommentResource;
+
+  // Time entries
+  'timeEntry.manage': TimeEntryResource; // Correct or delete
+
+  // Templates
+  'template.use': TemplateResource;
+  'template.remove': TemplateResource;
+}
+
+export type PolicyAction = keyof PolicyActions;
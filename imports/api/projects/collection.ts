@@ -116,6 +116,22 @@ if (Meteor.isServer) {
    */
   ProjectsCollection.createIndexAsync({ 'metadata.priority': 1, status: 1 });
 
+  /**
+   * Index: Organization + Status
+   *
+   * QUERY PATTERN: "Show me the projects of this workspace"
+   * Common in: Admin dashboard, scoping tasks and stats to a workspace
+   */
+  ProjectsCollection.createIndexAsync({ organizationId: 1, status: 1 });
+
+  /**
+   * Index: Attached Teams
+   *
+   * QUERY PATTERN: "Which projects is this team on?"
+   * Common in: Re-copying team members after every team change
+   */
+  ProjectsCollection.createIndexAsync({ 'teams.teamId': 1 });
+
   // --------------------------------------------------------------------------
   // SECURITY
   // --------------------------------------------------------------------------
@@ -0,0 +1,63 @@
+/**
+ * Project Task Counters
+ *
+ * SINGLE RESPONSIBILITY: Keeping project.metadata.totalTasks and
+ * completedTasks in step with the project's tasks
+ *
+ * TRADEOFF:
+ * - Pro: Fast dashboard queries (no need to count tasks)
+ * - Con: Must keep counters in sync (complexity)
+ *
+ * NOTE: No permission checks - called by methods and jobs after they
+ * have checked their own. Clients change the subtask setting through
+ * projects.updateTaskCounters, which checks 'project.update' first.
+ */
+
+import { ProjectsCollection } from './collection';
+import { getProjectWorkflow, getStatusesInCategory } from './workflow';
+import { TasksCollection } from '../tasks/collection';
+import { NOT_TRASHED } from '../tasks/trash';
+
+/**
+ * Recount a project's tasks
+ *
+ * SUBTASKS: By default subtasks count like any other task. Pass
+ * { includeSubtasks: false } to count top-level tasks only; the choice is
+ * stored in metadata.includesSubtasks and reused by later recounts.
+ *
+ * @param projectId - Project to update counters for
+ * @param options - includeSubtasks: count subtasks (default: project's last choice, else true)
+ */
+export function updateProjectTaskCounters(
+  projectId: string,
+  options: { includeSubtasks?: boolean } = {}
+): void {
+  const project = ProjectsCollection.findOne(projectId);
+  if (!project) return;
+
+  const includeSubtasks = options.includeSubtasks ?? project.metadata.includesSubtasks ?? true;
+
+  // Completed = any status in the workflow's 'done' category
+  const doneStatuses = getStatusesInCategory(getProjectWorkflow(project), 'done');
+
+  // Trashed tasks don't count
+  const baseQuery: any = { projectId, ...NOT_TRASHED };
+  if (!includeSubtasks) {
+    baseQuery.parentTaskId = { $exists: false };
+  }
+
+  const totalTasks = TasksCollection.find(baseQuery).count();
+  const completedTasks = TasksCollection.find({
+    ...baseQuery,
+    status: { $in: doneStatuses },
+  }).count();
+
+  ProjectsCollection.update(projectId, {
+    $set: {
+      'metadata.totalTasks': totalTasks,
+      'metadata.completedTasks': completedTasks,
+      'metadata.includesSubtasks': includeSubtasks,
+      updatedAt: new Date(),
+    },
+  });
+}
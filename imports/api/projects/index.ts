@@ -14,8 +14,52 @@ export type {
   Priority,
   NewProject,
   ProjectUpdate,
+  ProjectInput,
+  ProjectChanges,
   ProjectListItem,
+  ProjectPurgeSummary,
+  ProjectRole,
+  ProjectMember,
+  ProjectTeam,
+  ProjectWorkflow,
+  WorkflowStatus,
+  StatusCategory,
 } from './types';
 
+// Export workflow helpers
+export {
+  DEFAULT_WORKFLOW,
+  getProjectWorkflow,
+  getStatusCategory,
+  getStatusesInCategory,
+  buildOpenTasksFilter,
+  isDoneStatus,
+  isTransitionAllowed,
+  mapStatusToWorkflow,
+  validateWorkflow,
+} from './workflow';
+
+// Export role helpers
+export {
+  PROJECT_ROLES,
+  DEFAULT_MEMBER_ROLE,
+  getProjectRole,
+  hasProjectCapability,
+  canBeAssigned,
+  buildMembers,
+} from './roles';
+export type { ProjectCapability } from './roles';
+
+// Export schemas (validation + OpenAPI)
+export {
+  WorkflowSchema,
+  ProjectInputSchema,
+  ProjectChangesSchema,
+  ProjectSchema,
+} from './schemas';
+
 // Export collection
 export { ProjectsCollection } from './collection';
+
+// Export counter upkeep (callers check permissions first)
+export { updateProjectTaskCounters } from './counters';
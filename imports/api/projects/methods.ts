@@ -15,38 +15,81 @@
 
 import { Meteor } from 'meteor/meteor';
 import { check, Match } from 'meteor/check';
-import { ProjectsCollection, Project, NewProject, ProjectStatus, Priority } from './index';
-import { TasksCollection } from '../tasks';
+import { Random } from 'meteor/random';
+import {
+  ProjectsCollection,
+  Project,
+  NewProject,
+  ProjectStatus,
+  ProjectPurgeSummary,
+  ProjectRole,
+  Priority,
+  ProjectWorkflow,
+  DEFAULT_WORKFLOW,
+  getProjectWorkflow,
+  getStatusesInCategory,
+  validateWorkflow,
+  PROJECT_ROLES,
+  DEFAULT_MEMBER_ROLE,
+  getProjectRole,
+  canBeAssigned,
+  buildMembers,
+  WorkflowSchema,
+  ProjectInputSchema,
+  ProjectChangesSchema,
+  updateProjectTaskCounters,
+} from './index';
+import type { ProjectInput, ProjectChanges } from './index';
+import { TasksCollection, NewTask, NOT_TRASHED } from '../tasks';
 import { ActivityLogsCollection } from '../activityLogs';
+import { TemplatesCollection, instantiateTemplateTasks } from '../templates';
+import { CommentsCollection } from '../comments';
+import { TimeEntriesCollection } from '../timeEntries';
+import { OrganizationsCollection, getActiveOrganization } from '../organizations';
+import { TeamsCollection, getDirectMembers, syncProjectTeams } from '../teams';
+import { removeWebhooks } from '../webhooks/outbox';
+import { InvitationsCollection } from '../invitations';
+import { can, userCan, getWorkspaceUser } from '../policy';
+import { toPattern } from '../schemas';
 
 // ============================================================================
-// HELPER FUNCTIONS
+// CONSTANTS
 // ============================================================================
 
 /**
- * Check if user has permission to modify a project
- *
- * PERMISSION RULES:
- * - Owner can always modify their project
- * - Admins can modify any project
- * - Team members cannot modify (only view)
+ * How long a purge claim is honoured
  *
- * WHY: Centralized permission logic, reused across methods
+ * WHY: If the server dies halfway through a purge, the project keeps its
+ * purgingAt claim. After this long another purge may take over and finish
+ * the job instead of the project being stuck half-deleted forever.
  */
-function canModifyProject(userId: string | null, project: Project): boolean {
-  if (!userId) return false;
+const PURGE_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
 
-  const user = Meteor.users.findOne(userId);
-  if (!user) return false;
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
 
-  // Admin can modify anything
-  if (user.profile?.role === 'admin') return true;
+/**
+ * check() patterns compiled from the shared schemas (./schemas.ts)
+ *
+ * WHY: The REST API's OpenAPI document is generated from the same
+ * schemas, so what it documents is exactly what these methods accept
+ *
+ * NOTE: check() only validates shape; business rules (unique keys,
+ * known transition targets...) are enforced by validateWorkflow()
+ */
+const WorkflowPattern = toPattern(WorkflowSchema);
+const ProjectInputPattern = toPattern(ProjectInputSchema);
+const ProjectChangesPattern = toPattern(ProjectChangesSchema);
 
-  // Owner can modify their own project
-  if (project.ownerId === userId) return true;
+/**
+ * check() pattern for a project role
+ */
+const RolePattern = Match.OneOf(...PROJECT_ROLES);
 
-  return false;
-}
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
 
 /**
  * Log activity for audit trail
@@ -70,6 +113,50 @@ function logActivity(
   });
 }
 
+/**
+ * Check that every team member belongs to the project's organization
+ *
+ * WHY: A project team can't reach outside its workspace - people from
+ * another organization join through an invitation instead
+ */
+function assertOrganizationMembers(organizationId: string, userIds: string[]): void {
+  const organization = OrganizationsCollection.findOne(organizationId);
+  const outsiders = userIds.filter((id) => !organization?.memberIds.includes(id));
+
+  if (outsiders.length > 0) {
+    throw new Meteor.Error(
+      'validation-error',
+      'One or more team members not found in this organization'
+    );
+  }
+}
+
+/**
+ * Count everything that belongs to a project
+ *
+ * WHY: Shared by the dry run and the real purge, so the preview and the
+ * audit record can't disagree about what a purge covers
+ */
+function summarizeProjectData(project: Project, dryRun: boolean): ProjectPurgeSummary {
+  const projectId = project._id!;
+
+  // NOTE: No NOT_TRASHED here - trashed tasks are deleted with the project
+  const hoursLogged = TimeEntriesCollection.find({ projectId }, { fields: { hours: 1 } })
+    .fetch()
+    .reduce((sum, entry) => sum + entry.hours, 0);
+
+  return {
+    projectId,
+    name: project.name,
+    dryRun,
+    tasks: TasksCollection.find({ projectId }).count(),
+    comments: CommentsCollection.find({ projectId }).count(),
+    timeEntries: TimeEntriesCollection.find({ projectId }).count(),
+    hoursLogged: Math.round(hoursLogged * 100) / 100,
+    templates: TemplatesCollection.find({ projectId }).count(),
+  };
+}
+
 // ============================================================================
 // METEOR METHODS
 // ============================================================================
@@ -83,12 +170,12 @@ Meteor.methods({
    * - Can only create projects for yourself (ownerId comes from server)
    * - Role must be manager or admin
    *
+   * WORKFLOW: Optional - projects without one use DEFAULT_WORKFLOW
+   *
    * @param projectData - Project details (without _id, ownerId, dates)
    * @returns New project ID
    */
-  'projects.insert'(
-    projectData: Omit<NewProject, '_id' | 'ownerId' | 'createdAt' | 'metadata'>
-  ): string {
+  'projects.insert'(projectData: ProjectInput): string {
     // SECURITY: Check authentication
     // WHY: this.userId is set by Meteor's DDP connection
     // Can't be spoofed by client - it's based on authentication token
@@ -97,8 +184,7 @@ Meteor.methods({
     }
 
     // SECURITY: Check user role
-    const user = Meteor.users.findOne(this.userId);
-    if (!user?.profile?.role || user.profile.role === 'member') {
+    if (!userCan(this.userId, 'project.create', null)) {
       throw new Meteor.Error(
         'not-authorized',
         'Only managers and admins can create projects'
@@ -109,13 +195,7 @@ Meteor.methods({
     // WHY: check() throws if data doesn't match pattern
     // This prevents malformed data from entering the database
     try {
-      check(projectData, {
-        name: String,
-        description: String,
-        teamMemberIds: [String], // Array of strings
-        status: Match.OneOf('active', 'completed', 'archived'),
-        tags: [String],
-      });
+      check(projectData, ProjectInputPattern);
     } catch (error) {
       throw new Meteor.Error('validation-error', 'Invalid project data');
     }
@@ -129,22 +209,26 @@ Meteor.methods({
       throw new Meteor.Error('validation-error', 'Project name must be less than 100 characters');
     }
 
-    // VALIDATION: Verify team members exist
-    // WHY: Prevent broken references
-    const teamMemberCount = Meteor.users.find({
-      _id: { $in: projectData.teamMemberIds },
-    }).count();
-
-    if (teamMemberCount !== projectData.teamMemberIds.length) {
-      throw new Meteor.Error('validation-error', 'One or more team members not found');
+    if (projectData.workflow) {
+      validateWorkflow(projectData.workflow);
     }
 
+    // WORKSPACE: New projects belong to the organization the user works in
+    // (project.create already failed for users in no organization)
+    const organizationId = getActiveOrganization(this.userId)!._id!;
+
+    // VALIDATION: Verify team members exist in the workspace
+    // WHY: Prevent broken references
+    assertOrganizationMembers(organizationId, projectData.teamMemberIds);
+
     // CONSTRUCT: Build complete project document
     // NOTE: ownerId, createdAt, and metadata are set server-side
     // WHY: Client can't control these - prevents security issues
     const project: NewProject = {
       ...projectData,
+      members: buildMembers(projectData.teamMemberIds),
       ownerId: this.userId, // SECURITY: Always from authenticated user
+      organizationId,
       metadata: {
         totalTasks: 0,
         completedTasks: 0,
@@ -163,6 +247,262 @@ Meteor.methods({
     return projectId;
   },
 
+  /**
+   * Create a project from a project template
+   *
+   * HOW IT WORKS:
+   * 1. projects.insert with the template's description, tags, team and workflow
+   * 2. tasks.insert for every template task, due dates counted from startDate
+   *
+   * WHY NESTED METHOD CALLS: Same validation and permission checks as
+   * creating the project by hand (e.g. only managers and admins)
+   *
+   * ALL OR NOTHING: If a task can't be created, the new project is removed again
+   *
+   * @param templateId - Project template to use
+   * @param options - name (required), startDate (default: now), teamMemberIds
+   * (default: the template's team)
+   * @returns New project ID
+   */
+  'projects.instantiateFromTemplate'(
+    templateId: string,
+    options: { name: string; startDate?: Date; teamMemberIds?: string[] }
+  ): string {
+    check(templateId, String);
+    check(options, {
+      name: String,
+      startDate: Match.Maybe(Date),
+      teamMemberIds: Match.Maybe([String]),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in to create projects');
+    }
+
+    const template = TemplatesCollection.findOne(templateId);
+    if (
+      !template ||
+      template.kind !== 'project' ||
+      !template.project ||
+      !userCan(this.userId, 'template.use', { template, project: null })
+    ) {
+      throw new Meteor.Error('not-found', 'Project template not found');
+    }
+
+    const startDate = options.startDate || new Date();
+
+    const projectData: Record<string, any> = {
+      name: options.name,
+      description: template.project.description,
+      teamMemberIds: options.teamMemberIds ?? template.project.teamMemberIds,
+      status: 'active',
+      tags: template.project.tags,
+      startDate,
+    };
+    if (template.project.workflow) {
+      projectData.workflow = template.project.workflow;
+    }
+
+    const projectId: string = Meteor.call('projects.insert', projectData);
+
+    try {
+      const project = ProjectsCollection.findOne(projectId)!;
+      instantiateTemplateTasks(
+        template.tasks,
+        projectId,
+        startDate,
+        [project.ownerId, ...project.teamMemberIds].filter((id) => canBeAssigned(project, id))
+      );
+    } catch (error) {
+      // ROLLBACK: Tasks were already removed by instantiateTemplateTasks
+      ProjectsCollection.remove(projectId);
+      throw error;
+    }
+
+    logActivity(this.userId, 'update', projectId, { fromTemplateId: templateId });
+
+    return projectId;
+  },
+
+  /**
+   * Copy a project, optionally with all of its tasks
+   *
+   * WHY: Repeat engagements (same project every quarter) start from last
+   * quarter's project instead of from scratch
+   *
+   * WHAT IS COPIED:
+   * - Project: description, team, tags, workflow (status starts 'active')
+   * - Tasks: title, description, priority, estimate, subtask structure and
+   *   dependencies between cloned tasks
+   * - Optional: assignees, due dates (shifted), tags, checklists (unticked)
+   *
+   * WHAT IS NOT: Task status (the workflow's initial status, 'todo' by
+   * default), logged time, comments, recurrence
+   *
+   * COUNTERS: Tasks are inserted directly and counted once at the end
+   *
+   * @param projectId - Project to copy
+   * @param options - name (required) and what to keep
+   * @returns New project ID
+   */
+  'projects.clone'(
+    projectId: string,
+    options: {
+      name: string;
+      includeTasks?: boolean; // Default: true
+      keepAssignees?: boolean; // Default: false
+      keepDueDates?: boolean; // Default: true
+      dueDateOffsetDays?: number; // Shift kept due dates (default: 0)
+      keepTags?: boolean; // Project and task tags (default: true)
+      keepChecklists?: boolean; // Default: true
+    }
+  ): string {
+    check(projectId, String);
+    check(options, {
+      name: String,
+      includeTasks: Match.Maybe(Boolean),
+      keepAssignees: Match.Maybe(Boolean),
+      keepDueDates: Match.Maybe(Boolean),
+      dueDateOffsetDays: Match.Maybe(Match.Integer),
+      keepTags: Match.Maybe(Boolean),
+      keepChecklists: Match.Maybe(Boolean),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in to create projects');
+    }
+
+    const source = ProjectsCollection.findOne(projectId);
+    if (!source) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    // SECURITY: Cloning copies everything, so it needs the same rights as editing
+    if (!userCan(this.userId, 'project.update', { project: source })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to clone this project'
+      );
+    }
+
+    const {
+      includeTasks = true,
+      keepAssignees = false,
+      keepDueDates = true,
+      dueDateOffsetDays = 0,
+      keepTags = true,
+      keepChecklists = true,
+    } = options;
+
+    const offsetMs = dueDateOffsetDays * 24 * 60 * 60 * 1000;
+    const shift = (date: Date) => new Date(date.getTime() + offsetMs);
+
+    // PROJECT: Through projects.insert for the same validation (name, role, team)
+    const projectData: Record<string, any> = {
+      name: options.name,
+      description: source.description,
+      teamMemberIds: source.teamMemberIds,
+      status: 'active',
+      tags: keepTags ? source.tags : [],
+    };
+    if (source.workflow) {
+      projectData.workflow = source.workflow;
+    }
+    if (source.startDate) {
+      projectData.startDate = shift(source.startDate);
+    }
+
+    const cloneId: string = Meteor.call('projects.insert', projectData);
+
+    // ROLES: Same members, same roles as the source
+    ProjectsCollection.update(cloneId, {
+      $set: { members: buildMembers(source.teamMemberIds, source.members) },
+    });
+
+    const clone = ProjectsCollection.findOne(cloneId)!;
+    const team = [clone.ownerId, ...clone.teamMemberIds];
+
+    let taskCount = 0;
+
+    if (includeTasks) {
+      const tasks = TasksCollection.find({ projectId, ...NOT_TRASHED }).fetch();
+      const initialStatus = getProjectWorkflow(clone).initialStatus;
+      const now = new Date();
+
+      // New IDs up front, so parent and dependency links can be remapped in one pass
+      const newIds = new Map<string, string>(tasks.map((task) => [task._id!, Random.id()]));
+
+      tasks.forEach((task) => {
+        const newTask: NewTask & { _id: string } = {
+          _id: newIds.get(task._id!)!,
+          projectId: cloneId,
+          title: task.title,
+          description: task.description,
+          status: initialStatus,
+          priority: task.priority,
+          tags: keepTags ? task.tags : [],
+          createdBy: this.userId!,
+          createdAt: now,
+        };
+
+        if (task.estimatedHours !== undefined) {
+          newTask.estimatedHours = task.estimatedHours;
+        }
+        if (task.parentTaskId && newIds.has(task.parentTaskId)) {
+          newTask.parentTaskId = newIds.get(task.parentTaskId);
+        }
+        const blockedByIds = (task.blockedByIds || [])
+          .filter((id) => newIds.has(id))
+          .map((id) => newIds.get(id)!);
+        if (blockedByIds.length > 0) {
+          newTask.blockedByIds = blockedByIds;
+        }
+        if (keepAssignees && task.assignedToId && team.includes(task.assignedToId)) {
+          newTask.assignedToId = task.assignedToId;
+        }
+        if (keepDueDates && task.dueDate) {
+          newTask.dueDate = shift(task.dueDate);
+        }
+        if (keepChecklists && task.checklist && task.checklist.length > 0) {
+          newTask.checklist = task.checklist.map((item) => ({
+            id: Random.id(),
+            text: item.text,
+            done: false,
+            createdAt: now,
+          }));
+        }
+
+        TasksCollection.insert(newTask);
+
+        ActivityLogsCollection.insert({
+          userId: this.userId!,
+          action: 'create',
+          entityType: 'task',
+          entityId: newTask._id,
+          metadata: { clonedFromTaskId: task._id },
+          createdAt: now,
+        });
+      });
+
+      taskCount = tasks.length;
+
+      // COUNTERS: One recount for the whole clone, same subtask setting as the source
+      updateProjectTaskCounters(cloneId, {
+        includeSubtasks: source.metadata.includesSubtasks ?? true,
+      });
+    }
+
+    // AUDIT: Record where the clone came from
+    logActivity(this.userId, 'update', cloneId, {
+      action: 'cloned project',
+      clonedFromProjectId: projectId,
+      taskCount,
+      options,
+    });
+
+    return cloneId;
+  },
+
   /**
    * Update an existing project
    *
@@ -173,27 +513,10 @@ Meteor.methods({
    * @param projectId - Project to update
    * @param updates - Fields to update
    */
-  'projects.update'(
-    projectId: string,
-    updates: {
-      name?: string;
-      description?: string;
-      status?: ProjectStatus;
-      tags?: string[];
-      teamMemberIds?: string[];
-      priority?: Priority;
-    }
-  ): void {
+  'projects.update'(projectId: string, updates: ProjectChanges): void {
     // VALIDATION: Check input types
     check(projectId, String);
-    check(updates, {
-      name: Match.Maybe(String),
-      description: Match.Maybe(String),
-      status: Match.Maybe(Match.OneOf('active', 'completed', 'archived')),
-      tags: Match.Maybe([String]),
-      teamMemberIds: Match.Maybe([String]),
-      priority: Match.Maybe(Match.OneOf('low', 'medium', 'high')),
-    });
+    check(updates, ProjectChangesPattern);
 
     // SECURITY: Must be logged in
     if (!this.userId) {
@@ -207,7 +530,7 @@ Meteor.methods({
     }
 
     // SECURITY: Check permissions
-    if (!canModifyProject(this.userId, project)) {
+    if (!userCan(this.userId, 'project.update', { project })) {
       throw new Meteor.Error(
         'not-authorized',
         'You do not have permission to modify this project'
@@ -227,15 +550,9 @@ Meteor.methods({
       }
     }
 
-    // VALIDATION: If changing team members, verify they exist
+    // VALIDATION: If changing team members, verify they exist in the workspace
     if (updates.teamMemberIds) {
-      const memberCount = Meteor.users.find({
-        _id: { $in: updates.teamMemberIds },
-      }).count();
-
-      if (memberCount !== updates.teamMemberIds.length) {
-        throw new Meteor.Error('validation-error', 'One or more team members not found');
-      }
+      assertOrganizationMembers(project.organizationId, updates.teamMemberIds);
     }
 
     // BUILD UPDATE OBJECT
@@ -248,6 +565,13 @@ Meteor.methods({
       },
     };
 
+    // Keep roles in step with the new team (existing members keep theirs)
+    // NOTE: teamMemberIds here are the direct members - people from
+    // attached teams are added back on top below
+    if (updates.teamMemberIds) {
+      updateObject.$set.members = buildMembers(updates.teamMemberIds, getDirectMembers(project));
+    }
+
     // Handle priority update (nested in metadata)
     if (updates.priority) {
       updateObject.$set['metadata.priority'] = updates.priority;
@@ -257,6 +581,10 @@ Meteor.methods({
     // UPDATE: Apply changes to database
     ProjectsCollection.update(projectId, updateObject);
 
+    if (updates.teamMemberIds) {
+      syncProjectTeams({ _id: projectId });
+    }
+
     // AUDIT: Log what changed
     logActivity(this.userId, 'update', projectId, updates);
   },
@@ -290,7 +618,7 @@ Meteor.methods({
     }
 
     // SECURITY: Only owner or admin can delete
-    if (!canModifyProject(this.userId, project)) {
+    if (!userCan(this.userId, 'project.update', { project })) {
       throw new Meteor.Error(
         'not-authorized',
         'You do not have permission to delete this project'
@@ -309,25 +637,193 @@ Meteor.methods({
       if (taskCount > 0) {
         throw new Meteor.Error(
           'validation-error',
-          `Cannot delete project with ${taskCount} tasks. Archive instead or delete tasks first.`
+          `Cannot delete project with ${taskCount} tasks. Archive instead or use projects.purge.`
         );
       }
 
       ProjectsCollection.remove(projectId);
+      removeWebhooks({ projectId });
       logActivity(this.userId, 'delete', projectId);
     } else {
       // SOFT DELETE: Archive
-      // This is safer and reversible
+      // This is safer and reversible (see projects.restore)
+      if (project.status === 'archived') {
+        return;
+      }
+
+      const now = new Date();
       ProjectsCollection.update(projectId, {
         $set: {
           status: 'archived' as ProjectStatus,
-          updatedAt: new Date(),
+          archivedAt: now,
+          archivedFrom: project.status,
+          updatedAt: now,
         },
       });
       logActivity(this.userId, 'update', projectId, { status: 'archived' });
     }
   },
 
+  /**
+   * Bring an archived project back
+   *
+   * DEFAULT STATUS: Whatever the project was before it was archived
+   * (archivedFrom), or 'active' for projects archived via projects.update
+   * or before archivedFrom was recorded
+   *
+   * @param projectId - Archived project
+   * @param status - 'active' or 'completed' (optional)
+   */
+  'projects.restore'(projectId: string, status?: 'active' | 'completed'): void {
+    check(projectId, String);
+    check(status, Match.Maybe(Match.OneOf('active', 'completed')));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    // SECURITY: Same rights as archiving
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to restore this project'
+      );
+    }
+
+    if (project.status !== 'archived') {
+      throw new Meteor.Error('validation-error', 'Only archived projects can be restored');
+    }
+
+    if (project.purgingAt) {
+      throw new Meteor.Error('validation-error', 'This project is being deleted');
+    }
+
+    const newStatus = status || project.archivedFrom || 'active';
+
+    ProjectsCollection.update(projectId, {
+      $set: { status: newStatus, updatedAt: new Date() },
+      $unset: { archivedAt: '', archivedFrom: '' },
+    });
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'restored project',
+      status: newStatus,
+    });
+  },
+
+  /**
+   * Permanently delete a project and everything in it
+   *
+   * WHAT IS DELETED: Tasks (including trashed ones), comments, time
+   * entries (running timers too), the project's task templates, its
+   * invitations and its webhooks. Activity logs are kept - the purge itself is recorded there.
+   *
+   * NOTE: The webhooks go before the purge is logged, so receivers never
+   * get a 'project.delete' for it - they see the project disappear from
+   * the REST API instead
+   *
+   * SAFETY:
+   * - dryRun: true returns the summary without touching anything
+   * - A real purge needs confirmName to match the project name exactly
+   *
+   * CONSISTENCY:
+   * MongoDB only offers multi-document transactions on replica sets, so the
+   * purge is a sequence of removes arranged to never leave orphans behind:
+   * 1. Claim the project (purgingAt) so concurrent purges are rejected
+   * 2. Remove the children, leaves first (time entries, comments,
+   *    templates, tasks, invitations, webhooks)
+   * 3. Remove the project
+   * 4. Sweep once more for children created while steps 2-3 ran
+   * If the server stops midway, the project still exists and the purge can
+   * simply be run again once the claim times out.
+   *
+   * @param projectId - Project to delete
+   * @param options - dryRun, confirmName
+   * @returns Counts of what was (or would be) deleted
+   */
+  'projects.purge'(
+    projectId: string,
+    options: { dryRun?: boolean; confirmName?: string } = {}
+  ): ProjectPurgeSummary {
+    check(projectId, String);
+    check(options, {
+      dryRun: Match.Maybe(Boolean),
+      confirmName: Match.Maybe(String),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to delete this project'
+      );
+    }
+
+    if (options.dryRun) {
+      return summarizeProjectData(project, true);
+    }
+
+    if (options.confirmName !== project.name) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Type the project name to confirm permanent deletion'
+      );
+    }
+
+    // CLAIM: Conditional update - only one purge wins
+    const now = new Date();
+    const claimed = ProjectsCollection.update(
+      {
+        _id: projectId,
+        $or: [
+          { purgingAt: { $exists: false } },
+          { purgingAt: { $lt: new Date(now.getTime() - PURGE_CLAIM_TIMEOUT_MS) } },
+        ],
+      },
+      { $set: { purgingAt: now } }
+    );
+    if (claimed === 0) {
+      throw new Meteor.Error('validation-error', 'This project is already being deleted');
+    }
+
+    // Counted after the claim, so the record matches what is removed
+    const summary = summarizeProjectData(project, false);
+
+    const removeChildren = () => {
+      TimeEntriesCollection.remove({ projectId });
+      CommentsCollection.remove({ projectId });
+      TemplatesCollection.remove({ projectId });
+      TasksCollection.remove({ projectId });
+      InvitationsCollection.remove({ projectId });
+      removeWebhooks({ projectId });
+    };
+
+    removeChildren();
+    ProjectsCollection.remove(projectId);
+    removeChildren();
+
+    // AUDIT: The project is gone, the log entry is what remains of it
+    logActivity(this.userId, 'delete', projectId, {
+      action: 'purged project',
+      ...summary,
+    });
+
+    return summary;
+  },
+
   /**
    * Add team member to project
    *
@@ -336,12 +832,24 @@ Meteor.methods({
    * Clearer than generic update
    * Easier to add business logic (notifications, validation)
    *
+   * ROLES: Maintainers can add members too, but only the owner or an
+   * admin can add someone as maintainer
+   *
+   * NOTE: Adds the user without asking them. The normal way onto a
+   * project is invitations.create / invitations.accept
+   *
    * @param projectId - Project to modify
    * @param userId - User to add to team
+   * @param role - Project role (default: contributor)
    */
-  'projects.addTeamMember'(projectId: string, userIdToAdd: string): void {
+  'projects.addTeamMember'(
+    projectId: string,
+    userIdToAdd: string,
+    role: ProjectRole = DEFAULT_MEMBER_ROLE
+  ): void {
     check(projectId, String);
     check(userIdToAdd, String);
+    check(role, RolePattern);
 
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'You must be logged in');
@@ -352,15 +860,52 @@ Meteor.methods({
       throw new Meteor.Error('not-found', 'Project not found');
     }
 
-    if (!canModifyProject(this.userId, project)) {
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
       throw new Meteor.Error('not-authorized', 'You do not have permission to modify this project');
     }
 
-    // VALIDATION: User exists
+    if (
+      role === 'maintainer' &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can add maintainers'
+      );
+    }
+
+    // VALIDATION: Owner is never a team member
+    if (project.ownerId === userIdToAdd) {
+      throw new Meteor.Error('validation-error', 'User already owns this project');
+    }
+
+    // VALIDATION: User exists in the project's organization
     const userToAdd = Meteor.users.findOne(userIdToAdd);
     if (!userToAdd) {
       throw new Meteor.Error('not-found', 'User not found');
     }
+    assertOrganizationMembers(project.organizationId, [userIdToAdd]);
+
+    // TEAMS: Someone on the project through a team becomes a direct
+    // member, so they stay if they later leave the team
+    const teamOnly = project.members?.find((m) => m.userId === userIdToAdd && m.viaTeam);
+    if (teamOnly) {
+      ProjectsCollection.update(
+        { _id: projectId, 'members.userId': userIdToAdd },
+        {
+          $set: { 'members.$.role': role, updatedAt: new Date() },
+          $unset: { 'members.$.viaTeam': '' },
+        }
+      );
+
+      logActivity(this.userId, 'update', projectId, {
+        action: 'added team member',
+        userId: userIdToAdd,
+        role,
+        previousRole: teamOnly.role,
+      });
+      return;
+    }
 
     // VALIDATION: Not already a team member
     if (project.teamMemberIds.includes(userIdToAdd)) {
@@ -373,12 +918,16 @@ Meteor.methods({
     // - $push: Always adds (can create duplicates)
     ProjectsCollection.update(projectId, {
       $addToSet: { teamMemberIds: userIdToAdd },
-      $set: { updatedAt: new Date() },
+      $set: {
+        members: buildMembers([...project.teamMemberIds, userIdToAdd], project.members, role),
+        updatedAt: new Date(),
+      },
     });
 
     logActivity(this.userId, 'update', projectId, {
       action: 'added team member',
       userId: userIdToAdd,
+      role,
     });
   },
 
@@ -401,7 +950,7 @@ Meteor.methods({
       throw new Meteor.Error('not-found', 'Project not found');
     }
 
-    if (!canModifyProject(this.userId, project)) {
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
       throw new Meteor.Error('not-authorized', 'You do not have permission to modify this project');
     }
 
@@ -410,12 +959,33 @@ Meteor.methods({
       throw new Meteor.Error('validation-error', 'Cannot remove project owner from team');
     }
 
-    // UPDATE: Use $pull to remove from array
+    // VALIDATION: Team access follows the team
+    if (project.members?.some((m) => m.userId === userIdToRemove && m.viaTeam)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'User is on this project through a team - remove them from the team, or the team from the project'
+      );
+    }
+
+    if (
+      getProjectRole(project, userIdToRemove) === 'maintainer' &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can remove maintainers'
+      );
+    }
+
+    // UPDATE: Use $pull to remove from both lists
     ProjectsCollection.update(projectId, {
-      $pull: { teamMemberIds: userIdToRemove },
+      $pull: { teamMemberIds: userIdToRemove, members: { userId: userIdToRemove } },
       $set: { updatedAt: new Date() },
     });
 
+    // TEAMS: Still in an attached team? Then they stay, through the team
+    syncProjectTeams({ _id: projectId });
+
     logActivity(this.userId, 'update', projectId, {
       action: 'removed team member',
       userId: userIdToRemove,
@@ -423,39 +993,490 @@ Meteor.methods({
   },
 
   /**
-   * Update project task counters
+   * Attach a whole team to a project
    *
-   * WHY SEPARATE METHOD:
-   * Called automatically when tasks are created/updated/deleted
-   * Maintains denormalized counters in project.metadata
+   * Everyone in the team joins with the given role, and keeps following
+   * the team: people joining or leaving it join or leave the project
+   * (see teams/access.ts)
    *
-   * TRADEOFF:
-   * - Pro: Fast dashboard queries (no need to count tasks)
-   * - Con: Must keep counters in sync (complexity)
+   * ROLES: Same as projects.addTeamMember - only the owner or an admin
+   * can attach a team as maintainers
    *
-   * NOTE: This is an internal method, not typically called by clients
+   * @param projectId - Project to modify
+   * @param teamId - Team to attach (same organization)
+   * @param role - Project role for the team's people (default: contributor)
+   */
+  'projects.addTeam'(
+    projectId: string,
+    teamId: string,
+    role: ProjectRole = DEFAULT_MEMBER_ROLE
+  ): void {
+    check(projectId, String);
+    check(teamId, String);
+    check(role, RolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
+      throw new Meteor.Error('not-authorized', 'You do not have permission to modify this project');
+    }
+
+    if (
+      role === 'maintainer' &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can add maintainers'
+      );
+    }
+
+    const team = TeamsCollection.findOne({ _id: teamId, organizationId: project.organizationId });
+    if (!team) {
+      throw new Meteor.Error('not-found', 'Team not found');
+    }
+
+    if (project.teams?.some((t) => t.teamId === teamId)) {
+      throw new Meteor.Error('validation-error', 'Team is already on this project');
+    }
+
+    ProjectsCollection.update(projectId, {
+      $push: { teams: { teamId, role, addedAt: new Date() } },
+      $set: { updatedAt: new Date() },
+    });
+
+    syncProjectTeams({ _id: projectId });
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'added team',
+      teamId,
+      role,
+      memberIds: team.memberIds,
+    });
+  },
+
+  /**
+   * Detach a team from a project
+   *
+   * People who were only on the project through this team leave it;
+   * direct members and members of other attached teams stay
    *
-   * @param projectId - Project to update counters for
+   * @param projectId - Project to modify
+   * @param teamId - Team to detach
    */
-  'projects.updateTaskCounters'(projectId: string): void {
+  'projects.removeTeam'(projectId: string, teamId: string): void {
     check(projectId, String);
+    check(teamId, String);
 
-    // NOTE: We don't check permissions here because this is called
-    // by other methods after they've already checked permissions
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
 
-    const totalTasks = TasksCollection.find({ projectId }).count();
-    const completedTasks = TasksCollection.find({
-      projectId,
-      status: 'done',
-    }).count();
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
+      throw new Meteor.Error('not-authorized', 'You do not have permission to modify this project');
+    }
+
+    const attached = project.teams?.find((t) => t.teamId === teamId);
+    if (!attached) {
+      throw new Meteor.Error('not-found', 'Team is not on this project');
+    }
+
+    if (
+      attached.role === 'maintainer' &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can remove maintainers'
+      );
+    }
 
     ProjectsCollection.update(projectId, {
-      $set: {
-        'metadata.totalTasks': totalTasks,
-        'metadata.completedTasks': completedTasks,
-        updatedAt: new Date(),
-      },
+      $pull: { teams: { teamId } },
+      $set: { updatedAt: new Date() },
+    });
+
+    syncProjectTeams({ _id: projectId });
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'removed team',
+      teamId,
+    });
+  },
+
+  /**
+   * Change a team member's project role
+   *
+   * RULES:
+   * - Maintainers can switch members between viewer and contributor
+   * - Granting or revoking maintainer needs the owner or an admin
+   *
+   * @param projectId - Project to modify
+   * @param memberId - Team member
+   * @param role - New project role
+   */
+  'projects.setMemberRole'(projectId: string, memberId: string, role: ProjectRole): void {
+    check(projectId, String);
+    check(memberId, String);
+    check(role, RolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
+      throw new Meteor.Error('not-authorized', 'You do not have permission to modify this project');
+    }
+
+    const previousRole = getProjectRole(project, memberId);
+    if (!previousRole || previousRole === 'owner') {
+      throw new Meteor.Error('not-found', 'User is not a team member of this project');
+    }
+
+    if (previousRole === role) {
+      return;
+    }
+
+    if (project.members?.some((m) => m.userId === memberId && m.viaTeam)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'This role comes from a team - add the user directly to give them another'
+      );
+    }
+
+    if (
+      (role === 'maintainer' || previousRole === 'maintainer') &&
+      !userCan(this.userId, 'project.manageMaintainers', { project })
+    ) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can grant or revoke maintainer'
+      );
+    }
+
+    const members = buildMembers(project.teamMemberIds, project.members).map((member) =>
+      member.userId === memberId ? { ...member, role } : member
+    );
+
+    ProjectsCollection.update(projectId, {
+      $set: { members, updatedAt: new Date() },
+    });
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'changed member role',
+      userId: memberId,
+      previousRole,
+      role,
+    });
+  },
+
+  /**
+   * Hand a project over to another manager
+   *
+   * WHY SEPARATE METHOD (not part of projects.update):
+   * ownerId decides who controls the project, so changing it needs its own
+   * rules - and usually the old owner's open work has to move too
+   *
+   * RULES:
+   * - Only the current owner or an admin can transfer
+   * - The new owner must be a manager or admin (same as creating a project)
+   * - The new owner leaves teamMemberIds (the owner is never listed there)
+   *
+   * OPTIONS:
+   * - addPreviousOwnerToTeam: keep the old owner on the team as a maintainer
+   * - reassignOpenTasks: give the old owner's unfinished tasks to the new owner
+   *
+   * @param projectId - Project to transfer
+   * @param newOwnerId - User who becomes the owner
+   * @param options - See above (both default to false)
+   * @returns Number of tasks reassigned
+   */
+  'projects.transferOwnership'(
+    projectId: string,
+    newOwnerId: string,
+    options: { addPreviousOwnerToTeam?: boolean; reassignOpenTasks?: boolean } = {}
+  ): number {
+    check(projectId, String);
+    check(newOwnerId, String);
+    check(options, {
+      addPreviousOwnerToTeam: Match.Maybe(Boolean),
+      reassignOpenTasks: Match.Maybe(Boolean),
     });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can transfer ownership'
+      );
+    }
+
+    if (project.ownerId === newOwnerId) {
+      throw new Meteor.Error('validation-error', 'User already owns this project');
+    }
+
+    // VALIDATION: Same role requirement as projects.insert, in the
+    // project's organization
+    const newOwner = getWorkspaceUser(newOwnerId, project.organizationId);
+    if (!newOwner) {
+      throw new Meteor.Error('not-found', 'User not found');
+    }
+    if (!can(newOwner, 'project.create', null)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'The new owner must be a manager or admin of this organization'
+      );
+    }
+
+    const previousOwnerId = project.ownerId;
+    const teamMemberIds = project.teamMemberIds.filter((id) => id !== newOwnerId);
+    if (options.addPreviousOwnerToTeam && !teamMemberIds.includes(previousOwnerId)) {
+      teamMemberIds.push(previousOwnerId);
+    }
+
+    // ROLES: The old owner keeps running the team, one step below the owner
+    const members = buildMembers(teamMemberIds, project.members).map((member) =>
+      member.userId === previousOwnerId ? { ...member, role: 'maintainer' as ProjectRole } : member
+    );
+
+    const now = new Date();
+
+    ProjectsCollection.update(projectId, {
+      $set: { ownerId: newOwnerId, teamMemberIds, members, updatedAt: now },
+    });
+
+    // TEAMS: The previous owner keeps team access if they're in an attached team
+    syncProjectTeams({ _id: projectId });
+
+    // REASSIGN: One multi-update instead of a tasks.update per task
+    // WHY: The caller is allowed to manage the whole project, and the old
+    // owner may no longer be on the team - per-task rules would reject them
+    let reassignedTaskIds: string[] = [];
+
+    if (options.reassignOpenTasks) {
+      const doneStatuses = getStatusesInCategory(getProjectWorkflow(project), 'done');
+      reassignedTaskIds = TasksCollection.find(
+        {
+          projectId,
+          assignedToId: previousOwnerId,
+          status: { $nin: doneStatuses },
+          ...NOT_TRASHED,
+        },
+        { fields: { _id: 1 } }
+      ).map((task) => task._id!);
+
+      if (reassignedTaskIds.length > 0) {
+        TasksCollection.update(
+          { _id: { $in: reassignedTaskIds } },
+          { $set: { assignedToId: newOwnerId, updatedAt: now } },
+          { multi: true }
+        );
+
+        // AUDIT: Each task's timeline shows who it was handed to
+        reassignedTaskIds.forEach((taskId) => {
+          ActivityLogsCollection.insert({
+            userId: this.userId!,
+            action: 'assign',
+            entityType: 'task',
+            entityId: taskId,
+            metadata: {
+              previousAssignee: previousOwnerId,
+              newAssignee: newOwnerId,
+              reason: 'ownership transfer',
+            },
+            createdAt: now,
+          });
+        });
+      }
+    }
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'transferred ownership',
+      previousOwnerId,
+      newOwnerId,
+      addedPreviousOwnerToTeam: !!options.addPreviousOwnerToTeam,
+      reassignedTasks: reassignedTaskIds.length,
+    });
+
+    return reassignedTaskIds.length;
+  },
+
+  /**
+   * Replace a project's task workflow
+   *
+   * WHY SEPARATE METHOD (not part of projects.update):
+   * Changing the state machine affects existing tasks - statuses that are
+   * removed must be mapped to new ones, which needs its own validation
+   *
+   * STATUS MAPPING:
+   * Tasks whose status no longer exists must be moved via statusMapping
+   * ({ oldKey: newKey }). Without a mapping the change is rejected.
+   *
+   * @param projectId - Project to modify
+   * @param workflow - New workflow definition (null resets to the default)
+   * @param statusMapping - Where to move tasks in removed statuses
+   */
+  'projects.setWorkflow'(
+    projectId: string,
+    workflow: ProjectWorkflow | null,
+    statusMapping: Record<string, string> = {}
+  ): void {
+    check(projectId, String);
+    check(workflow, Match.OneOf(WorkflowPattern, null));
+    check(statusMapping, Match.Where((mapping: unknown) => {
+      check(mapping, Object);
+      Object.values(mapping as Record<string, unknown>).forEach((key) => check(key, String));
+      return true;
+    }));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this project'
+      );
+    }
+
+    const newWorkflow = workflow || DEFAULT_WORKFLOW;
+    validateWorkflow(newWorkflow);
+
+    // VALIDATION: Every task must land on a status of the new workflow
+    const newKeys = newWorkflow.statuses.map((s) => s.key);
+    const orphanedStatuses = Array.from(
+      new Set<string>(
+        TasksCollection.find(
+          { projectId, status: { $nin: newKeys } },
+          { fields: { status: 1 } }
+        )
+          .fetch()
+          .map((task) => task.status)
+      )
+    );
+
+    const unmapped = orphanedStatuses.filter(
+      (status) => !statusMapping[status] || !newKeys.includes(statusMapping[status])
+    );
+    if (unmapped.length > 0) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Tasks use statuses missing from the new workflow: ${unmapped.join(', ')}. ` +
+          'Provide a status mapping for them.'
+      );
+    }
+
+    const now = new Date();
+
+    // UPDATE: Save the workflow (null removes it -> default applies)
+    if (workflow) {
+      ProjectsCollection.update(projectId, { $set: { workflow, updatedAt: now } });
+    } else {
+      ProjectsCollection.update(projectId, {
+        $unset: { workflow: '' },
+        $set: { updatedAt: now },
+      });
+    }
+
+    // MIGRATE: Move tasks out of removed statuses
+    orphanedStatuses.forEach((oldStatus) => {
+      TasksCollection.update(
+        { projectId, status: oldStatus },
+        { $set: { status: statusMapping[oldStatus], updatedAt: now } },
+        { multi: true }
+      );
+    });
+
+    // SYNC: completedAt follows the category of each task's status
+    // WHY: A kept status may have changed category (e.g. 'review' became 'done')
+    const doneStatuses = getStatusesInCategory(newWorkflow, 'done');
+    TasksCollection.update(
+      { projectId, status: { $in: doneStatuses }, completedAt: { $exists: false } },
+      { $set: { completedAt: now } },
+      { multi: true }
+    );
+    TasksCollection.update(
+      { projectId, status: { $nin: doneStatuses }, completedAt: { $exists: true } },
+      { $unset: { completedAt: '' } },
+      { multi: true }
+    );
+
+    // Completed counts depend on which statuses are 'done'
+    updateProjectTaskCounters(projectId);
+
+    logActivity(this.userId, 'update', projectId, {
+      action: 'changed workflow',
+      statuses: newKeys,
+      statusMapping,
+    });
+  },
+
+  /**
+   * Choose whether a project's task counters include subtasks
+   *
+   * WHY A METHOD: The setting is stored on the project
+   * (metadata.includesSubtasks), so it needs the same permission as other
+   * project settings. Methods that change tasks recount with
+   * updateProjectTaskCounters (counters.ts) directly.
+   *
+   * @param projectId - Project to recount
+   * @param options - includeSubtasks: count subtasks (default: project's last choice, else true)
+   */
+  'projects.updateTaskCounters'(
+    projectId: string,
+    options: { includeSubtasks?: boolean } = {}
+  ): void {
+    check(projectId, String);
+    check(options, { includeSubtasks: Match.Maybe(Boolean) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this project'
+      );
+    }
+
+    updateProjectTaskCounters(projectId, options);
   },
 });
 
@@ -0,0 +1,125 @@
+/**
+ * Project Roles
+ *
+ * SINGLE RESPONSIBILITY: Which project role may do what, and how to look
+ * up a user's role in a project
+ *
+ * WHY SHARED (client + server):
+ * The UI hides the buttons a user can't use ("Delete task", "Add member")
+ * with the same table the server enforces
+ *
+ * NOTE: Global admins are not handled here - callers check the user's
+ * global role first (it needs the users collection)
+ */
+
+import type { Project, ProjectMember, ProjectRole } from './types';
+
+/**
+ * Roles from least to most privileged
+ */
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'contributor', 'maintainer'];
+
+/**
+ * Role given to members added without an explicit role
+ *
+ * Also what members from before roles existed were migrated to
+ */
+export const DEFAULT_MEMBER_ROLE: ProjectRole = 'contributor';
+
+/**
+ * Things a project member can be allowed to do
+ */
+export type ProjectCapability =
+  | 'viewTasks' // See tasks, comments and activity
+  | 'createTasks'
+  | 'editOwnTasks' // Tasks the user created or is assigned to
+  | 'editAnyTask'
+  | 'deleteOwnTasks' // Tasks the user created
+  | 'deleteAnyTask'
+  | 'manageTeam'; // Add/remove members, change roles below maintainer
+
+/**
+ * Lowest role that has each capability
+ *
+ * The owner has every capability; project settings (workflow, archive,
+ * purge, transfer) stay owner-only and are not listed here
+ */
+const MINIMUM_ROLE: Record<ProjectCapability, ProjectRole> = {
+  viewTasks: 'viewer',
+  createTasks: 'contributor',
+  editOwnTasks: 'contributor',
+  editAnyTask: 'maintainer',
+  deleteOwnTasks: 'contributor',
+  deleteAnyTask: 'maintainer',
+  manageTeam: 'maintainer',
+};
+
+/**
+ * Get a user's role in a project
+ *
+ * @returns 'owner', a member role, or undefined if not on the project
+ *
+ * LEGACY: A user listed in teamMemberIds without a members entry (project
+ * not migrated yet) gets DEFAULT_MEMBER_ROLE
+ */
+export function getProjectRole(
+  project: Pick<Project, 'ownerId' | 'teamMemberIds' | 'members'>,
+  userId: string | null
+): ProjectRole | 'owner' | undefined {
+  if (!userId) return undefined;
+  if (project.ownerId === userId) return 'owner';
+
+  const member = project.members?.find((m) => m.userId === userId);
+  if (member) return member.role;
+
+  return project.teamMemberIds.includes(userId) ? DEFAULT_MEMBER_ROLE : undefined;
+}
+
+/**
+ * Check if a user's project role grants a capability
+ */
+export function hasProjectCapability(
+  project: Pick<Project, 'ownerId' | 'teamMemberIds' | 'members'>,
+  userId: string | null,
+  capability: ProjectCapability
+): boolean {
+  const role = getProjectRole(project, userId);
+  if (!role) return false;
+  if (role === 'owner') return true;
+
+  return PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(MINIMUM_ROLE[capability]);
+}
+
+/**
+ * Check if a user can be assigned tasks in a project
+ *
+ * WHY: Assignees work on their tasks (status, time, checklist), which
+ * viewers aren't allowed to do
+ */
+export function canBeAssigned(
+  project: Pick<Project, 'ownerId' | 'teamMemberIds' | 'members'>,
+  userId: string
+): boolean {
+  return hasProjectCapability(project, userId, 'editOwnTasks');
+}
+
+/**
+ * Build the members list for a new set of team member IDs
+ *
+ * - Users already on the project keep their role
+ * - New users get the given role (default: DEFAULT_MEMBER_ROLE)
+ *
+ * WHY: teamMemberIds and members must always list the same users
+ */
+export function buildMembers(
+  teamMemberIds: string[],
+  existing: ProjectMember[] = [],
+  role: ProjectRole = DEFAULT_MEMBER_ROLE
+): ProjectMember[] {
+  const now = new Date();
+
+  return teamMemberIds.map(
+    (userId) =>
+      existing.find((m) => m.userId === userId) || { userId, role, addedAt: now }
+  );
+}
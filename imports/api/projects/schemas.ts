@@ -0,0 +1,134 @@
+/**
+ * Project Schemas
+ *
+ * SINGLE RESPONSIBILITY: The shapes projects.insert / projects.update
+ * accept and the project document, described once (see schemas/schema.ts)
+ *
+ * USED BY:
+ * - projects/methods.ts: check() patterns (toPattern)
+ * - The REST API: OpenAPI document and generated client
+ */
+
+import {
+  objectOf,
+  string,
+  integer,
+  boolean,
+  date,
+  oneOf,
+  arrayOf,
+  recordOf,
+  maybe,
+  optional,
+} from '../schemas';
+import { PROJECT_ROLES } from './roles';
+import type {
+  Project,
+  ProjectChanges,
+  ProjectInput,
+  ProjectMember,
+  ProjectMetadata,
+  ProjectTeam,
+  ProjectWorkflow,
+  WorkflowStatus,
+} from './types';
+
+const SOURCE = 'projects/types';
+
+const PROJECT_STATUSES = ['active', 'completed', 'archived'] as const;
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+
+/**
+ * A workflow definition
+ *
+ * NOTE: Shape only; business rules (unique keys, known transition
+ * targets...) are enforced by validateWorkflow()
+ */
+export const WorkflowSchema = objectOf<ProjectWorkflow>({
+  name: 'ProjectWorkflow',
+  source: SOURCE,
+})({
+  statuses: arrayOf(
+    objectOf<WorkflowStatus>({ name: 'WorkflowStatus', source: SOURCE })({
+      key: string({ description: "Stored on tasks, e.g. 'in_progress'" }),
+      label: string(),
+      category: oneOf(['todo', 'in_progress', 'done']),
+    })
+  ),
+  initialStatus: string({ description: 'Status given to new tasks' }),
+  transitions: recordOf(arrayOf(string()), 'Allowed next statuses, by status key'),
+});
+
+/**
+ * projects.insert input
+ */
+export const ProjectInputSchema = objectOf<ProjectInput>({ name: 'ProjectInput', source: SOURCE })({
+  name: string({ description: '3-100 characters' }),
+  description: string(),
+  teamMemberIds: arrayOf(string()),
+  status: oneOf(PROJECT_STATUSES),
+  tags: arrayOf(string()),
+  workflow: maybe(WorkflowSchema),
+  startDate: maybe(date()),
+});
+
+/**
+ * projects.update input
+ */
+export const ProjectChangesSchema = objectOf<ProjectChanges>({
+  name: 'ProjectChanges',
+  source: SOURCE,
+})({
+  name: maybe(string()),
+  description: maybe(string()),
+  status: maybe(oneOf(PROJECT_STATUSES)),
+  tags: maybe(arrayOf(string())),
+  teamMemberIds: maybe(arrayOf(string())),
+  priority: maybe(oneOf(PRIORITIES)),
+});
+
+/**
+ * The project document, as the API returns it
+ */
+export const ProjectSchema = objectOf<Project>({ name: 'Project', source: SOURCE })({
+  _id: string(),
+  name: string(),
+  description: string(),
+  ownerId: string(),
+  organizationId: string(),
+  teamMemberIds: arrayOf(string()),
+  members: optional(
+    arrayOf(
+      objectOf<ProjectMember>({ name: 'ProjectMember', source: SOURCE })({
+        userId: string(),
+        role: oneOf(PROJECT_ROLES),
+        addedAt: date(),
+        viaTeam: optional(boolean('Only on the project through a team')),
+      })
+    )
+  ),
+  teams: optional(
+    arrayOf(
+      objectOf<ProjectTeam>({ name: 'ProjectTeam', source: SOURCE })({
+        teamId: string(),
+        role: oneOf(PROJECT_ROLES),
+        addedAt: date(),
+      })
+    )
+  ),
+  status: oneOf(PROJECT_STATUSES),
+  tags: arrayOf(string()),
+  metadata: objectOf<ProjectMetadata>({ name: 'ProjectMetadata', source: SOURCE })({
+    totalTasks: integer(),
+    completedTasks: integer(),
+    priority: oneOf(PRIORITIES),
+    includesSubtasks: optional(boolean()),
+  }),
+  workflow: optional(WorkflowSchema),
+  startDate: optional(date()),
+  archivedAt: optional(date()),
+  archivedFrom: optional(oneOf(['active', 'completed'])),
+  purgingAt: optional(date()),
+  createdAt: date(),
+  updatedAt: optional(date()),
+});
@@ -21,6 +21,83 @@ export type ProjectStatus = 'active' | 'completed' | 'archived';
  */
 export type Priority = 'low' | 'medium' | 'high';
 
+/**
+ * Workflow status categories
+ *
+ * WHY: Every project can name its statuses freely ('backlog', 'qa', 'shipped'...)
+ * but reports and business rules need to know what a status MEANS:
+ * - todo: Not started
+ * - in_progress: Being worked on (includes review-like stages)
+ * - done: Finished (sets completedAt, counts as completed)
+ */
+export type StatusCategory = 'todo' | 'in_progress' | 'done';
+
+/**
+ * A single status in a project workflow
+ */
+export interface WorkflowStatus {
+  key: string; // Stored on tasks, e.g. 'in_progress'
+  label: string; // Display name, e.g. 'In Progress'
+  category: StatusCategory;
+}
+
+/**
+ * Task workflow (state machine) for a project
+ *
+ * DESIGN DECISION: Embedded in the project document
+ * WHY:
+ * - Small, bounded data (a handful of statuses)
+ * - Always needed together with the project (task updates, boards)
+ * - Each project owns its own workflow
+ *
+ * EXAMPLE transitions:
+ * { todo: ['in_progress'], in_progress: ['review', 'todo'], ... }
+ * A status missing from transitions is a dead end (no moves out)
+ */
+export interface ProjectWorkflow {
+  statuses: WorkflowStatus[];
+  initialStatus: string; // Status given to new tasks
+  transitions: Record<string, string[]>;
+}
+
+/**
+ * What a team member may do in a project
+ *
+ * viewer -> Sees tasks and discussions, can comment
+ * contributor -> Creates tasks, edits and works on their own tasks
+ * maintainer -> Edits and deletes any task, manages the team
+ *
+ * NOTE: The owner is not a member - ownership outranks every role
+ * (see roles.ts for the full capability table)
+ */
+export type ProjectRole = 'viewer' | 'contributor' | 'maintainer';
+
+/**
+ * A user's membership in a project
+ */
+export interface ProjectMember {
+  userId: string;
+  role: ProjectRole;
+  addedAt: Date;
+
+  // Only on the project through an attached team (see teams/access.ts)
+  // WHY A FLAG: Leaving the team takes them off; people added directly
+  // stay, whatever happens to their teams
+  viaTeam?: boolean;
+}
+
+/**
+ * A team attached to a project
+ *
+ * role: what the team's people may do in the project (someone in
+ * several attached teams gets the highest of their roles)
+ */
+export interface ProjectTeam {
+  teamId: string;
+  role: ProjectRole;
+  addedAt: Date;
+}
+
 /**
  * Project metadata for quick stats
  *
@@ -34,6 +111,10 @@ export interface ProjectMetadata {
   totalTasks: number;
   completedTasks: number;
   priority: Priority;
+
+  // Whether the counters above include subtasks (default: true)
+  // Set by projects.updateTaskCounters, kept for later recounts
+  includesSubtasks?: boolean;
 }
 
 /**
@@ -52,6 +133,11 @@ export interface Project {
   // The user who created and owns this project
   ownerId: string;
 
+  // Organization (workspace) the project belongs to
+  // INDEXED: Every project list is scoped to the active workspace
+  // Tasks, comments and time entries belong to it through the project
+  organizationId: string;
+
   // Team members reference (one-to-many)
   // WHY: Array of IDs instead of embedded user objects
   // - Users can be on multiple projects
@@ -59,6 +145,18 @@ export interface Project {
   // - Keeps document size predictable
   teamMemberIds: string[];
 
+  // Role of each team member
+  // WHY BOTH: teamMemberIds stays the indexed "which projects am I on"
+  // list that queries and clients use; members adds the role on top.
+  // The two are kept in sync by the project methods.
+  // OPTIONAL: Projects from before roles are migrated (members -> contributor)
+  members?: ProjectMember[];
+
+  // Teams attached as a unit; their people are copied into the two
+  // lists above (members with viaTeam)
+  // INDEXED: 'teams.teamId' - "which projects does this team work on?"
+  teams?: ProjectTeam[];
+
   status: ProjectStatus;
 
   // Tags for categorization and filtering
@@ -71,6 +169,23 @@ export interface Project {
   // Denormalized stats for dashboard performance
   metadata: ProjectMetadata;
 
+  // Task status state machine
+  // WHY OPTIONAL: Projects without one use DEFAULT_WORKFLOW (see workflow.ts)
+  workflow?: ProjectWorkflow;
+
+  // When work starts (optional - defaults to createdAt where needed)
+  // Template due dates are relative to it
+  startDate?: Date;
+
+  // Set when archived by projects.remove, cleared by projects.restore
+  // archivedFrom: the status to go back to by default
+  archivedAt?: Date;
+  archivedFrom?: Exclude<ProjectStatus, 'archived'>;
+
+  // Set while projects.purge is deleting the project's data
+  // WHY: Claim so two purges of the same project don't interleave
+  purgingAt?: Date;
+
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -95,6 +210,28 @@ export type NewProject = Omit<Project, '_id'>;
  */
 export type ProjectUpdate = Partial<Omit<Project, '_id' | 'createdAt'>>;
 
+/**
+ * What a client sends to create a project (projects.insert)
+ *
+ * NOTE: Owner, organization, members and counters are set server-side
+ */
+export type ProjectInput = Pick<
+  Project,
+  'name' | 'description' | 'teamMemberIds' | 'status' | 'tags' | 'workflow' | 'startDate'
+>;
+
+/**
+ * What a client may change on a project (projects.update)
+ */
+export interface ProjectChanges {
+  name?: string;
+  description?: string;
+  status?: ProjectStatus;
+  tags?: string[];
+  teamMemberIds?: string[];
+  priority?: Priority;
+}
+
 /**
  * Projection types for limiting fields
  *
@@ -107,3 +244,20 @@ export interface ProjectListItem {
   status: ProjectStatus;
   metadata: ProjectMetadata;
 }
+
+/**
+ * What projects.purge deletes (or would delete, on a dry run)
+ *
+ * WHY COUNTS: The dry run shows the user exactly what they are about to
+ * lose, and the same numbers are kept in the activity log afterwards
+ */
+export interface ProjectPurgeSummary {
+  projectId: string;
+  name: string;
+  dryRun: boolean;
+  tasks: number; // Including trashed tasks
+  comments: number;
+  timeEntries: number;
+  hoursLogged: number;
+  templates: number; // Task templates kept in the project
+}
@@ -0,0 +1,196 @@
+/**
+ * Project Workflow
+ *
+ * SINGLE RESPONSIBILITY: Default workflow and helpers for reading a
+ * project's task status state machine
+ *
+ * WHY SHARED (client + server):
+ * The UI needs the same answers as the server ("which columns does this
+ * board have?", "can I drag this card to 'done'?") without a round trip
+ */
+
+import { Meteor } from 'meteor/meteor';
+import type { Project, ProjectWorkflow, StatusCategory } from './types';
+
+/**
+ * Default workflow
+ *
+ * Matches the original hard-coded statuses:
+ * todo -> in_progress -> review -> done
+ *
+ * Projects created before workflows existed have no `workflow` field
+ * and fall back to this one
+ *
+ * WHY EVERY TRANSITION: Before workflows, a task could move between any
+ * two statuses. Existing projects keep that; a project that wants rules
+ * sets its own workflow (projects.setWorkflow).
+ */
+export const DEFAULT_WORKFLOW: ProjectWorkflow = {
+  statuses: [
+    { key: 'todo', label: 'To Do', category: 'todo' },
+    { key: 'in_progress', label: 'In Progress', category: 'in_progress' },
+    { key: 'review', label: 'Review', category: 'in_progress' },
+    { key: 'done', label: 'Done', category: 'done' },
+  ],
+  initialStatus: 'todo',
+  transitions: {
+    todo: ['in_progress', 'review', 'done'],
+    in_progress: ['todo', 'review', 'done'],
+    review: ['todo', 'in_progress', 'done'],
+    done: ['todo', 'in_progress', 'review'],
+  },
+};
+
+/**
+ * Get the workflow that applies to a project
+ */
+export function getProjectWorkflow(project?: Pick<Project, 'workflow'> | null): ProjectWorkflow {
+  return project?.workflow || DEFAULT_WORKFLOW;
+}
+
+/**
+ * Get the category of a status, or undefined if the workflow doesn't know it
+ */
+export function getStatusCategory(
+  workflow: ProjectWorkflow,
+  status: string
+): StatusCategory | undefined {
+  return workflow.statuses.find((s) => s.key === status)?.category;
+}
+
+/**
+ * Check if a status counts as finished (category 'done')
+ */
+export function isDoneStatus(workflow: ProjectWorkflow, status: string): boolean {
+  return getStatusCategory(workflow, status) === 'done';
+}
+
+/**
+ * Get all status keys in a category
+ *
+ * EXAMPLE: getStatusesInCategory(DEFAULT_WORKFLOW, 'in_progress')
+ * -> ['in_progress', 'review']
+ */
+export function getStatusesInCategory(
+  workflow: ProjectWorkflow,
+  category: StatusCategory
+): string[] {
+  return workflow.statuses.filter((s) => s.category === category).map((s) => s.key);
+}
+
+/**
+ * Build a $match filter for unfinished tasks across several projects
+ *
+ * EXAMPLE OUTPUT:
+ * { $or: [
+ *   { projectId: 'p1', status: { $nin: ['done'] } },
+ *   { projectId: 'p2', status: { $nin: ['shipped', 'wont_fix'] } },
+ * ] }
+ */
+export function buildOpenTasksFilter(workflows: Map<string, ProjectWorkflow>) {
+  if (workflows.size === 0) {
+    // $or must not be empty - match nothing instead
+    return { _id: { $in: [] as string[] } };
+  }
+
+  return {
+    $or: Array.from(workflows, ([projectId, workflow]) => ({
+      projectId,
+      status: { $nin: getStatusesInCategory(workflow, 'done') },
+    })),
+  };
+}
+
+/**
+ * Check if moving a task between two statuses is allowed
+ *
+ * NOTE: Staying in the same status is always allowed (no-op)
+ */
+export function isTransitionAllowed(
+  workflow: ProjectWorkflow,
+  from: string,
+  to: string
+): boolean {
+  if (from === to) return true;
+  return (workflow.transitions[from] || []).includes(to);
+}
+
+/**
+ * Find the equivalent of a status in another workflow
+ *
+ * WHY: A task moving to another project must land on a status that
+ * project knows
+ *
+ * RULES:
+ * - Same key exists in the target: keep it
+ * - Otherwise: first target status of the same category
+ * - Otherwise: the target's initial status
+ */
+export function mapStatusToWorkflow(
+  status: string,
+  from: ProjectWorkflow,
+  to: ProjectWorkflow
+): string {
+  if (to.statuses.some((s) => s.key === status)) {
+    return status;
+  }
+
+  const category = getStatusCategory(from, status);
+  const sameCategory = category && to.statuses.find((s) => s.category === category);
+
+  return sameCategory ? sameCategory.key : to.initialStatus;
+}
+
+/**
+ * Validate a workflow definition
+ *
+ * RULES:
+ * - At least one status, keys unique and non-empty
+ * - At least one 'done' status (so tasks can be completed and counted)
+ * - initialStatus is one of the statuses
+ * - Transitions only reference known statuses
+ *
+ * @throws Meteor.Error('validation-error') describing the first problem found
+ */
+export function validateWorkflow(workflow: ProjectWorkflow): void {
+  if (workflow.statuses.length === 0) {
+    throw new Meteor.Error('validation-error', 'Workflow must have at least one status');
+  }
+
+  const keys = workflow.statuses.map((s) => s.key);
+
+  if (keys.some((key) => !/^[a-z0-9_]{1,30}$/.test(key))) {
+    throw new Meteor.Error(
+      'validation-error',
+      'Status keys must be 1-30 lowercase letters, digits or underscores'
+    );
+  }
+
+  if (new Set(keys).size !== keys.length) {
+    throw new Meteor.Error('validation-error', 'Workflow status keys must be unique');
+  }
+
+  if (!workflow.statuses.some((s) => s.category === 'done')) {
+    throw new Meteor.Error(
+      'validation-error',
+      'Workflow must have at least one status in the done category'
+    );
+  }
+
+  if (!keys.includes(workflow.initialStatus)) {
+    throw new Meteor.Error(
+      'validation-error',
+      `Initial status "${workflow.initialStatus}" is not part of the workflow`
+    );
+  }
+
+  for (const [from, targets] of Object.entries(workflow.transitions)) {
+    const unknown = [from, ...targets].find((key) => !keys.includes(key));
+    if (unknown) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Transition references unknown status "${unknown}"`
+      );
+    }
+  }
+}
@@ -27,14 +27,60 @@
  * - Always use field projections
  * - Always filter by user permissions
  * - Consider indexes for query patterns
+ *
+ * PERMISSIONS: Checks go through the policy (userCan / can, see ../policy).
+ * "My ..." publications need no check - the query itself is scoped to this.userId.
+ *
+ * WORKSPACES: Lists are scoped to the user's active organization
+ * (see ../organizations/workspace.ts). Single-document publications
+ * get that from the policy, which refuses projects of other workspaces.
  */
 
 import { Meteor } from 'meteor/meteor';
 import { check, Match } from 'meteor/check';
-import { ProjectsCollection } from '../projects';
-import { TasksCollection } from '../tasks';
+import {
+  ProjectsCollection,
+  DEFAULT_WORKFLOW,
+  getProjectWorkflow,
+  buildOpenTasksFilter,
+} from '../projects';
+import { TasksCollection, NOT_TRASHED } from '../tasks';
 import { ActivityLogsCollection } from '../activityLogs';
-import { UsersCollection } from '../users';
+import { UsersCollection, getVerifiedEmails } from '../users';
+import { CommentsCollection } from '../comments';
+import { TimeEntriesCollection } from '../timeEntries';
+import { TemplatesCollection } from '../templates';
+import { InvitationsCollection } from '../invitations';
+import { TeamsCollection } from '../teams';
+import { ApiTokensCollection } from '../apiTokens';
+import { WebhooksCollection, WebhookDeliveriesCollection } from '../webhooks';
+import {
+  OrganizationsCollection,
+  getActiveOrganization,
+  getWorkspaceProjectIds,
+  getWorkspaceActivitySelector,
+} from '../organizations';
+import { can, userCan, getWorkspaceUser } from '../policy';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Filter for the unfinished tasks of the given projects
+ *
+ * WHY: "Finished" means the 'done' category of each task's own project
+ * workflow - a custom workflow may call it 'shipped' or 'wont_fix'
+ *
+ * @param projectIds - Projects to include (missing projects get the default)
+ */
+function openTasksOfProjects(projectIds: string[]) {
+  const workflows = new Map(projectIds.map((id) => [id, DEFAULT_WORKFLOW]));
+  ProjectsCollection.find({ _id: { $in: projectIds } }, { fields: { workflow: 1 } }).forEach(
+    (project) => workflows.set(project._id!, getProjectWorkflow(project))
+  );
+  return buildOpenTasksFilter(workflows);
+}
 
 // ============================================================================
 // PUBLICATIONS ONLY RUN ON SERVER
@@ -70,6 +116,7 @@ if (Meteor.isServer) {
           username: 1,
           emails: 1,
           profile: 1,
+          activeOrganizationId: 1,
           createdAt: 1,
           // NOTE: services field is automatically excluded by Meteor
           // It contains password hashes and OAuth tokens
@@ -102,16 +149,8 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    if (!hasAccess) {
-      const user = UsersCollection.findOne(this.userId);
-      const isAdmin = user?.profile?.role === 'admin';
-      if (!isAdmin) {
-        return this.ready();
-      }
+    if (!userCan(this.userId, 'project.view', { project })) {
+      return this.ready();
     }
 
     // Get all team members (owner + team)
@@ -137,7 +176,13 @@ if (Meteor.isServer) {
    *
    * WHY: Managers/admins need to see all users to assign tasks
    *
-   * SECURITY: Only for managers and admins
+   * SECURITY: Only for managers and admins, and only people in their
+   * active workspace
+   *
+   * Deactivated accounts are left out: they can't be assigned work
+   *
+   * NOTE: profile.role is the account-wide role; workspace roles are in
+   * the organization's members list (organizations.mine)
    *
    * PERFORMANCE:
    * - Limited fields (just identification data)
@@ -148,18 +193,18 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const user = UsersCollection.findOne(this.userId);
-    if (!user?.profile?.role) {
+    // SECURITY: Only managers and admins can see all users
+    if (!userCan(this.userId, 'user.list', null)) {
       return this.ready();
     }
 
-    // SECURITY: Only managers and admins can see all users
-    if (user.profile.role === 'member') {
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
       return this.ready();
     }
 
     return UsersCollection.find(
-      {},
+      { _id: { $in: organization.memberIds }, deactivatedAt: { $exists: false } },
       {
         fields: {
           username: 1,
@@ -194,8 +239,14 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
+      return this.ready();
+    }
+
     return ProjectsCollection.find(
       {
+        organizationId: organization._id,
         ownerId: this.userId,
         status: { $in: ['active', 'completed'] }, // Exclude archived
       },
@@ -211,6 +262,9 @@ if (Meteor.isServer) {
    *
    * WHY: User's "Team Projects" page
    *
+   * TEAMS: Includes projects reached through a team - team members are
+   * copied into teamMemberIds (see teams/access.ts)
+   *
    * PERFORMANCE:
    * - teamMemberIds is indexed (multi-key index)
    * - MongoDB efficiently finds projects containing userId
@@ -220,8 +274,14 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
+      return this.ready();
+    }
+
     return ProjectsCollection.find(
       {
+        organizationId: organization._id,
         teamMemberIds: this.userId, // MongoDB matches if array contains this value
         status: { $in: ['active', 'completed'] },
       },
@@ -254,14 +314,7 @@ if (Meteor.isServer) {
     }
 
     // SECURITY: Check access
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
@@ -269,24 +322,28 @@ if (Meteor.isServer) {
   });
 
   /**
-   * Publish all active projects (admin only)
+   * Publish all active projects of the workspace (admin only)
    *
    * WHY: Admin dashboard
    *
-   * SECURITY: Only admins
+   * SECURITY: Only admins of the active workspace
    */
   Meteor.publish('projects.all', function () {
     if (!this.userId) {
       return this.ready();
     }
 
-    const user = UsersCollection.findOne(this.userId);
-    if (user?.profile?.role !== 'admin') {
+    if (!userCan(this.userId, 'project.viewAll', null)) {
+      return this.ready();
+    }
+
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
       return this.ready();
     }
 
     return ProjectsCollection.find(
-      { status: 'active' },
+      { organizationId: organization._id, status: 'active' },
       {
         sort: { createdAt: -1 },
         limit: 100, // Even admins shouldn't load everything
@@ -324,20 +381,13 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
-    // Return all tasks for this project
+    // Return all tasks for this project (trash excluded)
     return TasksCollection.find(
-      { projectId },
+      { projectId, ...NOT_TRASHED },
       {
         sort: { createdAt: -1 },
         limit: 200, // Reasonable limit per project
@@ -350,6 +400,9 @@ if (Meteor.isServer) {
    *
    * WHY: User's "My Tasks" page
    *
+   * WORKSPACE: Like all "my tasks" lists below, limited to the projects
+   * of the active workspace
+   *
    * OPTIMIZATION: This is a HOT query path (frequently accessed)
    * - Compound index: { assignedToId: 1, status: 1, dueDate: 1 }
    * - Sparse index (only tasks with assignedToId)
@@ -362,10 +415,14 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const projectIds = getWorkspaceProjectIds(getActiveOrganization(this.userId)?._id);
+
     return TasksCollection.find(
       {
         assignedToId: this.userId,
-        status: { $ne: 'done' }, // Exclude completed tasks
+        projectId: { $in: projectIds },
+        ...openTasksOfProjects(projectIds), // Exclude completed tasks
+        ...NOT_TRASHED,
       },
       {
         sort: { dueDate: 1 }, // Soonest due date first
@@ -386,8 +443,10 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const projectIds = getWorkspaceProjectIds(getActiveOrganization(this.userId)?._id);
+
     return TasksCollection.find(
-      { assignedToId: this.userId },
+      { assignedToId: this.userId, projectId: { $in: projectIds }, ...NOT_TRASHED },
       {
         sort: { createdAt: -1 },
         limit: 200, // Larger limit for history view
@@ -405,8 +464,10 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const projectIds = getWorkspaceProjectIds(getActiveOrganization(this.userId)?._id);
+
     return TasksCollection.find(
-      { createdBy: this.userId },
+      { createdBy: this.userId, projectId: { $in: projectIds }, ...NOT_TRASHED },
       {
         sort: { createdAt: -1 },
         limit: 100,
@@ -430,7 +491,7 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const task = TasksCollection.findOne(taskId);
+    const task = TasksCollection.findOne({ _id: taskId, ...NOT_TRASHED });
     if (!task) {
       return this.ready();
     }
@@ -441,18 +502,11 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
-    return TasksCollection.find({ _id: taskId });
+    return TasksCollection.find({ _id: taskId, ...NOT_TRASHED });
   });
 
   /**
@@ -472,11 +526,15 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
+    const projectIds = getWorkspaceProjectIds(getActiveOrganization(this.userId)?._id);
+
     return TasksCollection.find(
       {
         assignedToId: this.userId,
-        status: { $nin: ['done'] },
+        projectId: { $in: projectIds },
+        ...openTasksOfProjects(projectIds),
         dueDate: { $lt: new Date() }, // Due date in the past
+        ...NOT_TRASHED,
       },
       {
         sort: { dueDate: 1 }, // Oldest overdue first
@@ -485,6 +543,530 @@ if (Meteor.isServer) {
     );
   });
 
+  /**
+   * Publish the trash bin of a project
+   *
+   * WHY: "Recently deleted" view, to restore tasks deleted by accident
+   *
+   * SECURITY: Only if user has access to the project
+   *
+   * PERFORMANCE:
+   * - Partial index: { projectId: 1, deletedAt: -1 } (trashed tasks only)
+   *
+   * @param projectId - Project to get trashed tasks for
+   */
+  Meteor.publish('tasks.trash', function (projectId: string) {
+    check(projectId, String);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      return this.ready();
+    }
+
+    if (!userCan(this.userId, 'project.view', { project })) {
+      return this.ready();
+    }
+
+    return TasksCollection.find(
+      { projectId, deletedAt: { $exists: true } },
+      {
+        fields: {
+          projectId: 1,
+          parentTaskId: 1,
+          title: 1,
+          status: 1,
+          priority: 1,
+          assignedToId: 1,
+          createdBy: 1,
+          deletedAt: 1,
+          deletedBy: 1,
+        },
+        sort: { deletedAt: -1 }, // Most recently deleted first
+        limit: 100,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // COMMENT PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish comments for a task together with their authors
+   *
+   * WHY: Task detail page discussion thread
+   *
+   * SECURITY: Only if user has access to the task's project
+   *
+   * WHY LOW-LEVEL PUBLISH API (this.added/changed/removed):
+   * Returning [commentsCursor, usersCursor] would fix the author list at
+   * subscribe time - someone commenting for the first time would show up
+   * without a name. Observing the comments lets us publish each new author
+   * the moment their first comment arrives.
+   *
+   * PERFORMANCE:
+   * - Index: { taskId: 1, createdAt: 1 } (walked backwards)
+   * - Authors limited to public profile fields, each sent once
+   *
+   * NEWEST FIRST: The limit keeps the latest comments, so a long thread
+   * keeps showing new ones. Older comments come with a bigger limit;
+   * a reply whose parent is past the limit is shown without it.
+   *
+   * @param taskId - Task to get comments for
+   * @param limit - Most recent N comments (default 200, max 500)
+   */
+  Meteor.publish('comments.forTask', function (taskId: string, limit: number = 200) {
+    check(taskId, String);
+    check(limit, Number);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const task = TasksCollection.findOne({ _id: taskId, ...NOT_TRASHED });
+    if (!task) {
+      return this.ready();
+    }
+
+    const project = ProjectsCollection.findOne(task.projectId);
+    if (!project) {
+      return this.ready();
+    }
+
+    if (!userCan(this.userId, 'project.view', { project })) {
+      return this.ready();
+    }
+
+    const publishedAuthorIds = new Set<string>();
+
+    const publishAuthor = (authorId: string) => {
+      if (publishedAuthorIds.has(authorId)) return;
+
+      const author = UsersCollection.findOne(authorId, {
+        fields: {
+          username: 1,
+          'profile.firstName': 1,
+          'profile.lastName': 1,
+          'profile.avatar': 1,
+        },
+      });
+      if (!author) return;
+
+      publishedAuthorIds.add(authorId);
+      const { _id, ...fields } = author;
+      this.added('users', authorId, fields);
+    };
+
+    // VALIDATION: Reasonable limit
+    const safeLimit = Math.min(limit, 500);
+
+    const handle = CommentsCollection.find(
+      { taskId },
+      {
+        sort: { createdAt: -1 },
+        limit: safeLimit,
+      }
+    ).observeChanges({
+      added: (id: string, fields: any) => {
+        if (fields.authorId) {
+          publishAuthor(fields.authorId);
+        }
+        this.added('comments', id, fields);
+      },
+      changed: (id: string, fields: any) => {
+        this.changed('comments', id, fields);
+      },
+      removed: (id: string) => {
+        this.removed('comments', id);
+      },
+    });
+
+    // CLEANUP: Stop observing when the client unsubscribes
+    this.onStop(() => handle.stop());
+
+    this.ready();
+  });
+
+  // ==========================================================================
+  // TIME TRACKING PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish current user's running timer
+   *
+   * WHY: Timer widget in the header ("02:14 on Fix login bug")
+   *
+   * REAL-TIME VALUE: High!
+   * Starting a timer in one tab shows it in every other tab, and an
+   * auto-stopped timer disappears without a refresh
+   *
+   * WORKSPACE: Not scoped - a timer keeps running across a workspace
+   * switch, and the widget must still be able to stop it
+   *
+   * PERFORMANCE:
+   * - Unique partial index { userId: 1 } where isRunning
+   * - At most one document
+   */
+  Meteor.publish('timeEntries.runningTimer', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    return TimeEntriesCollection.find(
+      { userId: this.userId, isRunning: true },
+      {
+        fields: {
+          taskId: 1,
+          projectId: 1,
+          userId: 1,
+          startedAt: 1,
+          isRunning: 1,
+          note: 1,
+          billable: 1,
+        },
+        limit: 1,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // TEMPLATE PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish project templates the user can use
+   *
+   * WHY: "New project from template" dialog
+   *
+   * SECURITY:
+   * - Only templates of the active workspace
+   * - Managers see their own templates
+   * - Admins see all of the workspace's project templates
+   * - Members can't create projects, so they get nothing
+   *
+   * PERFORMANCE:
+   * - Index: { organizationId: 1, kind: 1 }
+   * - Task list excluded (only needed when instantiating, on the server)
+   */
+  Meteor.publish('templates.projectTemplates', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const user = getWorkspaceUser(this.userId);
+
+    if (!user?.organizationId || !can(user, 'project.create', null)) {
+      return this.ready();
+    }
+
+    const selector: Record<string, any> = {
+      organizationId: user.organizationId,
+      kind: 'project',
+    };
+    if (!can(user, 'project.viewAll', null)) {
+      selector.ownerId = this.userId;
+    }
+
+    return TemplatesCollection.find(selector, {
+      fields: { tasks: 0 },
+      sort: { name: 1 },
+      limit: 100,
+    });
+  });
+
+  /**
+   * Publish task templates of a project
+   *
+   * WHY: "New task from template" menu on the project board
+   *
+   * SECURITY: Only if user has access to the project
+   *
+   * PERFORMANCE:
+   * - Index: { projectId: 1, name: 1 }
+   *
+   * @param projectId - Project to get task templates for
+   */
+  Meteor.publish('templates.forProject', function (projectId: string) {
+    check(projectId, String);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      return this.ready();
+    }
+
+    if (!userCan(this.userId, 'project.view', { project })) {
+      return this.ready();
+    }
+
+    return TemplatesCollection.find(
+      { kind: 'task', projectId },
+      {
+        sort: { name: 1 },
+        limit: 100,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // ORGANIZATION PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish the organizations current user belongs to
+   *
+   * WHY: Workspace switcher, and showing the user's role in each
+   *
+   * PERFORMANCE:
+   * - Index: { memberIds: 1 }
+   * - Users are in a handful of organizations at most
+   */
+  Meteor.publish('organizations.mine', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    return OrganizationsCollection.find(
+      { memberIds: this.userId },
+      {
+        fields: { name: 1, slug: 1, memberIds: 1, members: 1 },
+        sort: { name: 1 },
+        limit: 50,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // TEAM PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish the teams of the active workspace
+   *
+   * WHY: Team pages, and picking a team to attach to a project
+   *
+   * SECURITY: Any workspace member sees who is in which team - the same
+   * people they already see in users.list
+   *
+   * PERFORMANCE:
+   * - Index: { organizationId: 1, name: 1 }
+   */
+  Meteor.publish('teams.list', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
+      return this.ready();
+    }
+
+    return TeamsCollection.find(
+      { organizationId: organization._id },
+      {
+        fields: { organizationId: 1, name: 1, memberIds: 1, leadId: 1 },
+        sort: { name: 1 },
+        limit: 200,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // API TOKEN PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish current user's API tokens
+   *
+   * WHY: "Personal access tokens" settings page - list and revoke
+   *
+   * SECURITY: hashedToken is never sent; prefix is enough to tell
+   * tokens apart
+   *
+   * PERFORMANCE:
+   * - Index: { userId: 1, createdAt: -1 }
+   */
+  Meteor.publish('apiTokens.mine', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    return ApiTokensCollection.find(
+      { userId: this.userId },
+      {
+        fields: {
+          userId: 1,
+          name: 1,
+          prefix: 1,
+          scopes: 1,
+          expiresAt: 1,
+          revokedAt: 1,
+          lastUsedAt: 1,
+          createdAt: 1,
+        },
+        sort: { createdAt: -1 },
+        limit: 100,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // INVITATION PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish current user's open invitations
+   *
+   * WHY: "You've been invited to ..." list with accept / decline buttons
+   *
+   * SECURITY:
+   * - Addressed to this user, or to one of their verified email addresses
+   *   and not yet claimed by another account
+   * - The token is included: the invitee needs it to answer
+   *
+   * NOTE: Expiry is checked when subscribing; an invitation expiring
+   * while the list is open is rejected when answered
+   *
+   * WORKSPACE: Not scoped - invitations are how people reach a new one
+   */
+  Meteor.publish('invitations.mine', function () {
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    // SECURITY: Email invitations only reach verified addresses
+    const emails = getVerifiedEmails(UsersCollection.findOne(this.userId));
+
+    return InvitationsCollection.find(
+      {
+        $or: [
+          { inviteeId: this.userId },
+          { email: { $in: emails }, inviteeId: { $exists: false } },
+        ],
+        status: 'pending',
+        expiresAt: { $gt: new Date() },
+      },
+      {
+        sort: { createdAt: -1 },
+        limit: 50,
+      }
+    );
+  });
+
+  /**
+   * Publish a project's pending invitations
+   *
+   * WHY: Team settings ("Invited: jane@example.com - Revoke")
+   *
+   * SECURITY:
+   * - Only for users who may manage the team
+   * - Token excluded: the link is for the invitee only
+   *
+   * @param projectId - Project to get invitations for
+   */
+  Meteor.publish('invitations.forProject', function (projectId: string) {
+    check(projectId, String);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!userCan(this.userId, 'project.manageTeam', { project })) {
+      return this.ready();
+    }
+
+    return InvitationsCollection.find(
+      { projectId, status: 'pending' },
+      {
+        fields: { token: 0 },
+        sort: { createdAt: -1 },
+        limit: 100,
+      }
+    );
+  });
+
+  // ==========================================================================
+  // WEBHOOK PUBLICATIONS
+  // ==========================================================================
+
+  /**
+   * Publish a project's webhooks
+   *
+   * WHY: Webhook settings ("https://ci.example.com/hooks - task.complete")
+   *
+   * SECURITY:
+   * - Only for users who may manage the project's webhooks
+   * - Secret excluded: it is shown once, by webhooks.create / rotateSecret
+   *
+   * @param projectId - Project to get webhooks for
+   */
+  Meteor.publish('webhooks.forProject', function (projectId: string) {
+    check(projectId, String);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!userCan(this.userId, 'project.manageWebhooks', { project })) {
+      return this.ready();
+    }
+
+    return WebhooksCollection.find(
+      { projectId },
+      {
+        fields: { secret: 0 },
+        sort: { createdAt: 1 },
+        limit: 50,
+      }
+    );
+  });
+
+  /**
+   * Publish a webhook's recent deliveries
+   *
+   * WHY: Delivery log on the settings page - status, attempts, and the
+   * receiver's answers, for debugging a failing endpoint
+   *
+   * PERFORMANCE: Uses the { webhookId: 1, createdAt: -1 } index
+   *
+   * @param webhookId - Webhook to get deliveries for
+   * @param limit - Most recent N deliveries (default 50, max 200)
+   */
+  Meteor.publish('webhookDeliveries.forWebhook', function (webhookId: string, limit: number = 50) {
+    check(webhookId, String);
+    check(limit, Number);
+
+    if (!this.userId) {
+      return this.ready();
+    }
+
+    const webhook = WebhooksCollection.findOne(webhookId);
+    const project = webhook && ProjectsCollection.findOne(webhook.projectId);
+    if (!project || !userCan(this.userId, 'project.manageWebhooks', { project })) {
+      return this.ready();
+    }
+
+    // VALIDATION: Reasonable limit
+    const safeLimit = Math.min(limit, 200);
+
+    return WebhookDeliveriesCollection.find(
+      { webhookId },
+      {
+        sort: { createdAt: -1 },
+        limit: safeLimit,
+      }
+    );
+  });
+
   // ==========================================================================
   // ACTIVITY LOG PUBLICATIONS
   // ==========================================================================
@@ -494,6 +1076,9 @@ if (Meteor.isServer) {
    *
    * WHY: User's activity feed / "What I did recently"
    *
+   * WORKSPACE: Only activity about the active workspace's projects,
+   * tasks and templates
+   *
    * PERFORMANCE:
    * - Index: { userId: 1, createdAt: -1 }
    * - Efficient for time-series queries
@@ -510,8 +1095,10 @@ if (Meteor.isServer) {
     // VALIDATION: Reasonable limit
     const safeLimit = Math.min(limit, 100);
 
+    const organization = getActiveOrganization(this.userId);
+
     return ActivityLogsCollection.find(
-      { userId: this.userId },
+      { userId: this.userId, ...getWorkspaceActivitySelector(organization?._id) },
       {
         sort: { createdAt: -1 },
         limit: safeLimit,
@@ -542,14 +1129,7 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
@@ -582,6 +1162,7 @@ if (Meteor.isServer) {
     }
 
     // SECURITY: Check task access via project
+    // NOTE: Trashed tasks included - their history shows who deleted them
     const task = TasksCollection.findOne(taskId);
     if (!task) {
       return this.ready();
@@ -592,14 +1173,7 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
@@ -637,8 +1211,14 @@ if (Meteor.isServer) {
 
     const safeLimit = Math.min(limit, 50);
 
-    // Get projects user has access to
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
+      return this.ready();
+    }
+
+    // Get projects user has access to (in the active workspace)
     const projects = ProjectsCollection.find({
+      organizationId: organization._id,
       $or: [
         { ownerId: this.userId },
         { teamMemberIds: this.userId },
@@ -648,6 +1228,7 @@ if (Meteor.isServer) {
     const projectIds = projects.map((p) => p._id);
 
     // Get tasks in those projects
+    // NOTE: Trashed tasks included - deletions belong in the feed
     const tasks = TasksCollection.find({
       projectId: { $in: projectIds },
     }).fetch();
@@ -695,21 +1276,14 @@ if (Meteor.isServer) {
       return this.ready();
     }
 
-    const hasAccess =
-      project.ownerId === this.userId ||
-      project.teamMemberIds.includes(this.userId);
-
-    const user = UsersCollection.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-
-    if (!hasAccess && !isAdmin) {
+    if (!userCan(this.userId, 'project.view', { project })) {
       return this.ready();
     }
 
     // Return array of cursors - Meteor merges them into one subscription
     return [
       ProjectsCollection.find({ _id: projectId }),
-      TasksCollection.find({ projectId }, { limit: 200 }),
+      TasksCollection.find({ projectId, ...NOT_TRASHED }, { limit: 200 }),
     ];
   });
 }
@@ -725,6 +1299,7 @@ if (Meteor.isServer) {
  * 6. Composite Publications: Return multiple cursors for related data
  * 7. Parameter Validation: Use check() to validate all parameters
  * 8. DDP Use Cases: Focus on real-time, small datasets
+ * 9. Low-Level Publish API: Observe a cursor to publish related documents
  *
  * ANTI-PATTERNS TO AVOID:
  *
@@ -0,0 +1,67 @@
+/**
+ * REST Read Access
+ *
+ * SINGLE RESPONSIBILITY: What the token's user may read, for the GET
+ * endpoints (writes are checked by the methods themselves)
+ *
+ * RULE: Same as the publications - a project, its tasks and their
+ * comments are readable with 'project.view', in the active workspace
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { ProjectsCollection, Project } from '../projects';
+import { TasksCollection, Task, NOT_TRASHED } from '../tasks';
+import { getActiveOrganization } from '../organizations';
+import { can, userCan, getWorkspaceUser } from '../policy';
+
+/**
+ * IDs of the active workspace's projects the user can view
+ *
+ * WHY FILTER WITH THE POLICY INSTEAD OF A SELECTOR: The view rule stays
+ * in one place (policy.ts); list queries then page through
+ * { _id: { $in: ids } } with Mongo doing the sorting and counting
+ */
+export function getViewableProjectIds(userId: string): string[] {
+  const organization = getActiveOrganization(userId);
+  if (!organization) return [];
+
+  const user = getWorkspaceUser(userId);
+
+  return ProjectsCollection.find(
+    { organizationId: organization._id },
+    { fields: { ownerId: 1, organizationId: 1, teamMemberIds: 1, members: 1 } }
+  )
+    .fetch()
+    .filter((project: Project) => can(user, 'project.view', { project }))
+    .map((project: Project) => project._id!);
+}
+
+/**
+ * Load a project the user can view
+ */
+export function findViewableProject(userId: string, projectId: string): Project {
+  const project = ProjectsCollection.findOne(projectId);
+  if (!project) {
+    throw new Meteor.Error('not-found', 'Project not found');
+  }
+
+  if (!userCan(userId, 'project.view', { project })) {
+    throw new Meteor.Error('not-authorized', 'No access to this project');
+  }
+
+  return project;
+}
+
+/**
+ * Load a task (not in the trash) the user can view
+ */
+export function findViewableTask(userId: string, taskId: string): Task {
+  const task = TasksCollection.findOne({ _id: taskId, ...NOT_TRASHED });
+  if (!task) {
+    throw new Meteor.Error('not-found', 'Task not found');
+  }
+
+  findViewableProject(userId, task.projectId);
+
+  return task;
+}
@@ -0,0 +1,58 @@
+/**
+ * Calling Methods From HTTP
+ *
+ * SINGLE RESPONSIBILITY: Run a Meteor method as the token's user
+ *
+ * WHY THROUGH THE METHOD: projects/methods.ts, tasks/methods.ts and
+ * the others hold all validation and permission checks. Calling them
+ * (rather than re-implementing their writes) keeps DDP and HTTP clients
+ * under exactly the same rules.
+ *
+ * HOW: Meteor.callAsync on the server runs as whoever the current method
+ * invocation belongs to - we provide one for the token's user, like a
+ * method calling another method.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { DDP } from 'meteor/ddp';
+import { DDPCommon } from 'meteor/ddp-common';
+import { Random } from 'meteor/random';
+import { CurrentApiToken, METHOD_SCOPES } from '../apiTokens';
+import { assertApiTokenScope } from '../apiTokens/guard';
+import type { RestRequest } from './types';
+
+/**
+ * Call a method for a REST request
+ *
+ * SECURITY:
+ * - The token needs the method's scope (same table as DDP, scopes.ts)
+ * - The method sees this.userId = the token's user and no connection;
+ *   it can't change the user (setUserId refuses)
+ * - Runs inside CurrentApiToken, so activity logs record the token
+ *
+ * @param request - The authenticated request
+ * @param name - Method name, e.g. 'tasks.insert'
+ * @param args - Method arguments
+ * @returns Whatever the method returns
+ */
+export function callMethod<T = unknown>(
+  request: RestRequest,
+  name: string,
+  ...args: unknown[]
+): Promise<T> {
+  assertApiTokenScope(request.token, METHOD_SCOPES, name);
+
+  const invocation = new DDPCommon.MethodInvocation({
+    isSimulation: false,
+    userId: request.userId,
+    setUserId: () => {
+      throw new Meteor.Error('not-authorized', 'Cannot change the user of an API request');
+    },
+    connection: null,
+    randomSeed: Random.id(),
+  });
+
+  return CurrentApiToken.withValue(request.token, () =>
+    DDP._CurrentMethodInvocation.withValue(invocation, () => Meteor.callAsync(name, ...args))
+  );
+}
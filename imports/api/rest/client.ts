@@ -0,0 +1,397 @@
+/**
+ * REST API Client (v1)
+ *
+ * GENERATED by imports/api/rest/clientGenerator.ts from the route table
+ * and the schemas the methods validate with - DO NOT EDIT.
+ *
+ * REGENERATE (development server running):
+ *   curl http://localhost:3000/api/v1/client.ts > imports/api/rest/client.ts
+ *
+ * USAGE:
+ * const api = new RestClient({ baseUrl: 'https://tasks.example.com/api/v1', token });
+ * const { data } = await api.listTasks({ assignedToId: 'me', sort: 'dueDate' });
+ */
+
+import type { Comment } from '../comments/types';
+import type { Project, ProjectChanges, ProjectInput } from '../projects/types';
+import type { Task, TaskChanges, TaskInput } from '../tasks/types';
+import type { RestError, RestList } from './types';
+
+/**
+ * A value as it travels as JSON: Dates are ISO 8601 strings
+ */
+export type Json<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Json<U>[]
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+/**
+ * A non-2xx answer
+ */
+export class RestApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    readonly reason: string
+  ) {
+    super(`${status} ${error}: ${reason}`);
+    this.name = 'RestApiError';
+  }
+}
+
+export interface RestClientOptions {
+  baseUrl: string; // e.g. 'https://tasks.example.com/api/v1'
+  token: string; // API token (apiTokens.create)
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+
+export interface ListProjectsQuery {
+  status?: string; // Comma-separated: active, completed, archived
+  tag?: string;
+  ownerId?: string;
+  limit?: number; // Page size, 1-100 (default 20)
+  offset?: number; // Documents to skip (default 0)
+  sort?: string; // Field to sort by, '-' prefix for descending, e.g. -createdAt
+}
+
+export interface RemoveProjectQuery {
+  hard?: boolean; // Delete the project with its tasks instead of archiving it
+}
+
+export interface ListTasksQuery {
+  projectId?: string;
+  status?: string; // Comma-separated status keys
+  priority?: string; // Comma-separated: low, medium, high
+  assignedToId?: string; // A user ID, 'me' or 'none'
+  tag?: string;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  limit?: number; // Page size, 1-100 (default 20)
+  offset?: number; // Documents to skip (default 0)
+  sort?: string; // Field to sort by, '-' prefix for descending, e.g. -createdAt
+}
+
+export interface ListCommentsQuery {
+  authorId?: string;
+  limit?: number; // Page size, 1-100 (default 20)
+  offset?: number; // Documents to skip (default 0)
+  sort?: string; // Field to sort by, '-' prefix for descending, e.g. -createdAt
+}
+
+export interface GetTeamPerformanceQuery {
+  projectId?: string;
+}
+
+export interface GetActivityTimelineQuery {
+  userId?: string;
+  entityId?: string;
+  days?: number; // Days back from today
+}
+
+export interface GetTimesheetQuery {
+  from: Date;
+  to: Date;
+  userId?: string;
+  projectId?: string;
+}
+
+export interface GetPriorityDistributionQuery {
+  projectId?: string;
+}
+
+/**
+ * Every operation, as served (tests compare this with the route table)
+ */
+export const OPERATIONS = {
+  listProjects: { method: 'GET', path: '/projects', scope: 'read:projects' },
+  getProject: { method: 'GET', path: '/projects/:projectId', scope: 'read:projects' },
+  createProject: { method: 'POST', path: '/projects', scope: 'write:projects' },
+  updateProject: { method: 'PATCH', path: '/projects/:projectId', scope: 'write:projects' },
+  removeProject: { method: 'DELETE', path: '/projects/:projectId', scope: 'write:projects' },
+  listTasks: { method: 'GET', path: '/tasks', scope: 'read:tasks' },
+  getTask: { method: 'GET', path: '/tasks/:taskId', scope: 'read:tasks' },
+  createTask: { method: 'POST', path: '/tasks', scope: 'write:tasks' },
+  updateTask: { method: 'PATCH', path: '/tasks/:taskId', scope: 'write:tasks' },
+  removeTask: { method: 'DELETE', path: '/tasks/:taskId', scope: 'write:tasks' },
+  assignTask: { method: 'POST', path: '/tasks/:taskId/assign', scope: 'write:tasks' },
+  moveTask: { method: 'POST', path: '/tasks/:taskId/move', scope: 'write:tasks' },
+  listComments: { method: 'GET', path: '/tasks/:taskId/comments', scope: 'read:comments' },
+  createComment: { method: 'POST', path: '/tasks/:taskId/comments', scope: 'write:comments' },
+  editComment: { method: 'PATCH', path: '/comments/:commentId', scope: 'write:comments' },
+  removeComment: { method: 'DELETE', path: '/comments/:commentId', scope: 'write:comments' },
+  getUserStatistics: { method: 'GET', path: '/reports/user-statistics', scope: 'read:reports' },
+  getProjectStatistics: {
+    method: 'GET',
+    path: '/reports/projects/:projectId/statistics',
+    scope: 'read:reports',
+  },
+  getTeamPerformance: { method: 'GET', path: '/reports/team-performance', scope: 'read:reports' },
+  getActivityTimeline: { method: 'GET', path: '/reports/activity-timeline', scope: 'read:reports' },
+  getDependencyChain: {
+    method: 'GET',
+    path: '/reports/tasks/:taskId/dependency-chain',
+    scope: 'read:reports',
+  },
+  getTimesheet: { method: 'GET', path: '/reports/timesheet', scope: 'read:reports' },
+  getPriorityDistribution: {
+    method: 'GET',
+    path: '/reports/priority-distribution',
+    scope: 'read:reports',
+  },
+} as const;
+
+export class RestClient {
+  constructor(private readonly options: RestClientOptions) {}
+
+  /**
+   * List projects of the active workspace
+   *
+   * GET /projects (read:projects)
+   */
+  listProjects(query: Json<ListProjectsQuery> = {}): Promise<Json<RestList<Project>>> {
+    return this.request('GET', `/projects`, { query });
+  }
+
+  /**
+   * Get a project
+   *
+   * GET /projects/:projectId (read:projects)
+   */
+  getProject(projectId: string): Promise<Json<Project>> {
+    return this.request('GET', `/projects/${encodeURIComponent(projectId)}`);
+  }
+
+  /**
+   * Create a project
+   *
+   * POST /projects (write:projects)
+   */
+  createProject(body: Json<ProjectInput>): Promise<Json<Project>> {
+    return this.request('POST', `/projects`, { body });
+  }
+
+  /**
+   * Update a project
+   *
+   * PATCH /projects/:projectId (write:projects)
+   */
+  updateProject(projectId: string, body: Json<ProjectChanges>): Promise<Json<Project>> {
+    return this.request('PATCH', `/projects/${encodeURIComponent(projectId)}`, { body });
+  }
+
+  /**
+   * Archive a project (?hard=true deletes it with its tasks)
+   *
+   * DELETE /projects/:projectId (write:projects)
+   */
+  removeProject(projectId: string, query: Json<RemoveProjectQuery> = {}): Promise<void> {
+    return this.request('DELETE', `/projects/${encodeURIComponent(projectId)}`, { query });
+  }
+
+  /**
+   * List tasks of the projects you can view
+   *
+   * GET /tasks (read:tasks)
+   */
+  listTasks(query: Json<ListTasksQuery> = {}): Promise<Json<RestList<Task>>> {
+    return this.request('GET', `/tasks`, { query });
+  }
+
+  /**
+   * Get a task
+   *
+   * GET /tasks/:taskId (read:tasks)
+   */
+  getTask(taskId: string): Promise<Json<Task>> {
+    return this.request('GET', `/tasks/${encodeURIComponent(taskId)}`);
+  }
+
+  /**
+   * Create a task
+   *
+   * POST /tasks (write:tasks)
+   */
+  createTask(body: Json<TaskInput>): Promise<Json<Task>> {
+    return this.request('POST', `/tasks`, { body });
+  }
+
+  /**
+   * Update a task
+   *
+   * PATCH /tasks/:taskId (write:tasks)
+   */
+  updateTask(taskId: string, body: Json<TaskChanges>): Promise<Json<Task>> {
+    return this.request('PATCH', `/tasks/${encodeURIComponent(taskId)}`, { body });
+  }
+
+  /**
+   * Move a task to the trash
+   *
+   * DELETE /tasks/:taskId (write:tasks)
+   */
+  removeTask(taskId: string): Promise<void> {
+    return this.request('DELETE', `/tasks/${encodeURIComponent(taskId)}`);
+  }
+
+  /**
+   * Assign a task (null to unassign)
+   *
+   * POST /tasks/:taskId/assign (write:tasks)
+   */
+  assignTask(taskId: string, body: Json<{ assignedToId?: string | null }>): Promise<Json<Task>> {
+    return this.request('POST', `/tasks/${encodeURIComponent(taskId)}/assign`, { body });
+  }
+
+  /**
+   * Move a task (with its subtasks) to another project
+   *
+   * POST /tasks/:taskId/move (write:tasks)
+   */
+  moveTask(
+    taskId: string,
+    body: Json<{ projectId: string }>
+  ): Promise<Json<{ movedTaskIds: string[] }>> {
+    return this.request('POST', `/tasks/${encodeURIComponent(taskId)}/move`, { body });
+  }
+
+  /**
+   * List the comments on a task
+   *
+   * GET /tasks/:taskId/comments (read:comments)
+   */
+  listComments(
+    taskId: string,
+    query: Json<ListCommentsQuery> = {}
+  ): Promise<Json<RestList<Comment>>> {
+    return this.request('GET', `/tasks/${encodeURIComponent(taskId)}/comments`, { query });
+  }
+
+  /**
+   * Comment on a task
+   *
+   * POST /tasks/:taskId/comments (write:comments)
+   */
+  createComment(
+    taskId: string,
+    body: Json<{ body: string; parentId?: string | null }>
+  ): Promise<Json<Comment>> {
+    return this.request('POST', `/tasks/${encodeURIComponent(taskId)}/comments`, { body });
+  }
+
+  /**
+   * Edit a comment
+   *
+   * PATCH /comments/:commentId (write:comments)
+   */
+  editComment(commentId: string, body: Json<{ body: string }>): Promise<Json<Comment>> {
+    return this.request('PATCH', `/comments/${encodeURIComponent(commentId)}`, { body });
+  }
+
+  /**
+   * Remove a comment
+   *
+   * DELETE /comments/:commentId (write:comments)
+   */
+  removeComment(commentId: string): Promise<void> {
+    return this.request('DELETE', `/comments/${encodeURIComponent(commentId)}`);
+  }
+
+  /**
+   * Your task statistics
+   *
+   * GET /reports/user-statistics (read:reports)
+   */
+  getUserStatistics(): Promise<unknown> {
+    return this.request('GET', `/reports/user-statistics`);
+  }
+
+  /**
+   * Statistics of one project
+   *
+   * GET /reports/projects/:projectId/statistics (read:reports)
+   */
+  getProjectStatistics(projectId: string): Promise<unknown> {
+    return this.request('GET', `/reports/projects/${encodeURIComponent(projectId)}/statistics`);
+  }
+
+  /**
+   * Task counts and on-time rate per team member
+   *
+   * GET /reports/team-performance (read:reports)
+   */
+  getTeamPerformance(query: Json<GetTeamPerformanceQuery> = {}): Promise<unknown> {
+    return this.request('GET', `/reports/team-performance`, { query });
+  }
+
+  /**
+   * Activity counts per day
+   *
+   * GET /reports/activity-timeline (read:reports)
+   */
+  getActivityTimeline(query: Json<GetActivityTimelineQuery> = {}): Promise<unknown> {
+    return this.request('GET', `/reports/activity-timeline`, { query });
+  }
+
+  /**
+   * Blockers, blocked tasks and critical path of a task
+   *
+   * GET /reports/tasks/:taskId/dependency-chain (read:reports)
+   */
+  getDependencyChain(taskId: string): Promise<unknown> {
+    return this.request('GET', `/reports/tasks/${encodeURIComponent(taskId)}/dependency-chain`);
+  }
+
+  /**
+   * Hours per user and week
+   *
+   * GET /reports/timesheet (read:reports)
+   */
+  getTimesheet(query: Json<GetTimesheetQuery>): Promise<unknown> {
+    return this.request('GET', `/reports/timesheet`, { query });
+  }
+
+  /**
+   * Unfinished tasks per priority and status
+   *
+   * GET /reports/priority-distribution (read:reports)
+   */
+  getPriorityDistribution(query: Json<GetPriorityDistributionQuery> = {}): Promise<unknown> {
+    return this.request('GET', `/reports/priority-distribution`, { query });
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: Record<string, unknown>; body?: unknown } = {}
+  ): Promise<T> {
+    const search = new URLSearchParams();
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    });
+
+    const url = this.options.baseUrl.replace(/\/$/, '') + path;
+    const response = await (this.options.fetch ?? fetch)(
+      search.toString() ? `${url}?${search}` : url,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.options.token}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }
+    );
+
+    if (response.status === 204) return undefined as T;
+
+    const json = await response.json();
+    if (!response.ok) {
+      const { error, reason } = json as RestError;
+      throw new RestApiError(response.status, error, reason);
+    }
+    return json as T;
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * REST Client Generator
+ *
+ * SINGLE RESPONSIBILITY: Write the TypeScript source of client.ts from
+ * the route table
+ *
+ * WHY GENERATED: Bodies and responses are typed with the real Task /
+ * Project / ... types (import type), named by the schemas. A field
+ * renamed in types.ts breaks the schema (objectOf) and, through it, every
+ * consumer of the client at compile time - nobody hand-maintains a copy.
+ *
+ * REGENERATE (development server running):
+ *   curl http://localhost:3000/api/v1/client.ts > imports/api/rest/client.ts
+ */
+
+import { isRequired } from '../schemas';
+import { getPathParams, getQueryParams } from './openapi';
+import type { Schema } from '../schemas';
+import type { RestRoute } from './types';
+
+/**
+ * Types to import, by module (relative to imports/api)
+ */
+type TypeImports = Map<string, Set<string>>;
+
+const MAX_LINE = 100;
+
+const HEADER = `/**
+ * REST API Client (v1)
+ *
+ * GENERATED by imports/api/rest/clientGenerator.ts from the route table
+ * and the schemas the methods validate with - DO NOT EDIT.
+ *
+ * REGENERATE (development server running):
+ *   curl http://localhost:3000/api/v1/client.ts > imports/api/rest/client.ts
+ *
+ * USAGE:
+ * const api = new RestClient({ baseUrl: 'https://tasks.example.com/api/v1', token });
+ * const { data } = await api.listTasks({ assignedToId: 'me', sort: 'dueDate' });
+ */
+`;
+
+const RUNTIME = `/**
+ * A value as it travels as JSON: Dates are ISO 8601 strings
+ */
+export type Json<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Json<U>[]
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+/**
+ * A non-2xx answer
+ */
+export class RestApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    readonly reason: string
+  ) {
+    super(\`\${status} \${error}: \${reason}\`);
+    this.name = 'RestApiError';
+  }
+}
+
+export interface RestClientOptions {
+  baseUrl: string; // e.g. 'https://tasks.example.com/api/v1'
+  token: string; // API token (apiTokens.create)
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+`;
+
+const REQUEST = `  private async request<T>(
+    method: string,
+    path: string,
+    { query, body }: { query?: Record<string, unknown>; body?: unknown } = {}
+  ): Promise<T> {
+    const search = new URLSearchParams();
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    });
+
+    const url = this.options.baseUrl.replace(/\\/$/, '') + path;
+    const response = await (this.options.fetch ?? fetch)(
+      search.toString() ? \`\${url}?\${search}\` : url,
+      {
+        method,
+        headers: {
+          Authorization: \`Bearer \${this.options.token}\`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }
+    );
+
+    if (response.status === 204) return undefined as T;
+
+    const json = await response.json();
+    if (!response.ok) {
+      const { error, reason } = json as RestError;
+      throw new RestApiError(response.status, error, reason);
+    }
+    return json as T;
+  }`;
+
+// ============================================================================
+// SCHEMA -> TYPESCRIPT
+// ============================================================================
+
+/**
+ * Import a named type
+ */
+function addImport(imports: TypeImports, source: string, name: string) {
+  if (!imports.has(source)) imports.set(source, new Set());
+  imports.get(source)!.add(name);
+}
+
+/**
+ * The TypeScript type of a schema
+ *
+ * NOTE: Named object schemas are their type (imported from source);
+ * everything else is written inline
+ */
+function toTypeScript(schema: Schema, imports: TypeImports): string {
+  switch (schema.kind) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+      return 'Date';
+    case 'enum':
+      return schema.values.map((value) => `'${value}'`).join(' | ');
+    case 'array': {
+      const items = toTypeScript(schema.items, imports);
+      return /[ |]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+    }
+    case 'record':
+      return `Record<string, ${toTypeScript(schema.values, imports)}>`;
+    case 'maybe':
+    case 'nullable':
+      return `${toTypeScript(schema.inner, imports)} | null`;
+    case 'optional':
+      return toTypeScript(schema.inner, imports);
+    case 'unknown':
+      return 'unknown';
+    case 'object':
+      if (schema.name && schema.source) {
+        addImport(imports, schema.source, schema.name);
+        return schema.name;
+      }
+      return toObjectType(schema.properties, imports);
+  }
+}
+
+/**
+ * An inline object type: { a: string; b?: number }
+ */
+function toObjectType(properties: Record<string, Schema>, imports: TypeImports): string {
+  const fields = Object.entries(properties).map(
+    ([key, property]) =>
+      `${key}${isRequired(property) ? '' : '?'}: ${toTypeScript(property, imports)}`
+  );
+  return `{ ${fields.join('; ')} }`;
+}
+
+// ============================================================================
+// GENERATOR
+// ============================================================================
+
+/**
+ * 'listTasks' -> 'ListTasksQuery'
+ */
+function toQueryTypeName(route: RestRoute): string {
+  return `${route.operationId[0].toUpperCase()}${route.operationId.slice(1)}Query`;
+}
+
+/**
+ * The query parameters of a route as an exported interface
+ */
+function toQueryInterface(route: RestRoute, imports: TypeImports): string {
+  const fields = Object.entries(getQueryParams(route)).map(([key, property]) => {
+    const description =
+      property.description ??
+      (property.kind === 'optional' || property.kind === 'maybe'
+        ? property.inner.description
+        : undefined);
+    const optionalMark = isRequired(property) ? '' : '?';
+    const field = `  ${key}${optionalMark}: ${toTypeScript(property, imports)};`;
+    return description ? `${field} // ${description}` : field;
+  });
+
+  return [`export interface ${toQueryTypeName(route)} {`, ...fields, '}'].join('\n');
+}
+
+/**
+ * One client method
+ */
+function toMethod(route: RestRoute, imports: TypeImports): string {
+  const pathParams = getPathParams(route.path);
+  const queryParams = getQueryParams(route);
+
+  const args = pathParams.map((name) => `${name}: string`);
+  if (route.body) {
+    args.push(`body: Json<${toTypeScript(route.body, imports)}>`);
+  }
+  if (Object.keys(queryParams).length > 0) {
+    const queryType = `Json<${toQueryTypeName(route)}>`;
+    const required = Object.values(queryParams).some(isRequired);
+    args.push(required ? `query: ${queryType}` : `query: ${queryType} = {}`);
+  }
+
+  let result = 'void';
+  if (route.response) {
+    const item = toTypeScript(route.response, imports);
+    result = route.list
+      ? `Json<RestList<${item}>>`
+      : item === 'unknown'
+        ? item
+        : `Json<${item}>`;
+  }
+
+  const path = route.path.replace(/:([a-zA-Z]+)/g, '${encodeURIComponent($1)}');
+  const options = [
+    ...(route.body ? ['body'] : []),
+    ...(Object.keys(queryParams).length > 0 ? ['query'] : []),
+  ];
+
+  let signature = `  ${route.operationId}(${args.join(', ')}): Promise<${result}> {`;
+  if (signature.length > MAX_LINE) {
+    signature = [
+      `  ${route.operationId}(`,
+      ...args.map((arg, i) => `    ${arg}${i < args.length - 1 ? ',' : ''}`),
+      `  ): Promise<${result}> {`,
+    ].join('\n');
+  }
+
+  let call = `    return this.request('${route.method}', \`${path}\`${
+    options.length > 0 ? `, { ${options.join(', ')} }` : ''
+  });`;
+  if (call.length > MAX_LINE) {
+    call = [
+      `    return this.request(`,
+      `      '${route.method}',`,
+      `      \`${path}\`${options.length > 0 ? ',' : ''}`,
+      ...(options.length > 0 ? [`      { ${options.join(', ')} }`] : []),
+      `    );`,
+    ].join('\n');
+  }
+
+  return [
+    `  /**`,
+    `   * ${route.summary}`,
+    `   *`,
+    `   * ${route.method} ${route.path} (${route.scope})`,
+    `   */`,
+    signature,
+    call,
+    `  }`,
+  ].join('\n');
+}
+
+/**
+ * One entry of OPERATIONS
+ */
+function toOperation(route: RestRoute): string {
+  const fields = [`method: '${route.method}'`, `path: '${route.path}'`, `scope: '${route.scope}'`];
+  const line = `  ${route.operationId}: { ${fields.join(', ')} },`;
+  if (line.length <= MAX_LINE) return line;
+
+  return [`  ${route.operationId}: {`, ...fields.map((field) => `    ${field},`), '  },'].join(
+    '\n'
+  );
+}
+
+/**
+ * Generate client.ts
+ *
+ * @param routes - The route table (REST_ROUTES)
+ */
+export function generateClientSource(routes: RestRoute[]): string {
+  const imports: TypeImports = new Map();
+  addImport(imports, 'rest/types', 'RestError');
+  addImport(imports, 'rest/types', 'RestList');
+
+  const queryInterfaces = routes
+    .filter((route) => Object.keys(getQueryParams(route)).length > 0)
+    .map((route) => toQueryInterface(route, imports));
+  const methods = routes.map((route) => toMethod(route, imports));
+
+  const importLines = Array.from(imports.entries())
+    .map(([source, names]) => {
+      const path = source.startsWith('rest/') ? `./${source.slice(5)}` : `../${source}`;
+      return [path, names] as const;
+    })
+    // '../' modules first, then './'
+    .sort(
+      ([a], [b]) => Number(a.startsWith('./')) - Number(b.startsWith('./')) || a.localeCompare(b)
+    )
+    .map(([path, names]) => {
+      const list = Array.from(names).sort().join(', ');
+      return `import type { ${list} } from '${path}';`;
+    });
+
+  return [
+    HEADER,
+    importLines.join('\n'),
+    '',
+    RUNTIME,
+    queryInterfaces.join('\n\n'),
+    '',
+    '/**',
+    ' * Every operation, as served (tests compare this with the route table)',
+    ' */',
+    'export const OPERATIONS = {',
+    ...routes.map(toOperation),
+    '} as const;',
+    '',
+    'export class RestClient {',
+    '  constructor(private readonly options: RestClientOptions) {}',
+    '',
+    methods.join('\n\n'),
+    '',
+    REQUEST,
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,50 @@
+/**
+ * REST Error Mapping
+ *
+ * SINGLE RESPONSIBILITY: Turn whatever a handler threw into an HTTP
+ * status and a RestError body
+ *
+ * WHY ONE TABLE: Methods only throw a few Meteor.Error codes; each maps
+ * to one status everywhere, so clients can branch on the status alone
+ */
+
+import { Meteor } from 'meteor/meteor';
+import type { RestError } from './types';
+
+/**
+ * HTTP status per Meteor.Error code
+ */
+export const ERROR_STATUS: Record<string, number> = {
+  'validation-error': 400,
+  'match-failed': 400,
+  'not-authenticated': 401,
+  'not-authorized': 403,
+  'not-found': 404,
+  'method-not-allowed': 405,
+  'payload-too-large': 413,
+};
+
+/**
+ * Map a thrown error to a response
+ *
+ * RULES:
+ * - Meteor.Error with a known code: its status and reason
+ * - check() failures (Match.Error): 400 'match-failed'
+ * - Anything else: 500 without details (logged on the server)
+ */
+export function toRestError(error: any): { status: number; body: RestError } {
+  if (error instanceof Meteor.Error && ERROR_STATUS[(error as any).error]) {
+    const { error: code, reason } = error as any;
+    return { status: ERROR_STATUS[code], body: { error: code, reason: reason || code } };
+  }
+
+  if (error?.errorType === 'Match.Error') {
+    return {
+      status: 400,
+      body: { error: 'match-failed', reason: error.message || 'Invalid request data' },
+    };
+  }
+
+  console.error('❌ REST API error:', error);
+  return { status: 500, body: { error: 'internal-error', reason: 'Internal server error' } };
+}
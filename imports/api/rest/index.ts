@@ -0,0 +1,23 @@
+/**
+ * REST API Module
+ *
+ * Barrel export for the REST API's shared pieces
+ *
+ * import { RestList, RestError } from '/imports/api/rest';
+ *
+ * NOTE: server.ts, call.ts and the routes are server-only and imported
+ * directly (server/main.ts registers the API)
+ */
+
+// Export types
+export type {
+  HttpMethod,
+  RestRequest,
+  RestResponse,
+  RestRoute,
+  RestList,
+  RestError,
+} from './types';
+
+// Export error mapping
+export { ERROR_STATUS } from './errors';
@@ -0,0 +1,158 @@
+/**
+ * OpenAPI Document
+ *
+ * SINGLE RESPONSIBILITY: Describe the REST API as OpenAPI 3.0, built from
+ * the route table and the schemas the methods validate with
+ *
+ * SERVED AT: GET /api/v1/openapi.json (no token needed - it describes
+ * the API, not anyone's data)
+ *
+ * NOTE: Nothing here is written by hand per endpoint. A new route, field
+ * or enum value shows up in the document on the next server start.
+ */
+
+import { toJsonSchema, isRequired } from '../schemas';
+import { RestErrorSchema, LIST_QUERY } from './schemas';
+import type { JsonSchema, Schema } from '../schemas';
+import type { RestRoute } from './types';
+
+export const OPENAPI_VERSION = '3.0.3';
+
+/**
+ * Error statuses every endpoint may answer with
+ */
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid input (validation-error, match-failed)',
+  '401': 'Missing, unknown, revoked or expired token (not-authenticated)',
+  '403': 'No permission, or the token lacks the scope (not-authorized)',
+  '404': 'No such document, or not visible to you (not-found)',
+};
+
+/**
+ * '/tasks/:taskId' -> '/tasks/{taskId}'
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([a-zA-Z]+)/g, '{$1}');
+}
+
+/**
+ * The path parameters of a route, in order
+ */
+export function getPathParams(path: string): string[] {
+  return Array.from(path.matchAll(/:([a-zA-Z]+)/g), (match) => match[1]);
+}
+
+/**
+ * Query parameters of a route, list parameters included
+ */
+export function getQueryParams(route: RestRoute): Record<string, Schema> {
+  return { ...route.query, ...(route.list && LIST_QUERY) };
+}
+
+/**
+ * Describe one route
+ */
+function buildOperation(route: RestRoute, components: Record<string, JsonSchema>): JsonSchema {
+  const parameters = [
+    ...getPathParams(route.path).map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    })),
+    ...Object.entries(getQueryParams(route)).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: isRequired(schema),
+      schema: toJsonSchema(schema, components),
+    })),
+  ];
+
+  const responses: JsonSchema = {};
+  if (route.response) {
+    const item = toJsonSchema(route.response, components);
+    responses[String(route.status ?? 200)] = {
+      description: 'OK',
+      content: {
+        'application/json': {
+          schema: route.list
+            ? {
+                type: 'object',
+                properties: {
+                  data: { type: 'array', items: item },
+                  total: { type: 'integer', description: 'Matching documents, not just this page' },
+                  limit: { type: 'integer' },
+                  offset: { type: 'integer' },
+                },
+                required: ['data', 'total', 'limit', 'offset'],
+              }
+            : item,
+        },
+      },
+    };
+  } else {
+    responses['204'] = { description: 'No Content' };
+  }
+
+  const error = { 'application/json': { schema: toJsonSchema(RestErrorSchema, components) } };
+  Object.entries(ERROR_RESPONSES).forEach(([status, description]) => {
+    responses[status] = { description, content: error };
+  });
+  if (route.body) {
+    responses['413'] = { description: 'Body larger than 1 MB (payload-too-large)', content: error };
+  }
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    description: `Requires scope \`${route.scope}\`.`,
+    tags: [route.path.split('/')[1]],
+    security: [{ bearerAuth: [route.scope] }],
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(route.body, components) } },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * Build the document
+ *
+ * @param routes - The route table (REST_ROUTES)
+ * @param basePath - Where the routes are served, e.g. '/api/v1'
+ */
+export function buildOpenApiDocument(routes: RestRoute[], basePath: string): JsonSchema {
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, JsonSchema> = {};
+
+  routes.forEach((route) => {
+    const path = toOpenApiPath(route.path);
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: buildOperation(route, components),
+    };
+  });
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Task Manager API',
+      version: basePath.split('/').pop(),
+      description:
+        'Projects, tasks, comments and reports over HTTP. Dates are ISO 8601 strings. ' +
+        'Authenticate with an API token: Authorization: Bearer <token>.',
+    },
+    servers: [{ url: basePath }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'A personal API token' },
+      },
+    },
+  };
+}
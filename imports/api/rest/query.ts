@@ -0,0 +1,110 @@
+/**
+ * REST Query Parsing
+ *
+ * SINGLE RESPONSIBILITY: Read pagination, sorting and filters from the
+ * query string, and JSON dates from bodies
+ *
+ * CONVENTIONS (all list endpoints):
+ * - ?limit=20&offset=40 - page size 1-100 (default 20)
+ * - ?sort=-createdAt - field name, '-' for descending; only listed fields
+ * - ?status=todo,in_progress - comma-separated values match any of them
+ */
+
+import { Meteor } from 'meteor/meteor';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export interface ListOptions {
+  limit: number;
+  offset: number;
+  sort: Record<string, 1 | -1>;
+}
+
+/**
+ * Read a non-negative integer parameter
+ */
+function parseInteger(query: Record<string, string>, name: string, fallback: number): number {
+  if (query[name] === undefined) return fallback;
+
+  const value = Number(query[name]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Meteor.Error('validation-error', `${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Read limit, offset and sort
+ *
+ * @param sortFields - Fields clients may sort by
+ * @param defaultSort - e.g. '-createdAt'
+ */
+export function parseListOptions(
+  query: Record<string, string>,
+  sortFields: string[],
+  defaultSort: string
+): ListOptions {
+  const limit = parseInteger(query, 'limit', DEFAULT_LIMIT);
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw new Meteor.Error('validation-error', `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const sortParam = query.sort || defaultSort;
+  const field = sortParam.replace(/^-/, '');
+  if (!sortFields.includes(field)) {
+    throw new Meteor.Error(
+      'validation-error',
+      `sort must be one of: ${sortFields.join(', ')} (prefix '-' for descending)`
+    );
+  }
+
+  return {
+    limit,
+    offset: parseInteger(query, 'offset', 0),
+    // _id last keeps pages stable when values tie
+    sort: { [field]: sortParam.startsWith('-') ? -1 : 1, _id: 1 },
+  };
+}
+
+/**
+ * Read a comma-separated filter as a Mongo condition
+ *
+ * EXAMPLE: 'todo,done' -> { $in: ['todo', 'done'] }
+ */
+export function parseListFilter(value: string | undefined): { $in: string[] } | undefined {
+  if (!value) return undefined;
+  return { $in: value.split(',').map((item) => item.trim()).filter(Boolean) };
+}
+
+/**
+ * Read an ISO 8601 date
+ */
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Meteor.Error('validation-error', `${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+/**
+ * Turn date strings in a JSON body into Dates
+ *
+ * WHY: Methods check() for Date; JSON only has strings. null is kept
+ * (it clears the field where a method allows that).
+ *
+ * @param body - Request body
+ * @param fields - Top-level fields that hold dates
+ */
+export function withDates<T extends Record<string, any>>(body: T, fields: string[]): T {
+  const converted: Record<string, any> = { ...body };
+
+  fields.forEach((field) => {
+    if (typeof converted[field] === 'string') {
+      converted[field] = parseDate(converted[field], field);
+    }
+  });
+
+  return converted as T;
+}
@@ -0,0 +1,51 @@
+/**
+ * REST Responses
+ *
+ * SINGLE RESPONSIBILITY: The response shapes route handlers return
+ */
+
+import type { ListOptions } from './query';
+import type { RestList, RestResponse } from './types';
+
+export function ok(body: unknown): RestResponse {
+  return { status: 200, body };
+}
+
+export function created(body: unknown): RestResponse {
+  return { status: 201, body };
+}
+
+export function noContent(): RestResponse {
+  return { status: 204 };
+}
+
+/**
+ * One page of a collection query
+ *
+ * @param collection - Collection to query
+ * @param selector - Filters, already limited to what the user may read
+ * @param options - From parseListOptions()
+ * @param fields - Projection (optional)
+ */
+export function listPage<T>(
+  collection: any,
+  selector: Record<string, any>,
+  options: ListOptions,
+  fields?: Record<string, 0 | 1>
+): RestResponse {
+  const body: RestList<T> = {
+    data: collection
+      .find(selector, {
+        sort: options.sort,
+        skip: options.offset,
+        limit: options.limit,
+        ...(fields && { fields }),
+      })
+      .fetch(),
+    total: collection.find(selector).count(),
+    limit: options.limit,
+    offset: options.offset,
+  };
+
+  return ok(body);
+}
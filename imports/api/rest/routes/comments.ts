@@ -0,0 +1,91 @@
+/**
+ * REST Routes: Comments
+ *
+ * GET    /tasks/:taskId/comments   List (?authorId, oldest first by default)
+ * POST   /tasks/:taskId/comments   comments.insert
+ * PATCH  /comments/:commentId      comments.edit
+ * DELETE /comments/:commentId      comments.remove
+ */
+
+import { check } from 'meteor/check';
+import { CommentsCollection, Comment, CommentSchema } from '../../comments';
+import { string, optional, toPattern } from '../../schemas';
+import { CommentBodySchema, CommentEditSchema } from '../schemas';
+import { callMethod } from '../call';
+import { findViewableTask } from '../access';
+import { parseListOptions } from '../query';
+import { ok, created, noContent, listPage } from '../responses';
+import type { RestRoute } from '../types';
+
+const SORT_FIELDS = ['createdAt', 'updatedAt'];
+
+const CommentBodyPattern = toPattern(CommentBodySchema);
+const CommentEditPattern = toPattern(CommentEditSchema);
+
+export const commentRoutes: RestRoute[] = [
+  {
+    method: 'GET',
+    path: '/tasks/:taskId/comments',
+    scope: 'read:comments',
+    summary: 'List the comments on a task',
+    operationId: 'listComments',
+    query: { authorId: optional(string()) },
+    response: CommentSchema,
+    list: true,
+    async handle({ userId, params, query }) {
+      const options = parseListOptions(query, SORT_FIELDS, 'createdAt');
+      findViewableTask(userId, params.taskId);
+
+      const selector: Record<string, any> = { taskId: params.taskId };
+      if (query.authorId) selector.authorId = query.authorId;
+
+      return listPage<Comment>(CommentsCollection, selector, options);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/tasks/:taskId/comments',
+    scope: 'write:comments',
+    summary: 'Comment on a task',
+    operationId: 'createComment',
+    body: CommentBodySchema,
+    response: CommentSchema,
+    status: 201,
+    async handle(request) {
+      check(request.body, CommentBodyPattern);
+      const commentId = await callMethod<string>(
+        request,
+        'comments.insert',
+        request.params.taskId,
+        request.body.body,
+        request.body.parentId ?? undefined
+      );
+      return created(CommentsCollection.findOne(commentId));
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/comments/:commentId',
+    scope: 'write:comments',
+    summary: 'Edit a comment',
+    operationId: 'editComment',
+    body: CommentEditSchema,
+    response: CommentSchema,
+    async handle(request) {
+      check(request.body, CommentEditPattern);
+      await callMethod(request, 'comments.edit', request.params.commentId, request.body.body);
+      return ok(CommentsCollection.findOne(request.params.commentId));
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/comments/:commentId',
+    scope: 'write:comments',
+    summary: 'Remove a comment',
+    operationId: 'removeComment',
+    async handle(request) {
+      await callMethod(request, 'comments.remove', request.params.commentId);
+      return noContent();
+    },
+  },
+];
@@ -0,0 +1,18 @@
+/**
+ * REST Route Table
+ *
+ * Every endpoint of the current API version, in matching order
+ */
+
+import { projectRoutes } from './projects';
+import { taskRoutes } from './tasks';
+import { commentRoutes } from './comments';
+import { reportRoutes } from './reports';
+import type { RestRoute } from '../types';
+
+export const REST_ROUTES: RestRoute[] = [
+  ...projectRoutes,
+  ...taskRoutes,
+  ...commentRoutes,
+  ...reportRoutes,
+];
@@ -0,0 +1,113 @@
+/**
+ * REST Routes: Projects
+ *
+ * GET    /projects              List (?status, ?tag, ?ownerId)
+ * GET    /projects/:projectId   One project
+ * POST   /projects              projects.insert
+ * PATCH  /projects/:projectId   projects.update
+ * DELETE /projects/:projectId   projects.remove (archive; ?hard=true deletes)
+ */
+
+import {
+  ProjectsCollection,
+  Project,
+  ProjectSchema,
+  ProjectInputSchema,
+  ProjectChangesSchema,
+} from '../../projects';
+import { string, boolean, optional } from '../../schemas';
+import { callMethod } from '../call';
+import { getViewableProjectIds, findViewableProject } from '../access';
+import { parseListOptions, parseListFilter, withDates } from '../query';
+import { ok, created, noContent, listPage } from '../responses';
+import type { RestRoute } from '../types';
+
+const SORT_FIELDS = ['name', 'status', 'createdAt', 'updatedAt'];
+
+export const projectRoutes: RestRoute[] = [
+  {
+    method: 'GET',
+    path: '/projects',
+    scope: 'read:projects',
+    summary: 'List projects of the active workspace',
+    operationId: 'listProjects',
+    query: {
+      status: optional(string({ description: 'Comma-separated: active, completed, archived' })),
+      tag: optional(string()),
+      ownerId: optional(string()),
+    },
+    response: ProjectSchema,
+    list: true,
+    async handle({ userId, query }) {
+      const options = parseListOptions(query, SORT_FIELDS, '-createdAt');
+
+      const selector: Record<string, any> = { _id: { $in: getViewableProjectIds(userId) } };
+      if (query.status) selector.status = parseListFilter(query.status);
+      if (query.tag) selector.tags = query.tag;
+      if (query.ownerId) selector.ownerId = query.ownerId;
+
+      return listPage<Project>(ProjectsCollection, selector, options);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/projects/:projectId',
+    scope: 'read:projects',
+    summary: 'Get a project',
+    operationId: 'getProject',
+    response: ProjectSchema,
+    async handle({ userId, params }) {
+      return ok(findViewableProject(userId, params.projectId));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/projects',
+    scope: 'write:projects',
+    summary: 'Create a project',
+    operationId: 'createProject',
+    body: ProjectInputSchema,
+    response: ProjectSchema,
+    status: 201,
+    async handle(request) {
+      const projectId = await callMethod<string>(
+        request,
+        'projects.insert',
+        withDates(request.body, ['startDate'])
+      );
+      return created(ProjectsCollection.findOne(projectId));
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/projects/:projectId',
+    scope: 'write:projects',
+    summary: 'Update a project',
+    operationId: 'updateProject',
+    body: ProjectChangesSchema,
+    response: ProjectSchema,
+    async handle(request) {
+      await callMethod(request, 'projects.update', request.params.projectId, request.body);
+      return ok(ProjectsCollection.findOne(request.params.projectId));
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/projects/:projectId',
+    scope: 'write:projects',
+    summary: 'Archive a project (?hard=true deletes it with its tasks)',
+    operationId: 'removeProject',
+    query: {
+      hard: optional(boolean('Delete the project with its tasks instead of archiving it')),
+    },
+    async handle(request) {
+      await callMethod(
+        request,
+        'projects.remove',
+        request.params.projectId,
+        request.query.hard === 'true'
+      );
+      return noContent();
+    },
+  },
+];
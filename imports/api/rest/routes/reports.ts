@@ -0,0 +1,159 @@
+/**
+ * REST Routes: Reports (the aggregation methods)
+ *
+ * GET /reports/user-statistics
+ * GET /reports/projects/:projectId/statistics
+ * GET /reports/team-performance          (?projectId)
+ * GET /reports/activity-timeline         (?userId, ?entityId, ?days)
+ * GET /reports/tasks/:taskId/dependency-chain
+ * GET /reports/timesheet                 (?from, ?to, ?userId, ?projectId)
+ * GET /reports/priority-distribution     (?projectId)
+ *
+ * NOTE: Results are the methods' own, unpaginated - each is already
+ * bounded (one user, one project, one period)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { callMethod } from '../call';
+import { parseDate } from '../query';
+import { ok } from '../responses';
+import { string, integer, date, optional, unknown } from '../../schemas';
+import type { RestRoute } from '../types';
+
+/**
+ * Report bodies are whatever the aggregation returns; their types live
+ * with the aggregations, not in a schema
+ */
+const report = (method: string) => unknown(`The result of ${method} (see API_REFERENCE.md)`);
+
+export const reportRoutes: RestRoute[] = [
+  {
+    method: 'GET',
+    path: '/reports/user-statistics',
+    scope: 'read:reports',
+    summary: 'Your task statistics',
+    operationId: 'getUserStatistics',
+    response: report('aggregations.getUserStatistics'),
+    async handle(request) {
+      return ok(await callMethod(request, 'aggregations.getUserStatistics'));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/projects/:projectId/statistics',
+    scope: 'read:reports',
+    summary: 'Statistics of one project',
+    operationId: 'getProjectStatistics',
+    response: report('aggregations.getProjectStatistics'),
+    async handle(request) {
+      return ok(
+        await callMethod(request, 'aggregations.getProjectStatistics', request.params.projectId)
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/team-performance',
+    scope: 'read:reports',
+    summary: 'Task counts and on-time rate per team member',
+    operationId: 'getTeamPerformance',
+    query: { projectId: optional(string()) },
+    response: report('aggregations.getTeamPerformance'),
+    async handle(request) {
+      return ok(
+        await callMethod(
+          request,
+          'aggregations.getTeamPerformance',
+          request.query.projectId || undefined
+        )
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/activity-timeline',
+    scope: 'read:reports',
+    summary: 'Activity counts per day',
+    operationId: 'getActivityTimeline',
+    query: {
+      userId: optional(string()),
+      entityId: optional(string()),
+      days: optional(integer('Days back from today')),
+    },
+    response: report('aggregations.getActivityTimeline'),
+    async handle(request) {
+      const { userId, entityId, days } = request.query;
+      if (days !== undefined && !/^\d+$/.test(days)) {
+        throw new Meteor.Error('validation-error', 'days must be a positive integer');
+      }
+
+      return ok(
+        await callMethod(request, 'aggregations.getActivityTimeline', {
+          ...(userId && { userId }),
+          ...(entityId && { entityId }),
+          ...(days && { days: Number(days) }),
+        })
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/tasks/:taskId/dependency-chain',
+    scope: 'read:reports',
+    summary: 'Blockers, blocked tasks and critical path of a task',
+    operationId: 'getDependencyChain',
+    response: report('aggregations.getDependencyChain'),
+    async handle(request) {
+      return ok(
+        await callMethod(request, 'aggregations.getDependencyChain', request.params.taskId)
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/timesheet',
+    scope: 'read:reports',
+    summary: 'Hours per user and week',
+    operationId: 'getTimesheet',
+    query: {
+      from: date(),
+      to: date(),
+      userId: optional(string()),
+      projectId: optional(string()),
+    },
+    response: report('aggregations.getTimesheet'),
+    async handle(request) {
+      const { from, to, userId, projectId } = request.query;
+      if (!from || !to) {
+        throw new Meteor.Error('validation-error', 'from and to are required');
+      }
+
+      return ok(
+        await callMethod(request, 'aggregations.getTimesheet', {
+          from: parseDate(from, 'from'),
+          to: parseDate(to, 'to'),
+          ...(userId && { userId }),
+          ...(projectId && { projectId }),
+        })
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/priority-distribution',
+    scope: 'read:reports',
+    summary: 'Unfinished tasks per priority and status',
+    operationId: 'getPriorityDistribution',
+    query: { projectId: optional(string()) },
+    response: report('aggregations.getPriorityDistribution'),
+    async handle(request) {
+      return ok(
+        await callMethod(
+          request,
+          'aggregations.getPriorityDistribution',
+          request.query.projectId || undefined
+        )
+      );
+    },
+  },
+];
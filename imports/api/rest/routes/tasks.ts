@@ -0,0 +1,185 @@
+/**
+ * REST Routes: Tasks
+ *
+ * GET    /tasks                  List (?projectId, ?status, ?priority,
+ *                                 ?assignedToId, ?tag, ?dueBefore, ?dueAfter)
+ * GET    /tasks/:taskId          One task
+ * POST   /tasks                  tasks.insert
+ * PATCH  /tasks/:taskId          tasks.update
+ * DELETE /tasks/:taskId          tasks.remove (to the trash)
+ * POST   /tasks/:taskId/assign   tasks.assign
+ * POST   /tasks/:taskId/move     tasks.move
+ */
+
+import { check } from 'meteor/check';
+import {
+  TasksCollection,
+  Task,
+  NOT_TRASHED,
+  TaskSchema,
+  TaskInputSchema,
+  TaskChangesSchema,
+} from '../../tasks';
+import { string, date, optional, toPattern } from '../../schemas';
+import { AssignBodySchema, MoveBodySchema, MoveResultSchema } from '../schemas';
+import { callMethod } from '../call';
+import { getViewableProjectIds, findViewableTask } from '../access';
+import { parseListOptions, parseListFilter, parseDate, withDates } from '../query';
+import { ok, created, noContent, listPage } from '../responses';
+import type { RestRoute } from '../types';
+
+const SORT_FIELDS = ['title', 'status', 'priority', 'dueDate', 'createdAt', 'updatedAt'];
+
+const DATE_FIELDS = ['dueDate'];
+
+const AssignBodyPattern = toPattern(AssignBodySchema);
+const MoveBodyPattern = toPattern(MoveBodySchema);
+
+export const taskRoutes: RestRoute[] = [
+  {
+    method: 'GET',
+    path: '/tasks',
+    scope: 'read:tasks',
+    summary: 'List tasks of the projects you can view',
+    operationId: 'listTasks',
+    query: {
+      projectId: optional(string()),
+      status: optional(string({ description: 'Comma-separated status keys' })),
+      priority: optional(string({ description: 'Comma-separated: low, medium, high' })),
+      assignedToId: optional(string({ description: "A user ID, 'me' or 'none'" })),
+      tag: optional(string()),
+      dueBefore: optional(date()),
+      dueAfter: optional(date()),
+    },
+    response: TaskSchema,
+    list: true,
+    async handle({ userId, query }) {
+      const options = parseListOptions(query, SORT_FIELDS, '-createdAt');
+
+      const projectIds = getViewableProjectIds(userId).filter(
+        (id) => !query.projectId || id === query.projectId
+      );
+      const selector: Record<string, any> = { projectId: { $in: projectIds }, ...NOT_TRASHED };
+
+      if (query.status) selector.status = parseListFilter(query.status);
+      if (query.priority) selector.priority = parseListFilter(query.priority);
+      if (query.tag) selector.tags = query.tag;
+
+      // 'me' for the token's user, 'none' for unassigned tasks
+      // (null matches both unset and null - unassigning stores null)
+      if (query.assignedToId) {
+        selector.assignedToId =
+          query.assignedToId === 'me'
+            ? userId
+            : query.assignedToId === 'none'
+              ? null
+              : query.assignedToId;
+      }
+
+      if (query.dueBefore || query.dueAfter) {
+        selector.dueDate = {
+          ...(query.dueBefore && { $lt: parseDate(query.dueBefore, 'dueBefore') }),
+          ...(query.dueAfter && { $gte: parseDate(query.dueAfter, 'dueAfter') }),
+        };
+      }
+
+      return listPage<Task>(TasksCollection, selector, options);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/tasks/:taskId',
+    scope: 'read:tasks',
+    summary: 'Get a task',
+    operationId: 'getTask',
+    response: TaskSchema,
+    async handle({ userId, params }) {
+      return ok(findViewableTask(userId, params.taskId));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/tasks',
+    scope: 'write:tasks',
+    summary: 'Create a task',
+    operationId: 'createTask',
+    body: TaskInputSchema,
+    response: TaskSchema,
+    status: 201,
+    async handle(request) {
+      const taskId = await callMethod<string>(
+        request,
+        'tasks.insert',
+        withDates(request.body, DATE_FIELDS)
+      );
+      return created(TasksCollection.findOne(taskId));
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/tasks/:taskId',
+    scope: 'write:tasks',
+    summary: 'Update a task',
+    operationId: 'updateTask',
+    body: TaskChangesSchema,
+    response: TaskSchema,
+    async handle(request) {
+      await callMethod(
+        request,
+        'tasks.update',
+        request.params.taskId,
+        withDates(request.body, DATE_FIELDS)
+      );
+      return ok(TasksCollection.findOne(request.params.taskId));
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/tasks/:taskId',
+    scope: 'write:tasks',
+    summary: 'Move a task to the trash',
+    operationId: 'removeTask',
+    async handle(request) {
+      await callMethod(request, 'tasks.remove', request.params.taskId);
+      return noContent();
+    },
+  },
+  {
+    method: 'POST',
+    path: '/tasks/:taskId/assign',
+    scope: 'write:tasks',
+    summary: 'Assign a task (null to unassign)',
+    operationId: 'assignTask',
+    body: AssignBodySchema,
+    response: TaskSchema,
+    async handle(request) {
+      check(request.body, AssignBodyPattern);
+      await callMethod(
+        request,
+        'tasks.assign',
+        request.params.taskId,
+        request.body.assignedToId ?? null
+      );
+      return ok(TasksCollection.findOne(request.params.taskId));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/tasks/:taskId/move',
+    scope: 'write:tasks',
+    summary: 'Move a task (with its subtasks) to another project',
+    operationId: 'moveTask',
+    body: MoveBodySchema,
+    response: MoveResultSchema,
+    async handle(request) {
+      check(request.body, MoveBodyPattern);
+      const movedTaskIds = await callMethod<string[]>(
+        request,
+        'tasks.move',
+        request.params.taskId,
+        request.body.projectId
+      );
+      return ok({ movedTaskIds });
+    },
+  },
+];
@@ -0,0 +1,50 @@
+/**
+ * REST API Schemas
+ *
+ * SINGLE RESPONSIBILITY: Shapes that exist only over HTTP - error bodies
+ * and the small request bodies of endpoints whose method takes plain
+ * arguments (tasks.assign, comments.insert...)
+ *
+ * NOTE: Documents and method inputs are described next to their types
+ * (tasks/schemas.ts, projects/schemas.ts, comments/schemas.ts)
+ */
+
+import { objectOf, object, string, integer, arrayOf, maybe, optional } from '../schemas';
+import type { RestError } from './types';
+
+export const RestErrorSchema = objectOf<RestError>({ name: 'RestError', source: 'rest/types' })({
+  error: string({ description: "Meteor.Error code, e.g. 'not-found'" }),
+  reason: string(),
+});
+
+/**
+ * Query parameters every list endpoint takes (see query.ts)
+ */
+export const LIST_QUERY = {
+  limit: optional(integer('Page size, 1-100 (default 20)')),
+  offset: optional(integer('Documents to skip (default 0)')),
+  sort: optional(
+    string({ description: "Field to sort by, '-' prefix for descending, e.g. -createdAt" })
+  ),
+};
+
+export const AssignBodySchema = object({
+  assignedToId: maybe(string({ description: 'Omit or null to unassign' })),
+});
+
+export const MoveBodySchema = object({
+  projectId: string({ description: 'Target project' }),
+});
+
+export const MoveResultSchema = object({
+  movedTaskIds: arrayOf(string(), 'The task and its subtasks'),
+});
+
+export const CommentBodySchema = object({
+  body: string(),
+  parentId: maybe(string({ description: 'Comment to reply to' })),
+});
+
+export const CommentEditSchema = object({
+  body: string(),
+});
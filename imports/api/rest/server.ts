@@ -0,0 +1,250 @@
+/**
+ * REST API Server
+ *
+ * SINGLE RESPONSIBILITY: Receive HTTP requests under /api/v1, match them
+ * to a route, and answer in JSON
+ *
+ * REQUEST FLOW:
+ * 0. GET /openapi.json (and /client.ts in development) - no token needed
+ * 1. Match path and HTTP method (404 / 405)
+ * 2. Authenticate: Authorization: Bearer <API token> (401)
+ * 3. Check the route's scope (403)
+ * 4. Parse the JSON body (400)
+ * 5. Run the route - writes call the Meteor method (call.ts)
+ * 6. Map errors to statuses (errors.ts)
+ *
+ * VERSIONING: Breaking changes go into a new /api/v2 route table;
+ * v1 keeps answering as documented
+ *
+ * NOTE: Server-only. API tokens are the only way in - there are no
+ * cookie sessions to forge requests with, so no CSRF handling is needed.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { WebApp } from 'meteor/webapp';
+import { verifyApiToken } from '../apiTokens/tokens';
+import { assertApiTokenHasScope } from '../apiTokens/guard';
+import { REST_ROUTES } from './routes';
+import { toRestError } from './errors';
+import { buildOpenApiDocument } from './openapi';
+import { generateClientSource } from './clientGenerator';
+import type { ApiTokenContext } from '../apiTokens/types';
+import type { HttpMethod, RestRoute, RestResponse } from './types';
+
+export const API_BASE_PATH = '/api/v1';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Built on first request; the routes don't change while the server runs
+let openApiDocument: object | undefined;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Turn '/tasks/:taskId' into a regex capturing taskId
+ */
+function compilePath(path: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_match, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  return { pattern: new RegExp(`^${source}/?$`), names };
+}
+
+const compiledRoutes = REST_ROUTES.map((route) => ({ route, ...compilePath(route.path) }));
+
+/**
+ * Find the route for a request
+ *
+ * @returns The route and its path parameters, or the HTTP methods the
+ * path does support (for 405), or nothing (404)
+ */
+function matchRoute(
+  method: string,
+  pathname: string
+): { route: RestRoute; params: Record<string, string> } | { allowed: HttpMethod[] } | null {
+  const allowed: HttpMethod[] = [];
+
+  for (const { route, pattern, names } of compiledRoutes) {
+    const match = pattern.exec(pathname);
+    if (!match) continue;
+
+    if (route.method !== method) {
+      allowed.push(route.method);
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    names.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+    return { route, params };
+  }
+
+  return allowed.length > 0 ? { allowed } : null;
+}
+
+/**
+ * Authenticate the request's bearer token
+ *
+ * SECURITY: Missing, unknown, revoked and expired tokens all get the
+ * same 401
+ */
+function authenticate(req: any): ApiTokenContext {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+
+  try {
+    if (!match) throw new Error('No token');
+
+    const apiToken = verifyApiToken(match[1]);
+    return { tokenId: apiToken._id!, userId: apiToken.userId, scopes: apiToken.scopes };
+  } catch (error) {
+    throw new Meteor.Error(
+      'not-authenticated',
+      'Send a valid API token: Authorization: Bearer <token>'
+    );
+  }
+}
+
+/**
+ * Read and parse a JSON body
+ */
+function readJsonBody(req: any): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // NOTE: The rest of an oversized body is read and dropped rather than
+    // destroying the request - that would close the socket before the
+    // 413 could be sent
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(new Meteor.Error('payload-too-large', 'Request body is larger than 1 MB'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text.trim()) return resolve({});
+
+      try {
+        const body = JSON.parse(text);
+        if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+          throw new Error('Not an object');
+        }
+        resolve(body);
+      } catch (error) {
+        reject(new Meteor.Error('validation-error', 'Request body must be a JSON object'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write a response
+ */
+function send(res: any, { status, body }: RestResponse, headers: Record<string, string> = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(status === 204 || body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Handle one request below API_BASE_PATH
+ */
+async function handleRequest(req: any, res: any): Promise<void> {
+  const url = new URL(req.url, 'http://localhost');
+
+  // CONTRACT: Describes the API, not anyone's data - served without a token
+  if (req.method === 'GET' && url.pathname === '/openapi.json') {
+    if (!openApiDocument) {
+      openApiDocument = buildOpenApiDocument(REST_ROUTES, API_BASE_PATH);
+    }
+    return send(res, { status: 200, body: openApiDocument });
+  }
+
+  // DEVELOPMENT: Where client.ts is regenerated from (see clientGenerator.ts)
+  if (Meteor.isDevelopment && req.method === 'GET' && url.pathname === '/client.ts') {
+    res.writeHead(200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-store',
+    });
+    res.end(generateClientSource(REST_ROUTES));
+    return;
+  }
+
+  const matched = matchRoute(req.method, url.pathname);
+  if (!matched) {
+    throw new Meteor.Error('not-found', `No endpoint ${req.method} ${API_BASE_PATH}${url.pathname}`);
+  }
+  if ('allowed' in matched) {
+    const error = toRestError(
+      new Meteor.Error('method-not-allowed', `Use ${matched.allowed.join(', ')}`)
+    );
+    return send(res, error, { Allow: matched.allowed.join(', ') });
+  }
+
+  const token = authenticate(req);
+  assertApiTokenHasScope(token, matched.route.scope);
+
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
+
+  const body = req.method === 'POST' || req.method === 'PATCH' ? await readJsonBody(req) : {};
+
+  send(
+    res,
+    await matched.route.handle({
+      userId: token.userId,
+      token,
+      params: matched.params,
+      query,
+      body,
+    })
+  );
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Answer one request, errors included
+ *
+ * NOTE: req.url is relative to API_BASE_PATH, the way WebApp passes it
+ * to a handler mounted there. Exported for tests, which serve it from a
+ * local HTTP server.
+ */
+export function handleRestRequest(req: any, res: any): Promise<void> {
+  return handleRequest(req, res).catch((error) => {
+    if (res.headersSent) return;
+    send(res, toRestError(error));
+  });
+}
+
+/**
+ * Serve the REST API
+ *
+ * WHEN: Once, at server startup
+ */
+export function registerRestApi(): void {
+  WebApp.connectHandlers.use(API_BASE_PATH, handleRestRequest);
+
+  console.log(`✅ REST API served at ${API_BASE_PATH} (${REST_ROUTES.length} endpoints)`);
+}
@@ -0,0 +1,79 @@
+/**
+ * REST API Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY REST API-related types
+ */
+
+import type { ApiScope, ApiTokenContext } from '../apiTokens/types';
+import type { Schema } from '../schemas/schema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * A request, once authenticated and parsed
+ */
+export interface RestRequest {
+  // The token's user - methods run as this user
+  userId: string;
+  token: ApiTokenContext;
+
+  // Path parameters, e.g. { taskId } for /tasks/:taskId
+  params: Record<string, string>;
+
+  // Query string (repeated keys: last one wins)
+  query: Record<string, string>;
+
+  // Parsed JSON body ({} when there is none)
+  body: any;
+}
+
+/**
+ * What a route handler answers
+ */
+export interface RestResponse {
+  status: number;
+  body?: unknown;
+}
+
+/**
+ * One endpoint
+ *
+ * NOTE: Routes that change data call a Meteor method (see call.ts); the
+ * scope here must be the one scopes.ts lists for that method
+ *
+ * CONTRACT: operationId, query, body, response and list describe the
+ * endpoint for openapi.ts and the generated client - reuse the schemas
+ * the method validates with, so the document can't disagree with it
+ */
+export interface RestRoute {
+  method: HttpMethod;
+  path: string; // Below /api/v1, e.g. '/tasks/:taskId'
+  scope: ApiScope;
+  summary: string;
+  handle: (request: RestRequest) => Promise<RestResponse>;
+
+  operationId: string; // Client method name, e.g. 'listTasks'
+  query?: Record<string, Schema>; // optional() ones may be left out; lists add limit/offset/sort
+  body?: Schema;
+  response?: Schema; // Omitted: 204 No Content
+  status?: 200 | 201; // Success status when there is a response (default 200)
+  list?: boolean; // Response is a RestList page of `response` items
+}
+
+/**
+ * Body of every list endpoint
+ */
+export interface RestList<T> {
+  data: T[];
+  total: number; // Matching documents, not just this page
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Body of every error response
+ */
+export interface RestError {
+  error: string; // Meteor.Error code, e.g. 'not-found'
+  reason: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * Schemas Module
+ *
+ * Barrel export for describing inputs and documents once
+ *
+ * import { objectOf, string, maybe, toPattern } from '/imports/api/schemas';
+ */
+
+// Export schema types and builders
+export type {
+  Schema,
+  StringSchema,
+  NumberSchema,
+  BooleanSchema,
+  DateSchema,
+  EnumSchema,
+  ArraySchema,
+  ObjectSchema,
+  RecordSchema,
+  MaybeSchema,
+  OptionalSchema,
+  NullableSchema,
+  UnknownSchema,
+} from './schema';
+export {
+  string,
+  number,
+  integer,
+  boolean,
+  date,
+  oneOf,
+  arrayOf,
+  recordOf,
+  maybe,
+  optional,
+  nullable,
+  unknown,
+  object,
+  objectOf,
+  isRequired,
+} from './schema';
+
+// Export compilers
+export { toPattern } from './pattern';
+export { toJsonSchema } from './jsonSchema';
+export type { JsonSchema } from './jsonSchema';
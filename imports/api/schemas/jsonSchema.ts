@@ -0,0 +1,94 @@
+/**
+ * Schema -> JSON Schema
+ *
+ * SINGLE RESPONSIBILITY: Describe a schema as it travels over HTTP, in
+ * the JSON Schema dialect of OpenAPI 3.0
+ *
+ * DIFFERENCES FROM THE METHOD SIDE:
+ * - Dates are ISO 8601 strings (format: date-time)
+ * - Named object schemas become $refs into components.schemas
+ */
+
+import { isRequired } from './schema';
+import type { ObjectSchema, Schema } from './schema';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a schema
+ *
+ * @param schema - The schema
+ * @param components - Filled with every named object schema reached
+ * (pass the same map for a whole document)
+ * @param inline - Expand this schema even if it is named (for the
+ * component definitions themselves)
+ */
+export function toJsonSchema(
+  schema: Schema,
+  components: Record<string, JsonSchema>,
+  inline = false
+): JsonSchema {
+  const base: JsonSchema = schema.description ? { description: schema.description } : {};
+
+  switch (schema.kind) {
+    case 'string':
+      return { ...base, type: 'string', ...(schema.format && { format: schema.format }) };
+    case 'number':
+      return { ...base, type: schema.integer ? 'integer' : 'number' };
+    case 'boolean':
+      return { ...base, type: 'boolean' };
+    case 'date':
+      return { ...base, type: 'string', format: 'date-time' };
+    case 'enum':
+      return { ...base, type: 'string', enum: [...schema.values] };
+    case 'array':
+      return { ...base, type: 'array', items: toJsonSchema(schema.items, components) };
+    case 'record':
+      return {
+        ...base,
+        type: 'object',
+        additionalProperties: toJsonSchema(schema.values, components),
+      };
+    case 'maybe':
+    case 'nullable':
+      return { ...toJsonSchema(schema.inner, components), nullable: true, ...base };
+    case 'optional':
+      return { ...toJsonSchema(schema.inner, components), ...base };
+    case 'unknown':
+      return base;
+    case 'object':
+      if (schema.name && !inline) {
+        if (!components[schema.name]) {
+          components[schema.name] = {}; // Placeholder: stops recursion
+          components[schema.name] = toJsonSchema(schema, components, true);
+        }
+        return { $ref: `#/components/schemas/${schema.name}` };
+      }
+      return objectToJsonSchema(schema, components, base);
+  }
+}
+
+/**
+ * An object's properties and required list
+ */
+function objectToJsonSchema(
+  schema: ObjectSchema,
+  components: Record<string, JsonSchema>,
+  base: JsonSchema
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    properties[key] = toJsonSchema(property, components);
+    if (isRequired(property)) required.push(key);
+  });
+
+  return {
+    ...base,
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Schema -> check() Pattern
+ *
+ * SINGLE RESPONSIBILITY: Compile a schema into the Match pattern a method
+ * passes to check()
+ *
+ * NOTE: Compile once, at module level (see the VALIDATION PATTERNS
+ * sections of the methods files), not on every call
+ */
+
+import { check, Match } from 'meteor/check';
+import type { Schema } from './schema';
+
+/**
+ * Build the check() pattern for a schema
+ *
+ * EXAMPLES:
+ * maybe(date())               -> Match.Maybe(Date)
+ * oneOf(['low', 'high'])      -> Match.OneOf('low', 'high')
+ * object({ tags: arrayOf(string()) }) -> { tags: [String] }
+ *
+ * RULE: Objects are matched exactly, like a literal check() pattern -
+ * unknown keys are rejected
+ */
+export function toPattern(schema: Schema): any {
+  switch (schema.kind) {
+    case 'string':
+      return String;
+    case 'number':
+      return schema.integer ? Match.Integer : Number;
+    case 'boolean':
+      return Boolean;
+    case 'date':
+      return Date;
+    case 'enum':
+      return Match.OneOf(...schema.values);
+    case 'array':
+      return [toPattern(schema.items)];
+    case 'object': {
+      const pattern: Record<string, any> = {};
+      Object.entries(schema.properties).forEach(([key, property]) => {
+        pattern[key] = toPattern(property);
+      });
+      return pattern;
+    }
+    case 'record': {
+      const values = toPattern(schema.values);
+      return Match.Where((value: unknown) => {
+        check(value, Object);
+        Object.values(value as Record<string, unknown>).forEach((item) => check(item, values));
+        return true;
+      });
+    }
+    case 'maybe':
+      return Match.Maybe(toPattern(schema.inner));
+    case 'optional':
+      return Match.Optional(toPattern(schema.inner));
+    case 'nullable':
+      return Match.OneOf(toPattern(schema.inner), null);
+    case 'unknown':
+      return Match.Any;
+  }
+}
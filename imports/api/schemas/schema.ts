@@ -0,0 +1,204 @@
+/**
+ * Schemas
+ *
+ * SINGLE RESPONSIBILITY: Describe the shape of method inputs and of
+ * documents once, as plain data
+ *
+ * WHY: A check() pattern validates but can't be read back. A schema can:
+ * - pattern.ts compiles it to the check() pattern methods validate with
+ * - jsonSchema.ts turns it into JSON Schema for the OpenAPI document
+ * - The REST client generator reads it for TypeScript types
+ * So the HTTP contract is generated from what actually validates.
+ *
+ * NOTE: No Meteor imports - shared by client, server and generators
+ */
+
+// ============================================================================
+// SCHEMA TYPES
+// ============================================================================
+
+interface SchemaBase {
+  description?: string;
+}
+
+export interface StringSchema extends SchemaBase {
+  kind: 'string';
+  format?: 'uri';
+}
+
+export interface NumberSchema extends SchemaBase {
+  kind: 'number';
+  integer?: boolean;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  kind: 'boolean';
+}
+
+/**
+ * A Date in methods; an ISO 8601 string over HTTP
+ */
+export interface DateSchema extends SchemaBase {
+  kind: 'date';
+}
+
+export interface EnumSchema extends SchemaBase {
+  kind: 'enum';
+  values: readonly string[];
+}
+
+export interface ArraySchema extends SchemaBase {
+  kind: 'array';
+  items: Schema;
+}
+
+export interface ObjectSchema extends SchemaBase {
+  kind: 'object';
+  properties: Record<string, Schema>;
+
+  // Named schemas become OpenAPI components and imported TypeScript
+  // types: name is the exported type, source the module exporting it
+  // (relative to imports/api, e.g. 'tasks/types')
+  name?: string;
+  source?: string;
+}
+
+/**
+ * Object with any keys and values of one schema (e.g. workflow transitions)
+ */
+export interface RecordSchema extends SchemaBase {
+  kind: 'record';
+  values: Schema;
+}
+
+/**
+ * Field that may be left out or null (Match.Maybe)
+ */
+export interface MaybeSchema extends SchemaBase {
+  kind: 'maybe';
+  inner: Schema;
+}
+
+/**
+ * Field that may be left out, but not null (Match.Optional)
+ */
+export interface OptionalSchema extends SchemaBase {
+  kind: 'optional';
+  inner: Schema;
+}
+
+/**
+ * Required field that may be null, e.g. to unassign (Match.OneOf(x, null))
+ */
+export interface NullableSchema extends SchemaBase {
+  kind: 'nullable';
+  inner: Schema;
+}
+
+export interface UnknownSchema extends SchemaBase {
+  kind: 'unknown';
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | DateSchema
+  | EnumSchema
+  | ArraySchema
+  | ObjectSchema
+  | RecordSchema
+  | MaybeSchema
+  | OptionalSchema
+  | NullableSchema
+  | UnknownSchema;
+
+// ============================================================================
+// BUILDERS
+// ============================================================================
+
+export const string = (options: Omit<StringSchema, 'kind'> = {}): StringSchema => ({
+  kind: 'string',
+  ...options,
+});
+
+export const number = (description?: string): NumberSchema => ({ kind: 'number', description });
+
+export const integer = (description?: string): NumberSchema => ({
+  kind: 'number',
+  integer: true,
+  description,
+});
+
+export const boolean = (description?: string): BooleanSchema => ({
+  kind: 'boolean',
+  description,
+});
+
+export const date = (description?: string): DateSchema => ({ kind: 'date', description });
+
+export const oneOf = (values: readonly string[], description?: string): EnumSchema => ({
+  kind: 'enum',
+  values,
+  description,
+});
+
+export const arrayOf = (items: Schema, description?: string): ArraySchema => ({
+  kind: 'array',
+  items,
+  description,
+});
+
+export const recordOf = (values: Schema, description?: string): RecordSchema => ({
+  kind: 'record',
+  values,
+  description,
+});
+
+export const maybe = (inner: Schema): MaybeSchema => ({ kind: 'maybe', inner });
+
+export const optional = (inner: Schema): OptionalSchema => ({ kind: 'optional', inner });
+
+export const nullable = (inner: Schema): NullableSchema => ({ kind: 'nullable', inner });
+
+export const unknown = (description?: string): UnknownSchema => ({
+  kind: 'unknown',
+  description,
+});
+
+/**
+ * Object schema for a TypeScript type
+ *
+ * COMPILE-TIME CHECK: properties must name exactly the fields of T - a
+ * field added to or removed from the type without updating the schema
+ * is a type error
+ *
+ * EXAMPLE:
+ * const TaskInputSchema = objectOf<TaskInput>({ name: 'TaskInput', source: 'tasks/types' })({
+ *   projectId: string(),
+ *   ...
+ * });
+ */
+export function objectOf<T>(options: Omit<ObjectSchema, 'kind' | 'properties'> = {}) {
+  return (properties: { [K in keyof Required<T>]: Schema }): ObjectSchema => ({
+    kind: 'object',
+    properties: properties as Record<string, Schema>,
+    ...options,
+  });
+}
+
+/**
+ * Object schema without a TypeScript type behind it (small request bodies)
+ */
+export const object = (properties: Record<string, Schema>, description?: string): ObjectSchema => ({
+  kind: 'object',
+  properties,
+  description,
+});
+
+/**
+ * Whether an object property must be present
+ */
+export function isRequired(schema: Schema): boolean {
+  return schema.kind !== 'maybe' && schema.kind !== 'optional';
+}
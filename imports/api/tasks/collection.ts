@@ -98,6 +98,63 @@ if (Meteor.isServer) {
    */
   TasksCollection.createIndexAsync({ tags: 1 });
 
+  /**
+   * Index: Blockers
+   *
+   * QUERY PATTERN: "Which tasks does this task block?"
+   * Common in: Downstream $graphLookup, cleanup when a task is deleted
+   *
+   * WHY SPARSE: Most tasks have no dependencies
+   */
+  TasksCollection.createIndexAsync({ blockedByIds: 1 }, { sparse: true });
+
+  /**
+   * Index: Parent task
+   *
+   * QUERY PATTERN: "Show me the subtasks of this task"
+   * Common in: Task detail page, blocking parent completion
+   *
+   * WHY SPARSE: Only subtasks have a parent
+   */
+  TasksCollection.createIndexAsync({ parentTaskId: 1, status: 1 }, { sparse: true });
+
+  /**
+   * Index: Next occurrence
+   *
+   * QUERY PATTERN: "Which recurring tasks need their next instance?"
+   * Common in: Recurring tasks scheduler (server/jobs/recurringTasks.ts)
+   *
+   * WHY SPARSE: Only the latest instance of each series has it
+   */
+  TasksCollection.createIndexAsync({ nextOccurrenceAt: 1 }, { sparse: true });
+
+  /**
+   * Index: Series
+   *
+   * QUERY PATTERN: "Show me every instance of this recurring task"
+   * Common in: Series history, finding the latest instance
+   *
+   * WHY SPARSE: Only recurring tasks belong to a series
+   */
+  TasksCollection.createIndexAsync({ seriesId: 1, occurrenceIndex: -1 }, { sparse: true });
+
+  /**
+   * Index: Trash
+   *
+   * QUERY PATTERN: "Show me this project's trash" / "What can be purged?"
+   * Common in: tasks.trash publication, purge job
+   *
+   * WHY PARTIAL: Only trashed tasks have deletedAt
+   */
+  TasksCollection.createIndexAsync(
+    { projectId: 1, deletedAt: -1 },
+    { partialFilterExpression: { deletedAt: { $exists: true } } }
+  );
+  TasksCollection.createIndexAsync(
+    { deletedAt: 1 },
+    { partialFilterExpression: { deletedAt: { $exists: true } } }
+  );
+
   // --------------------------------------------------------------------------
   // SECURITY
   // --------------------------------------------------------------------------
@@ -10,11 +10,35 @@
 export type {
   Task,
   TaskStatus,
+  DefaultTaskStatus,
   Priority,
   NewTask,
   TaskUpdate,
+  TaskInput,
+  TaskChanges,
   TaskListItem,
+  ChecklistItem,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceInput,
+  BulkTaskFilter,
+  BulkTaskTarget,
+  BulkTaskResult,
 } from './types';
 
 // Export collection
 export { TasksCollection } from './collection';
+
+// Export schemas (validation + OpenAPI)
+export { TaskInputSchema, TaskChangesSchema, TaskSchema } from './schemas';
+
+// Export trash helpers
+export { NOT_TRASHED, TRASH_RETENTION_DAYS, findActiveTask, purgeTask } from './trash';
+
+// Export recurrence helpers (shared client + server)
+export {
+  parseRRule,
+  validateRecurrence,
+  getNextOccurrence,
+  getNextOccurrenceAfter,
+} from './recurrence';
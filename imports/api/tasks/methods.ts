@@ -13,71 +13,176 @@
 
 import { Meteor } from 'meteor/meteor';
 import { check, Match } from 'meteor/check';
-import { TasksCollection, Task, NewTask, TaskStatus, Priority } from './index';
-import { ProjectsCollection } from '../projects';
-import { ActivityLogsCollection } from '../activityLogs';
+import { Random } from 'meteor/random';
+import {
+  TasksCollection,
+  Task,
+  NewTask,
+  TaskStatus,
+  Priority,
+  ChecklistItem,
+  RecurrenceRule,
+  RecurrenceInput,
+  BulkTaskTarget,
+  BulkTaskResult,
+  parseRRule,
+  validateRecurrence,
+  getNextOccurrenceAfter,
+  NOT_TRASHED,
+  findActiveTask,
+  TaskInputSchema,
+  TaskChangesSchema,
+} from './index';
+import type { TaskInput, TaskChanges } from './index';
+import {
+  ProjectsCollection,
+  getProjectWorkflow,
+  getStatusCategory,
+  isTransitionAllowed,
+  mapStatusToWorkflow,
+  canBeAssigned,
+  updateProjectTaskCounters,
+} from '../projects';
+import { ActivityLogsCollection, ChangeRecord } from '../activityLogs';
+import { CommentsCollection } from '../comments';
+import {
+  TimeEntriesCollection,
+  NewTimeEntry,
+  MAX_ENTRY_HOURS,
+  splitDuration,
+  stopTimerEntry,
+} from '../timeEntries';
+import { userCan, inProject, onTask } from '../policy';
+import { toPattern } from '../schemas';
+
+/**
+ * check() patterns for tasks.insert / tasks.update
+ *
+ * Compiled from ./schemas.ts, which the REST API's OpenAPI document and
+ * client are generated from too. The status is validated against the
+ * project workflow in updateTask
+ */
+const TaskInputPattern = toPattern(TaskInputSchema);
+const TaskChangesPattern = toPattern(TaskChangesSchema);
+
+/**
+ * check() pattern for a recurrence rule
+ *
+ * Either an RRULE string or the structured form. Business rules are
+ * enforced by validateRecurrence()
+ */
+const RecurrencePattern = Match.OneOf(
+  { rrule: String },
+  {
+    frequency: Match.OneOf('daily', 'weekly', 'monthly'),
+    interval: Match.Maybe(Match.Integer),
+    weekdays: Match.Maybe([Match.Integer]),
+    monthDay: Match.Maybe(Match.Integer),
+    until: Match.Maybe(Date),
+    count: Match.Maybe(Match.Integer),
+  }
+);
+
+/**
+ * check() pattern for the tasks a bulk operation applies to
+ */
+const BulkTargetPattern = {
+  taskIds: Match.Maybe([String]),
+  filter: Match.Maybe({
+    projectId: String,
+    status: Match.Maybe(String),
+    priority: Match.Maybe(Match.OneOf('low', 'medium', 'high')),
+    assignedToId: Match.Maybe(Match.OneOf(String, null)),
+    tags: Match.Maybe([String]),
+  }),
+};
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
 /**
- * Check if user has permission to modify a task
+ * Maximum depth when walking dependency chains
  *
- * PERMISSION RULES:
- * - Project owner can modify any task in their project
- * - Task assignee can modify their own task (limited updates)
- * - Task creator can modify their task
- * - Admins can modify any task
+ * WHY: Guards against runaway traversal on corrupted data
  */
-function canModifyTask(userId: string | null, task: Task): boolean {
-  if (!userId) return false;
-
-  const user = Meteor.users.findOne(userId);
-  if (!user) return false;
+const MAX_DEPENDENCY_DEPTH = 100;
 
-  // Admin can modify anything
-  if (user.profile?.role === 'admin') return true;
+/**
+ * Check if "blockerId blocks blockedId" would create a cycle
+ *
+ * ALGORITHM: Breadth-first search upstream from the blocker
+ * If blockedId is already (directly or transitively) a blocker of blockerId,
+ * adding the new link closes a loop: A -> B -> ... -> A
+ *
+ * NOTE: A chain deeper than MAX_DEPENDENCY_DEPTH can't be proven
+ * cycle-free, so the link is refused rather than assumed safe
+ */
+function wouldCreateCycle(blockerId: string, blockedId: string): boolean {
+  if (blockerId === blockedId) return true;
 
-  // Task creator can modify
-  if (task.createdBy === userId) return true;
+  const visited = new Set<string>([blockerId]);
+  let frontier = [blockerId];
 
-  // Check if user is project owner
-  const project = ProjectsCollection.findOne(task.projectId);
-  if (project?.ownerId === userId) return true;
+  for (let depth = 0; frontier.length > 0; depth++) {
+    if (depth >= MAX_DEPENDENCY_DEPTH) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Dependency chains cannot be more than ${MAX_DEPENDENCY_DEPTH} tasks long`
+      );
+    }
 
-  // Assignee can modify their own task (checked separately in specific methods)
-  if (task.assignedToId === userId) return true;
+    const upstream = TasksCollection.find(
+      { _id: { $in: frontier } },
+      { fields: { blockedByIds: 1 } }
+    ).fetch();
+
+    frontier = [];
+    for (const task of upstream) {
+      for (const id of task.blockedByIds || []) {
+        if (id === blockedId) return true;
+        if (!visited.has(id)) {
+          visited.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+  }
 
   return false;
 }
 
 /**
- * Check if user can view tasks in a project
+ * Get the blockers of a task that are not finished yet
  *
- * VISIBILITY RULES:
- * - Project owner can see all tasks
- * - Team members can see tasks in their projects
- * - Admins can see all tasks
+ * "Finished" means a status in the 'done' category of the blocker's
+ * project workflow
  */
-function canViewProjectTasks(userId: string | null, projectId: string): boolean {
-  if (!userId) return false;
-
-  const user = Meteor.users.findOne(userId);
-  if (!user) return false;
-
-  if (user.profile?.role === 'admin') return true;
-
-  const project = ProjectsCollection.findOne(projectId);
-  if (!project) return false;
-
-  // Owner can see all tasks
-  if (project.ownerId === userId) return true;
+function getOpenBlockers(task: Task): Task[] {
+  if (!task.blockedByIds || task.blockedByIds.length === 0) return [];
+
+  // Trashed blockers don't block
+  const blockers = TasksCollection.find({
+    _id: { $in: task.blockedByIds },
+    ...NOT_TRASHED,
+  }).fetch();
+
+  return blockers.filter((blocker) => {
+    const project = ProjectsCollection.findOne(blocker.projectId);
+    return getStatusCategory(getProjectWorkflow(project), blocker.status) !== 'done';
+  });
+}
 
-  // Team members can see tasks
-  if (project.teamMemberIds.includes(userId)) return true;
+/**
+ * Get the subtasks of a task that are not finished yet
+ */
+function getOpenSubtasks(task: Task): Task[] {
+  const project = ProjectsCollection.findOne(task.projectId);
+  const workflow = getProjectWorkflow(project);
 
-  return false;
+  return TasksCollection.find({ parentTaskId: task._id, ...NOT_TRASHED })
+    .fetch()
+    .filter((subtask) => getStatusCategory(workflow, subtask.status) !== 'done');
 }
 
 /**
@@ -99,6 +204,354 @@ function logTaskActivity(
   });
 }
 
+// ============================================================================
+// TASK OPERATIONS
+// ============================================================================
+//
+// WHY FUNCTIONS (not just method bodies):
+// tasks.update / tasks.remove and their bulk versions share every permission
+// and validation rule. The only difference is when project counters are
+// recomputed: immediately for one task, once per project for a batch.
+
+/**
+ * Largest batch a bulk operation accepts
+ *
+ * WHY: Each task is validated and logged individually; a runaway filter
+ * shouldn't tie up the server
+ */
+const MAX_BULK_TASKS = 200;
+
+/**
+ * Most hours one tasks.logTime call records
+ *
+ * WHY: Larger amounts are split into entries of MAX_ENTRY_HOURS; a typo
+ * (or Infinity) shouldn't become thousands of them
+ */
+const MAX_LOG_TIME_HOURS = 10 * MAX_ENTRY_HOURS;
+
+/**
+ * Recompute a project's task counters now, or queue them
+ *
+ * @param counterQueue - Bulk operations pass a set of project IDs and
+ * recompute each one once when the batch is done
+ */
+function updateProjectCounters(projectId: string, counterQueue?: Set<string>) {
+  if (counterQueue) {
+    counterQueue.add(projectId);
+  } else {
+    updateProjectTaskCounters(projectId);
+  }
+}
+
+/**
+ * Update a task on behalf of a user (see tasks.update)
+ *
+ * @throws Meteor.Error when the task is missing, the user lacks permission
+ * or the changes break a rule
+ */
+function updateTask(
+  userId: string,
+  taskId: string,
+  updates: TaskChanges,
+  counterQueue?: Set<string>
+): void {
+  // FETCH: Get existing task
+  const task = findActiveTask(taskId);
+  if (!task) {
+    throw new Meteor.Error('not-found', 'Task not found');
+  }
+
+  // SECURITY: Check permissions
+  // task.work: assignees and others who work on the task, while they are
+  // still on the project in this workspace
+  const canFullyModify = userCan(userId, 'task.update', onTask(task));
+  const canWork = canFullyModify || userCan(userId, 'task.work', onTask(task));
+
+  if (!canWork) {
+    throw new Meteor.Error(
+      'not-authorized',
+      'You do not have permission to modify this task'
+    );
+  }
+
+  // PERMISSION: Assignees without full edit rights can only update certain fields
+  if (!canFullyModify) {
+    const allowedFields = ['status', 'description'];
+    const attemptedFields = Object.keys(updates);
+    const unauthorizedFields = attemptedFields.filter((f) => !allowedFields.includes(f));
+
+    if (unauthorizedFields.length > 0) {
+      throw new Meteor.Error(
+        'not-authorized',
+        `Assignees can only update: ${allowedFields.join(', ')}`
+      );
+    }
+  }
+
+  // VALIDATION: Title length
+  if (updates.title !== undefined) {
+    if (updates.title.trim().length < 3) {
+      throw new Meteor.Error('validation-error', 'Task title must be at least 3 characters');
+    }
+    if (updates.title.length > 200) {
+      throw new Meteor.Error('validation-error', 'Task title must be less than 200 characters');
+    }
+  }
+
+  // VALIDATION: Description length
+  if (updates.description !== undefined && updates.description.length > 2000) {
+    throw new Meteor.Error(
+      'validation-error',
+      'Task description must be less than 2000 characters'
+    );
+  }
+
+  // VALIDATION: Status must follow the project's workflow
+  // WHY: Each project defines its own statuses and allowed transitions
+  const project = ProjectsCollection.findOne(task.projectId);
+  const workflow = getProjectWorkflow(project);
+  const wasDone = getStatusCategory(workflow, task.status) === 'done';
+  let isDone = wasDone;
+
+  if (updates.status !== undefined && updates.status !== task.status) {
+    const newCategory = getStatusCategory(workflow, updates.status);
+    if (!newCategory) {
+      throw new Meteor.Error(
+        'invalid-status',
+        `Status "${updates.status}" is not part of this project's workflow`
+      );
+    }
+
+    if (!isTransitionAllowed(workflow, task.status, updates.status)) {
+      throw new Meteor.Error(
+        'invalid-transition',
+        `Cannot move task from "${task.status}" to "${updates.status}"`
+      );
+    }
+
+    isDone = newCategory === 'done';
+
+    // VALIDATION: Can't finish a task while its subtasks are open
+    if (isDone && !wasDone) {
+      const openSubtasks = getOpenSubtasks(task);
+      if (openSubtasks.length > 0) {
+        throw new Meteor.Error(
+          'has-open-subtasks',
+          `Finish the subtasks first: ${openSubtasks.map((t) => `"${t.title}"`).join(', ')}`
+        );
+      }
+    }
+
+    // VALIDATION: Can't start or finish a task while its blockers are open
+    if (newCategory === 'in_progress' || newCategory === 'done') {
+      const openBlockers = getOpenBlockers(task);
+      if (openBlockers.length > 0) {
+        throw new Meteor.Error(
+          'task-blocked',
+          `Task is blocked by: ${openBlockers.map((t) => `"${t.title}"`).join(', ')}`
+        );
+      }
+    }
+  }
+
+  // VALIDATION: If reassigning, validate new assignee
+  if (updates.assignedToId !== undefined && updates.assignedToId !== null) {
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    const newAssignee = Meteor.users.findOne(updates.assignedToId);
+    if (!newAssignee) {
+      throw new Meteor.Error('not-found', 'Assigned user not found');
+    }
+
+    if (newAssignee.deactivatedAt) {
+      throw new Meteor.Error('validation-error', 'Cannot assign tasks to a deactivated user');
+    }
+
+    if (!canBeAssigned(project, updates.assignedToId)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Can only assign tasks to the project owner or team members who can edit tasks'
+      );
+    }
+  }
+
+  // BUILD UPDATE OBJECT
+  const updateObject: any = {
+    $set: {
+      ...updates,
+      updatedAt: new Date(),
+    },
+  };
+
+  // SPECIAL CASE: Status change into the 'done' category
+  if (isDone && !wasDone) {
+    updateObject.$set.completedAt = new Date();
+  }
+
+  // SPECIAL CASE: Status change out of the 'done' category
+  if (wasDone && !isDone) {
+    updateObject.$unset = { completedAt: '' };
+  }
+
+  // UPDATE: Apply changes
+  TasksCollection.update(taskId, updateObject);
+
+  if (isDone !== wasDone) {
+    // Update project counters (completed count changed)
+    // NOTE: Must run after the update so the new status is counted
+    updateProjectCounters(task.projectId, counterQueue);
+  }
+
+  // AUDIT: Log completion separately
+  if (isDone && !wasDone) {
+    logTaskActivity(userId, 'complete', taskId, {
+      previousStatus: task.status,
+    });
+  }
+
+  // AUDIT: Log assignment change
+  if (updates.assignedToId !== undefined && updates.assignedToId !== task.assignedToId) {
+    logTaskActivity(userId, 'assign', taskId, {
+      previousAssignee: task.assignedToId,
+      newAssignee: updates.assignedToId,
+    });
+  }
+
+  // AUDIT: Log general update
+  if (Object.keys(updates).length > 0) {
+    logTaskActivity(userId, 'update', taskId, updates);
+  }
+}
+
+/**
+ * Delete a task on behalf of a user (see tasks.remove)
+ *
+ * @throws Meteor.Error when the task is missing or the user lacks permission
+ */
+function removeTask(userId: string, taskId: string, counterQueue?: Set<string>): void {
+  const task = findActiveTask(taskId);
+  if (!task) {
+    throw new Meteor.Error('not-found', 'Task not found');
+  }
+
+  // SECURITY: Check permissions
+  // NOTE: Assignees cannot delete tasks, only modify them
+  if (!userCan(userId, 'task.delete', onTask(task))) {
+    throw new Meteor.Error(
+      'not-authorized',
+      'Only the task creator, project maintainers, owner or admin can delete tasks'
+    );
+  }
+
+  // Store project ID for the counter update
+  const projectId = task.projectId;
+
+  // SOFT DELETE: Move to the trash (see trash.ts)
+  // Subtask and dependency links stay so tasks.restore is lossless
+  TasksCollection.update(taskId, {
+    $set: {
+      deletedAt: new Date(),
+      deletedBy: userId,
+      updatedAt: new Date(),
+    },
+  });
+
+  // SIDE EFFECT: Update project task counter
+  updateProjectCounters(projectId, counterQueue);
+
+  // AUDIT: Log deletion
+  logTaskActivity(userId, 'delete', taskId, {
+    taskTitle: task.title,
+    projectId,
+  });
+}
+
+/**
+ * Resolve the task IDs a bulk operation applies to
+ *
+ * SECURITY: A filter is limited to one project the user can see. Explicit
+ * IDs are checked task by task by the operation itself.
+ */
+function resolveBulkTarget(userId: string, target: BulkTaskTarget): string[] {
+  if (!!target.taskIds === !!target.filter) {
+    throw new Meteor.Error('validation-error', 'Provide either taskIds or a filter');
+  }
+
+  if (target.taskIds) {
+    const taskIds = [...new Set(target.taskIds)];
+    if (taskIds.length > MAX_BULK_TASKS) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Bulk operations are limited to ${MAX_BULK_TASKS} tasks`
+      );
+    }
+    return taskIds;
+  }
+
+  const filter = target.filter!;
+  if (!userCan(userId, 'project.view', inProject(filter.projectId))) {
+    throw new Meteor.Error(
+      'not-authorized',
+      'You do not have permission to view tasks in this project'
+    );
+  }
+
+  const selector: Record<string, any> = { projectId: filter.projectId, ...NOT_TRASHED };
+  if (filter.status !== undefined) selector.status = filter.status;
+  if (filter.priority !== undefined) selector.priority = filter.priority;
+  // null matches both unset and null - unassigning stores null on some paths
+  if (filter.assignedToId !== undefined) selector.assignedToId = filter.assignedToId;
+  if (filter.tags && filter.tags.length > 0) selector.tags = { $all: filter.tags };
+
+  const tasks = TasksCollection.find(selector, {
+    fields: { _id: 1 },
+    limit: MAX_BULK_TASKS + 1,
+  }).fetch();
+
+  if (tasks.length > MAX_BULK_TASKS) {
+    throw new Meteor.Error(
+      'validation-error',
+      `Filter matches more than ${MAX_BULK_TASKS} tasks, please narrow it down`
+    );
+  }
+
+  return tasks.map((task) => task._id!);
+}
+
+/**
+ * Run an operation on each task, collecting per-task results
+ *
+ * - Meteor.Errors become failed results; the batch continues
+ * - Project counters are recomputed once per affected project at the end,
+ *   even if an unexpected error aborts the batch
+ */
+function runBulk(
+  taskIds: string[],
+  operation: (taskId: string, counterQueue: Set<string>) => void
+): BulkTaskResult[] {
+  const counterQueue = new Set<string>();
+
+  try {
+    return taskIds.map((taskId) => {
+      try {
+        operation(taskId, counterQueue);
+        return { taskId, success: true };
+      } catch (error: any) {
+        if (error instanceof Meteor.Error) {
+          return { taskId, success: false, error: String(error.error), reason: error.reason };
+        }
+        throw error;
+      }
+    });
+  } finally {
+    counterQueue.forEach((projectId) => {
+      updateProjectTaskCounters(projectId);
+    });
+  }
+}
+
 // ============================================================================
 // METEOR METHODS
 // ============================================================================
@@ -118,6 +571,7 @@ Meteor.methods({
    * - dueDate: Deadline for task
    * - estimatedHours: Time estimate
    * - tags: Array of tag strings
+   * - parentTaskId: Makes this a subtask (parent must be in the same project)
    *
    * SIDE EFFECTS:
    * - Updates project task counter
@@ -126,25 +580,14 @@ Meteor.methods({
    * @param taskData - Task details
    * @returns New task ID
    */
-  'tasks.insert'(
-    taskData: Omit<NewTask, '_id' | 'createdBy' | 'createdAt' | 'status'>
-  ): string {
+  'tasks.insert'(taskData: TaskInput): string {
     // SECURITY: Must be logged in
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'You must be logged in to create tasks');
     }
 
     // VALIDATION: Input types
-    check(taskData, {
-      projectId: String,
-      title: String,
-      description: String,
-      assignedToId: Match.Maybe(String),
-      priority: Match.OneOf('low', 'medium', 'high'),
-      dueDate: Match.Maybe(Date),
-      estimatedHours: Match.Maybe(Number),
-      tags: [String],
-    });
+    check(taskData, TaskInputPattern);
 
     // VALIDATION: Title length
     if (taskData.title.trim().length < 3) {
@@ -168,13 +611,27 @@ Meteor.methods({
       throw new Meteor.Error('not-found', 'Project not found');
     }
 
-    if (!canViewProjectTasks(this.userId, taskData.projectId)) {
+    if (!userCan(this.userId, 'task.create', { project })) {
       throw new Meteor.Error(
         'not-authorized',
         'You do not have permission to create tasks in this project'
       );
     }
 
+    // VALIDATION: Subtasks live in their parent's project
+    if (taskData.parentTaskId) {
+      const parent = findActiveTask(taskData.parentTaskId);
+      if (!parent) {
+        throw new Meteor.Error('not-found', 'Parent task not found');
+      }
+      if (parent.projectId !== taskData.projectId) {
+        throw new Meteor.Error(
+          'validation-error',
+          'Subtasks must be in the same project as their parent'
+        );
+      }
+    }
+
     // VALIDATION: If assigned, user must exist and be on project team
     if (taskData.assignedToId) {
       const assignee = Meteor.users.findOne(taskData.assignedToId);
@@ -182,15 +639,15 @@ Meteor.methods({
         throw new Meteor.Error('not-found', 'Assigned user not found');
       }
 
-      // Check if assignee is project owner or team member
-      const isOnTeam =
-        project.ownerId === taskData.assignedToId ||
-        project.teamMemberIds.includes(taskData.assignedToId);
+      if (assignee.deactivatedAt) {
+        throw new Meteor.Error('validation-error', 'Cannot assign tasks to a deactivated user');
+      }
 
-      if (!isOnTeam) {
+      // Check if assignee is project owner or a team member who can edit tasks
+      if (!canBeAssigned(project, taskData.assignedToId)) {
         throw new Meteor.Error(
           'validation-error',
-          'Can only assign tasks to project owner or team members'
+          'Can only assign tasks to the project owner or team members who can edit tasks'
         );
       }
     }
@@ -211,7 +668,7 @@ Meteor.methods({
     const task: NewTask = {
       ...taskData,
       createdBy: this.userId, // SECURITY: Always from authenticated user
-      status: 'todo', // All new tasks start as 'todo'
+      status: getProjectWorkflow(project).initialStatus, // Workflow decides the first status
       createdAt: new Date(),
     };
 
@@ -220,7 +677,7 @@ Meteor.methods({
 
     // SIDE EFFECT: Update project task counter
     // WHY: We maintain denormalized counts for fast dashboard queries
-    Meteor.call('projects.updateTaskCounters', taskData.projectId);
+    updateProjectTaskCounters(taskData.projectId);
 
     // AUDIT: Log creation
     logTaskActivity(this.userId, 'create', taskId);
@@ -239,174 +696,36 @@ Meteor.methods({
    * Update an existing task
    *
    * SPECIAL CASES:
-   * - Status change to 'done' sets completedAt timestamp
+   * - Status must exist in the project workflow and the transition must be allowed
+   * - Status change into the 'done' category sets completedAt timestamp
    * - Assignment change logs activity
    * - Assignees can only update certain fields (not reassign)
+   * - actualHours is not accepted: it's derived from time entries
    *
    * @param taskId - Task to update
    * @param updates - Fields to update
    */
-  'tasks.update'(
-    taskId: string,
-    updates: {
-      title?: string;
-      description?: string;
-      status?: TaskStatus;
-      priority?: Priority;
-      dueDate?: Date;
-      estimatedHours?: number;
-      actualHours?: number;
-      tags?: string[];
-      assignedToId?: string | null; // null to unassign
-    }
-  ): void {
+  'tasks.update'(taskId: string, updates: TaskChanges): void {
     check(taskId, String);
-    check(updates, {
-      title: Match.Maybe(String),
-      description: Match.Maybe(String),
-      status: Match.Maybe(Match.OneOf('todo', 'in_progress', 'review', 'done')),
-      priority: Match.Maybe(Match.OneOf('low', 'medium', 'high')),
-      dueDate: Match.Maybe(Date),
-      estimatedHours: Match.Maybe(Number),
-      actualHours: Match.Maybe(Number),
-      tags: Match.Maybe([String]),
-      assignedToId: Match.Maybe(Match.OneOf(String, null)),
-    });
+    check(updates, TaskChangesPattern);
 
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'You must be logged in');
     }
 
-    // FETCH: Get existing task
-    const task = TasksCollection.findOne(taskId);
-    if (!task) {
-      throw new Meteor.Error('not-found', 'Task not found');
-    }
-
-    // SECURITY: Check permissions
-    const user = Meteor.users.findOne(this.userId);
-    const isAssignee = task.assignedToId === this.userId;
-    const canFullyModify = canModifyTask(this.userId, task);
-
-    if (!canFullyModify && !isAssignee) {
-      throw new Meteor.Error(
-        'not-authorized',
-        'You do not have permission to modify this task'
-      );
-    }
-
-    // PERMISSION: Assignees can only update certain fields
-    if (isAssignee && !canFullyModify) {
-      const allowedFields = ['status', 'actualHours', 'description'];
-      const attemptedFields = Object.keys(updates);
-      const unauthorizedFields = attemptedFields.filter((f) => !allowedFields.includes(f));
-
-      if (unauthorizedFields.length > 0) {
-        throw new Meteor.Error(
-          'not-authorized',
-          `Assignees can only update: ${allowedFields.join(', ')}`
-        );
-      }
-    }
-
-    // VALIDATION: Title length
-    if (updates.title !== undefined) {
-      if (updates.title.trim().length < 3) {
-        throw new Meteor.Error('validation-error', 'Task title must be at least 3 characters');
-      }
-      if (updates.title.length > 200) {
-        throw new Meteor.Error('validation-error', 'Task title must be less than 200 characters');
-      }
-    }
-
-    // VALIDATION: Description length
-    if (updates.description !== undefined && updates.description.length > 2000) {
-      throw new Meteor.Error(
-        'validation-error',
-        'Task description must be less than 2000 characters'
-      );
-    }
-
-    // VALIDATION: If reassigning, validate new assignee
-    if (updates.assignedToId !== undefined && updates.assignedToId !== null) {
-      const project = ProjectsCollection.findOne(task.projectId);
-      if (!project) {
-        throw new Meteor.Error('not-found', 'Project not found');
-      }
-
-      const newAssignee = Meteor.users.findOne(updates.assignedToId);
-      if (!newAssignee) {
-        throw new Meteor.Error('not-found', 'Assigned user not found');
-      }
-
-      const isOnTeam =
-        project.ownerId === updates.assignedToId ||
-        project.teamMemberIds.includes(updates.assignedToId);
-
-      if (!isOnTeam) {
-        throw new Meteor.Error(
-          'validation-error',
-          'Can only assign tasks to project owner or team members'
-        );
-      }
-    }
-
-    // BUILD UPDATE OBJECT
-    const updateObject: any = {
-      $set: {
-        ...updates,
-        updatedAt: new Date(),
-      },
-    };
-
-    // SPECIAL CASE: Status change to 'done'
-    if (updates.status === 'done' && task.status !== 'done') {
-      updateObject.$set.completedAt = new Date();
-
-      // Log completion separately
-      logTaskActivity(this.userId, 'complete', taskId, {
-        previousStatus: task.status,
-      });
-
-      // Update project counters (completed count increased)
-      Meteor.call('projects.updateTaskCounters', task.projectId);
-    }
-
-    // SPECIAL CASE: Status change from 'done' to something else
-    if (task.status === 'done' && updates.status && updates.status !== 'done') {
-      updateObject.$unset = { completedAt: '' };
-
-      // Update project counters (completed count decreased)
-      Meteor.call('projects.updateTaskCounters', task.projectId);
-    }
-
-    // UPDATE: Apply changes
-    TasksCollection.update(taskId, updateObject);
-
-    // AUDIT: Log assignment change
-    if (updates.assignedToId !== undefined && updates.assignedToId !== task.assignedToId) {
-      logTaskActivity(this.userId, 'assign', taskId, {
-        previousAssignee: task.assignedToId,
-        newAssignee: updates.assignedToId,
-      });
-    }
-
-    // AUDIT: Log general update
-    if (Object.keys(updates).length > 0) {
-      logTaskActivity(this.userId, 'update', taskId, updates);
-    }
+    updateTask(this.userId, taskId, updates);
   },
 
   /**
-   * Delete a task
+   * Delete a task (move it to the trash)
    *
    * SIDE EFFECTS:
-   * - Updates project task counter
+   * - Updates project task counter (trashed tasks aren't counted)
    * - Logs deletion
    *
-   * IMPORTANT: This is a hard delete (permanent)
-   * Tasks don't have a soft delete/archive because they belong to projects
-   * If you want to keep old tasks, archive the project instead
+   * IMPORTANT: This is a soft delete
+   * The task can be brought back with tasks.restore until the purge job
+   * deletes it for good (TRASH_RETENTION_DAYS, default 30)
    *
    * @param taskId - Task to delete
    */
@@ -417,40 +736,70 @@ Meteor.methods({
       throw new Meteor.Error('not-authorized', 'You must be logged in');
     }
 
-    const task = TasksCollection.findOne(taskId);
-    if (!task) {
-      throw new Meteor.Error('not-found', 'Task not found');
+    removeTask(this.userId, taskId);
+  },
+
+  /**
+   * Restore a task from the trash
+   *
+   * PERMISSION RULES: Whoever could delete it (creator or admin), the
+   * person who deleted it, or the project owner
+   *
+   * LINKS: A parent or blocker that was purged in the meantime is dropped
+   *
+   * @param taskId - Trashed task to restore
+   */
+  'tasks.restore'(taskId: string): void {
+    check(taskId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
     }
 
-    // SECURITY: Check permissions
-    // NOTE: Assignees cannot delete tasks, only modify them
-    const canDelete =
-      canModifyTask(this.userId, task) && task.assignedToId !== this.userId;
+    const task = TasksCollection.findOne({ _id: taskId, deletedAt: { $exists: true } });
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found in the trash');
+    }
 
-    const user = Meteor.users.findOne(this.userId);
-    const isAdmin = user?.profile?.role === 'admin';
-    const isCreator = task.createdBy === this.userId;
+    const project = ProjectsCollection.findOne(task.projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
 
-    if (!isAdmin && !isCreator) {
+    if (!userCan(this.userId, 'task.restore', { task, project })) {
       throw new Meteor.Error(
         'not-authorized',
-        'Only task creator or admin can delete tasks'
+        'Only the task creator, the person who deleted it, project maintainers, owner or admin can restore it'
       );
     }
 
-    // Store project ID before deleting
-    const projectId = task.projectId;
+    const updateObject: any = {
+      $unset: { deletedAt: '', deletedBy: '' },
+      $set: { updatedAt: new Date() },
+    };
+
+    if (task.parentTaskId && !TasksCollection.findOne(task.parentTaskId)) {
+      updateObject.$unset.parentTaskId = '';
+    }
 
-    // DELETE: Remove from database
-    TasksCollection.remove(taskId);
+    if (task.blockedByIds && task.blockedByIds.length > 0) {
+      const existing = TasksCollection.find(
+        { _id: { $in: task.blockedByIds } },
+        { fields: { _id: 1 } }
+      ).map((blocker) => blocker._id!);
+      if (existing.length !== task.blockedByIds.length) {
+        updateObject.$set.blockedByIds = existing;
+      }
+    }
 
-    // SIDE EFFECT: Update project task counter
-    Meteor.call('projects.updateTaskCounters', projectId);
+    TasksCollection.update(taskId, updateObject);
+
+    updateProjectTaskCounters(task.projectId);
 
-    // AUDIT: Log deletion
-    logTaskActivity(this.userId, 'delete', taskId, {
-      taskTitle: task.title,
-      projectId,
+    logTaskActivity(this.userId, 'update', taskId, {
+      action: 'restored from trash',
+      deletedAt: task.deletedAt,
+      deletedBy: task.deletedBy,
     });
   },
 
@@ -474,12 +823,12 @@ Meteor.methods({
       throw new Meteor.Error('not-authorized', 'You must be logged in');
     }
 
-    const task = TasksCollection.findOne(taskId);
+    const task = findActiveTask(taskId);
     if (!task) {
       throw new Meteor.Error('not-found', 'Task not found');
     }
 
-    if (!canModifyTask(this.userId, task)) {
+    if (!userCan(this.userId, 'task.update', onTask(task))) {
       throw new Meteor.Error(
         'not-authorized',
         'You do not have permission to assign this task'
@@ -498,14 +847,14 @@ Meteor.methods({
         throw new Meteor.Error('not-found', 'User not found');
       }
 
-      const isOnTeam =
-        project.ownerId === userIdToAssign ||
-        project.teamMemberIds.includes(userIdToAssign);
+      if (assignee.deactivatedAt) {
+        throw new Meteor.Error('validation-error', 'Cannot assign tasks to a deactivated user');
+      }
 
-      if (!isOnTeam) {
+      if (!canBeAssigned(project, userIdToAssign)) {
         throw new Meteor.Error(
           'validation-error',
-          'Can only assign to project owner or team members'
+          'Can only assign to the project owner or team members who can edit tasks'
         );
       }
     }
@@ -532,58 +881,823 @@ Meteor.methods({
   },
 
   /**
-   * Update task time tracking
+   * Move a task (with its subtasks) to another project
    *
-   * WHY SEPARATE METHOD:
-   * - Assignees might not have full update permissions
-   * - Specific use case (time logging)
-   * - Could integrate with time tracking systems
+   * PERMISSION HANDOFF:
+   * - Source: full modify rights on the task (creator, maintainer, project
+   *   owner or admin; assignees can't move tasks)
+   * - Target: may create tasks there (owner, contributor and up, or admin)
    *
-   * @param taskId - Task to update
-   * @param actualHours - Hours to add to actual time
+   * WHAT CHANGES:
+   * - projectId on the task, its subtasks, their comments and time entries
+   * - Status: mapped onto the target workflow (see mapStatusToWorkflow)
+   * - Assignees who can't be assigned in the target project are cleared
+   * - A moved subtask becomes top-level (its parent stays behind)
+   * - Dependencies to tasks that stay behind are removed
+   *   (dependencies never cross projects)
+   *
+   * SIDE EFFECTS:
+   * - Counters recomputed on both projects
+   * - Activity logged per moved task, with both project IDs
+   *
+   * @param taskId - Task to move
+   * @param targetProjectId - Project to move it to
+   * @returns IDs of every moved task (the task first, then its subtasks)
    */
-  'tasks.logTime'(taskId: string, hoursToAdd: number): void {
+  'tasks.move'(taskId: string, targetProjectId: string): string[] {
     check(taskId, String);
-    check(hoursToAdd, Number);
+    check(targetProjectId, String);
 
     if (!this.userId) {
       throw new Meteor.Error('not-authorized', 'You must be logged in');
     }
 
-    if (hoursToAdd <= 0) {
-      throw new Meteor.Error('validation-error', 'Hours must be greater than 0');
-    }
-
-    const task = TasksCollection.findOne(taskId);
+    const task = findActiveTask(taskId);
     if (!task) {
       throw new Meteor.Error('not-found', 'Task not found');
     }
 
-    // PERMISSION: Assignee or project team can log time
-    const isAssignee = task.assignedToId === this.userId;
-    const canModify = canModifyTask(this.userId, task);
+    const sourceProjectId = task.projectId;
+    if (sourceProjectId === targetProjectId) {
+      throw new Meteor.Error('validation-error', 'Task is already in this project');
+    }
 
-    if (!isAssignee && !canModify) {
-      throw new Meteor.Error(
+    const sourceProject = ProjectsCollection.findOne(sourceProjectId);
+    const targetProject = ProjectsCollection.findOne(targetProjectId);
+    if (!targetProject) {
+      throw new Meteor.Error('not-found', 'Target project not found');
+    }
+
+    // SECURITY: Source side - being the assignee isn't enough to take a task away
+    if (!userCan(this.userId, 'task.move', { task, project: sourceProject })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to move this task'
+      );
+    }
+
+    // SECURITY: Target side
+    if (!userCan(this.userId, 'task.create', { project: targetProject })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to add tasks to the target project'
+      );
+    }
+
+    // Collect the task and all its descendants, level by level
+    const moved: Task[] = [task];
+    let parentIds = [taskId];
+    while (parentIds.length > 0) {
+      const children = TasksCollection.find({ parentTaskId: { $in: parentIds } }).fetch();
+      moved.push(...children);
+      parentIds = children.map((child) => child._id!);
+    }
+    const movedIds = moved.map((t) => t._id!);
+
+    const sourceWorkflow = getProjectWorkflow(sourceProject);
+    const targetWorkflow = getProjectWorkflow(targetProject);
+    const now = new Date();
+
+    moved.forEach((movedTask) => {
+      const status = mapStatusToWorkflow(movedTask.status, sourceWorkflow, targetWorkflow);
+      const isDone = getStatusCategory(targetWorkflow, status) === 'done';
+
+      const changes: ChangeRecord[] = [
+        { field: 'projectId', oldValue: sourceProjectId, newValue: targetProjectId },
+      ];
+
+      const updateObject: any = {
+        $set: { projectId: targetProjectId, status, updatedAt: now },
+        $unset: {},
+      };
+
+      if (status !== movedTask.status) {
+        changes.push({ field: 'status', oldValue: movedTask.status, newValue: status });
+      }
+
+      if (isDone && !movedTask.completedAt) {
+        updateObject.$set.completedAt = now;
+      } else if (!isDone && movedTask.completedAt) {
+        updateObject.$unset.completedAt = '';
+      }
+
+      if (movedTask.assignedToId && !canBeAssigned(targetProject, movedTask.assignedToId)) {
+        updateObject.$unset.assignedToId = '';
+        changes.push({ field: 'assignedToId', oldValue: movedTask.assignedToId, newValue: null });
+      }
+
+      if (movedTask._id === taskId && movedTask.parentTaskId) {
+        updateObject.$unset.parentTaskId = '';
+        changes.push({ field: 'parentTaskId', oldValue: movedTask.parentTaskId, newValue: null });
+      }
+
+      // Keep only dependencies on tasks moving along
+      const blockedByIds = (movedTask.blockedByIds || []).filter((id) => movedIds.includes(id));
+      if (blockedByIds.length !== (movedTask.blockedByIds || []).length) {
+        updateObject.$set.blockedByIds = blockedByIds;
+      }
+
+      if (Object.keys(updateObject.$unset).length === 0) {
+        delete updateObject.$unset;
+      }
+
+      TasksCollection.update(movedTask._id!, updateObject);
+
+      logTaskActivity(this.userId!, 'update', movedTask._id!, changes);
+    });
+
+    // Tasks staying behind can't be blocked by tasks in another project
+    TasksCollection.update(
+      { projectId: sourceProjectId, blockedByIds: { $in: movedIds } },
+      { $pull: { blockedByIds: { $in: movedIds } } },
+      { multi: true }
+    );
+
+    // Denormalized projectId on related documents
+    CommentsCollection.update(
+      { taskId: { $in: movedIds } },
+      { $set: { projectId: targetProjectId } },
+      { multi: true }
+    );
+    TimeEntriesCollection.update(
+      { taskId: { $in: movedIds } },
+      { $set: { projectId: targetProjectId } },
+      { multi: true }
+    );
+
+    updateProjectTaskCounters(sourceProjectId);
+    updateProjectTaskCounters(targetProjectId);
+
+    return movedIds;
+  },
+
+  /**
+   * Change many tasks at once
+   *
+   * EXAMPLES:
+   * ({ taskIds: ['a', 'b'] }, { status: 'done' })
+   * ({ filter: { projectId, tags: ['bug'] } }, { priority: 'high', addTags: ['triaged'] })
+   * ({ filter: { projectId, assignedToId: null } }, { assignedToId: userId })
+   *
+   * RULES: Every task goes through the same checks as tasks.update
+   * (permissions, workflow transitions, blockers, team membership)
+   *
+   * @param target - Task IDs or a filter (max 200 tasks)
+   * @param changes - status, priority, assignedToId, and tags (replace)
+   * or addTags/removeTags
+   * @returns One result per task
+   */
+  'tasks.bulkUpdate'(
+    target: BulkTaskTarget,
+    changes: {
+      status?: TaskStatus;
+      priority?: Priority;
+      assignedToId?: string | null;
+      tags?: string[];
+      addTags?: string[];
+      removeTags?: string[];
+    }
+  ): BulkTaskResult[] {
+    check(target, BulkTargetPattern);
+    check(changes, {
+      status: Match.Maybe(String),
+      priority: Match.Maybe(Match.OneOf('low', 'medium', 'high')),
+      assignedToId: Match.Maybe(Match.OneOf(String, null)),
+      tags: Match.Maybe([String]),
+      addTags: Match.Maybe([String]),
+      removeTags: Match.Maybe([String]),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+    const userId = this.userId;
+
+    if (Object.keys(changes).length === 0) {
+      throw new Meteor.Error('validation-error', 'No changes given');
+    }
+
+    const { addTags, removeTags, ...fieldChanges } = changes;
+
+    if (changes.tags && (addTags || removeTags)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Use either tags or addTags/removeTags, not both'
+      );
+    }
+
+    const taskIds = resolveBulkTarget(userId, target);
+
+    return runBulk(taskIds, (taskId, counterQueue) => {
+      const updates: TaskChanges = { ...fieldChanges };
+
+      // Tag edits are relative to each task's own tags
+      if (addTags || removeTags) {
+        const task = TasksCollection.findOne(taskId, { fields: { tags: 1 } });
+        if (task) {
+          const tags = new Set([...task.tags, ...(addTags || [])]);
+          (removeTags || []).forEach((tag) => tags.delete(tag));
+          updates.tags = [...tags];
+        }
+      }
+
+      updateTask(userId, taskId, updates, counterQueue);
+    });
+  },
+
+  /**
+   * Delete many tasks at once
+   *
+   * RULES: Every task goes through the same checks as tasks.remove
+   *
+   * @param target - Task IDs or a filter (max 200 tasks)
+   * @returns One result per task
+   */
+  'tasks.bulkRemove'(target: BulkTaskTarget): BulkTaskResult[] {
+    check(target, BulkTargetPattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+    const userId = this.userId;
+
+    const taskIds = resolveBulkTarget(userId, target);
+
+    return runBulk(taskIds, (taskId, counterQueue) => {
+      removeTask(userId, taskId, counterQueue);
+    });
+  },
+
+  /**
+   * Log time spent on a task
+   *
+   * WHY SEPARATE METHOD:
+   * - Assignees might not have full update permissions
+   * - Specific use case (time logging)
+   *
+   * NOTE: Kept for existing clients - it records a duration-only entry in
+   * the time entry ledger (see timeEntries.insert), which then re-syncs
+   * actualHours. Use timeEntries.insert directly for notes, start/end times
+   * or billable time.
+   *
+   * LARGE AMOUNTS: More than MAX_ENTRY_HOURS is recorded as several
+   * back-to-back entries ending now (up to MAX_LOG_TIME_HOURS in total)
+   *
+   * @param taskId - Task to update
+   * @param hoursToAdd - Hours spent
+   * @returns ID of the new time entry (the first one, if split)
+   */
+  'tasks.logTime'(taskId: string, hoursToAdd: number): string {
+    check(taskId, String);
+    check(hoursToAdd, Number);
+
+    if (!Number.isFinite(hoursToAdd) || hoursToAdd > MAX_LOG_TIME_HOURS) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Cannot log more than ${MAX_LOG_TIME_HOURS} hours at once`
+      );
+    }
+
+    if (hoursToAdd <= MAX_ENTRY_HOURS) {
+      // DELEGATE: The ledger validates, checks permissions and logs activity
+      return Meteor.call('timeEntries.insert', { taskId, hours: hoursToAdd });
+    }
+
+    const startedAt = new Date(Date.now() - hoursToAdd * 60 * 60 * 1000);
+    const entryIds: string[] = splitDuration({ startedAt, hours: hoursToAdd }).map((piece) =>
+      Meteor.call('timeEntries.insert', { taskId, ...piece })
+    );
+
+    return entryIds[0];
+  },
+
+  /**
+   * Start a timer on a task
+   *
+   * HOW IT WORKS:
+   * A running timer is a time entry with isRunning: true and no end time.
+   * Stopping it (tasks.stopTimer) fills in the end time and hours.
+   *
+   * RULE: At most one running timer per user
+   * Enforced by a unique partial index, so even concurrent calls can't
+   * start two timers
+   *
+   * @param taskId - Task to track time on
+   * @param options - note / billable flag for the resulting entry
+   * @returns Running time entry ID
+   */
+  'tasks.startTimer'(
+    taskId: string,
+    options: { note?: string; billable?: boolean } = {}
+  ): string {
+    check(taskId, String);
+    check(options, { note: Match.Maybe(String), billable: Match.Maybe(Boolean) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.work', onTask(task))) {
+      throw new Meteor.Error(
         'not-authorized',
         'You do not have permission to log time on this task'
       );
     }
 
-    // UPDATE: Increment actual hours
-    // WHY $inc instead of $set:
-    // - $inc adds to existing value (accumulates time)
-    // - $set would replace (would lose previous time logs)
+    if (options.note && options.note.length > 500) {
+      throw new Meteor.Error('validation-error', 'Note must be less than 500 characters');
+    }
+
+    const running = TimeEntriesCollection.findOne({ userId: this.userId, isRunning: true });
+    if (running) {
+      throw new Meteor.Error(
+        'timer-running',
+        'You already have a running timer. Stop it before starting a new one.'
+      );
+    }
+
+    const entry: NewTimeEntry = {
+      taskId,
+      projectId: task.projectId,
+      userId: this.userId,
+      startedAt: new Date(),
+      hours: 0,
+      isRunning: true,
+      note: options.note,
+      billable: options.billable ?? false,
+      createdAt: new Date(),
+    };
+
+    let entryId: string;
+    try {
+      entryId = TimeEntriesCollection.insert(entry);
+    } catch (error: any) {
+      // Lost a race against another startTimer call (duplicate key)
+      if (error?.code === 11000) {
+        throw new Meteor.Error(
+          'timer-running',
+          'You already have a running timer. Stop it before starting a new one.'
+        );
+      }
+      throw error;
+    }
+
+    logTaskActivity(this.userId, 'update', taskId, {
+      action: 'started timer',
+      timeEntryId: entryId,
+    });
+
+    return entryId;
+  },
+
+  /**
+   * Stop the current user's running timer
+   *
+   * SIDE EFFECTS:
+   * - The running entry becomes a regular start/end time entry
+   * - Task.actualHours is re-synced
+   *
+   * @returns Stopped time entry ID and recorded hours
+   */
+  'tasks.stopTimer'(): { timeEntryId: string; hours: number } {
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const running = TimeEntriesCollection.findOne({ userId: this.userId, isRunning: true });
+    if (!running) {
+      throw new Meteor.Error('not-found', 'No running timer');
+    }
+
+    const hours = stopTimerEntry(running);
+
+    return { timeEntryId: running._id!, hours };
+  },
+
+  /**
+   * Link two tasks: blockerId blocks blockedId
+   *
+   * RULES:
+   * - Both tasks must be in the same project
+   * - The link must not create a cycle (A blocks B blocks A)
+   * - User must be able to modify the blocked task
+   *
+   * @param blockerId - Task that must be finished first
+   * @param blockedId - Task that waits for the blocker
+   */
+  'tasks.addDependency'(blockerId: string, blockedId: string): void {
+    check(blockerId, String);
+    check(blockedId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const blocker = findActiveTask(blockerId);
+    const blocked = findActiveTask(blockedId);
+    if (!blocker || !blocked) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.update', onTask(blocked))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    // VALIDATION: Same project
+    // WHY: Keeps dependency chains visible to everyone who sees the task
+    if (blocker.projectId !== blocked.projectId) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Dependencies can only link tasks in the same project'
+      );
+    }
+
+    if (blocked.blockedByIds?.includes(blockerId)) {
+      throw new Meteor.Error('validation-error', 'Dependency already exists');
+    }
+
+    // VALIDATION: No cycles
+    if (wouldCreateCycle(blockerId, blockedId)) {
+      throw new Meteor.Error(
+        'dependency-cycle',
+        `"${blocker.title}" cannot block "${blocked.title}": this would create a cycle`
+      );
+    }
+
+    // UPDATE: $addToSet prevents duplicates under concurrent calls
+    TasksCollection.update(blockedId, {
+      $addToSet: { blockedByIds: blockerId },
+      $set: { updatedAt: new Date() },
+    });
+
+    logTaskActivity(this.userId, 'update', blockedId, {
+      action: 'added dependency',
+      blockedBy: blockerId,
+    });
+  },
+
+  /**
+   * Unlink two tasks
+   *
+   * @param blockerId - Task that no longer blocks
+   * @param blockedId - Task that was waiting for the blocker
+   */
+  'tasks.removeDependency'(blockerId: string, blockedId: string): void {
+    check(blockerId, String);
+    check(blockedId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const blocked = findActiveTask(blockedId);
+    if (!blocked) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.update', onTask(blocked))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    if (!blocked.blockedByIds?.includes(blockerId)) {
+      throw new Meteor.Error('not-found', 'Dependency not found');
+    }
+
+    TasksCollection.update(blockedId, {
+      $pull: { blockedByIds: blockerId },
+      $set: { updatedAt: new Date() },
+    });
+
+    logTaskActivity(this.userId, 'update', blockedId, {
+      action: 'removed dependency',
+      blockedBy: blockerId,
+    });
+  },
+
+
+  /**
+   * Add a checklist item to a task
+   *
+   * ATOMIC: $push appends to the embedded array in a single update
+   * WHY NOT read-modify-write: two users adding items at the same time
+   * would overwrite each other's item
+   *
+   * @param taskId - Task to modify
+   * @param text - Item text (1-200 characters)
+   * @returns New checklist item ID
+   */
+  'tasks.addChecklistItem'(taskId: string, text: string): string {
+    check(taskId, String);
+    check(text, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (text.trim().length === 0 || text.length > 200) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Checklist item must be between 1 and 200 characters'
+      );
+    }
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.work', onTask(task))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    // LIMIT: Keep documents small - big lists should be subtasks
+    if ((task.checklist?.length || 0) >= 100) {
+      throw new Meteor.Error('validation-error', 'A task can have at most 100 checklist items');
+    }
+
+    const item: ChecklistItem = {
+      id: Random.id(),
+      text,
+      done: false,
+      createdAt: new Date(),
+    };
+
     TasksCollection.update(taskId, {
-      $inc: { actualHours: hoursToAdd },
+      $push: { checklist: item },
       $set: { updatedAt: new Date() },
     });
 
     logTaskActivity(this.userId, 'update', taskId, {
-      action: 'logged time',
-      hours: hoursToAdd,
+      action: 'added checklist item',
+      itemId: item.id,
+    });
+
+    return item.id;
+  },
+
+  /**
+   * Tick or untick a checklist item
+   *
+   * ATOMIC: Positional operator ($) updates only the matched array element
+   * Query { 'checklist.id': itemId } finds the position, 'checklist.$.done'
+   * writes to it - no need to know the index on the client
+   *
+   * @param taskId - Task to modify
+   * @param itemId - Checklist item to tick
+   * @param done - New state
+   */
+  'tasks.setChecklistItemDone'(taskId: string, itemId: string, done: boolean): void {
+    check(taskId, String);
+    check(itemId, String);
+    check(done, Boolean);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.work', onTask(task))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    const modifier: any = done
+      ? {
+          $set: {
+            'checklist.$.done': true,
+            'checklist.$.doneAt': new Date(),
+            'checklist.$.doneBy': this.userId,
+            updatedAt: new Date(),
+          },
+        }
+      : {
+          $set: { 'checklist.$.done': false, updatedAt: new Date() },
+          $unset: { 'checklist.$.doneAt': '', 'checklist.$.doneBy': '' },
+        };
+
+    const updated = TasksCollection.update({ _id: taskId, 'checklist.id': itemId }, modifier);
+    if (updated === 0) {
+      throw new Meteor.Error('not-found', 'Checklist item not found');
+    }
+
+    logTaskActivity(this.userId, 'update', taskId, {
+      action: done ? 'checked checklist item' : 'unchecked checklist item',
+      itemId,
     });
   },
+
+  /**
+   * Move a checklist item to a new position
+   *
+   * ATOMIC: Only the positions between the old and new index change, and
+   * they are rewritten in one $set on array positions
+   * ({ 'checklist.2': ..., 'checklist.3': ... })
+   *
+   * CONCURRENCY: The update only applies if the affected positions still
+   * hold the items we read (optimistic check), otherwise the client must retry
+   *
+   * @param taskId - Task to modify
+   * @param itemId - Checklist item to move
+   * @param toIndex - New zero-based position
+   */
+  'tasks.moveChecklistItem'(taskId: string, itemId: string, toIndex: number): void {
+    check(taskId, String);
+    check(itemId, String);
+    check(toIndex, Match.Integer);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.work', onTask(task))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    const checklist = task.checklist || [];
+    const fromIndex = checklist.findIndex((item) => item.id === itemId);
+    if (fromIndex === -1) {
+      throw new Meteor.Error('not-found', 'Checklist item not found');
+    }
+
+    if (toIndex < 0 || toIndex >= checklist.length) {
+      throw new Meteor.Error('validation-error', 'Position is out of range');
+    }
+
+    if (fromIndex === toIndex) {
+      return;
+    }
+
+    const reordered = [...checklist];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+
+    // Rewrite only the affected range
+    const selector: Record<string, any> = { _id: taskId };
+    const $set: Record<string, any> = { updatedAt: new Date() };
+    for (let i = Math.min(fromIndex, toIndex); i <= Math.max(fromIndex, toIndex); i++) {
+      selector[`checklist.${i}.id`] = checklist[i].id;
+      $set[`checklist.${i}`] = reordered[i];
+    }
+
+    const updated = TasksCollection.update(selector, { $set });
+    if (updated === 0) {
+      throw new Meteor.Error(
+        'conflict',
+        'The checklist was changed by someone else, please try again'
+      );
+    }
+
+    logTaskActivity(this.userId, 'update', taskId, {
+      action: 'moved checklist item',
+      itemId,
+      fromIndex,
+      toIndex,
+    });
+  },
+
+  /**
+   * Make a task repeat (or stop it repeating)
+   *
+   * HOW IT WORKS:
+   * - The task becomes the latest instance of a series
+   * - The scheduler (server/jobs/recurringTasks.ts) creates the next instance
+   *   when this one is completed or the next occurrence date arrives
+   * - Occurrences are calculated from the task's due date (or now); the
+   *   next one is the first after now, past ones are skipped
+   *
+   * EXAMPLES:
+   * { frequency: 'weekly', weekdays: [1] }          // Every Monday
+   * { frequency: 'monthly', monthDay: 1, count: 12 } // 1st of the month, for a year
+   * { rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH' }
+   * null                                            // Stop repeating
+   *
+   * RULE: Only the latest instance of a series can change the rule
+   * WHY: Older instances already have a successor; changing them would fork the series
+   *
+   * @param taskId - Task to repeat
+   * @param recurrence - Recurrence rule, or null to stop the series
+   * @returns Next occurrence date (undefined if none)
+   */
+  'tasks.setRecurrence'(
+    taskId: string,
+    recurrence: RecurrenceInput | null
+  ): Date | undefined {
+    check(taskId, String);
+    check(recurrence, Match.OneOf(null, RecurrencePattern));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    if (!userCan(this.userId, 'task.update', onTask(task))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to modify this task'
+      );
+    }
+
+    if (task.seriesId) {
+      const laterInstance = TasksCollection.findOne({
+        seriesId: task.seriesId,
+        occurrenceIndex: { $gt: task.occurrenceIndex || 1 },
+      });
+      if (laterInstance) {
+        throw new Meteor.Error(
+          'validation-error',
+          'Change the recurrence on the latest task of the series'
+        );
+      }
+    }
+
+    // STOP: Keep the series link (history), drop the rule
+    if (recurrence === null) {
+      TasksCollection.update(taskId, {
+        $unset: { recurrence: '', nextOccurrenceAt: '' },
+        $set: { updatedAt: new Date() },
+      });
+
+      logTaskActivity(this.userId, 'update', taskId, { action: 'stopped recurrence' });
+      return undefined;
+    }
+
+    const rule: RecurrenceRule =
+      'rrule' in recurrence
+        ? parseRRule(recurrence.rrule)
+        : { ...recurrence, interval: recurrence.interval ?? 1 };
+    validateRecurrence(rule);
+
+    const anchor = task.dueDate || new Date();
+
+    // Pin the day from the anchor, so "monthly" from Jan 31 stays on
+    // month ends instead of drifting to the 29th after February
+    if (rule.frequency === 'weekly' && !rule.weekdays) {
+      rule.weekdays = [anchor.getUTCDay()];
+    }
+    if (rule.frequency === 'monthly' && !rule.monthDay) {
+      rule.monthDay = anchor.getUTCDate();
+    }
+
+    const occurrenceIndex = task.occurrenceIndex || 1;
+    const nextOccurrenceAt = getNextOccurrenceAfter(rule, anchor, occurrenceIndex, new Date());
+
+    const updateObject: any = {
+      $set: {
+        recurrence: rule,
+        seriesId: task.seriesId || taskId, // First instance starts the series
+        occurrenceIndex,
+        updatedAt: new Date(),
+      },
+    };
+
+    if (nextOccurrenceAt) {
+      updateObject.$set.nextOccurrenceAt = nextOccurrenceAt;
+    } else {
+      updateObject.$unset = { nextOccurrenceAt: '' };
+    }
+
+    TasksCollection.update(taskId, updateObject);
+
+    logTaskActivity(this.userId, 'update', taskId, {
+      action: 'set recurrence',
+      recurrence: rule,
+      nextOccurrenceAt,
+    });
+
+    return nextOccurrenceAt;
+  },
 });
 
 /**
@@ -596,4 +1710,9 @@ Meteor.methods({
  * 5. Atomic Operations: Use $inc, $addToSet, $pull for safe concurrent updates
  * 6. Audit Trail: Log all significant changes
  * 7. Business Rules: Encode domain logic (can't assign outside team)
+ * 8. Graph Validation: Reject dependency cycles before writing
+ * 9. Embedded Arrays: $push and positional $set for atomic checklist updates
+ * 10. Series of Documents: Recurring tasks as linked instances, generated by a job
+ * 11. Bulk Operations: Shared per-task rules, per-task results, one recount per project
+ * 12. Soft Delete: Trash with restore, purged by a background job
  */
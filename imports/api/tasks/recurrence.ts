@@ -0,0 +1,296 @@
+/**
+ * Task Recurrence
+ *
+ * SINGLE RESPONSIBILITY: Parsing recurrence rules and calculating
+ * occurrence dates
+ *
+ * WHY SHARED (client + server):
+ * The UI previews "next: Mon, Mar 4" with the same math the scheduler uses
+ *
+ * WHY UTC: The server has no idea of each user's time zone. Occurrences keep
+ * the time of day of the previous one, so a task due at 09:00 UTC stays there.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import type { RecurrenceRule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * RRULE weekday codes, indexed like Date.getUTCDay() (0 = Sunday)
+ */
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Longest interval accepted ("every 52 weeks" is plenty)
+ */
+const MAX_INTERVAL = 366;
+
+/**
+ * Parse an RRULE string into a recurrence rule
+ *
+ * SUPPORTED SUBSET (RFC 5545):
+ * - FREQ=DAILY|WEEKLY|MONTHLY (required)
+ * - INTERVAL=n
+ * - BYDAY=MO,WE,FR (weekly only, no ordinal prefixes like 1MO)
+ * - BYMONTHDAY=n (monthly only, one day 1-31)
+ * - COUNT=n or UNTIL=YYYYMMDD[THHMMSSZ]
+ *
+ * EXAMPLE: parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')
+ * -> { frequency: 'weekly', interval: 2, weekdays: [1, 4], rrule: '...' }
+ *
+ * @throws Meteor.Error('validation-error') for anything outside the subset
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const source = text.trim().replace(/^RRULE:/i, '');
+  const parts: Record<string, string> = {};
+
+  for (const part of source.split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new Meteor.Error('validation-error', `Invalid RRULE part "${part}"`);
+    }
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const frequencies: Record<string, RecurrenceRule['frequency']> = {
+    DAILY: 'daily',
+    WEEKLY: 'weekly',
+    MONTHLY: 'monthly',
+  };
+
+  const frequency = frequencies[parts.FREQ];
+  if (!frequency) {
+    throw new Meteor.Error('validation-error', 'RRULE FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: parts.INTERVAL ? parseInteger(parts.INTERVAL, 'INTERVAL') : 1,
+    rrule: source,
+  };
+
+  for (const key of Object.keys(parts)) {
+    switch (key) {
+      case 'FREQ':
+      case 'INTERVAL':
+        break;
+
+      case 'BYDAY':
+        rule.weekdays = parts.BYDAY.split(',').map((code) => {
+          const day = RRULE_WEEKDAYS.indexOf(code);
+          if (day === -1) {
+            throw new Meteor.Error('validation-error', `Unsupported BYDAY value "${code}"`);
+          }
+          return day;
+        });
+        break;
+
+      case 'BYMONTHDAY':
+        rule.monthDay = parseInteger(parts.BYMONTHDAY, 'BYMONTHDAY');
+        break;
+
+      case 'COUNT':
+        rule.count = parseInteger(parts.COUNT, 'COUNT');
+        break;
+
+      case 'UNTIL':
+        rule.until = parseRRuleDate(parts.UNTIL);
+        break;
+
+      default:
+        throw new Meteor.Error('validation-error', `Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  validateRecurrence(rule);
+
+  return rule;
+}
+
+/**
+ * Validate a recurrence rule
+ *
+ * RULES:
+ * - interval is a whole number from 1 to 366
+ * - weekdays only for weekly rules, monthDay only for monthly rules
+ * - count and until are mutually exclusive (like RRULE)
+ *
+ * @throws Meteor.Error('validation-error') describing the first problem found
+ */
+export function validateRecurrence(rule: RecurrenceRule): void {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+    throw new Meteor.Error(
+      'validation-error',
+      `Interval must be a whole number from 1 to ${MAX_INTERVAL}`
+    );
+  }
+
+  if (rule.weekdays !== undefined) {
+    if (rule.frequency !== 'weekly') {
+      throw new Meteor.Error('validation-error', 'Weekdays can only be set on weekly rules');
+    }
+    if (
+      rule.weekdays.length === 0 ||
+      rule.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new Meteor.Error('validation-error', 'Weekdays must be numbers from 0 (Sunday) to 6');
+    }
+  }
+
+  if (rule.monthDay !== undefined) {
+    if (rule.frequency !== 'monthly') {
+      throw new Meteor.Error('validation-error', 'Day of month can only be set on monthly rules');
+    }
+    if (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31) {
+      throw new Meteor.Error('validation-error', 'Day of month must be from 1 to 31');
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Meteor.Error('validation-error', 'A series can end by count or by date, not both');
+  }
+
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new Meteor.Error('validation-error', 'Occurrence count must be at least 1');
+  }
+}
+
+/**
+ * Calculate the next occurrence after a given one
+ *
+ * EXAMPLES (previous = Wed 2024-03-06 09:00 UTC):
+ * - daily, interval 2                 -> Fri 2024-03-08 09:00
+ * - weekly, weekdays [1, 3] (Mon/Wed) -> Mon 2024-03-11 09:00
+ * - monthly, monthDay 31              -> Sun 2024-03-31 09:00
+ *
+ * NOTE: Weeks start on Monday (RRULE default WKST=MO), so "every 2 weeks
+ * on Mon and Fri" means Mon + Fri of the same week, then skip a week
+ *
+ * @param rule - Recurrence rule
+ * @param previous - Date of the previous occurrence
+ * @param occurrenceIndex - 1-based index of the previous occurrence (for count)
+ * @returns Next occurrence, or undefined when the series has ended
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  previous: Date,
+  occurrenceIndex: number
+): Date | undefined {
+  if (rule.count !== undefined && occurrenceIndex >= rule.count) {
+    return undefined;
+  }
+
+  let next: Date;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = new Date(previous.getTime() + rule.interval * DAY_MS);
+      break;
+
+    case 'weekly': {
+      // Monday-based day numbers: Monday = 0 ... Sunday = 6
+      const toMondayBased = (day: number) => (day + 6) % 7;
+      const current = toMondayBased(previous.getUTCDay());
+      const days = (rule.weekdays || [previous.getUTCDay()])
+        .map(toMondayBased)
+        .sort((a, b) => a - b);
+
+      const laterThisWeek = days.find((day) => day > current);
+      const offset =
+        laterThisWeek !== undefined
+          ? laterThisWeek - current
+          : 7 * rule.interval - current + days[0];
+
+      next = new Date(previous.getTime() + offset * DAY_MS);
+      break;
+    }
+
+    case 'monthly': {
+      const monthDay = rule.monthDay || previous.getUTCDate();
+      const year = previous.getUTCFullYear();
+      const month = previous.getUTCMonth();
+
+      // The rule's day may still be ahead in the current month
+      // (e.g. the series started on the 3rd with monthDay 15)
+      const thisMonth = Math.min(monthDay, daysInMonth(year, month));
+      const targetMonth = thisMonth > previous.getUTCDate() ? month : month + rule.interval;
+
+      next = new Date(previous.getTime());
+      next.setUTCDate(1); // Avoid rollover while changing the month
+      next.setUTCMonth(targetMonth);
+      next.setUTCDate(
+        Math.min(monthDay, daysInMonth(next.getUTCFullYear(), next.getUTCMonth()))
+      );
+      break;
+    }
+  }
+
+  if (rule.until && next > rule.until) {
+    return undefined;
+  }
+
+  return next;
+}
+
+/**
+ * Calculate the first occurrence later than a given moment
+ *
+ * WHY: A series set on a task due last year, or a server that was down for
+ * a month, would otherwise schedule every missed occurrence and the job
+ * would create them all at once. Missed occurrences are skipped instead.
+ *
+ * NOTE: Skipped occurrences don't count towards rule.count - only created
+ * instances do
+ *
+ * @param rule - Recurrence rule
+ * @param previous - Date of the previous occurrence
+ * @param occurrenceIndex - 1-based index of the previous occurrence (for count)
+ * @param after - Moment the occurrence must come after (usually now)
+ * @returns Next occurrence after `after`, or undefined when the series has ended
+ */
+export function getNextOccurrenceAfter(
+  rule: RecurrenceRule,
+  previous: Date,
+  occurrenceIndex: number,
+  after: Date
+): Date | undefined {
+  let next = getNextOccurrence(rule, previous, occurrenceIndex);
+  while (next && next <= after) {
+    next = getNextOccurrence(rule, next, occurrenceIndex);
+  }
+  return next;
+}
+
+// ============================================================================
+// INTERNAL HELPERS
+// ============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Meteor.Error('validation-error', `RRULE ${name} must be a positive number`);
+  }
+  return Number(value);
+}
+
+/**
+ * Parse an RRULE UNTIL value (YYYYMMDD or YYYYMMDDTHHMMSSZ)
+ *
+ * A date without time means "until the end of that day"
+ */
+function parseRRuleDate(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Meteor.Error('validation-error', 'RRULE UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ');
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  if (match[4] === undefined) {
+    return new Date(Date.UTC(year, month - 1, day, 23, 59, 59));
+  }
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
@@ -0,0 +1,109 @@
+/**
+ * Task Schemas
+ *
+ * SINGLE RESPONSIBILITY: The shapes tasks.insert / tasks.update accept
+ * and the task document, described once (see schemas/schema.ts)
+ *
+ * USED BY:
+ * - tasks/methods.ts: check() patterns (toPattern)
+ * - The REST API: OpenAPI document and generated client
+ */
+
+import {
+  objectOf,
+  string,
+  number,
+  integer,
+  boolean,
+  date,
+  oneOf,
+  arrayOf,
+  maybe,
+  optional,
+  nullable,
+} from '../schemas';
+import type { ChecklistItem, RecurrenceRule, Task, TaskChanges, TaskInput } from './types';
+
+const SOURCE = 'tasks/types';
+
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+
+/**
+ * tasks.insert input
+ */
+export const TaskInputSchema = objectOf<TaskInput>({ name: 'TaskInput', source: SOURCE })({
+  projectId: string(),
+  title: string({ description: '3-200 characters' }),
+  description: string({ description: 'Up to 2000 characters' }),
+  assignedToId: maybe(string()),
+  priority: oneOf(PRIORITIES),
+  dueDate: maybe(date()),
+  estimatedHours: maybe(number()),
+  tags: arrayOf(string()),
+  parentTaskId: maybe(string({ description: 'Parent task (same project)' })),
+});
+
+/**
+ * tasks.update input
+ */
+export const TaskChangesSchema = objectOf<TaskChanges>({ name: 'TaskChanges', source: SOURCE })({
+  title: maybe(string()),
+  description: maybe(string()),
+  status: maybe(string({ description: "A status key of the project's workflow" })),
+  priority: maybe(oneOf(PRIORITIES)),
+  dueDate: maybe(date()),
+  estimatedHours: maybe(number()),
+  tags: maybe(arrayOf(string())),
+  assignedToId: maybe(nullable(string({ description: 'null to unassign' }))),
+});
+
+/**
+ * The task document, as the API returns it
+ */
+export const TaskSchema = objectOf<Task>({ name: 'Task', source: SOURCE })({
+  _id: string(),
+  projectId: string(),
+  parentTaskId: optional(string()),
+  title: string(),
+  description: string(),
+  assignedToId: optional(string()),
+  status: string({ description: "A status key of the project's workflow" }),
+  priority: oneOf(PRIORITIES),
+  dueDate: optional(date()),
+  estimatedHours: optional(number()),
+  actualHours: optional(number('Sum of the time entries')),
+  blockedByIds: optional(arrayOf(string())),
+  checklist: optional(
+    arrayOf(
+      objectOf<ChecklistItem>({ name: 'ChecklistItem', source: SOURCE })({
+        id: string(),
+        text: string(),
+        done: boolean(),
+        doneAt: optional(date()),
+        doneBy: optional(string()),
+        createdAt: date(),
+      })
+    )
+  ),
+  recurrence: optional(
+    objectOf<RecurrenceRule>({ name: 'RecurrenceRule', source: SOURCE })({
+      frequency: oneOf(['daily', 'weekly', 'monthly']),
+      interval: integer(),
+      weekdays: optional(arrayOf(integer())),
+      monthDay: optional(integer()),
+      until: optional(date()),
+      count: optional(integer()),
+      rrule: optional(string()),
+    })
+  ),
+  seriesId: optional(string()),
+  occurrenceIndex: optional(integer()),
+  nextOccurrenceAt: optional(date()),
+  tags: arrayOf(string()),
+  createdBy: string(),
+  createdAt: date(),
+  updatedAt: optional(date()),
+  completedAt: optional(date()),
+  deletedAt: optional(date()),
+  deletedBy: optional(string()),
+});
@@ -0,0 +1,79 @@
+/**
+ * Task Trash
+ *
+ * SINGLE RESPONSIBILITY: Helpers for soft-deleted (trashed) tasks
+ *
+ * HOW THE TRASH WORKS:
+ * - tasks.remove sets deletedAt/deletedBy instead of deleting
+ * - Trashed tasks are left out of every query, publication and aggregation
+ * - tasks.restore brings a task back, links intact
+ * - After TRASH_RETENTION_DAYS the purge job (server/jobs/purgeTrash.ts)
+ *   deletes it for good with purgeTask()
+ *
+ * WHY LINKS STAY UNTIL PURGE:
+ * Subtasks and dependencies keep pointing at a trashed task so restoring
+ * it is lossless. Rules that look at them (blockers, open subtasks) skip
+ * trashed tasks.
+ */
+
+import { TasksCollection } from './collection';
+import { CommentsCollection } from '../comments';
+import type { Task } from './types';
+
+/**
+ * Selector part matching tasks that are not in the trash
+ *
+ * USAGE: TasksCollection.find({ projectId, ...NOT_TRASHED })
+ */
+export const NOT_TRASHED = { deletedAt: { $exists: false } };
+
+/**
+ * Days a task stays in the trash before it is deleted for good
+ *
+ * CONFIGURATION: TRASH_RETENTION_DAYS environment variable (default: 30)
+ */
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * Find a task that is not in the trash
+ *
+ * WHY: Methods treat trashed tasks as gone ("Task not found") - only
+ * tasks.restore looks inside the trash
+ */
+export function findActiveTask(taskId: string): Task | undefined {
+  return TasksCollection.findOne({ _id: taskId, ...NOT_TRASHED });
+}
+
+/**
+ * Permanently delete a trashed task
+ *
+ * SIDE EFFECTS:
+ * - Subtasks are promoted to top-level tasks
+ *   (deleting a parent shouldn't silently delete work assigned to others)
+ * - Dependency links to it are removed
+ * - Its comments are deleted
+ *
+ * NOTE: Time entries are kept. They record hours that were worked and
+ * billed; timesheets must not change when the trash is emptied.
+ *
+ * NOTE: No counter update - trashed tasks are already not counted
+ */
+export function purgeTask(task: Task): void {
+  const taskId = task._id!;
+
+  TasksCollection.remove(taskId);
+
+  TasksCollection.update(
+    { parentTaskId: taskId },
+    { $unset: { parentTaskId: '' }, $set: { updatedAt: new Date() } },
+    { multi: true }
+  );
+
+  TasksCollection.update(
+    { blockedByIds: taskId },
+    { $pull: { blockedByIds: taskId } },
+    { multi: true }
+  );
+
+  CommentsCollection.remove({ taskId });
+}
@@ -8,12 +8,77 @@
 import type { Priority } from '../projects/types';
 
 /**
- * Task workflow statuses
+ * Statuses of the default workflow
  *
  * Represents a typical development workflow:
  * todo -> in_progress -> review -> done
  */
-export type TaskStatus = 'todo' | 'in_progress' | 'review' | 'done';
+export type DefaultTaskStatus = 'todo' | 'in_progress' | 'review' | 'done';
+
+/**
+ * Task workflow status
+ *
+ * WHY string: Each project defines its own statuses (Project.workflow)
+ * Valid values are the status keys of the task's project workflow
+ * See imports/api/projects/workflow.ts
+ */
+export type TaskStatus = DefaultTaskStatus | (string & {});
+
+/**
+ * Checklist item embedded in a task
+ *
+ * WHY EMBEDDED (not a collection):
+ * - Small, bounded list that only makes sense inside its task
+ * - Always loaded together with the task
+ * - Array updates ($push, positional $set) are atomic per document
+ *
+ * WHY OWN id: Array positions change when items are reordered,
+ * so clients refer to items by a stable id
+ */
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  doneAt?: Date;
+  doneBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * Recurrence rule for repeating tasks
+ *
+ * SUPPORTED PATTERNS:
+ * - daily:   every `interval` days
+ * - weekly:  every `interval` weeks on `weekdays` (0 = Sunday ... 6 = Saturday)
+ * - monthly: every `interval` months on `monthDay` (clamped to the month's last day)
+ *
+ * An RRULE subset is accepted as input and normalized into this shape
+ * (the original text is kept in `rrule`). See imports/api/tasks/recurrence.ts
+ *
+ * NOTE: Dates are calculated in UTC
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;     // Every N days/weeks/months (>= 1)
+  weekdays?: number[];  // weekly only
+  monthDay?: number;    // monthly only (1-31)
+
+  // Series end (optional - at most one)
+  until?: Date;         // No occurrences after this date
+  count?: number;       // Total number of occurrences
+
+  rrule?: string;       // Original RRULE text, when created from one
+}
+
+/**
+ * Recurrence as sent by clients: an RRULE string or the structured form
+ * (interval defaults to 1)
+ */
+export type RecurrenceInput =
+  | { rrule: string }
+  | (Omit<RecurrenceRule, 'interval' | 'rrule'> & { interval?: number });
 
 /**
  * Task document structure
@@ -22,6 +87,7 @@ export type TaskStatus = 'todo' | 'in_progress' | 'review' | 'done';
  * - Belongs to one Project (projectId)
  * - Assigned to one User (assignedToId) - optional
  * - Created by one User (createdBy)
+ * - Optionally a subtask of another Task (parentTaskId)
  *
  * WHY: We use references instead of embedding:
  * - Projects and users are large, independent entities
@@ -35,6 +101,12 @@ export interface Task {
   // INDEXED: Most queries filter by projectId
   projectId: string;
 
+  // Parent task reference (subtasks only)
+  // WHY REFERENCE (not embedded): Subtasks are real tasks - they have their
+  // own assignee, status, due date and show up in "My Tasks"
+  // INDEXED: "Show me the subtasks of this task"
+  parentTaskId?: string;
+
   title: string;
   description: string;
 
@@ -42,7 +114,7 @@ export interface Task {
   // INDEXED: Common query: "show me my tasks"
   assignedToId?: string;
 
-  // Workflow status
+  // Workflow status (a status key from the project's workflow)
   // INDEXED: Common filter in queries
   status: TaskStatus;
 
@@ -61,6 +133,30 @@ export interface Task {
   estimatedHours?: number;
   actualHours?: number;
 
+  // Dependencies: tasks that must be finished before this one can start
+  // WHY: Stored on the blocked task ("A blocks B" = B.blockedByIds contains A)
+  // - One array per task, updated atomically with $addToSet/$pull
+  // - $graphLookup can walk the chain in both directions
+  // INDEXED: Multi-key index for "what does this task block?"
+  blockedByIds?: string[];
+
+  // Lightweight to-do items that don't deserve their own task
+  checklist?: ChecklistItem[];
+
+  // Recurring tasks
+  // WHY A SERIES OF TASKS (not one task that resets):
+  // Each occurrence keeps its own history - comments, time entries, completion date
+  // - recurrence: Rule, copied onto every instance of the series
+  // - seriesId: _id of the first instance (every instance links back to it)
+  // - occurrenceIndex: 1 for the first instance, 2 for the next...
+  // - nextOccurrenceAt: Due date of the next instance. Only set on the latest
+  //   instance, and unset once the scheduler has generated it (or the series ended)
+  // INDEXED: nextOccurrenceAt (scheduler), seriesId (series history)
+  recurrence?: RecurrenceRule;
+  seriesId?: string;
+  occurrenceIndex?: number;
+  nextOccurrenceAt?: Date;
+
   // Tags for flexible categorization
   // WHY: Array instead of separate tags table
   // - Simple, flexible structure
@@ -72,7 +168,14 @@ export interface Task {
   createdBy: string;  // Who created this task
   createdAt: Date;
   updatedAt?: Date;
-  completedAt?: Date; // When status changed to 'done'
+  completedAt?: Date; // When status moved into the 'done' category
+
+  // Trash (soft delete)
+  // WHY: Accidental deletes can be undone until the purge job runs
+  // Trashed tasks are excluded everywhere (see NOT_TRASHED in trash.ts)
+  // INDEXED: { projectId, deletedAt } for the trash bin and the purge job
+  deletedAt?: Date;
+  deletedBy?: string;
 }
 
 // ============================================================================
@@ -89,6 +192,40 @@ export type NewTask = Omit<Task, '_id'>;
  */
 export type TaskUpdate = Partial<Omit<Task, '_id' | 'createdAt' | 'createdBy'>>;
 
+/**
+ * What a client sends to create a task (tasks.insert)
+ *
+ * NOTE: Status comes from the project workflow, createdBy from the login
+ */
+export type TaskInput = Pick<
+  Task,
+  | 'projectId'
+  | 'title'
+  | 'description'
+  | 'assignedToId'
+  | 'priority'
+  | 'dueDate'
+  | 'estimatedHours'
+  | 'tags'
+  | 'parentTaskId'
+>;
+
+/**
+ * What a client may change on a task (tasks.update)
+ *
+ * NOTE: actualHours is not here - it's derived from time entries
+ */
+export interface TaskChanges {
+  title?: string;
+  description?: string;
+  status?: TaskStatus;
+  priority?: Priority;
+  dueDate?: Date;
+  estimatedHours?: number;
+  tags?: string[];
+  assignedToId?: string | null; // null to unassign
+}
+
 /**
  * Projection types for limiting fields
  */
@@ -102,5 +239,44 @@ export interface TaskListItem {
   assignedToId?: string;
 }
 
+// ============================================================================
+// BULK OPERATIONS
+// ============================================================================
+
+/**
+ * Filter selecting tasks for a bulk operation
+ *
+ * WHY projectId REQUIRED: Keeps a bulk change inside one project the user
+ * can see, instead of "every task tagged 'bug' anywhere"
+ */
+export interface BulkTaskFilter {
+  projectId: string;
+  status?: TaskStatus;
+  priority?: Priority;
+  assignedToId?: string | null; // null = unassigned tasks
+  tags?: string[];              // Tasks having all of these tags
+}
+
+/**
+ * Tasks a bulk operation applies to: explicit IDs or a filter (not both)
+ */
+export interface BulkTaskTarget {
+  taskIds?: string[];
+  filter?: BulkTaskFilter;
+}
+
+/**
+ * Outcome of a bulk operation for one task
+ *
+ * WHY PER TASK: One task failing a rule (no permission, blocked...)
+ * shouldn't undo or hide the changes made to the others
+ */
+export interface BulkTaskResult {
+  taskId: string;
+  success: boolean;
+  error?: string;  // Meteor.Error code, e.g. 'not-authorized'
+  reason?: string; // Human-readable message
+}
+
 // Re-export Priority for convenience
 export type { Priority };
@@ -0,0 +1,112 @@
+/**
+ * Project Access Through Teams
+ *
+ * SINGLE RESPONSIBILITY: Copy the people of a project's attached teams
+ * into the project's own member lists, and keep them there
+ *
+ * WHY COPY INSTEAD OF LOOKING TEAMS UP ON EVERY CHECK:
+ * teamMemberIds / members are what the policy, canBeAssigned and every
+ * "my projects" query already read - including the projects.memberOf
+ * publication, which re-sends a project the moment those lists change.
+ * Copying on every team change gives all of them team access for free,
+ * and immediately.
+ *
+ * RULES:
+ * - People added directly stay direct members, with their own role
+ * - Everyone else in an attached team is a member with viaTeam: true and
+ *   the highest role of their attached teams
+ * - The owner is never a member
+ */
+
+import { ProjectsCollection } from '../projects/collection';
+import { buildMembers, PROJECT_ROLES } from '../projects/roles';
+import { TeamsCollection } from './collection';
+import type { Project, ProjectMember, ProjectRole } from '../projects/types';
+import type { Team } from './types';
+
+type TeamAccessProject = Pick<Project, 'ownerId' | 'teamMemberIds' | 'members' | 'teams'>;
+
+/**
+ * The members a project has without its teams
+ */
+export function getDirectMembers(
+  project: Pick<Project, 'teamMemberIds' | 'members'>
+): ProjectMember[] {
+  return buildMembers(project.teamMemberIds, project.members).filter((m) => !m.viaTeam);
+}
+
+/**
+ * Work out a project's member lists from its direct members and teams
+ *
+ * @param project - The project (its teams list decides which teams count)
+ * @param teams - Those teams' documents (unknown teams are ignored)
+ * @returns Both lists, ready to $set
+ */
+export function buildTeamAccess(
+  project: TeamAccessProject,
+  teams: Pick<Team, '_id' | 'memberIds'>[]
+): { teamMemberIds: string[]; members: ProjectMember[] } {
+  const direct = getDirectMembers(project);
+  const directIds = new Set(direct.map((m) => m.userId));
+
+  // Highest role per person across the attached teams
+  const teamRoles = new Map<string, ProjectRole>();
+  (project.teams || []).forEach(({ teamId, role }) => {
+    const team = teams.find((t) => t._id === teamId);
+
+    team?.memberIds.forEach((userId) => {
+      if (userId === project.ownerId || directIds.has(userId)) return;
+
+      const current = teamRoles.get(userId);
+      if (!current || PROJECT_ROLES.indexOf(role) > PROJECT_ROLES.indexOf(current)) {
+        teamRoles.set(userId, role);
+      }
+    });
+  });
+
+  const now = new Date();
+  const viaTeam: ProjectMember[] = [...teamRoles].map(([userId, role]) => ({
+    userId,
+    role,
+    addedAt: project.members?.find((m) => m.userId === userId)?.addedAt || now,
+    viaTeam: true,
+  }));
+
+  const members = [...direct, ...viaTeam];
+  return { teamMemberIds: members.map((m) => m.userId), members };
+}
+
+/**
+ * Re-copy team members into projects
+ *
+ * WHEN: After a team's people change, a team is attached or detached,
+ * or a project's direct members change
+ *
+ * @param selector - Projects to refresh, e.g. { 'teams.teamId': teamId }
+ * @returns Number of projects whose members changed
+ */
+export function syncProjectTeams(selector: Record<string, any>): number {
+  let changed = 0;
+
+  ProjectsCollection.find(selector).forEach((project: Project) => {
+    const teamIds = (project.teams || []).map((t) => t.teamId);
+    const teams = TeamsCollection.find(
+      { _id: { $in: teamIds } },
+      { fields: { memberIds: 1 } }
+    ).fetch();
+
+    const access = buildTeamAccess(project, teams);
+
+    const same =
+      JSON.stringify(access.members.map((m) => [m.userId, m.role, !!m.viaTeam])) ===
+      JSON.stringify((project.members || []).map((m) => [m.userId, m.role, !!m.viaTeam]));
+    if (same) return;
+
+    ProjectsCollection.update(project._id!, {
+      $set: { ...access, updatedAt: new Date() },
+    });
+    changed++;
+  });
+
+  return changed;
+}
@@ -0,0 +1,60 @@
+/**
+ * Teams Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the Teams collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Team } from './types';
+
+/**
+ * Teams Collection
+ */
+export const TeamsCollection = new Mongo.Collection<Team>('teams');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Organization + Name
+   *
+   * QUERY PATTERN: "Show me this workspace's teams, alphabetically"
+   * Common in: Team list, "Add team to project" picker
+   */
+  TeamsCollection.createIndexAsync({ organizationId: 1, name: 1 });
+
+  /**
+   * Index: Members
+   *
+   * QUERY PATTERN: "Which teams is this user in?"
+   * Common in: Removing someone from an organization
+   */
+  TeamsCollection.createIndexAsync({ memberIds: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  TeamsCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Teams collection indexes and security configured');
+}
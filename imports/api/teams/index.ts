@@ -0,0 +1,16 @@
+/**
+ * Teams Module
+ *
+ * Barrel export for all team-related functionality
+ *
+ * import { TeamsCollection, Team } from '/imports/api/teams';
+ */
+
+// Export types
+export type { Team, NewTeam } from './types';
+
+// Export collection
+export { TeamsCollection } from './collection';
+
+// Export project access helpers
+export { getDirectMembers, buildTeamAccess, syncProjectTeams } from './access';
@@ -0,0 +1,322 @@
+/**
+ * Teams Methods
+ *
+ * Handles creating teams and changing who is in them.
+ *
+ * SPECIAL CONSIDERATIONS FOR TEAMS:
+ * - A team lives in one organization, and only its members can join
+ * - Every change of people is copied to the team's projects right away
+ *   (syncProjectTeams), so project access follows the team
+ * - The lead is always a member; losing the lead leaves the team without one
+ * - Attaching a team to a project is a project method (projects.addTeam)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { TeamsCollection, Team, NewTeam, syncProjectTeams } from './index';
+import { ProjectsCollection } from '../projects';
+import { OrganizationsCollection, getActiveOrganization } from '../organizations';
+import { ActivityLogsCollection } from '../activityLogs';
+import { userCan } from '../policy';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate a team name
+ */
+function validateName(name: string): void {
+  if (name.trim().length < 2) {
+    throw new Meteor.Error('validation-error', 'Team name must be at least 2 characters');
+  }
+  if (name.length > 100) {
+    throw new Meteor.Error('validation-error', 'Team name must be less than 100 characters');
+  }
+}
+
+/**
+ * Check that everyone joining a team is in its organization
+ */
+function assertInOrganization(organizationId: string, userIds: string[]): void {
+  const organization = OrganizationsCollection.findOne(organizationId);
+  if (userIds.some((id) => !organization?.memberIds.includes(id))) {
+    throw new Meteor.Error('validation-error', 'Team members must be in the organization');
+  }
+}
+
+/**
+ * Load a team the current user may act on
+ */
+function findTeam(
+  userId: string,
+  teamId: string,
+  action: 'team.update' | 'team.manageMembers'
+): Team {
+  const team = TeamsCollection.findOne(teamId);
+  if (!team) {
+    throw new Meteor.Error('not-found', 'Team not found');
+  }
+
+  if (!userCan(userId, action, { team })) {
+    throw new Meteor.Error('not-authorized', 'You do not have permission to change this team');
+  }
+
+  return team;
+}
+
+/**
+ * Log team activity
+ */
+function logTeamActivity(
+  userId: string,
+  action: 'create' | 'update' | 'delete',
+  teamId: string,
+  metadata?: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action,
+    entityType: 'team',
+    entityId: teamId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Create a team in the active workspace
+   *
+   * @param name - Team name
+   * @param memberIds - Initial members (optional)
+   * @param leadId - Team lead (optional, added to the members)
+   * @returns New team ID
+   */
+  'teams.create'(name: string, memberIds: string[] = [], leadId?: string): string {
+    check(name, String);
+    check(memberIds, [String]);
+    check(leadId, Match.Maybe(String));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (!userCan(this.userId, 'team.create', null)) {
+      throw new Meteor.Error('not-authorized', 'Only managers and admins can create teams');
+    }
+
+    validateName(name);
+
+    // 'team.create' already failed for users in no organization
+    const organizationId = getActiveOrganization(this.userId)!._id!;
+
+    const allMemberIds = [...new Set(leadId ? [...memberIds, leadId] : memberIds)];
+    assertInOrganization(organizationId, allMemberIds);
+
+    const team: NewTeam = {
+      organizationId,
+      name: name.trim(),
+      memberIds: allMemberIds,
+      createdBy: this.userId,
+      createdAt: new Date(),
+    };
+    if (leadId) team.leadId = leadId;
+
+    const teamId = TeamsCollection.insert(team);
+
+    logTeamActivity(this.userId, 'create', teamId, { memberIds: allMemberIds, leadId });
+
+    return teamId;
+  },
+
+  /**
+   * Rename a team
+   *
+   * @param teamId - Team to rename
+   * @param name - New name
+   */
+  'teams.rename'(teamId: string, name: string): void {
+    check(teamId, String);
+    check(name, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const team = findTeam(this.userId, teamId, 'team.update');
+    validateName(name);
+
+    TeamsCollection.update(teamId, {
+      $set: { name: name.trim(), updatedAt: new Date() },
+    });
+
+    logTeamActivity(this.userId, 'update', teamId, {
+      action: 'renamed team',
+      previousName: team.name,
+      name: name.trim(),
+    });
+  },
+
+  /**
+   * Choose the team lead
+   *
+   * @param teamId - Team to change
+   * @param leadId - New lead (must be a member), or null for none
+   */
+  'teams.setLead'(teamId: string, leadId: string | null): void {
+    check(teamId, String);
+    check(leadId, Match.OneOf(String, null));
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const team = findTeam(this.userId, teamId, 'team.update');
+
+    if (leadId && !team.memberIds.includes(leadId)) {
+      throw new Meteor.Error('validation-error', 'The lead must be a member of the team');
+    }
+
+    TeamsCollection.update(
+      teamId,
+      leadId
+        ? { $set: { leadId, updatedAt: new Date() } }
+        : { $set: { updatedAt: new Date() }, $unset: { leadId: '' } }
+    );
+
+    logTeamActivity(this.userId, 'update', teamId, {
+      action: 'changed lead',
+      previousLeadId: team.leadId,
+      leadId,
+    });
+  },
+
+  /**
+   * Add someone to a team
+   *
+   * SIDE EFFECTS: They join every project the team is attached to
+   *
+   * @param teamId - Team to add to
+   * @param userId - User to add (must be in the team's organization)
+   */
+  'teams.addMember'(teamId: string, userId: string): void {
+    check(teamId, String);
+    check(userId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const team = findTeam(this.userId, teamId, 'team.manageMembers');
+
+    if (team.memberIds.includes(userId)) {
+      throw new Meteor.Error('validation-error', 'User is already in this team');
+    }
+    assertInOrganization(team.organizationId, [userId]);
+
+    TeamsCollection.update(teamId, {
+      $addToSet: { memberIds: userId },
+      $set: { updatedAt: new Date() },
+    });
+
+    const projects = syncProjectTeams({ 'teams.teamId': teamId });
+
+    logTeamActivity(this.userId, 'update', teamId, {
+      action: 'added member',
+      userId,
+      projects,
+    });
+  },
+
+  /**
+   * Take someone out of a team
+   *
+   * SIDE EFFECTS:
+   * - They leave the team's projects, unless they are on them directly
+   *   or through another team
+   * - If they led the team, it has no lead afterwards
+   *
+   * @param teamId - Team to remove from
+   * @param userId - User to remove
+   */
+  'teams.removeMember'(teamId: string, userId: string): void {
+    check(teamId, String);
+    check(userId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const team = findTeam(this.userId, teamId, 'team.manageMembers');
+
+    if (!team.memberIds.includes(userId)) {
+      throw new Meteor.Error('not-found', 'User is not in this team');
+    }
+
+    TeamsCollection.update(teamId, {
+      $pull: { memberIds: userId },
+      $set: { updatedAt: new Date() },
+      ...(team.leadId === userId && { $unset: { leadId: '' } }),
+    });
+
+    const projects = syncProjectTeams({ 'teams.teamId': teamId });
+
+    logTeamActivity(this.userId, 'update', teamId, {
+      action: 'removed member',
+      userId,
+      projects,
+    });
+  },
+
+  /**
+   * Delete a team
+   *
+   * SIDE EFFECTS: Detached from its projects; people who were only
+   * there through this team leave them
+   *
+   * @param teamId - Team to delete
+   */
+  'teams.remove'(teamId: string): void {
+    check(teamId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const team = findTeam(this.userId, teamId, 'team.update');
+
+    const projectIds = ProjectsCollection.find(
+      { 'teams.teamId': teamId },
+      { fields: { _id: 1 } }
+    ).map((project) => project._id!);
+
+    ProjectsCollection.update(
+      { _id: { $in: projectIds } },
+      { $pull: { teams: { teamId } } },
+      { multi: true }
+    );
+
+    TeamsCollection.remove(teamId);
+
+    syncProjectTeams({ _id: { $in: projectIds } });
+
+    logTeamActivity(this.userId, 'delete', teamId, {
+      name: team.name,
+      memberIds: team.memberIds,
+      projectIds,
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Denormalized Access: Team people copied into projects, re-copied on change
+ * 2. Provenance Flag: viaTeam separates team access from direct membership
+ * 3. Scoped Roles: The lead manages members, managers manage the team itself
+ */
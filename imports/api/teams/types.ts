@@ -0,0 +1,46 @@
+/**
+ * Team Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY team-related types
+ */
+
+/**
+ * Team document structure
+ *
+ * PURPOSE: A group of people that joins projects as a unit
+ * ("Design", "Backend on-call") instead of member by member
+ *
+ * DESIGN DECISION: Access stays on the project
+ * Attaching a team copies its people into the project's teamMemberIds /
+ * members (flagged viaTeam), and every membership change is copied again
+ * (see access.ts). Permission checks and "my projects" queries keep
+ * reading the project alone.
+ */
+export interface Team {
+  _id?: string;
+
+  // Teams belong to one organization, like projects
+  // INDEXED: Team lists are scoped to the active workspace
+  organizationId: string;
+
+  name: string;
+
+  // INDEXED: "Which teams am I in?"
+  memberIds: string[];
+
+  // Team lead: manages who is in the team (always one of memberIds)
+  leadId?: string;
+
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewTeam = Omit<Team, '_id'>;
@@ -0,0 +1,72 @@
+/**
+ * Templates Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the Templates collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Template } from './types';
+
+/**
+ * Templates Collection
+ *
+ * Holds both project templates and task templates (see TemplateKind)
+ */
+export const TemplatesCollection = new Mongo.Collection<Template>('templates');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Kind + Owner + Name
+   *
+   * QUERY PATTERN: "Show me my project templates, alphabetically"
+   * Common in: New project dialog
+   */
+  TemplatesCollection.createIndexAsync({ kind: 1, ownerId: 1, name: 1 });
+
+  /**
+   * Index: Project + Name
+   *
+   * QUERY PATTERN: "Show me the task templates of this project"
+   * Common in: New task menu
+   *
+   * WHY SPARSE: Project templates have no projectId
+   */
+  TemplatesCollection.createIndexAsync({ projectId: 1, name: 1 }, { sparse: true });
+
+  /**
+   * Index: Organization + Kind
+   *
+   * QUERY PATTERN: "Show me this workspace's project templates"
+   * Common in: New project dialog
+   */
+  TemplatesCollection.createIndexAsync({ organizationId: 1, kind: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  TemplatesCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Templates collection indexes and security configured');
+}
@@ -0,0 +1,22 @@
+/**
+ * Templates Module
+ *
+ * Barrel export for all template-related functionality
+ *
+ * import { TemplatesCollection, Template } from '/imports/api/templates';
+ */
+
+// Export types
+export type {
+  Template,
+  NewTemplate,
+  TemplateKind,
+  TemplateTask,
+  TemplateProject,
+} from './types';
+
+// Export collection
+export { TemplatesCollection } from './collection';
+
+// Export instantiation helpers
+export { instantiateTemplateTasks, toDueOffsetDays } from './instantiate';
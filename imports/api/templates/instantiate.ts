@@ -0,0 +1,92 @@
+/**
+ * Template Instantiation
+ *
+ * SINGLE RESPONSIBILITY: Turning template tasks into real tasks
+ *
+ * WHY THROUGH tasks.insert:
+ * Template tasks get exactly the same validation, permission checks,
+ * counters and activity logging as tasks created by hand
+ *
+ * WHY SHARED: Used by projects.instantiateFromTemplate (project templates)
+ * and templates.instantiate (task templates)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { TasksCollection } from '../tasks';
+import { updateProjectTaskCounters } from '../projects';
+import type { TemplateTask } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a due date into days after a start date
+ */
+export function toDueOffsetDays(startDate: Date, dueDate: Date): number {
+  return Math.round((dueDate.getTime() - startDate.getTime()) / DAY_MS);
+}
+
+/**
+ * Create the tasks of a template in a project
+ *
+ * NOTE: Must run inside a method - the nested tasks.insert calls act on
+ * behalf of the calling user
+ *
+ * ALL OR NOTHING: If any task fails validation, the tasks created so far
+ * are removed again and the error is rethrown
+ *
+ * @param templateTasks - Template tasks, parents before their subtasks
+ * @param projectId - Project to create them in
+ * @param startDate - Due dates are dueOffsetDays after this date
+ * @param assignableIds - Users who can be assigned tasks in the project
+ * (other template assignees are dropped)
+ * @returns IDs of the created tasks
+ */
+export function instantiateTemplateTasks(
+  templateTasks: TemplateTask[],
+  projectId: string,
+  startDate: Date,
+  assignableIds: string[]
+): string[] {
+  const idsByKey = new Map<string, string>();
+
+  try {
+    templateTasks.forEach((item) => {
+      const taskData: Record<string, any> = {
+        projectId,
+        title: item.title,
+        description: item.description,
+        priority: item.priority,
+        tags: item.tags,
+      };
+
+      if (item.estimatedHours !== undefined) {
+        taskData.estimatedHours = item.estimatedHours;
+      }
+      if (item.dueOffsetDays !== undefined) {
+        taskData.dueDate = new Date(startDate.getTime() + item.dueOffsetDays * DAY_MS);
+      }
+      if (item.assignedToId && assignableIds.includes(item.assignedToId)) {
+        taskData.assignedToId = item.assignedToId;
+      }
+      if (item.parentKey && idsByKey.has(item.parentKey)) {
+        taskData.parentTaskId = idsByKey.get(item.parentKey);
+      }
+
+      const taskId: string = Meteor.call('tasks.insert', taskData);
+      idsByKey.set(item.key, taskId);
+
+      (item.checklist || []).forEach((text) => {
+        Meteor.call('tasks.addChecklistItem', taskId, text);
+      });
+    });
+  } catch (error) {
+    // ROLLBACK: Don't leave half a template behind
+    if (idsByKey.size > 0) {
+      TasksCollection.remove({ _id: { $in: [...idsByKey.values()] } });
+      updateProjectTaskCounters(projectId);
+    }
+    throw error;
+  }
+
+  return [...idsByKey.values()];
+}
@@ -0,0 +1,378 @@
+/**
+ * Templates Methods
+ *
+ * Handles capturing projects and tasks as templates, reusing task
+ * templates and removing templates.
+ *
+ * SPECIAL CONSIDERATIONS FOR TEMPLATES:
+ * - Templates are snapshots: later changes to the source don't affect them
+ * - Due dates are stored as offsets from a start date (see TemplateTask)
+ * - Instantiation goes through projects.insert / tasks.insert, so templates
+ *   can't bypass any validation
+ * - Project templates are instantiated with projects.instantiateFromTemplate
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import {
+  TemplatesCollection,
+  NewTemplate,
+  TemplateTask,
+  instantiateTemplateTasks,
+  toDueOffsetDays,
+} from './index';
+import { ProjectsCollection, Project, canBeAssigned } from '../projects';
+import { TasksCollection, Task, NOT_TRASHED, findActiveTask } from '../tasks';
+import { ActivityLogsCollection } from '../activityLogs';
+import { userCan, inProject } from '../policy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Most tasks a template can hold
+ *
+ * WHY: Instantiation creates every task in one method call
+ */
+const MAX_TEMPLATE_TASKS = 200;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate template name and description
+ */
+function validateTemplateDetails(name: string, description: string): void {
+  if (name.trim().length < 3) {
+    throw new Meteor.Error('validation-error', 'Template name must be at least 3 characters');
+  }
+  if (name.length > 100) {
+    throw new Meteor.Error('validation-error', 'Template name must be less than 100 characters');
+  }
+  if (description.length > 2000) {
+    throw new Meteor.Error(
+      'validation-error',
+      'Template description must be less than 2000 characters'
+    );
+  }
+}
+
+/**
+ * Capture tasks as template tasks
+ *
+ * ORDER: Parents before their subtasks, so instantiation can resolve
+ * parentKey to a freshly created task
+ *
+ * @param tasks - Tasks to capture (subtasks whose parent isn't included
+ * become top-level template tasks)
+ * @param startDate - Due dates are stored as days after this date
+ */
+function captureTasks(tasks: Task[], startDate: Date): TemplateTask[] {
+  const included = new Set(tasks.map((task) => task._id!));
+  const captured: TemplateTask[] = [];
+  const visited = new Set<string>();
+
+  const visit = (task: Task) => {
+    if (visited.has(task._id!)) return;
+    visited.add(task._id!);
+
+    const parentKey =
+      task.parentTaskId && included.has(task.parentTaskId) ? task.parentTaskId : undefined;
+    if (parentKey) {
+      visit(tasks.find((t) => t._id === parentKey)!);
+    }
+
+    const item: TemplateTask = {
+      key: task._id!, // Source task ID: unique and stable
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      tags: task.tags,
+    };
+
+    if (parentKey) item.parentKey = parentKey;
+    if (task.estimatedHours !== undefined) item.estimatedHours = task.estimatedHours;
+    if (task.assignedToId) item.assignedToId = task.assignedToId;
+    if (task.dueDate) item.dueOffsetDays = toDueOffsetDays(startDate, task.dueDate);
+    if (task.checklist && task.checklist.length > 0) {
+      item.checklist = task.checklist.map((checklistItem) => checklistItem.text);
+    }
+
+    captured.push(item);
+  };
+
+  tasks.forEach(visit);
+
+  return captured;
+}
+
+/**
+ * Log template activity
+ */
+function logTemplateActivity(
+  userId: string,
+  action: 'create' | 'delete',
+  templateId: string,
+  metadata?: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action,
+    entityType: 'template',
+    entityId: templateId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Save a project as a project template
+   *
+   * CAPTURED: Description, tags, team, workflow and every task (with
+   * subtasks, checklists, estimates and assignees). Task due dates become
+   * offsets from the project start date (startDate, or createdAt).
+   *
+   * @param projectId - Project to capture
+   * @param details - Template name and description
+   * @returns New template ID
+   */
+  'templates.createFromProject'(
+    projectId: string,
+    details: { name: string; description?: string }
+  ): string {
+    check(projectId, String);
+    check(details, { name: String, description: Match.Maybe(String) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const description = details.description ?? '';
+    validateTemplateDetails(details.name, description);
+
+    const project = ProjectsCollection.findOne(projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    // PERMISSION: Same as modifying the project (owner or admin)
+    if (!userCan(this.userId, 'project.update', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the project owner or an admin can create templates from it'
+      );
+    }
+
+    const tasks = TasksCollection.find(
+      { projectId, ...NOT_TRASHED },
+      { sort: { createdAt: 1 } }
+    ).fetch();
+    if (tasks.length > MAX_TEMPLATE_TASKS) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Templates can hold at most ${MAX_TEMPLATE_TASKS} tasks`
+      );
+    }
+
+    const template: NewTemplate = {
+      kind: 'project',
+      name: details.name,
+      description,
+      ownerId: this.userId,
+      organizationId: project.organizationId,
+      project: {
+        description: project.description,
+        tags: project.tags,
+        teamMemberIds: project.teamMemberIds,
+      },
+      tasks: captureTasks(tasks, project.startDate || project.createdAt),
+      sourceProjectId: projectId,
+      createdAt: new Date(),
+    };
+
+    if (project.workflow) {
+      template.project!.workflow = project.workflow;
+    }
+
+    const templateId = TemplatesCollection.insert(template);
+
+    logTemplateActivity(this.userId, 'create', templateId, {
+      kind: 'project',
+      sourceProjectId: projectId,
+    });
+
+    return templateId;
+  },
+
+  /**
+   * Save a task (and its subtasks) as a task template for its project
+   *
+   * Due dates become offsets from the task's creation date, and are
+   * re-applied from the date the template is used
+   *
+   * @param taskId - Task to capture
+   * @param details - Template name and description
+   * @returns New template ID
+   */
+  'templates.createFromTask'(
+    taskId: string,
+    details: { name: string; description?: string }
+  ): string {
+    check(taskId, String);
+    check(details, { name: String, description: Match.Maybe(String) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const description = details.description ?? '';
+    validateTemplateDetails(details.name, description);
+
+    const task = findActiveTask(taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    // PERMISSION: Anyone who can create tasks in the project
+    const { project } = inProject(task.projectId);
+    if (!project || !userCan(this.userId, 'task.create', { project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to access this project'
+      );
+    }
+
+    // Collect the task and all its descendants, level by level
+    const tasks: Task[] = [task];
+    let parentIds = [taskId];
+    while (parentIds.length > 0 && tasks.length <= MAX_TEMPLATE_TASKS) {
+      const children = TasksCollection.find({
+        parentTaskId: { $in: parentIds },
+        ...NOT_TRASHED,
+      }).fetch();
+      tasks.push(...children);
+      parentIds = children.map((child) => child._id!);
+    }
+
+    if (tasks.length > MAX_TEMPLATE_TASKS) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Templates can hold at most ${MAX_TEMPLATE_TASKS} tasks`
+      );
+    }
+
+    const templateId = TemplatesCollection.insert({
+      kind: 'task',
+      name: details.name,
+      description,
+      ownerId: this.userId,
+      organizationId: project.organizationId,
+      projectId: task.projectId,
+      tasks: captureTasks(tasks, task.createdAt),
+      sourceTaskId: taskId,
+      createdAt: new Date(),
+    });
+
+    logTemplateActivity(this.userId, 'create', templateId, {
+      kind: 'task',
+      sourceTaskId: taskId,
+    });
+
+    return templateId;
+  },
+
+  /**
+   * Create tasks from a task template
+   *
+   * @param templateId - Task template to use
+   * @param options - startDate: due dates are offsets from it (default: now)
+   * @returns IDs of the created tasks (the root task first)
+   */
+  'templates.instantiate'(templateId: string, options: { startDate?: Date } = {}): string[] {
+    check(templateId, String);
+    check(options, { startDate: Match.Maybe(Date) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const template = TemplatesCollection.findOne(templateId);
+    if (
+      !template ||
+      template.kind !== 'task' ||
+      !template.projectId ||
+      !userCan(this.userId, 'template.use', { template, project: null })
+    ) {
+      throw new Meteor.Error('not-found', 'Task template not found');
+    }
+
+    const project = ProjectsCollection.findOne(template.projectId);
+    if (!project) {
+      throw new Meteor.Error('not-found', 'Project not found');
+    }
+
+    // Permissions are checked by tasks.insert for every task
+    return instantiateTemplateTasks(
+      template.tasks,
+      project._id!,
+      options.startDate || new Date(),
+      [project.ownerId, ...project.teamMemberIds].filter((id) => canBeAssigned(project, id))
+    );
+  },
+
+  /**
+   * Remove a template
+   *
+   * PERMISSION RULES:
+   * - Template creator
+   * - Project owner (task templates of their project)
+   * - Admins
+   *
+   * @param templateId - Template to remove
+   */
+  'templates.remove'(templateId: string): void {
+    check(templateId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const template = TemplatesCollection.findOne(templateId);
+    if (!template) {
+      throw new Meteor.Error('not-found', 'Template not found');
+    }
+
+    const project: Project | undefined = template.projectId
+      ? ProjectsCollection.findOne(template.projectId)
+      : undefined;
+
+    if (!userCan(this.userId, 'template.remove', { template, project })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'Only the template creator, project owner or admin can remove templates'
+      );
+    }
+
+    TemplatesCollection.remove(templateId);
+
+    logTemplateActivity(this.userId, 'delete', templateId, {
+      kind: template.kind,
+      name: template.name,
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Snapshots: Templates copy data instead of referencing the source
+ * 2. Relative Dates: Offsets become real dates when instantiated
+ * 3. Method Composition: Instantiation reuses tasks.insert validation
+ */
@@ -0,0 +1,104 @@
+/**
+ * Template Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY template-related types
+ */
+
+import type { Priority, ProjectWorkflow } from '../projects/types';
+
+/**
+ * What a template produces
+ *
+ * project -> A new project with its starter tasks
+ * task -> Tasks (with subtasks) inside the project the template belongs to
+ */
+export type TemplateKind = 'project' | 'task';
+
+/**
+ * A task inside a template
+ *
+ * WHY dueOffsetDays (not a date):
+ * Templates are reused months later. "Due 14 days after start" turns into a
+ * real date when the template is instantiated.
+ *
+ * WHY key/parentKey: Template tasks have no _id yet; subtasks point to their
+ * parent by key and are created after it
+ */
+export interface TemplateTask {
+  key: string;
+  parentKey?: string;
+
+  title: string;
+  description: string;
+  priority: Priority;
+  tags: string[];
+  estimatedHours?: number;
+
+  // Days after the start date (can be 0; undefined = no due date)
+  dueOffsetDays?: number;
+
+  // Assignee, only kept if they're on the team when instantiated
+  assignedToId?: string;
+
+  // Checklist item texts (all unticked when instantiated)
+  checklist?: string[];
+}
+
+/**
+ * Project settings stored in a project template
+ */
+export interface TemplateProject {
+  description: string;
+  tags: string[];
+  teamMemberIds: string[];
+  workflow?: ProjectWorkflow;
+}
+
+/**
+ * Template document structure
+ *
+ * DESIGN DECISION: One collection for project and task templates
+ * WHY: Same shape (a list of template tasks), same lifecycle and permissions
+ *
+ * DESIGN DECISION: Snapshot, not a live link
+ * Changing the source project later doesn't change the template
+ */
+export interface Template {
+  _id?: string;
+  kind: TemplateKind;
+
+  name: string;
+  description: string;
+
+  // Who created the template (can remove it)
+  ownerId: string;
+
+  // Organization the template was captured in (only used there)
+  organizationId: string;
+
+  // Task templates only: the project they're reused in
+  // INDEXED: "Show me the task templates of this project"
+  projectId?: string;
+
+  // Project templates only
+  project?: TemplateProject;
+
+  // Tasks to create, parents before their subtasks
+  tasks: TemplateTask[];
+
+  // Where the template was captured from (informational)
+  sourceProjectId?: string;
+  sourceTaskId?: string;
+
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewTemplate = Omit<Template, '_id'>;
@@ -0,0 +1,33 @@
+/**
+ * Task Actual Hours
+ *
+ * SINGLE RESPONSIBILITY: Keeping Task.actualHours in step with the task's
+ * time entries
+ *
+ * WHY $set of a recomputed total instead of $inc:
+ * - Entries can be edited and deleted, not just added
+ * - Recomputing is idempotent - a missed or repeated call can't drift
+ *
+ * NOTE: No permission checks - called by timeEntries methods and the
+ * timer helpers after they have checked their own
+ */
+
+import { TimeEntriesCollection } from './collection';
+import { TasksCollection } from '../tasks/collection';
+
+/**
+ * Recompute a task's actualHours from the time entry ledger
+ *
+ * @param taskId - Task to update
+ */
+export function syncTaskActualHours(taskId: string): void {
+  const entries = TimeEntriesCollection.find({ taskId }, { fields: { hours: 1 } }).fetch();
+  const totalHours = entries.reduce((sum, entry) => sum + entry.hours, 0);
+
+  TasksCollection.update(taskId, {
+    $set: {
+      actualHours: Math.round(totalHours * 100) / 100,
+      updatedAt: new Date(),
+    },
+  });
+}
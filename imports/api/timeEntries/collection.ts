@@ -0,0 +1,101 @@
+/**
+ * Time Entries Collection
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the TimeEntries collection
+ * - Collection instance
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { TimeEntry } from './types';
+
+/**
+ * Time Entries Collection
+ *
+ * NOTE: Append-mostly ledger - many inserts, occasional corrections
+ */
+export const TimeEntriesCollection = new Mongo.Collection<TimeEntry>('timeEntries');
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Task
+   *
+   * QUERY PATTERN: "How many hours were spent on this task?"
+   * Used every time an entry changes (actualHours sync)
+   */
+  TimeEntriesCollection.createIndexAsync({ taskId: 1 });
+
+  /**
+   * Index: User + Start Date
+   *
+   * QUERY PATTERN: "Show me this user's time for the week"
+   * Common in: Timesheets, payroll exports
+   */
+  TimeEntriesCollection.createIndexAsync({ userId: 1, startedAt: -1 });
+
+  /**
+   * Index: Project + Start Date
+   *
+   * QUERY PATTERN: "Show me billable time on this project last month"
+   * Common in: Client billing
+   */
+  TimeEntriesCollection.createIndexAsync({ projectId: 1, startedAt: -1 });
+
+  /**
+   * Index: One running timer per user
+   *
+   * QUERY PATTERN: "Is this user's timer running?"
+   * Common in: Timer widget (timeEntries.runningTimer publication)
+   *
+   * WHY UNIQUE + PARTIAL:
+   * The partial filter only indexes running entries, and uniqueness makes
+   * MongoDB reject a second running timer even if two startTimer calls race
+   */
+  TimeEntriesCollection.createIndexAsync(
+    { userId: 1 },
+    {
+      name: 'one_running_timer_per_user',
+      unique: true,
+      partialFilterExpression: { isRunning: true },
+    }
+  );
+
+  /**
+   * Index: Running timers by start
+   *
+   * QUERY PATTERN: "Which timers have been running too long?"
+   * Used by the auto-stop job
+   */
+  TimeEntriesCollection.createIndexAsync(
+    { isRunning: 1, startedAt: 1 },
+    { partialFilterExpression: { isRunning: true } }
+  );
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: Every change must re-sync Task.actualHours, which only
+   * Meteor Methods do
+   */
+  TimeEntriesCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ TimeEntries collection indexes and security configured');
+}
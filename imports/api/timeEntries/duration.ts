@@ -0,0 +1,58 @@
+/**
+ * Entry Durations
+ *
+ * SINGLE RESPONSIBILITY: How long one time entry may be, and cutting
+ * longer stretches of time into entries that fit
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Longest single entry
+ *
+ * WHY: Catches typos (80 instead of 8) and forgotten timers
+ */
+export const MAX_ENTRY_HOURS = 24;
+
+/**
+ * One piece of a split duration
+ */
+export interface EntryDuration {
+  startedAt: Date;
+  hours: number;
+  endedAt?: Date;
+}
+
+/**
+ * Cut a duration into consecutive pieces of at most MAX_ENTRY_HOURS
+ *
+ * EXAMPLE: 50h from Monday 09:00
+ * -> 24h from Monday 09:00, 24h from Tuesday 09:00, 2h from Wednesday 09:00
+ *
+ * NOTE: Pieces get end times only if the whole duration had one
+ *
+ * @returns The pieces in order - a single piece if nothing needed cutting
+ */
+export function splitDuration({ startedAt, hours, endedAt }: EntryDuration): EntryDuration[] {
+  const pieces: EntryDuration[] = [];
+
+  for (let offset = 0; offset < hours; offset += MAX_ENTRY_HOURS) {
+    const pieceStart = new Date(startedAt.getTime() + offset * HOUR_MS);
+    const piece: EntryDuration = {
+      startedAt: pieceStart,
+      // Hundredths of an hour, like every stored entry
+      hours: Math.round(Math.min(MAX_ENTRY_HOURS, hours - offset) * 100) / 100,
+    };
+    if (endedAt) {
+      piece.endedAt = new Date(pieceStart.getTime() + piece.hours * HOUR_MS);
+    }
+    pieces.push(piece);
+  }
+
+  // The last piece ends exactly where the original did
+  if (endedAt && pieces.length > 0) {
+    pieces[pieces.length - 1].endedAt = endedAt;
+  }
+
+  return pieces;
+}
@@ -0,0 +1,23 @@
+/**
+ * Time Entries Module
+ *
+ * Barrel export for all time entry-related functionality
+ *
+ * import { TimeEntriesCollection, TimeEntry } from '/imports/api/timeEntries';
+ */
+
+// Export types
+export type { TimeEntry, NewTimeEntry, TimeEntryInput } from './types';
+
+// Export collection
+export { TimeEntriesCollection } from './collection';
+
+// Export duration limits
+export { MAX_ENTRY_HOURS, splitDuration } from './duration';
+export type { EntryDuration } from './duration';
+
+// Export actualHours upkeep (callers check permissions first)
+export { syncTaskActualHours } from './actualHours';
+
+// Export timer helpers
+export { MAX_TIMER_HOURS, stopTimerEntry } from './timers';
@@ -0,0 +1,325 @@
+/**
+ * Time Entries Methods
+ *
+ * Handles logging, correcting and deleting time spent on tasks.
+ *
+ * SPECIAL CONSIDERATIONS FOR TIME ENTRIES:
+ * - Entries belong to tasks (must validate task exists)
+ * - A duration OR a start/end pair can be given (both resolve to hours)
+ * - Every change re-syncs Task.actualHours from the ledger
+ * - Entries are personal: only the author (or project owner/admin) can fix them
+ * - Running timers are entries too (see tasks.startTimer / tasks.stopTimer)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import {
+  TimeEntriesCollection,
+  NewTimeEntry,
+  TimeEntryInput,
+  MAX_ENTRY_HOURS,
+  syncTaskActualHours,
+} from './index';
+import { findActiveTask } from '../tasks';
+import { ActivityLogsCollection } from '../activityLogs';
+import { userCan, inProject, onTask } from '../policy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_NOTE_LENGTH = 500;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolve the duration of an entry
+ *
+ * RULES:
+ * - startedAt + endedAt: hours are computed from the difference
+ * - hours only: startedAt defaults to now (the day the work was logged)
+ * - hours + startedAt + endedAt: rejected if they disagree
+ */
+function resolveDuration(input: {
+  hours?: number;
+  startedAt?: Date;
+  endedAt?: Date;
+}): { hours: number; startedAt: Date; endedAt?: Date } {
+  const { startedAt, endedAt } = input;
+  let { hours } = input;
+
+  if (endedAt) {
+    if (!startedAt) {
+      throw new Meteor.Error('validation-error', 'An end time requires a start time');
+    }
+    if (endedAt <= startedAt) {
+      throw new Meteor.Error('validation-error', 'End time must be after start time');
+    }
+
+    const computed = (endedAt.getTime() - startedAt.getTime()) / (1000 * 60 * 60);
+    if (hours !== undefined && Math.abs(hours - computed) > 0.01) {
+      throw new Meteor.Error(
+        'validation-error',
+        'Hours do not match the start and end times'
+      );
+    }
+    hours = computed;
+  }
+
+  if (hours === undefined) {
+    throw new Meteor.Error('validation-error', 'Provide hours or a start and end time');
+  }
+
+  if (hours <= 0) {
+    throw new Meteor.Error('validation-error', 'Hours must be greater than 0');
+  }
+
+  if (hours > MAX_ENTRY_HOURS) {
+    throw new Meteor.Error(
+      'validation-error',
+      `A single entry cannot exceed ${MAX_ENTRY_HOURS} hours`
+    );
+  }
+
+  return {
+    hours: Math.round(hours * 100) / 100, // Hundredths of an hour (36 seconds)
+    startedAt: startedAt || new Date(),
+    endedAt,
+  };
+}
+
+/**
+ * Log time tracking activity against the task
+ */
+function logTimeActivity(
+  userId: string,
+  taskId: string,
+  metadata: Record<string, any>
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action: 'update',
+    entityType: 'task',
+    entityId: taskId,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Log time on a task
+   *
+   * EXAMPLES:
+   * { taskId, hours: 1.5 }
+   * { taskId, startedAt, endedAt, note: 'Pairing session', billable: true }
+   *
+   * SIDE EFFECTS:
+   * - Re-syncs Task.actualHours
+   * - Logs activity
+   *
+   * @param entry - Time entry details
+   * @returns New time entry ID
+   */
+  'timeEntries.insert'(entry: TimeEntryInput): string {
+    check(entry, {
+      taskId: String,
+      hours: Match.Maybe(Number),
+      startedAt: Match.Maybe(Date),
+      endedAt: Match.Maybe(Date),
+      note: Match.Maybe(String),
+      billable: Match.Maybe(Boolean),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const task = findActiveTask(entry.taskId);
+    if (!task) {
+      throw new Meteor.Error('not-found', 'Task not found');
+    }
+
+    // PERMISSION: Assignee or project team can log time
+    if (!userCan(this.userId, 'task.work', onTask(task))) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You do not have permission to log time on this task'
+      );
+    }
+
+    if (entry.note && entry.note.length > MAX_NOTE_LENGTH) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Note must be less than ${MAX_NOTE_LENGTH} characters`
+      );
+    }
+
+    const duration = resolveDuration(entry);
+
+    const timeEntry: NewTimeEntry = {
+      taskId: entry.taskId,
+      projectId: task.projectId,
+      userId: this.userId, // SECURITY: Always from authenticated user
+      ...duration,
+      note: entry.note,
+      billable: entry.billable ?? false,
+      createdAt: new Date(),
+    };
+
+    const entryId = TimeEntriesCollection.insert(timeEntry);
+
+    // SIDE EFFECT: Keep the denormalized total in sync
+    syncTaskActualHours(entry.taskId);
+
+    logTimeActivity(this.userId, entry.taskId, {
+      action: 'logged time',
+      timeEntryId: entryId,
+      hours: duration.hours,
+    });
+
+    return entryId;
+  },
+
+  /**
+   * Correct a time entry
+   *
+   * NOTE: Changing only one of startedAt/endedAt re-computes hours from
+   * the stored other one
+   *
+   * @param entryId - Entry to correct
+   * @param updates - Fields to change
+   */
+  'timeEntries.update'(
+    entryId: string,
+    updates: {
+      hours?: number;
+      startedAt?: Date;
+      endedAt?: Date | null; // null turns it into a duration-only entry
+      note?: string;
+      billable?: boolean;
+    }
+  ): void {
+    check(entryId, String);
+    check(updates, {
+      hours: Match.Maybe(Number),
+      startedAt: Match.Maybe(Date),
+      endedAt: Match.Maybe(Match.OneOf(Date, null)),
+      note: Match.Maybe(String),
+      billable: Match.Maybe(Boolean),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const entry = TimeEntriesCollection.findOne(entryId);
+    if (!entry) {
+      throw new Meteor.Error('not-found', 'Time entry not found');
+    }
+
+    if (!userCan(this.userId, 'timeEntry.manage', { entry, ...inProject(entry.projectId) })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You can only edit your own time entries'
+      );
+    }
+
+    if (entry.isRunning) {
+      throw new Meteor.Error('validation-error', 'Stop the timer before editing this entry');
+    }
+
+    if (updates.note && updates.note.length > MAX_NOTE_LENGTH) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Note must be less than ${MAX_NOTE_LENGTH} characters`
+      );
+    }
+
+    // Merge with stored values, then re-validate the whole duration
+    const endedAt =
+      updates.endedAt === null ? undefined : updates.endedAt ?? entry.endedAt;
+    const duration = resolveDuration({
+      startedAt: updates.startedAt ?? entry.startedAt,
+      endedAt,
+      // Explicit hours win; otherwise keep stored hours for duration-only entries
+      hours: updates.hours ?? (endedAt ? undefined : entry.hours),
+    });
+
+    const updateObject: any = {
+      $set: {
+        hours: duration.hours,
+        startedAt: duration.startedAt,
+        updatedAt: new Date(),
+      },
+    };
+
+    if (duration.endedAt) {
+      updateObject.$set.endedAt = duration.endedAt;
+    } else {
+      updateObject.$unset = { endedAt: '' };
+    }
+    if (updates.note !== undefined) updateObject.$set.note = updates.note;
+    if (updates.billable !== undefined) updateObject.$set.billable = updates.billable;
+
+    TimeEntriesCollection.update(entryId, updateObject);
+
+    syncTaskActualHours(entry.taskId);
+
+    logTimeActivity(this.userId, entry.taskId, {
+      action: 'corrected time',
+      timeEntryId: entryId,
+      previousHours: entry.hours,
+      hours: duration.hours,
+    });
+  },
+
+  /**
+   * Delete a time entry
+   *
+   * @param entryId - Entry to delete
+   */
+  'timeEntries.remove'(entryId: string): void {
+    check(entryId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const entry = TimeEntriesCollection.findOne(entryId);
+    if (!entry) {
+      throw new Meteor.Error('not-found', 'Time entry not found');
+    }
+
+    if (!userCan(this.userId, 'timeEntry.manage', { entry, ...inProject(entry.projectId) })) {
+      throw new Meteor.Error(
+        'not-authorized',
+        'You can only delete your own time entries'
+      );
+    }
+
+    TimeEntriesCollection.remove(entryId);
+
+    syncTaskActualHours(entry.taskId);
+
+    logTimeActivity(this.userId, entry.taskId, {
+      action: 'deleted time',
+      timeEntryId: entryId,
+      hours: entry.hours,
+    });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Ledger + Denormalized Total: Entries are the truth, actualHours is a cache
+ * 2. Flexible Input: Duration or start/end, normalized to one stored shape
+ * 3. Re-validation on Update: Merge stored and new values, validate the result
+ */
@@ -0,0 +1,84 @@
+/**
+ * Running Timers
+ *
+ * SINGLE RESPONSIBILITY: Stopping a running timer entry
+ *
+ * WHY SHARED: Used by tasks.stopTimer (user action) and by the auto-stop
+ * job (server/jobs/autoStopTimers.ts) - both must produce the same entry,
+ * sync actualHours and log the same way
+ */
+
+import { TimeEntriesCollection } from './collection';
+import { ActivityLogsCollection } from '../activityLogs';
+import { MAX_ENTRY_HOURS } from './duration';
+import { syncTaskActualHours } from './actualHours';
+import type { TimeEntry } from './types';
+
+/**
+ * Longest a timer may run before it is stopped automatically
+ *
+ * CONFIGURATION: TIMER_MAX_HOURS environment variable (default: 12)
+ * Recorded time is capped at this value, so a timer forgotten over the
+ * weekend doesn't log 60 hours
+ *
+ * NOTE: Never more than MAX_ENTRY_HOURS - a longer stopped timer would be
+ * an entry that timeEntries.update refuses to touch
+ */
+export const MAX_TIMER_HOURS = Math.min(
+  Number(process.env.TIMER_MAX_HOURS) || 12,
+  MAX_ENTRY_HOURS
+);
+
+/**
+ * Stop a running timer entry
+ *
+ * SIDE EFFECTS:
+ * - Turns the entry into a regular start/end entry
+ * - Re-syncs Task.actualHours
+ * - Logs activity (on behalf of the timer's owner)
+ *
+ * @param entry - Running time entry
+ * @param options - auto: stopped by the server because it ran too long
+ * @returns Recorded hours
+ */
+export function stopTimerEntry(entry: TimeEntry, options: { auto?: boolean } = {}): number {
+  const maxEnd = new Date(entry.startedAt.getTime() + MAX_TIMER_HOURS * 60 * 60 * 1000);
+  const now = new Date();
+  const endedAt = now < maxEnd ? now : maxEnd;
+
+  // At least 0.01h (36 seconds) so a stopped timer is never an empty entry
+  const hours = Math.max(
+    0.01,
+    Math.round(((endedAt.getTime() - entry.startedAt.getTime()) / (1000 * 60 * 60)) * 100) / 100
+  );
+
+  // CONCURRENCY: Only stop it if it's still running
+  // (the user and the auto-stop job may race)
+  const updated = TimeEntriesCollection.update(
+    { _id: entry._id, isRunning: true },
+    {
+      $set: { endedAt, hours, updatedAt: now },
+      $unset: { isRunning: '' },
+    }
+  );
+  if (updated === 0) {
+    return 0;
+  }
+
+  syncTaskActualHours(entry.taskId);
+
+  ActivityLogsCollection.insert({
+    userId: entry.userId,
+    action: 'update',
+    entityType: 'task',
+    entityId: entry.taskId,
+    metadata: {
+      action: options.auto ? 'timer auto-stopped' : 'stopped timer',
+      timeEntryId: entry._id,
+      hours,
+    },
+    createdAt: now,
+  });
+
+  return hours;
+}
@@ -0,0 +1,83 @@
+/**
+ * Time Entry Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY time entry-related types
+ */
+
+/**
+ * Time entry document structure
+ *
+ * PURPOSE: Ledger of time spent on tasks
+ * - Who logged the time, on which task, and when
+ * - Entries can be corrected or deleted (unlike a bare counter)
+ * - Source of truth for Task.actualHours (kept in sync on every change)
+ *
+ * DESIGN DECISION: Separate collection instead of an array on the task
+ * WHY:
+ * - Entries grow unbounded over a task's life
+ * - Timesheets query across tasks by user and date
+ * - Billing exports read entries without loading tasks
+ */
+export interface TimeEntry {
+  _id?: string;
+
+  // Task the time was spent on
+  // INDEXED: Summing hours per task
+  taskId: string;
+
+  // Denormalized project reference
+  // WHY: Timesheets and billing group by project without a task lookup
+  projectId: string;
+
+  // Who did the work
+  // INDEXED: Compound with startedAt for weekly timesheets
+  userId: string;
+
+  // When the work started
+  // WHY REQUIRED: Timesheets bucket entries by week/day of this date
+  // For duration-only entries it's the date the work was done
+  startedAt: Date;
+
+  // When the work ended (only for start/end entries)
+  endedAt?: Date;
+
+  // Duration in hours (0 while a timer is running)
+  // WHY STORED (even with start/end): One field to $sum in aggregations
+  hours: number;
+
+  // Running timer (started with tasks.startTimer, no endedAt yet)
+  // INDEXED: Unique per user - at most one running timer each
+  isRunning?: boolean;
+
+  note?: string;
+
+  // Can this time be invoiced to the client?
+  billable: boolean;
+
+  // Audit fields
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Type for documents without _id (for inserts)
+ */
+export type NewTimeEntry = Omit<TimeEntry, '_id'>;
+
+/**
+ * Input accepted when logging time
+ *
+ * Either a duration (hours) or a start/end pair
+ */
+export interface TimeEntryInput {
+  taskId: string;
+  hours?: number;
+  startedAt?: Date;
+  endedAt?: Date;
+  note?: string;
+  billable?: boolean;
+}
@@ -0,0 +1,175 @@
+/**
+ * Work Handover
+ *
+ * SINGLE RESPONSIBILITY: Move a leaving user's open work to someone
+ * else (or nobody)
+ *
+ * WHAT MOVES:
+ * - Owned projects: always to the recipient (a project needs an owner),
+ *   with the owner's open tasks in them
+ * - Other open tasks: to the recipient where they can be assigned,
+ *   unassigned everywhere else
+ * - A running timer: stopped
+ *
+ * NOTE: Server-only, called from users.deactivate (inside its method
+ * invocation, so nested Meteor.call runs as the deactivating admin)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import {
+  ProjectsCollection,
+  Project,
+  canBeAssigned,
+  getProjectWorkflow,
+  getStatusesInCategory,
+} from '../projects';
+import { TasksCollection, NOT_TRASHED } from '../tasks';
+import { TimeEntriesCollection, stopTimerEntry } from '../timeEntries';
+import { ActivityLogsCollection } from '../activityLogs';
+import { can, getWorkspaceUser } from '../policy';
+
+/**
+ * What a handover did
+ */
+export interface HandoverSummary {
+  projectsTransferred: number;
+  tasksReassigned: number;
+  tasksUnassigned: number;
+}
+
+/**
+ * Refuse a handover that can't be completed, before anything moves
+ *
+ * RULES:
+ * - Owned projects need a recipient, and the recipient must be allowed
+ *   to own projects (manager or admin of the project's organization)
+ * - The recipient can't be the leaving user or a deactivated account
+ */
+export function assertHandoverPossible(userId: string, toUserId: string | undefined): void {
+  const ownedProjects = ProjectsCollection.find(
+    { ownerId: userId },
+    { fields: { organizationId: 1 } }
+  ).fetch();
+
+  if (!toUserId) {
+    if (ownedProjects.length > 0) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Choose someone to take over ${ownedProjects.length} owned project(s)`
+      );
+    }
+    return;
+  }
+
+  if (toUserId === userId) {
+    throw new Meteor.Error('validation-error', 'Work must be handed to someone else');
+  }
+
+  const recipient = Meteor.users.findOne(toUserId);
+  if (!recipient) {
+    throw new Meteor.Error('not-found', 'User to hand over to not found');
+  }
+  if (recipient.deactivatedAt) {
+    throw new Meteor.Error('validation-error', 'Cannot hand work over to a deactivated user');
+  }
+
+  ownedProjects.forEach((project) => {
+    if (!can(getWorkspaceUser(toUserId, project.organizationId), 'project.create', null)) {
+      throw new Meteor.Error(
+        'validation-error',
+        'The new owner must be a manager or admin of the projects\' organization'
+      );
+    }
+  });
+}
+
+/**
+ * Hand a user's open work over
+ *
+ * @param actingUserId - Who is doing it (for the activity log)
+ * @param userId - User whose work moves
+ * @param toUserId - Recipient, or undefined to unassign
+ */
+export function handOverWork(
+  actingUserId: string,
+  userId: string,
+  toUserId: string | undefined
+): HandoverSummary {
+  const summary: HandoverSummary = {
+    projectsTransferred: 0,
+    tasksReassigned: 0,
+    tasksUnassigned: 0,
+  };
+
+  // PROJECTS: Through projects.transferOwnership for the same rules and
+  // logging; it takes the owner's open tasks in the project along
+  if (toUserId) {
+    ProjectsCollection.find({ ownerId: userId }, { fields: { _id: 1 } }).forEach((project) => {
+      summary.tasksReassigned += Meteor.call(
+        'projects.transferOwnership',
+        project._id,
+        toUserId,
+        { reassignOpenTasks: true }
+      ) as number;
+      summary.projectsTransferred++;
+    });
+  }
+
+  // TASKS: Whatever is still assigned, project by project (open = not in
+  // a 'done' status of that project's workflow)
+  const projectIds = new Set<string>(
+    TasksCollection.find(
+      { assignedToId: userId, ...NOT_TRASHED },
+      { fields: { projectId: 1 } }
+    ).map((task) => task.projectId)
+  );
+
+  const now = new Date();
+
+  ProjectsCollection.find({ _id: { $in: [...projectIds] } }).forEach((project: Project) => {
+    const doneStatuses = getStatusesInCategory(getProjectWorkflow(project), 'done');
+    const taskIds = TasksCollection.find(
+      {
+        projectId: project._id,
+        assignedToId: userId,
+        status: { $nin: doneStatuses },
+        ...NOT_TRASHED,
+      },
+      { fields: { _id: 1 } }
+    ).map((task) => task._id!);
+
+    if (taskIds.length === 0) return;
+
+    const newAssignee = toUserId && canBeAssigned(project, toUserId) ? toUserId : undefined;
+
+    TasksCollection.update(
+      { _id: { $in: taskIds } },
+      newAssignee
+        ? { $set: { assignedToId: newAssignee, updatedAt: now } }
+        : { $unset: { assignedToId: '' }, $set: { updatedAt: now } },
+      { multi: true }
+    );
+
+    taskIds.forEach((taskId) => {
+      ActivityLogsCollection.insert({
+        userId: actingUserId,
+        action: 'assign',
+        entityType: 'task',
+        entityId: taskId,
+        metadata: { previousAssignee: userId, newAssignee, reason: 'deactivation' },
+        createdAt: now,
+      });
+    });
+
+    if (newAssignee) summary.tasksReassigned += taskIds.length;
+    else summary.tasksUnassigned += taskIds.length;
+  });
+
+  // TIMER: Time already tracked is kept, up to now
+  const runningEntry = TimeEntriesCollection.findOne({ userId, isRunning: true });
+  if (runningEntry) {
+    stopTimerEntry(runningEntry);
+  }
+
+  return summary;
+}
@@ -12,3 +12,6 @@ export type { User, UserProfile, UserRole } from './types';
 
 // Export collection
 export { UsersCollection } from './collection';
+
+// Export lookup helpers
+export { findUserByEmail, findUserByHandle, getVerifiedEmails } from './lookup';
@@ -0,0 +1,46 @@
+/**
+ * User Lookup
+ *
+ * SINGLE RESPONSIBILITY: Find accounts by what people type to name them
+ * (username or email address)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import type { User } from './types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the account an email address belongs to
+ *
+ * WHY CASE-INSENSITIVE: Accounts stores addresses as typed at sign-up
+ */
+export function findUserByEmail(email: string): User | undefined {
+  return Meteor.users.findOne({
+    'emails.address': new RegExp(`^${escapeRegExp(email)}$`, 'i'),
+  });
+}
+
+/**
+ * Find an account by username, or by email address if it contains '@'
+ */
+export function findUserByHandle(handle: string): User | undefined {
+  const value = handle.trim();
+  return value.includes('@')
+    ? findUserByEmail(value)
+    : Meteor.users.findOne({ username: value });
+}
+
+/**
+ * A user's verified email addresses, lowercased for comparison
+ *
+ * SECURITY: Anyone can sign up with any address - only a verified one
+ * proves the user owns it
+ */
+export function getVerifiedEmails(user: User | undefined): string[] {
+  return (user?.emails || [])
+    .filter((e) => e.verified)
+    .map((e) => e.address.toLowerCase());
+}
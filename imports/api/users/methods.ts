@@ -0,0 +1,348 @@
+/**
+ * Users Methods
+ *
+ * Handles editing your own profile and password, and the admin side of
+ * accounts (workspace role, deactivation).
+ *
+ * SPECIAL CONSIDERATIONS FOR USERS:
+ * - Accounts (username, emails, password hashes) belong to Meteor
+ *   Accounts; only profile fields are edited here
+ * - The role that matters is the role in a workspace - setRole changes
+ *   it in the caller's active organization
+ * - Deactivating keeps the account and everything pointing at it
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { UsersCollection, User, UserProfile, UserRole } from './index';
+import {
+  ORGANIZATION_ROLES,
+  getActiveOrganization,
+  getOrganizationRole,
+} from '../organizations';
+import { ActivityLogsCollection, ChangeRecord } from '../activityLogs';
+import { userCan, aboutUser } from '../policy';
+import { assertHandoverPossible, handOverWork, HandoverSummary } from './handover';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const AVATAR_URL_PATTERN = /^https?:\/\/\S+$/;
+
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
+
+const ProfileUpdatePattern = {
+  firstName: Match.Maybe(String),
+  lastName: Match.Maybe(String),
+  avatar: Match.Maybe(String), // '' removes the avatar
+};
+
+const RolePattern = Match.OneOf(...ORGANIZATION_ROLES);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate a first or last name
+ */
+function validateName(label: string, name: string): void {
+  if (name.trim().length === 0) {
+    throw new Meteor.Error('validation-error', `${label} is required`);
+  }
+  if (name.length > 50) {
+    throw new Meteor.Error('validation-error', `${label} must be less than 50 characters`);
+  }
+}
+
+/**
+ * Load a user another user is acting on
+ */
+function findUser(userId: string): User {
+  const user = UsersCollection.findOne(userId);
+  if (!user) {
+    throw new Meteor.Error('not-found', 'User not found');
+  }
+  return user;
+}
+
+/**
+ * Log activity against a user account
+ *
+ * NOTE: userId is who did it, targetId whose account it was
+ */
+function logUserActivity(
+  userId: string,
+  targetId: string,
+  metadata: Record<string, any>,
+  changes?: ChangeRecord[]
+) {
+  ActivityLogsCollection.insert({
+    userId,
+    action: 'update',
+    entityType: 'user',
+    entityId: targetId,
+    changes,
+    metadata,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Update your own profile
+   *
+   * EXAMPLES:
+   * ({ firstName: 'Jane' }) -> only the first name changes
+   * ({ avatar: '' }) -> avatar removed
+   *
+   * NOTE: role is not part of the profile form - see users.setRole
+   *
+   * @param updates - Fields to change (others stay as they are)
+   */
+  'users.updateProfile'(
+    updates: Partial<Pick<UserProfile, 'firstName' | 'lastName' | 'avatar'>>
+  ) {
+    check(updates, ProfileUpdatePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const profile: Partial<UserProfile> = findUser(this.userId).profile || {};
+
+    const $set: Record<string, string> = {};
+    const $unset: Record<string, ''> = {};
+    const changes: ChangeRecord[] = [];
+
+    (['firstName', 'lastName'] as const).forEach((field) => {
+      const value = updates[field];
+      if (value === undefined || value === null) return;
+
+      validateName(field === 'firstName' ? 'First name' : 'Last name', value);
+      if (value.trim() === profile[field]) return;
+
+      $set[`profile.${field}`] = value.trim();
+      changes.push({ field, oldValue: profile[field], newValue: value.trim() });
+    });
+
+    if (updates.avatar !== undefined && updates.avatar !== null) {
+      const avatar = updates.avatar.trim();
+
+      if (avatar && (!AVATAR_URL_PATTERN.test(avatar) || avatar.length > 500)) {
+        throw new Meteor.Error('validation-error', 'Avatar must be an http(s) URL');
+      }
+
+      if (avatar !== (profile.avatar || '')) {
+        if (avatar) $set['profile.avatar'] = avatar;
+        else $unset['profile.avatar'] = '';
+        changes.push({ field: 'avatar', oldValue: profile.avatar, newValue: avatar || undefined });
+      }
+    }
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    UsersCollection.update(this.userId, {
+      ...(Object.keys($set).length > 0 && { $set }),
+      ...(Object.keys($unset).length > 0 && { $unset }),
+    });
+
+    logUserActivity(this.userId, this.userId, { action: 'updated profile' }, changes);
+  },
+
+  /**
+   * Change your own password
+   *
+   * HOW: Our password rules first, then Meteor's own 'changePassword'
+   * method (what Accounts.changePassword calls on the client) - it checks
+   * the old password, stores the new one and logs out every other session
+   *
+   * SECURITY:
+   * - The current password is required (a left-open session isn't enough)
+   * - Every other session is logged out; this one stays logged in
+   * - Needs a client connection: the session to keep is the caller's
+   *
+   * @param oldPassword - Current password
+   * @param newPassword - New password (at least 8 characters)
+   */
+  async 'users.changePassword'(oldPassword: string, newPassword: string) {
+    check(oldPassword, String);
+    check(newPassword, String);
+
+    if (!this.userId || !this.connection) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new Meteor.Error(
+        'validation-error',
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      );
+    }
+
+    if (newPassword === oldPassword) {
+      throw new Meteor.Error('validation-error', 'New password must be different');
+    }
+
+    // Runs as this user, on this connection
+    try {
+      await Meteor.callAsync('changePassword', oldPassword, newPassword);
+    } catch (error: any) {
+      if (error?.error === 403) {
+        throw new Meteor.Error('not-authorized', 'Current password is incorrect');
+      }
+      throw error;
+    }
+
+    logUserActivity(this.userId, this.userId, { action: 'changed password' });
+  },
+
+  /**
+   * Change a user's role in the active workspace
+   *
+   * WHY THROUGH organizations.setMemberRole: The role lives on the
+   * organization; that method already guards the last admin and logs
+   * on the organization. Here the change is also logged on the user.
+   *
+   * @param userId - User to change
+   * @param role - New role (admin, manager or member)
+   */
+  'users.setRole'(userId: string, role: UserRole) {
+    check(userId, String);
+    check(role, RolePattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const organization = getActiveOrganization(this.userId);
+    if (!organization) {
+      throw new Meteor.Error('not-found', 'You are not in a workspace');
+    }
+
+    const previousRole = getOrganizationRole(organization, userId);
+
+    Meteor.call('organizations.setMemberRole', organization._id, userId, role);
+
+    if (previousRole !== role) {
+      logUserActivity(this.userId, userId, {
+        action: 'changed role',
+        organizationId: organization._id,
+        previousRole,
+        role,
+      });
+    }
+  },
+
+  /**
+   * Deactivate an account and hand over its work
+   *
+   * PERMISSION RULES: An admin of the only workspace the user is in,
+   * and never your own account (see 'user.deactivate' in the policy)
+   *
+   * SIDE EFFECTS:
+   * - Login blocked (server/accounts.ts) and every session logged out
+   * - Owned projects and open tasks handed to options.handoverTo, or
+   *   tasks unassigned without one (see handover.ts)
+   * - Running timer stopped
+   *
+   * NOTE: Nothing is deleted - tasks, comments and activity keep
+   * pointing at the user. users.reactivate restores the login, not the work.
+   *
+   * @param userId - User to deactivate
+   * @param options - handoverTo: user who takes over (required if the
+   * user owns projects)
+   * @returns What was handed over
+   */
+  'users.deactivate'(userId: string, options: { handoverTo?: string } = {}): HandoverSummary {
+    check(userId, String);
+    check(options, { handoverTo: Match.Maybe(String) });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const user = findUser(userId);
+
+    if (!userCan(this.userId, 'user.deactivate', aboutUser(userId))) {
+      throw new Meteor.Error('not-authorized', 'You cannot deactivate this user');
+    }
+
+    if (user.deactivatedAt) {
+      throw new Meteor.Error('validation-error', 'User is already deactivated');
+    }
+
+    const handoverTo = options.handoverTo || undefined;
+    assertHandoverPossible(userId, handoverTo);
+
+    // SESSIONS: Removing the resume tokens disconnects every open client
+    UsersCollection.update(userId, {
+      $set: {
+        deactivatedAt: new Date(),
+        deactivatedBy: this.userId,
+        'services.resume.loginTokens': [],
+      },
+    });
+
+    const summary = handOverWork(this.userId, userId, handoverTo);
+
+    logUserActivity(this.userId, userId, {
+      action: 'deactivated account',
+      handoverTo,
+      ...summary,
+    });
+
+    return summary;
+  },
+
+  /**
+   * Reactivate a deactivated account
+   *
+   * PERMISSION RULES: Same as users.deactivate
+   *
+   * @param userId - User to reactivate
+   */
+  'users.reactivate'(userId: string) {
+    check(userId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const user = findUser(userId);
+
+    if (!userCan(this.userId, 'user.deactivate', aboutUser(userId))) {
+      throw new Meteor.Error('not-authorized', 'You cannot reactivate this user');
+    }
+
+    if (!user.deactivatedAt) {
+      throw new Meteor.Error('validation-error', 'User is not deactivated');
+    }
+
+    UsersCollection.update(userId, {
+      $unset: { deactivatedAt: '', deactivatedBy: '' },
+    });
+
+    logUserActivity(this.userId, userId, { action: 'reactivated account' });
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Partial Updates: Only the fields sent are validated and changed
+ * 2. Change Records: Before/after values kept in the activity log
+ * 3. Re-authentication: Sensitive changes ask for the current password
+ * 4. Soft Deactivation: Accounts are switched off, never deleted
+ */
@@ -49,6 +49,16 @@ export interface User {
   profile?: UserProfile;
   createdAt?: Date;
 
+  // Workspace the user is working in (see organizations/workspace.ts)
+  // NOTE: profile.role is the role new organizations start from;
+  // permissions use the role held in the active organization
+  activeOrganizationId?: string;
+
+  // Deactivation (see users.deactivate)
+  // WHY NOT DELETE: Tasks, comments and activity still point at the user
+  deactivatedAt?: Date;
+  deactivatedBy?: string;
+
   // NOTE: services field contains hashed passwords and OAuth tokens
   // We never send this to the client for security reasons
   services?: any;
@@ -0,0 +1,162 @@
+/**
+ * Webhook Receiver Addresses
+ *
+ * SINGLE RESPONSIBILITY: Keep webhooks off the server's own network
+ *
+ * WHY: A webhook makes the server POST to a URL someone typed in. Pointed
+ * at localhost, the internal network or a cloud metadata endpoint
+ * (169.254.169.254), it would reach services never meant to be public -
+ * server-side request forgery.
+ *
+ * CHECKED TWICE:
+ * - Registration (webhooks.create / update): the host must resolve, and
+ *   only to public addresses - a clear error for the person typing it
+ * - Delivery: every connection resolves through publicOnlyLookup, so the
+ *   address checked is the address connected to. A host that resolved
+ *   publicly at registration and later resolves privately (DNS
+ *   rebinding) fails the delivery instead.
+ *
+ * CONFIGURATION: WEBHOOK_ALLOW_PRIVATE_ADDRESSES=true turns the check off,
+ * for receivers on your own network (local development, tests)
+ *
+ * NOTE: Server-only (node:dns, node:net) - not exported from the barrel
+ */
+
+import { Meteor } from 'meteor/meteor';
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Ranges no webhook may reach
+ *
+ * Loopback, private, link-local (incl. cloud metadata), shared (CGNAT),
+ * documentation, benchmarking, multicast and reserved ranges.
+ * IPv4-compatible IPv6 (::10.0.0.1) and NAT64 are blocked whole: they
+ * are other spellings of IPv4 addresses.
+ *
+ * NOTE: BlockList checks IPv4-mapped IPv6 (::ffff:10.0.0.1) against the
+ * IPv4 ranges itself
+ */
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 96, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+/**
+ * Code of the error for a receiver address that isn't public
+ */
+const BLOCKED_ADDRESS = 'EBLOCKEDADDRESS';
+
+const blockList = new net.BlockList();
+BLOCKED_RANGES.forEach(([network, prefix, family]) => blockList.addSubnet(network, prefix, family));
+
+/**
+ * Whether the check is switched off (read on every call, so tests can
+ * switch it)
+ */
+function allowsPrivateAddresses(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true';
+}
+
+/**
+ * Whether an IP address is on the public internet
+ *
+ * @param address - IPv4 or IPv6 address (not a host name)
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Error for a receiver address that isn't public
+ */
+function blockedAddressError(address: string): Error {
+  return Object.assign(new Error(`Receiver address ${address} is not public`), {
+    code: BLOCKED_ADDRESS,
+  });
+}
+
+/**
+ * dns.lookup that refuses private and reserved addresses
+ *
+ * HOW: Passed as `lookup` to http(s).request. Resolves like dns.lookup
+ * (single answer or `all`) and fails if any answer isn't public.
+ */
+export function publicOnlyLookup(hostname: string, options: any, callback: any): void {
+  dns.lookup(hostname, options, (error: any, result: any, family?: number) => {
+    if (error) return callback(error);
+
+    if (!allowsPrivateAddresses()) {
+      const addresses: string[] = Array.isArray(result)
+        ? result.map((entry: dns.LookupAddress) => entry.address)
+        : [result];
+      const blocked = addresses.find((address) => !isPublicAddress(address));
+      if (blocked) return callback(blockedAddressError(blocked));
+    }
+
+    callback(null, result, family);
+  });
+}
+
+/**
+ * Refuse a URL whose host isn't public
+ *
+ * NOTE: IP literals never reach a lookup (Node connects to them
+ * directly), so delivery checks them with this too
+ *
+ * @throws Error naming the address, or the lookup's error
+ */
+export async function assertPublicHost(url: URL): Promise<void> {
+  if (allowsPrivateAddresses()) return;
+
+  // URL keeps IPv6 literals in brackets: [::1]
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) throw blockedAddressError(blocked);
+}
+
+/**
+ * assertPublicHost() for a URL being registered
+ *
+ * @throws Meteor.Error('validation-error') if the host doesn't resolve or
+ * isn't public
+ */
+export async function validateReceiverHost(url: URL): Promise<void> {
+  try {
+    await assertPublicHost(url);
+  } catch (error: any) {
+    throw new Meteor.Error(
+      'validation-error',
+      error?.code === BLOCKED_ADDRESS
+        ? 'Webhook URL must point to a public address, not a private or local one'
+        : `Webhook host ${url.hostname} could not be resolved`
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Webhooks Collections
+ *
+ * SINGLE RESPONSIBILITY: This file handles ONLY the webhook collections
+ * - Webhooks (subscriptions) and WebhookDeliveries (the outbox)
+ * - Indexes
+ * - Security rules
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { Meteor } from 'meteor/meteor';
+import type { Webhook, WebhookDelivery } from './types';
+
+/**
+ * Webhooks Collection
+ */
+export const WebhooksCollection = new Mongo.Collection<Webhook>('webhooks');
+
+/**
+ * Webhook Deliveries Collection
+ *
+ * NOTE: Written by the server only - queued from activity logs, updated
+ * by the delivery job
+ */
+export const WebhookDeliveriesCollection = new Mongo.Collection<WebhookDelivery>(
+  'webhookDeliveries'
+);
+
+// ============================================================================
+// SERVER-SIDE CONFIGURATION
+// ============================================================================
+
+if (Meteor.isServer) {
+  // --------------------------------------------------------------------------
+  // INDEXES
+  // --------------------------------------------------------------------------
+
+  /**
+   * Index: Project + Active
+   *
+   * QUERY PATTERN: "Which active webhooks want this log?"
+   * Common in: Every activity log insert (outbox.ts)
+   */
+  WebhooksCollection.createIndexAsync({ projectId: 1, active: 1 });
+
+  /**
+   * Index: Status + Next Attempt
+   *
+   * QUERY PATTERN: "Pending deliveries that are due, oldest first"
+   * Common in: The delivery job, every few seconds
+   */
+  WebhookDeliveriesCollection.createIndexAsync({ status: 1, nextAttemptAt: 1 });
+
+  /**
+   * Index: Webhook + Activity Log (unique)
+   *
+   * WHY UNIQUE: A log is queued at most once per webhook, even if two
+   * servers see it
+   */
+  WebhookDeliveriesCollection.createIndexAsync(
+    { webhookId: 1, activityLogId: 1 },
+    { unique: true }
+  );
+
+  /**
+   * Index: Webhook + Created Date
+   *
+   * QUERY PATTERN: "Recent deliveries of this webhook"
+   * Common in: Webhook settings page
+   */
+  WebhookDeliveriesCollection.createIndexAsync({ webhookId: 1, createdAt: -1 });
+
+  /**
+   * Index: Project + Status
+   *
+   * QUERY PATTERN: "Failed deliveries of these projects" (replay)
+   */
+  WebhookDeliveriesCollection.createIndexAsync({ projectId: 1, status: 1 });
+
+  // --------------------------------------------------------------------------
+  // SECURITY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deny all client-side database operations
+   *
+   * WHY: All write operations must go through Meteor Methods
+   */
+  WebhooksCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  WebhookDeliveriesCollection.deny({
+    insert: () => true,
+    update: () => true,
+    remove: () => true,
+  });
+
+  console.log('✅ Webhooks collections indexes and security configured');
+}
@@ -0,0 +1,195 @@
+/**
+ * Webhook Delivery
+ *
+ * SINGLE RESPONSIBILITY: Sending one payload over HTTP, signing it, and
+ * deciding what happens after an attempt - no database access (that's
+ * outbox.ts), so it can be tested against a plain HTTP server
+ *
+ * NOTE: Server-only (node:crypto, node:http) - not exported from the barrel
+ *
+ * WHAT RECEIVERS GET:
+ *   POST <url>
+ *   Content-Type: application/json
+ *   X-Webhook-Id: <delivery ID, the same on every retry>
+ *   X-Webhook-Event: task.complete
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Any 2xx answer is a success. Everything else - other statuses,
+ * redirects, network errors, no answer within DELIVERY_TIMEOUT_MS - is
+ * retried with exponential backoff.
+ *
+ * SECURITY: Receivers must be on public addresses - see addresses.ts
+ */
+
+import { Random } from 'meteor/random';
+import { createHmac } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { assertPublicHost, publicOnlyLookup } from './addresses';
+import type { Webhook, WebhookAttempt, WebhookDeliveryStatus, WebhookPayload } from './types';
+
+/**
+ * Marks the string as a webhook secret (and helps secret scanners)
+ */
+const SECRET_PREFIX = 'whsec_';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Attempts before a delivery is marked failed (1 + 7 retries)
+ */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * Backoff: 1 min after the first failure, doubling, never over 6 hours
+ * 1, 2, 4, 8, 16, 32, 64 min - about two hours from first to last attempt
+ */
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Make a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + Random.secret(32);
+}
+
+/**
+ * The X-Webhook-Signature value for a body
+ *
+ * WHY THE TIMESTAMP IS SIGNED TOO: Receivers can reject old signatures,
+ * so a captured request can't be replayed later
+ *
+ * RECEIVER SIDE: Recompute HMAC-SHA256(secret, `${t}.${rawBody}`) and
+ * compare in constant time; reject t older than a few minutes
+ *
+ * @param timestamp - Unix seconds
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Wait before the next attempt
+ *
+ * @param attemptCount - Attempts made so far (>= 1)
+ */
+export function getRetryDelay(attemptCount: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attemptCount - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Where a delivery stands after an attempt
+ *
+ * @param attemptCount - Attempts made, this one included
+ * @param attempt - This attempt's outcome
+ */
+export function getNextDeliveryState(
+  attemptCount: number,
+  attempt: WebhookAttempt,
+  now: Date
+): { status: WebhookDeliveryStatus; nextAttemptAt?: Date } {
+  if (!attempt.error) {
+    return { status: 'delivered' };
+  }
+  if (attemptCount >= MAX_DELIVERY_ATTEMPTS) {
+    return { status: 'failed' };
+  }
+  return {
+    status: 'pending',
+    nextAttemptAt: new Date(now.getTime() + getRetryDelay(attemptCount)),
+  };
+}
+
+/**
+ * POST a body and resolve with the answer's status
+ *
+ * WHY NOT fetch: fetch can't be given a lookup - this connects only to
+ * addresses publicOnlyLookup let through. Redirects aren't followed (a
+ * redirect could point anywhere); they fail like any non-2xx status.
+ */
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<number> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        signal,
+      },
+      (response) => {
+        // The answer's body is not used; discard it to free the connection
+        response.resume();
+        resolve(response.statusCode!);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POST a payload to a webhook once
+ *
+ * NEVER THROWS: Failures are part of the returned attempt, so the
+ * outbox records them like any other outcome
+ */
+export async function sendWebhook(
+  webhook: Pick<Webhook, 'url' | 'secret'>,
+  payload: WebhookPayload
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(payload);
+  const attemptedAt = new Date();
+  const signal = AbortSignal.timeout(DELIVERY_TIMEOUT_MS);
+
+  try {
+    const url = new URL(webhook.url);
+
+    // Host names are checked as they resolve; IP literals are not looked up
+    await assertPublicHost(url);
+
+    const statusCode = await post(
+      url,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TaskManager-Webhooks/1',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Event': payload.event,
+        [SIGNATURE_HEADER]: signWebhookPayload(
+          webhook.secret,
+          Math.floor(attemptedAt.getTime() / 1000),
+          body
+        ),
+      },
+      body,
+      signal
+    );
+
+    const ok = statusCode >= 200 && statusCode < 300;
+    return {
+      attemptedAt,
+      durationMs: Date.now() - attemptedAt.getTime(),
+      statusCode,
+      ...(!ok && { error: `HTTP ${statusCode}` }),
+    };
+  } catch (error: any) {
+    return {
+      attemptedAt,
+      durationMs: Date.now() - attemptedAt.getTime(),
+      error: signal.aborted
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : String(error?.message || error),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Webhook Events
+ *
+ * SINGLE RESPONSIBILITY: Which activity logs webhooks can receive, and
+ * what a receiver gets for one
+ *
+ * NOTE: Shared by client (webhook settings form) and server
+ */
+
+import type { ActivityAction, ActivityLog } from '../activityLogs/types';
+import type { WebhookEntityType, WebhookEvent, WebhookPayload } from './types';
+
+export const WEBHOOK_ACTIONS: readonly ActivityAction[] = [
+  'create',
+  'update',
+  'delete',
+  'complete',
+  'assign',
+  'comment',
+];
+
+export const WEBHOOK_ENTITY_TYPES: readonly WebhookEntityType[] = ['project', 'task'];
+
+/**
+ * Whether a log is about something inside a project
+ */
+export function isWebhookEntityType(entityType: string): entityType is WebhookEntityType {
+  return (WEBHOOK_ENTITY_TYPES as readonly string[]).includes(entityType);
+}
+
+/**
+ * 'task' + 'complete' -> 'task.complete'
+ */
+export function getWebhookEvent(log: Pick<ActivityLog, 'entityType' | 'action'>): WebhookEvent {
+  return `${log.entityType as WebhookEntityType}.${log.action}`;
+}
+
+/**
+ * The body sent for one log
+ *
+ * @param deliveryId - Doubles as the payload ID (stable across retries)
+ * @param log - The activity log, with its _id
+ * @param projectId - The project the log belongs to
+ */
+export function buildWebhookPayload(
+  deliveryId: string,
+  log: ActivityLog,
+  projectId: string
+): WebhookPayload {
+  return {
+    id: deliveryId,
+    event: getWebhookEvent(log),
+    projectId,
+    occurredAt: log.createdAt.toISOString(),
+    activity: {
+      id: log._id!,
+      userId: log.userId,
+      action: log.action,
+      entityType: log.entityType as WebhookEntityType,
+      entityId: log.entityId,
+      ...(log.changes && { changes: log.changes }),
+      ...(log.metadata && { metadata: log.metadata }),
+    },
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Webhooks Module
+ *
+ * Barrel export for all webhook-related functionality
+ *
+ * import { WebhooksCollection, Webhook } from '/imports/api/webhooks';
+ *
+ * NOTE: delivery.ts and outbox.ts are server-only and imported directly
+ */
+
+// Export types
+export type {
+  Webhook,
+  WebhookEntityType,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookAttempt,
+  NewWebhook,
+  NewWebhookDelivery,
+  WebhookInput,
+  WebhookChanges,
+} from './types';
+
+// Export collections
+export { WebhooksCollection, WebhookDeliveriesCollection } from './collection';
+
+// Export events (what a webhook can subscribe to)
+export {
+  WEBHOOK_ACTIONS,
+  WEBHOOK_ENTITY_TYPES,
+  isWebhookEntityType,
+  getWebhookEvent,
+  buildWebhookPayload,
+} from './events';
+
+// Export schemas
+export { WebhookInputSchema, WebhookChangesSchema } from './schemas';
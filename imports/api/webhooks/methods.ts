@@ -0,0 +1,363 @@
+/**
+ * Webhooks Methods
+ *
+ * Handles registering, changing and removing a project's webhooks, and
+ * replaying failed deliveries.
+ *
+ * SPECIAL CONSIDERATIONS FOR WEBHOOKS:
+ * - The signing secret is returned by webhooks.create and
+ *   webhooks.rotateSecret only - it is never published or logged
+ * - Webhooks belong to a project: its owner or an admin manages them
+ *   ('project.manageWebhooks')
+ * - API tokens can't call these (not in apiTokens/scopes.ts): a token
+ *   could otherwise point a project's activity at any URL
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { check, Match } from 'meteor/check';
+import { WebhooksCollection, WebhookInputSchema, WebhookChangesSchema } from './index';
+import type { NewWebhook, Webhook, WebhookChanges, WebhookInput } from './index';
+import { generateWebhookSecret } from './delivery';
+import { validateReceiverHost } from './addresses';
+import { removeWebhooks, replayFailedDeliveries } from './outbox';
+import { ProjectsCollection } from '../projects';
+import type { Project } from '../projects';
+import { ActivityLogsCollection } from '../activityLogs';
+import { getActiveOrganization, getWorkspaceProjectIds } from '../organizations';
+import { userCan } from '../policy';
+import { toPattern } from '../schemas';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Most webhooks one project may have
+ *
+ * WHY: Every matching log is queued once per webhook - the limit keeps
+ * one busy project from flooding the outbox
+ */
+const MAX_WEBHOOKS_PER_PROJECT = 10;
+
+const MAX_URL_LENGTH = 2000;
+
+// ============================================================================
+// VALIDATION PATTERNS
+// ============================================================================
+
+const WebhookInputPattern = toPattern(WebhookInputSchema);
+const WebhookChangesPattern = toPattern(WebhookChangesSchema);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Check a receiver URL
+ *
+ * SECURITY:
+ * - Plain http is allowed in development only, so secrets and payloads
+ *   aren't sent in the clear from production
+ * - The host must resolve to public addresses only (addresses.ts)
+ */
+async function validateUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Meteor.Error('validation-error', 'Webhook URL is not a valid URL');
+  }
+
+  if (url.length > MAX_URL_LENGTH) {
+    throw new Meteor.Error('validation-error', 'Webhook URL is too long');
+  }
+
+  const allowed = Meteor.isProduction ? ['https:'] : ['https:', 'http:'];
+  if (!allowed.includes(parsed.protocol)) {
+    throw new Meteor.Error(
+      'validation-error',
+      Meteor.isProduction ? 'Webhook URL must use https' : 'Webhook URL must use http(s)'
+    );
+  }
+
+  await validateReceiverHost(parsed);
+}
+
+/**
+ * Check what a webhook subscribes to
+ */
+function validateSubscription(changes: WebhookChanges): void {
+  if (changes.actions?.length === 0) {
+    throw new Meteor.Error('validation-error', 'Choose at least one action');
+  }
+  if (changes.entityTypes?.length === 0) {
+    throw new Meteor.Error('validation-error', 'Choose at least one entity type');
+  }
+  if (changes.description && changes.description.length > 200) {
+    throw new Meteor.Error('validation-error', 'Description must be less than 200 characters');
+  }
+}
+
+/**
+ * Load a project its caller may manage the webhooks of
+ */
+function getManagedProject(userId: string, projectId: string): Project {
+  const project = ProjectsCollection.findOne(projectId);
+  if (!project) {
+    throw new Meteor.Error('not-found', 'Project not found');
+  }
+
+  if (!userCan(userId, 'project.manageWebhooks', { project })) {
+    throw new Meteor.Error(
+      'not-authorized',
+      'Only the project owner or an admin can manage webhooks'
+    );
+  }
+
+  return project;
+}
+
+/**
+ * Load a webhook its caller may manage
+ */
+function getManagedWebhook(userId: string, webhookId: string): Webhook {
+  const webhook = WebhooksCollection.findOne(webhookId);
+  if (!webhook) {
+    throw new Meteor.Error('not-found', 'Webhook not found');
+  }
+
+  getManagedProject(userId, webhook.projectId);
+  return webhook;
+}
+
+/**
+ * Log a webhook change on its project
+ *
+ * SECURITY: Never pass the secret - activity logs are published
+ */
+function logWebhookActivity(userId: string, projectId: string, changes: Record<string, any>) {
+  ActivityLogsCollection.insert({
+    userId,
+    action: 'update',
+    entityType: 'project',
+    entityId: projectId,
+    changes,
+    createdAt: new Date(),
+  });
+}
+
+// ============================================================================
+// METEOR METHODS
+// ============================================================================
+
+Meteor.methods({
+  /**
+   * Register a webhook on a project
+   *
+   * EXAMPLE:
+   * ('proj123', {
+   *   url: 'https://ci.example.com/hooks/tasks',
+   *   actions: ['create', 'complete'],
+   *   entityTypes: ['task'],
+   * })
+   * -> { webhookId, secret: 'whsec_...' } - store the secret now, it is
+   *    needed to verify X-Webhook-Signature
+   *
+   * @param projectId - Project whose activity is sent
+   * @param input - url, actions, entityTypes, description
+   * @returns Webhook ID and its signing secret
+   */
+  async 'webhooks.create'(
+    projectId: string,
+    input: WebhookInput
+  ): Promise<{ webhookId: string; secret: string }> {
+    check(projectId, String);
+    check(input, WebhookInputPattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    getManagedProject(this.userId, projectId);
+
+    validateSubscription(input);
+    await validateUrl(input.url);
+
+    if (WebhooksCollection.find({ projectId }).count() >= MAX_WEBHOOKS_PER_PROJECT) {
+      throw new Meteor.Error(
+        'validation-error',
+        `A project can have at most ${MAX_WEBHOOKS_PER_PROJECT} webhooks`
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    const webhook: NewWebhook = {
+      projectId,
+      url: input.url,
+      actions: [...new Set(input.actions)],
+      entityTypes: [...new Set(input.entityTypes)],
+      secret,
+      active: true,
+      createdBy: this.userId,
+      createdAt: new Date(),
+    };
+    if (input.description) webhook.description = input.description.trim();
+
+    const webhookId = WebhooksCollection.insert(webhook);
+
+    logWebhookActivity(this.userId, projectId, {
+      action: 'added webhook',
+      webhookId,
+      url: webhook.url,
+    });
+
+    return { webhookId, secret };
+  },
+
+  /**
+   * Change a webhook
+   *
+   * NOTE: Pausing (active: false) queues nothing new; deliveries already
+   * queued fail when their turn comes and can be replayed after resuming
+   *
+   * @param webhookId - Webhook to change
+   * @param changes - url, actions, entityTypes, description, active
+   */
+  async 'webhooks.update'(webhookId: string, changes: WebhookChanges): Promise<void> {
+    check(webhookId, String);
+    check(changes, WebhookChangesPattern);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const webhook = getManagedWebhook(this.userId, webhookId);
+
+    validateSubscription(changes);
+    if (changes.url !== undefined) await validateUrl(changes.url);
+
+    const $set: Partial<Webhook> = { updatedAt: new Date() };
+    if (changes.url !== undefined) $set.url = changes.url;
+    if (changes.actions) $set.actions = [...new Set(changes.actions)];
+    if (changes.entityTypes) $set.entityTypes = [...new Set(changes.entityTypes)];
+    if (changes.description !== undefined) $set.description = changes.description.trim();
+    if (changes.active !== undefined) $set.active = changes.active;
+
+    WebhooksCollection.update(webhookId, { $set });
+
+    logWebhookActivity(this.userId, webhook.projectId, {
+      action: 'updated webhook',
+      webhookId,
+      ...changes,
+    });
+  },
+
+  /**
+   * Replace a webhook's signing secret
+   *
+   * WHY: If the secret leaked, anyone could forge deliveries. The old
+   * secret stops working at once - deliveries retried after this are
+   * signed with the new one.
+   *
+   * @param webhookId - Webhook to rotate
+   * @returns The new secret
+   */
+  'webhooks.rotateSecret'(webhookId: string): string {
+    check(webhookId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const webhook = getManagedWebhook(this.userId, webhookId);
+
+    const secret = generateWebhookSecret();
+    WebhooksCollection.update(webhookId, { $set: { secret, updatedAt: new Date() } });
+
+    logWebhookActivity(this.userId, webhook.projectId, {
+      action: 'rotated webhook secret',
+      webhookId,
+    });
+
+    return secret;
+  },
+
+  /**
+   * Remove a webhook
+   *
+   * SIDE EFFECTS: Its deliveries (pending, failed and delivered) are
+   * deleted too
+   *
+   * @param webhookId - Webhook to remove
+   */
+  'webhooks.remove'(webhookId: string): void {
+    check(webhookId, String);
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    const webhook = getManagedWebhook(this.userId, webhookId);
+
+    removeWebhooks({ _id: webhookId });
+
+    logWebhookActivity(this.userId, webhook.projectId, {
+      action: 'removed webhook',
+      webhookId,
+      url: webhook.url,
+    });
+  },
+
+  /**
+   * Queue failed deliveries again (admin only)
+   *
+   * WHY: After a receiver outage longer than the retry schedule,
+   * everything it missed is 'failed' - this sends it again, oldest first
+   *
+   * SCOPE: The admin's active organization; optionally one webhook, and
+   * only deliveries that failed at or after `since`
+   *
+   * @param options - webhookId, since
+   * @returns Number of deliveries queued again
+   */
+  'webhooks.replayFailed'(options: { webhookId?: string; since?: Date } = {}): number {
+    check(options, {
+      webhookId: Match.Maybe(String),
+      since: Match.Maybe(Date),
+    });
+
+    if (!this.userId) {
+      throw new Meteor.Error('not-authorized', 'You must be logged in');
+    }
+
+    if (!userCan(this.userId, 'webhook.replay', null)) {
+      throw new Meteor.Error('not-authorized', 'Only admins can replay webhook deliveries');
+    }
+
+    const projectIds = getWorkspaceProjectIds(getActiveOrganization(this.userId)?._id);
+    const selector: Record<string, any> = { projectId: { $in: projectIds } };
+
+    if (options.webhookId) {
+      // SECURITY: Another organization's webhook is "not found"
+      const webhook = WebhooksCollection.findOne(options.webhookId);
+      if (!webhook || !projectIds.includes(webhook.projectId)) {
+        throw new Meteor.Error('not-found', 'Webhook not found');
+      }
+      selector.webhookId = options.webhookId;
+    }
+
+    if (options.since) {
+      selector.failedAt = { $gte: options.since };
+    }
+
+    return replayFailedDeliveries(selector);
+  },
+});
+
+/**
+ * PATTERNS DEMONSTRATED:
+ *
+ * 1. Outbox: Methods only queue; sending happens in a job
+ * 2. Show Once: The signing secret leaves the server only when created
+ * 3. Scoped Replay: Admins replay inside their own workspace
+ */
@@ -0,0 +1,248 @@
+/**
+ * Webhook Outbox
+ *
+ * SINGLE RESPONSIBILITY: Moving deliveries through their lifecycle -
+ * queued from activity logs, sent by the job, replayed by admins
+ *
+ * NOTE: Server-only - imported directly by server/main.ts, the job and
+ * the methods
+ *
+ * FLOW:
+ * 1. A method logs a change (ActivityLogsCollection.insert)
+ * 2. enqueueWebhookDeliveries queues one pending delivery per matching
+ *    webhook - nothing is sent inside the method
+ * 3. The job calls processDueDeliveries every few seconds, which claims,
+ *    sends and records each due delivery
+ * 4. Failures wait getRetryDelay() and are retried, up to
+ *    MAX_DELIVERY_ATTEMPTS, then stay 'failed' until replayed
+ */
+
+import { Random } from 'meteor/random';
+import { onActivityLogged } from '../activityLogs';
+import type { ActivityLog } from '../activityLogs';
+import { TasksCollection } from '../tasks';
+import { WebhooksCollection, WebhookDeliveriesCollection } from './collection';
+import type { NewWebhookDelivery, WebhookAttempt, WebhookDelivery } from './types';
+import { buildWebhookPayload, getWebhookEvent, isWebhookEntityType } from './events';
+import { sendWebhook, getNextDeliveryState, DELIVERY_TIMEOUT_MS } from './delivery';
+
+/**
+ * How long a claimed delivery is left alone by other job runs
+ *
+ * WHY TWICE THE TIMEOUT: A send always ends within DELIVERY_TIMEOUT_MS,
+ * so the claim only runs out if the server died mid-send
+ */
+const CLAIM_TIMEOUT_MS = 2 * DELIVERY_TIMEOUT_MS;
+
+/**
+ * Attempts kept per delivery - replays can otherwise grow it forever
+ */
+const MAX_RECORDED_ATTEMPTS = 50;
+
+/**
+ * The project an activity log belongs to
+ *
+ * @returns undefined for logs no webhook can receive
+ */
+function getLogProjectId(log: ActivityLog): string | undefined {
+  if (log.entityType === 'project') {
+    return log.entityId;
+  }
+  if (log.entityType === 'task') {
+    return TasksCollection.findOne(log.entityId, { fields: { projectId: 1 } })?.projectId;
+  }
+  return undefined;
+}
+
+/**
+ * Queue a delivery of a log to every webhook that wants it
+ *
+ * WHY THE ID IS CHOSEN HERE: It is also the payload's id, so receivers
+ * can recognise a retry of something they already handled
+ *
+ * @returns Number of deliveries queued
+ */
+export function enqueueWebhookDeliveries(log: ActivityLog): number {
+  if (!log._id || !isWebhookEntityType(log.entityType)) {
+    return 0;
+  }
+
+  const projectId = getLogProjectId(log);
+  if (!projectId) {
+    return 0;
+  }
+
+  // Uses the { projectId: 1, active: 1 } index
+  const webhooks = WebhooksCollection.find(
+    { projectId, active: true, actions: log.action, entityTypes: log.entityType },
+    { fields: { _id: 1 } }
+  ).fetch();
+
+  const now = new Date();
+  let queued = 0;
+  webhooks.forEach((webhook) => {
+    const deliveryId = Random.id();
+    const delivery: NewWebhookDelivery = {
+      webhookId: webhook._id!,
+      activityLogId: log._id!,
+      projectId,
+      event: getWebhookEvent(log),
+      payload: buildWebhookPayload(deliveryId, log, projectId),
+      status: 'pending',
+      nextAttemptAt: now,
+      attemptCount: 0,
+      attempts: [],
+      createdAt: now,
+    };
+
+    try {
+      WebhookDeliveriesCollection.insert({ _id: deliveryId, ...delivery });
+      queued++;
+    } catch (error: any) {
+      // Duplicate key: this log is already queued for this webhook
+      if (error?.code !== 11000) throw error;
+    }
+  });
+
+  return queued;
+}
+
+/**
+ * Queue deliveries for every activity log from now on
+ *
+ * Called from Meteor.startup in server/main.ts, after fixtures and
+ * migrations, so sample data and backfills aren't sent anywhere
+ */
+export function registerWebhookOutbox(): void {
+  onActivityLogged(enqueueWebhookDeliveries);
+}
+
+/**
+ * Record an attempt and move the delivery on
+ */
+function recordAttempt(delivery: WebhookDelivery, attempt: WebhookAttempt): void {
+  const attemptCount = delivery.attemptCount + 1;
+  const next = getNextDeliveryState(attemptCount, attempt, attempt.attemptedAt);
+  const now = new Date();
+
+  const $set: Partial<WebhookDelivery> = { status: next.status };
+  const $unset: Record<string, ''> = { lockedUntil: '' };
+  if (next.status === 'pending') {
+    $set.nextAttemptAt = next.nextAttemptAt;
+  } else {
+    $unset.nextAttemptAt = '';
+    if (next.status === 'delivered') $set.deliveredAt = now;
+    if (next.status === 'failed') $set.failedAt = now;
+  }
+
+  WebhookDeliveriesCollection.update(delivery._id!, {
+    $set,
+    $unset,
+    $inc: { attemptCount: 1 },
+    $push: { attempts: { $each: [attempt], $slice: -MAX_RECORDED_ATTEMPTS } },
+  });
+}
+
+/**
+ * Give up on a delivery without sending it
+ *
+ * WHY 'failed' AND NOT DROPPED: The webhook may be re-enabled, and
+ * webhooks.replayFailed should then be able to send what was missed
+ */
+function failDelivery(delivery: WebhookDelivery, error: string): void {
+  const now = new Date();
+  WebhookDeliveriesCollection.update(delivery._id!, {
+    $set: { status: 'failed', failedAt: now },
+    $unset: { lockedUntil: '', nextAttemptAt: '' },
+    $push: {
+      attempts: {
+        $each: [{ attemptedAt: now, durationMs: 0, error }],
+        $slice: -MAX_RECORDED_ATTEMPTS,
+      },
+    },
+  });
+}
+
+/**
+ * Send every delivery that is due, one at a time
+ *
+ * CONCURRENCY: Each delivery is claimed with a conditional update on
+ * lockedUntil just before it is sent, so two servers running the job
+ * never send the same attempt twice
+ *
+ * @param limit - Most deliveries handled in one call
+ * @returns Number of deliveries attempted
+ */
+export async function processDueDeliveries(limit: number = 20): Promise<number> {
+  const now = new Date();
+  const unclaimed = {
+    $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }],
+  };
+
+  // Uses the { status: 1, nextAttemptAt: 1 } index
+  const due = WebhookDeliveriesCollection.find(
+    { status: 'pending', nextAttemptAt: { $lte: now }, ...unclaimed },
+    { sort: { nextAttemptAt: 1 }, limit }
+  ).fetch();
+
+  let attempted = 0;
+  for (const delivery of due) {
+    const claimed = WebhookDeliveriesCollection.update(
+      { _id: delivery._id, status: 'pending', ...unclaimed },
+      { $set: { lockedUntil: new Date(Date.now() + CLAIM_TIMEOUT_MS) } }
+    );
+    if (claimed === 0) continue;
+
+    const webhook = WebhooksCollection.findOne(delivery.webhookId);
+    if (!webhook) {
+      failDelivery(delivery, 'Webhook was removed');
+      continue;
+    }
+    if (!webhook.active) {
+      failDelivery(delivery, 'Webhook is paused');
+      continue;
+    }
+
+    const attempt = await sendWebhook(webhook, delivery.payload);
+    recordAttempt(delivery, attempt);
+    attempted++;
+  }
+
+  return attempted;
+}
+
+/**
+ * Put failed deliveries back in the queue
+ *
+ * WHY attemptCount RESETS: A replay is a fresh start with the full
+ * backoff schedule; the earlier attempts stay in the attempts list
+ *
+ * @param selector - Narrows which failed deliveries (e.g. { webhookId })
+ * @returns Number of deliveries queued again
+ */
+export function replayFailedDeliveries(selector: Record<string, any>): number {
+  const now = new Date();
+  return WebhookDeliveriesCollection.update(
+    { ...selector, status: 'failed' },
+    {
+      $set: { status: 'pending', attemptCount: 0, nextAttemptAt: now, replayedAt: now },
+      $unset: { failedAt: '' },
+    },
+    { multi: true }
+  );
+}
+
+/**
+ * Delete webhooks and everything queued for them
+ *
+ * @param selector - e.g. { _id: webhookId } or { projectId }
+ */
+export function removeWebhooks(selector: Record<string, any>): void {
+  const webhookIds = WebhooksCollection.find(selector, { fields: { _id: 1 } }).map(
+    (webhook) => webhook._id!
+  );
+  if (webhookIds.length === 0) return;
+
+  WebhookDeliveriesCollection.remove({ webhookId: { $in: webhookIds } });
+  WebhooksCollection.remove({ _id: { $in: webhookIds } });
+}
@@ -0,0 +1,43 @@
+/**
+ * Webhook Schemas
+ *
+ * SINGLE RESPONSIBILITY: The shapes webhooks.create / webhooks.update
+ * accept, described once (see schemas/schema.ts)
+ */
+
+import { objectOf, string, boolean, oneOf, arrayOf, optional } from '../schemas';
+import { WEBHOOK_ACTIONS, WEBHOOK_ENTITY_TYPES } from './events';
+import type { WebhookChanges, WebhookInput } from './types';
+
+const SOURCE = 'webhooks/types';
+
+const url = () => string({ format: 'uri', description: 'http(s) endpoint receiving POSTs' });
+
+/**
+ * webhooks.create input
+ */
+export const WebhookInputSchema = objectOf<WebhookInput>({
+  name: 'WebhookInput',
+  source: SOURCE,
+})({
+  url: url(),
+  actions: arrayOf(oneOf(WEBHOOK_ACTIONS)),
+  entityTypes: arrayOf(oneOf(WEBHOOK_ENTITY_TYPES)),
+  description: optional(string()),
+});
+
+/**
+ * webhooks.update input
+ *
+ * NOTE: optional, not maybe - none of these can be cleared with null
+ */
+export const WebhookChangesSchema = objectOf<WebhookChanges>({
+  name: 'WebhookChanges',
+  source: SOURCE,
+})({
+  url: optional(url()),
+  actions: optional(arrayOf(oneOf(WEBHOOK_ACTIONS))),
+  entityTypes: optional(arrayOf(oneOf(WEBHOOK_ENTITY_TYPES))),
+  description: optional(string()),
+  active: optional(boolean('false pauses the webhook')),
+});
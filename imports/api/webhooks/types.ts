@@ -0,0 +1,155 @@
+/**
+ * Webhook Types
+ *
+ * SINGLE RESPONSIBILITY: This file contains ONLY webhook-related types
+ */
+
+import type { ActivityAction, ChangeRecord, EntityType } from '../activityLogs/types';
+
+/**
+ * Entity types a project's webhook can receive
+ *
+ * WHY NOT ALL OF EntityType: Only these activity logs belong to one
+ * project (templates, teams and users don't)
+ */
+export type WebhookEntityType = Extract<EntityType, 'project' | 'task'>;
+
+/**
+ * Event name sent to receivers: '<entityType>.<action>', e.g. 'task.complete'
+ */
+export type WebhookEvent = `${WebhookEntityType}.${ActivityAction}`;
+
+/**
+ * Webhook document structure
+ *
+ * PURPOSE: An external system subscribed to a project's activity
+ *
+ * SECURITY: secret is stored as-is (it is needed to sign every delivery,
+ * so it can't be hashed like API tokens) and never published
+ */
+export interface Webhook {
+  _id?: string;
+
+  // INDEXED: "Which webhooks does this project have?" - asked on every log
+  projectId: string;
+
+  url: string; // http(s) endpoint receiving POSTs
+  description?: string;
+
+  // What to send: a log is delivered if both its action and its entity
+  // type are listed
+  actions: ActivityAction[];
+  entityTypes: WebhookEntityType[];
+
+  // HMAC-SHA256 key for the X-Webhook-Signature header
+  secret: string;
+
+  // Paused webhooks get nothing queued
+  active: boolean;
+
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Delivery lifecycle
+ *
+ * pending -> delivered
+ *         -> failed (after MAX_DELIVERY_ATTEMPTS; webhooks.replayFailed
+ *            puts it back to pending)
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One try at sending a delivery
+ */
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  durationMs: number;
+  statusCode?: number; // Unset when no response came back
+  error?: string; // Network error, timeout, or non-2xx status
+}
+
+/**
+ * The JSON body sent to receivers
+ *
+ * NOTE: Built from the activity log, so receivers see what the activity
+ * feed shows - fetch the full document from the REST API if needed
+ */
+export interface WebhookPayload {
+  id: string; // Delivery ID - receivers can ignore repeats by it
+  event: WebhookEvent;
+  projectId: string;
+  occurredAt: string; // ISO 8601
+  activity: {
+    id: string;
+    userId: string;
+    action: ActivityAction;
+    entityType: WebhookEntityType;
+    entityId: string;
+    changes?: ChangeRecord[];
+    metadata?: Record<string, any>;
+  };
+}
+
+/**
+ * Webhook delivery document structure (the outbox)
+ *
+ * PURPOSE: One activity log, to be sent to one webhook
+ *
+ * DESIGN DECISION: Queued in the database, sent by a job
+ * WHY:
+ * - The method that logged the change doesn't wait on someone else's server
+ * - Deliveries survive restarts and are retried with backoff
+ * - Every attempt is kept, so failures can be inspected and replayed
+ */
+export interface WebhookDelivery {
+  _id?: string;
+
+  // INDEXED: unique with activityLogId - a log is queued once per webhook
+  webhookId: string;
+  activityLogId: string;
+  projectId: string;
+
+  event: WebhookEvent;
+  payload: WebhookPayload;
+
+  // INDEXED: the job's query is "pending and due"
+  status: WebhookDeliveryStatus;
+  nextAttemptAt?: Date; // Set while pending
+
+  // Claimed by a job run until then (another server leaves it alone)
+  lockedUntil?: Date;
+
+  // Attempts since queued or last replayed (the backoff counts these)
+  attemptCount: number;
+  attempts: WebhookAttempt[]; // Every attempt, oldest first
+
+  deliveredAt?: Date;
+  failedAt?: Date;
+  replayedAt?: Date;
+  createdAt: Date;
+}
+
+// ============================================================================
+// UTILITY TYPES
+// ============================================================================
+
+/**
+ * Types for documents without _id (for inserts)
+ */
+export type NewWebhook = Omit<Webhook, '_id'>;
+export type NewWebhookDelivery = Omit<WebhookDelivery, '_id'>;
+
+/**
+ * What a client sends to register a webhook (webhooks.create)
+ *
+ * NOTE: The secret is generated server-side and returned once
+ */
+export type WebhookInput = Pick<Webhook, 'url' | 'actions' | 'entityTypes' | 'description'>;
+
+/**
+ * What a client may change on a webhook (webhooks.update)
+ */
+export type WebhookChanges = Partial<WebhookInput & Pick<Webhook, 'active'>>;
@@ -1,9 +1,11 @@
 import React from 'react';
 import { Hello } from './Hello';
 import { Info } from './Info';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 export const App = () => (
   <div>
+    <WorkspaceSwitcher />
     <h1>Welcome to Meteor!</h1>
     <Hello />
     <Info />
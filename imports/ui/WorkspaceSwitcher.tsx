@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Meteor } from 'meteor/meteor';
+import { useFind, useSubscribe, useTracker } from 'meteor/react-meteor-data';
+import { OrganizationsCollection } from '../api/organizations/collection';
+import { getOrganizationRole } from '../api/organizations/members';
+
+/**
+ * Workspace switcher
+ *
+ * Lists the user's organizations and switches the active one through
+ * organizations.switch. Subscriptions re-run by themselves: the server
+ * publishes activeOrganizationId on the user (users.current), and it
+ * changes here as soon as the method is done.
+ */
+export const WorkspaceSwitcher = () => {
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = useTracker(() => Meteor.userId());
+  const activeOrganizationId = useTracker(() => Meteor.user()?.activeOrganizationId);
+
+  useSubscribe('users.current');
+  const isLoading = useSubscribe('organizations.mine');
+  const organizations = useFind(
+    () => OrganizationsCollection.find({}, { sort: { name: 1 } }),
+    []
+  );
+
+  if (!userId) {
+    return null;
+  }
+
+  if (isLoading()) {
+    return <div>Loading workspaces...</div>;
+  }
+
+  if (organizations.length === 0) {
+    return <div>You are not in any workspace yet.</div>;
+  }
+
+  // Same fallback as the server: first organization by name
+  const selectedId = organizations.some((o) => o._id === activeOrganizationId)
+    ? activeOrganizationId
+    : organizations[0]._id;
+
+  const switchTo = async (organizationId: string) => {
+    setError(null);
+    try {
+      await Meteor.callAsync('organizations.switch', organizationId);
+    } catch (e: any) {
+      setError(e.reason || e.message);
+    }
+  };
+
+  return (
+    <div>
+      <label>
+        Workspace:{' '}
+        <select value={selectedId} onChange={(e) => switchTo(e.target.value)}>
+          {organizations.map((organization) => (
+            <option key={organization._id} value={organization._id}>
+              {organization.name} ({getOrganizationRole(organization, userId)})
+            </option>
+          ))}
+        </select>
+      </label>
+      {error && <p>{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+/**
+ * Accounts Configuration
+ *
+ * SINGLE RESPONSIBILITY: Hooks into Meteor's account lifecycle
+ *
+ * WHY ONE FILE: Accounts.onCreateUser can only be registered once -
+ * every "when an account is created" rule has to live in this hook.
+ * Login rules sit next to it.
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { Accounts } from 'meteor/accounts-base';
+import { claimInvitations } from '/imports/api/invitations';
+import { getVerifiedEmails } from '/imports/api/users';
+
+/**
+ * Account creation hook
+ *
+ * NOTE: Registering a hook replaces Meteor's default behaviour,
+ * so we copy the profile across ourselves
+ *
+ * WHY DEFER: The hook runs before the user document is inserted.
+ * Deferring makes sure invitations are only attached to an account
+ * that actually exists (a failed insert, e.g. a duplicate email,
+ * never gets here).
+ *
+ * NOTE: Only addresses that arrive verified (e.g. from an OAuth service)
+ * claim here - password sign-ups claim once they verify, see below
+ */
+Accounts.onCreateUser((options: any, user: any) => {
+  if (options.profile) {
+    user.profile = options.profile;
+  }
+
+  const emails = getVerifiedEmails(user);
+
+  Meteor.defer(() => {
+    if (!Meteor.users.findOne(user._id)) return;
+
+    const claimed = claimInvitations(user._id, emails);
+    if (claimed > 0) {
+      console.log(`✉️  ${claimed} invitation(s) claimed by new user ${user._id}`);
+    }
+  });
+
+  return user;
+});
+
+/**
+ * Email verification hook: claim invitations sent to the address
+ *
+ * WHY ON LOGIN: Following the verification link logs the user in through
+ * the 'verifyEmail' method - the one moment an address becomes verified
+ */
+Accounts.onLogin((attempt: any) => {
+  if (attempt.methodName !== 'verifyEmail') return;
+
+  const claimed = claimInvitations(attempt.user._id, getVerifiedEmails(attempt.user));
+  if (claimed > 0) {
+    console.log(`✉️  ${claimed} invitation(s) claimed by user ${attempt.user._id}`);
+  }
+});
+
+/**
+ * Login hook: deactivated accounts can't log in
+ *
+ * WHY HERE AND NOT ONLY IN users.deactivate: Deactivating logs out the
+ * open sessions; this stops new ones - password logins and resume
+ * tokens alike
+ *
+ * NOTE: Only attempts that would otherwise succeed are rejected here, so
+ * a wrong password still gets the usual error and reveals nothing
+ */
+Accounts.validateLoginAttempt((attempt: any) => {
+  if (attempt.allowed && attempt.user?.deactivatedAt) {
+    throw new Meteor.Error('not-authorized', 'This account has been deactivated');
+  }
+  return attempt.allowed;
+});
@@ -190,6 +190,12 @@ function createProjects(userIds: Record<string, string>) {
       'Complete redesign of the company e-commerce platform with modern UI/UX, improved performance, and new features including real-time inventory, personalized recommendations, and mobile app support.',
     ownerId: manager1Id,
     teamMemberIds: [member1Id, member2Id, member3Id],
+    // Project roles: member1 runs the team, the others contribute
+    members: [
+      { userId: member1Id, role: 'maintainer', addedAt: new Date() },
+      { userId: member2Id, role: 'contributor', addedAt: new Date() },
+      { userId: member3Id, role: 'contributor', addedAt: new Date() },
+    ],
     status: 'active' as ProjectStatus,
     tags: ['web', 'frontend', 'backend', 'urgent'],
     metadata: {
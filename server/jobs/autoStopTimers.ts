@@ -0,0 +1,64 @@
+/**
+ * Auto-Stop Timers Job
+ *
+ * WHY: A timer left running overnight (or over the weekend) would
+ * otherwise log far more time than anyone worked
+ *
+ * HOW IT WORKS:
+ * - Every few minutes, find timers running longer than MAX_TIMER_HOURS
+ * - Stop each one, capping the recorded time at MAX_TIMER_HOURS
+ *
+ * CONFIGURATION: TIMER_MAX_HOURS environment variable (default: 12, at most 24)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { TimeEntriesCollection, MAX_TIMER_HOURS, stopTimerEntry } from '/imports/api/timeEntries';
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Stop every timer that has been running too long
+ *
+ * @returns Number of timers stopped
+ */
+export function autoStopTimers(): number {
+  const cutoff = new Date(Date.now() - MAX_TIMER_HOURS * 60 * 60 * 1000);
+
+  // Uses the { isRunning: 1, startedAt: 1 } partial index
+  const overdue = TimeEntriesCollection.find({
+    isRunning: true,
+    startedAt: { $lte: cutoff },
+  }).fetch();
+
+  let stopped = 0;
+  overdue.forEach((entry) => {
+    if (stopTimerEntry(entry, { auto: true }) > 0) {
+      stopped++;
+    }
+  });
+
+  return stopped;
+}
+
+/**
+ * Start the job
+ *
+ * Called from Meteor.startup in server/main.ts. Runs once immediately so
+ * timers left running while the server was down are stopped right away.
+ */
+export function startAutoStopTimersJob() {
+  const run = () => {
+    try {
+      const stopped = autoStopTimers();
+      if (stopped > 0) {
+        console.log(`⏱️  Auto-stopped ${stopped} timer(s) running over ${MAX_TIMER_HOURS}h`);
+      }
+    } catch (error) {
+      // Never let a failed run kill the interval
+      console.error('❌ Auto-stop timers job failed:', error);
+    }
+  };
+
+  run();
+  Meteor.setInterval(run, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,55 @@
+/**
+ * Purge Trash Job
+ *
+ * WHY: Trashed tasks are kept so accidental deletes can be undone, but
+ * not forever
+ *
+ * HOW IT WORKS:
+ * - Every hour, find tasks trashed more than TRASH_RETENTION_DAYS ago
+ * - Delete each one for good (see purgeTask in imports/api/tasks/trash.ts)
+ *
+ * CONFIGURATION: TRASH_RETENTION_DAYS environment variable (default: 30)
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { TasksCollection, TRASH_RETENTION_DAYS, purgeTask } from '/imports/api/tasks';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Permanently delete every task that has been in the trash too long
+ *
+ * @returns Number of tasks purged
+ */
+export function purgeTrash(): number {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  // Uses the partial { deletedAt: 1 } index
+  const expired = TasksCollection.find({ deletedAt: { $lte: cutoff } }).fetch();
+
+  expired.forEach((task) => purgeTask(task));
+
+  return expired.length;
+}
+
+/**
+ * Start the job
+ *
+ * Called from Meteor.startup in server/main.ts
+ */
+export function startPurgeTrashJob() {
+  const run = () => {
+    try {
+      const purged = purgeTrash();
+      if (purged > 0) {
+        console.log(`🗑️  Purged ${purged} task(s) trashed over ${TRASH_RETENTION_DAYS} days ago`);
+      }
+    } catch (error) {
+      // Never let a failed run kill the interval
+      console.error('❌ Purge trash job failed:', error);
+    }
+  };
+
+  run();
+  Meteor.setInterval(run, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,184 @@
+/**
+ * Recurring Tasks Job
+ *
+ * WHY: Weekly and monthly chores shouldn't have to be recreated by hand
+ *
+ * HOW IT WORKS:
+ * - The latest instance of each series carries nextOccurrenceAt
+ * - Every minute, find instances that are completed or whose next
+ *   occurrence date has arrived
+ * - Create the next instance (due on nextOccurrenceAt) and move
+ *   nextOccurrenceAt onto it - the first occurrence after now, so a server
+ *   that was down for a while creates one instance per series, not dozens
+ *
+ * See tasks.setRecurrence and imports/api/tasks/recurrence.ts
+ */
+
+import { Meteor } from 'meteor/meteor';
+import {
+  TasksCollection,
+  Task,
+  NewTask,
+  NOT_TRASHED,
+  findActiveTask,
+  getNextOccurrenceAfter,
+} from '/imports/api/tasks';
+import {
+  ProjectsCollection,
+  getProjectWorkflow,
+  canBeAssigned,
+  updateProjectTaskCounters,
+} from '/imports/api/projects';
+import { ActivityLogsCollection } from '/imports/api/activityLogs';
+
+const CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Create the instance following a task of a series
+ *
+ * WHAT IS COPIED: Title, description, assignee (if still on the team),
+ * priority, estimate, tags, parent task and checklist (unticked)
+ * WHAT IS NOT: Status (workflow's initial status), dependencies, time, comments
+ *
+ * CONCURRENCY: nextOccurrenceAt is claimed with a conditional update before
+ * anything is created, so two servers running the job can't both generate
+ * the same instance. The claim comes after the checks that can give up, so
+ * giving up never ends the series.
+ *
+ * @param task - Latest instance of the series
+ * @returns New instance ID, or undefined if another run got there first
+ */
+export function generateNextInstance(task: Task): string | undefined {
+  if (!task.recurrence || !task.nextOccurrenceAt) {
+    return undefined;
+  }
+
+  const project = ProjectsCollection.findOne(task.projectId);
+  if (!project) {
+    return undefined;
+  }
+
+  const claimed = TasksCollection.update(
+    { _id: task._id, nextOccurrenceAt: task.nextOccurrenceAt },
+    { $unset: { nextOccurrenceAt: '' } }
+  );
+  if (claimed === 0) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const dueDate = task.nextOccurrenceAt;
+  const occurrenceIndex = (task.occurrenceIndex || 1) + 1;
+
+  const instance: NewTask = {
+    projectId: task.projectId,
+    title: task.title,
+    description: task.description,
+    status: getProjectWorkflow(project).initialStatus,
+    priority: task.priority,
+    dueDate,
+    tags: task.tags,
+    recurrence: task.recurrence,
+    seriesId: task.seriesId || task._id,
+    occurrenceIndex,
+    createdBy: task.createdBy,
+    createdAt: now,
+  };
+
+  const nextOccurrenceAt = getNextOccurrenceAfter(task.recurrence, dueDate, occurrenceIndex, now);
+  if (nextOccurrenceAt) {
+    instance.nextOccurrenceAt = nextOccurrenceAt;
+  }
+
+  // Assignee may have left the team since the previous instance
+  if (task.assignedToId && canBeAssigned(project, task.assignedToId)) {
+    instance.assignedToId = task.assignedToId;
+  }
+
+  if (task.estimatedHours !== undefined) {
+    instance.estimatedHours = task.estimatedHours;
+  }
+
+  if (task.parentTaskId && findActiveTask(task.parentTaskId)) {
+    instance.parentTaskId = task.parentTaskId;
+  }
+
+  if (task.checklist && task.checklist.length > 0) {
+    instance.checklist = task.checklist.map((item) => ({
+      id: item.id,
+      text: item.text,
+      done: false,
+      createdAt: now,
+    }));
+  }
+
+  const instanceId = TasksCollection.insert(instance);
+
+  updateProjectTaskCounters(task.projectId);
+
+  // AUDIT: Generated on behalf of whoever created the series
+  ActivityLogsCollection.insert({
+    userId: task.createdBy,
+    action: 'create',
+    entityType: 'task',
+    entityId: instanceId,
+    metadata: {
+      action: 'generated recurring instance',
+      seriesId: instance.seriesId,
+      previousTaskId: task._id,
+      occurrenceIndex,
+    },
+    createdAt: now,
+  });
+
+  return instanceId;
+}
+
+/**
+ * Generate every instance that is due
+ *
+ * @returns Number of instances created
+ */
+export function generateRecurringTasks(): number {
+  const now = new Date();
+
+  // Uses the sparse { nextOccurrenceAt: 1 } index
+  // Trashed series are paused (restoring the task resumes them)
+  const due = TasksCollection.find({
+    nextOccurrenceAt: { $exists: true },
+    ...NOT_TRASHED,
+    $or: [{ nextOccurrenceAt: { $lte: now } }, { completedAt: { $exists: true } }],
+  }).fetch();
+
+  let created = 0;
+  due.forEach((task) => {
+    if (generateNextInstance(task)) {
+      created++;
+    }
+  });
+
+  return created;
+}
+
+/**
+ * Start the job
+ *
+ * Called from Meteor.startup in server/main.ts. Runs once immediately to
+ * catch up on occurrences that came due while the server was down.
+ */
+export function startRecurringTasksJob() {
+  const run = () => {
+    try {
+      const created = generateRecurringTasks();
+      if (created > 0) {
+        console.log(`🔁 Created ${created} recurring task instance(s)`);
+      }
+    } catch (error) {
+      // Never let a failed run kill the interval
+      console.error('❌ Recurring tasks job failed:', error);
+    }
+  };
+
+  run();
+  Meteor.setInterval(run, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,49 @@
+/**
+ * Webhook Deliveries Job
+ *
+ * WHY: Methods only queue deliveries (see imports/api/webhooks/outbox.ts);
+ * something has to send them
+ *
+ * HOW IT WORKS:
+ * - Every few seconds, send pending deliveries whose nextAttemptAt has
+ *   arrived, a batch at a time
+ * - Each attempt is recorded; failures are rescheduled with backoff
+ *
+ * NOTE: A run can outlast the interval when receivers are slow - the
+ * next run is skipped while one is still going
+ */
+
+import { Meteor } from 'meteor/meteor';
+import { processDueDeliveries } from '/imports/api/webhooks/outbox';
+
+const CHECK_INTERVAL_MS = 10 * 1000; // 10 seconds
+
+/**
+ * Start the job
+ *
+ * Called from Meteor.startup in server/main.ts. Runs once immediately so
+ * deliveries that came due while the server was down go out right away.
+ */
+export function startWebhookDeliveriesJob() {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const attempted = await processDueDeliveries();
+      if (attempted > 0) {
+        console.log(`🪝 Attempted ${attempted} webhook delivery(ies)`);
+      }
+    } catch (error) {
+      // Never let a failed run kill the interval
+      console.error('❌ Webhook deliveries job failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  Meteor.setInterval(run, CHECK_INTERVAL_MS);
+}
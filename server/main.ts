@@ -8,7 +8,9 @@
  * 2. Import methods (to register them)
  * 3. Import publications (to register them)
  * 4. Import aggregations (to register methods)
- * 5. Seed database with sample data (development only)
+ * 5. Configure account hooks
+ * 6. Seed database with sample data (development only)
+ * 7. Run pending data migrations
  *
  * IMPORT ORDER MATTERS:
  * - Collections first (create schemas and indexes)
@@ -28,14 +30,31 @@ import '/imports/api/users/collection';
 import '/imports/api/projects/collection';
 import '/imports/api/tasks/collection';
 import '/imports/api/activityLogs/collection';
+import '/imports/api/comments/collection';
+import '/imports/api/timeEntries/collection';
+import '/imports/api/templates/collection';
+import '/imports/api/invitations/collection';
+import '/imports/api/organizations/collection';
+import '/imports/api/teams/collection';
+import '/imports/api/apiTokens/collection';
+import '/imports/api/webhooks/collection';
 
 // ============================================================================
 // 2. IMPORT METHODS
 // ============================================================================
 // WHY: Registers Meteor.methods() for client-server communication
 // Methods handle all write operations (CRUD)
+import '/imports/api/users/methods';
 import '/imports/api/projects/methods';
 import '/imports/api/tasks/methods';
+import '/imports/api/comments/methods';
+import '/imports/api/timeEntries/methods';
+import '/imports/api/templates/methods';
+import '/imports/api/invitations/methods';
+import '/imports/api/organizations/methods';
+import '/imports/api/teams/methods';
+import '/imports/api/apiTokens/methods';
+import '/imports/api/webhooks/methods';
 
 // ============================================================================
 // 3. IMPORT PUBLICATIONS
@@ -51,11 +70,51 @@ import '/imports/api/publications/publications';
 import '/imports/api/aggregations/aggregations';
 
 // ============================================================================
-// 5. IMPORT FIXTURES (Seed Data)
+// 5. CONFIGURE ACCOUNTS
+// ============================================================================
+// WHY: Account lifecycle hooks (e.g. claiming invitations on sign-up)
+import './accounts';
+
+// ============================================================================
+// 6. IMPORT FIXTURES (Seed Data)
 // ============================================================================
 // WHY: Provides sample data for development and testing
 import { seedDatabase } from './fixtures';
 
+// ============================================================================
+// 7. IMPORT MIGRATIONS
+// ============================================================================
+// WHY: Reshapes existing documents when features change the data model
+import { runMigrations } from './migrations';
+
+// ============================================================================
+// 8. IMPORT BACKGROUND JOBS
+// ============================================================================
+// WHY: Periodic server-side work (started in Meteor.startup)
+import { startAutoStopTimersJob } from './jobs/autoStopTimers';
+import { startRecurringTasksJob } from './jobs/recurringTasks';
+import { startPurgeTrashJob } from './jobs/purgeTrash';
+import { startWebhookDeliveriesJob } from './jobs/webhookDeliveries';
+
+// ============================================================================
+// 9. IMPORT API TOKEN GUARD
+// ============================================================================
+// WHY: Holds token-authenticated calls to their scopes (wraps every
+// method and publication registered above, so it runs last)
+import { enforceApiTokenScopes } from '/imports/api/apiTokens/guard';
+
+// ============================================================================
+// 10. IMPORT REST API
+// ============================================================================
+// WHY: JSON over HTTP for tools that can't speak DDP (same methods underneath)
+import { registerRestApi } from '/imports/api/rest/server';
+
+// ============================================================================
+// 11. IMPORT WEBHOOK OUTBOX
+// ============================================================================
+// WHY: Queues a delivery for every activity log a webhook subscribes to
+import { registerWebhookOutbox } from '/imports/api/webhooks/outbox';
+
 // ============================================================================
 // SERVER STARTUP
 // ============================================================================
@@ -73,16 +132,55 @@ Meteor.startup(() => {
   // if (process.env.NODE_ENV === 'development') { seedDatabase(); }
   seedDatabase();
 
+  // MIGRATIONS: After seeding, so fresh sample data is migrated too
+  runMigrations();
+
+  // WEBHOOKS: After seeding and migrations, so sample data isn't sent out
+  registerWebhookOutbox();
+
+  // BACKGROUND JOBS: After migrations, so jobs see the current data shape
+  startAutoStopTimersJob();
+  startRecurringTasksJob();
+  startPurgeTrashJob();
+  startWebhookDeliveriesJob();
+
+  // API TOKENS: After everything is registered - see guard.ts
+  enforceApiTokenScopes();
+  registerRestApi();
+
   console.log('✅ Server startup complete\n');
   console.log('📚 Available Methods:');
-  console.log('   Projects: projects.insert, projects.update, projects.remove');
-  console.log('   Tasks: tasks.insert, tasks.update, tasks.remove, tasks.assign');
+  console.log('   Users: users.updateProfile, users.changePassword, users.setRole, users.deactivate, users.reactivate');
+  console.log('   Projects: projects.insert, projects.update, projects.remove, projects.restore, projects.purge, projects.clone, projects.transferOwnership, projects.setMemberRole, projects.addTeam, projects.removeTeam');
+  console.log('   Tasks: tasks.insert, tasks.update, tasks.remove, tasks.restore, tasks.assign, tasks.move');
+  console.log('   Bulk: tasks.bulkUpdate, tasks.bulkRemove');
+  console.log('   Timers: tasks.startTimer, tasks.stopTimer');
+  console.log('   Recurrence: tasks.setRecurrence');
+  console.log('   Comments: comments.insert, comments.edit, comments.remove');
+  console.log('   Time: timeEntries.insert, timeEntries.update, timeEntries.remove');
+  console.log('   Templates: templates.createFromProject, templates.createFromTask, templates.instantiate, projects.instantiateFromTemplate');
+  console.log('   Invitations: invitations.create, invitations.accept, invitations.decline, invitations.revoke');
+  console.log('   Organizations: organizations.create, organizations.switch, organizations.rename, organizations.addMember, organizations.setMemberRole, organizations.removeMember');
+  console.log('   Teams: teams.create, teams.rename, teams.setLead, teams.addMember, teams.removeMember, teams.remove');
+  console.log('   API tokens: apiTokens.create, apiTokens.revoke, apiTokens.authenticate');
+  console.log('   Webhooks: webhooks.create, webhooks.update, webhooks.rotateSecret, webhooks.remove, webhooks.replayFailed');
   console.log('   Aggregations: aggregations.getUserStatistics, etc.');
   console.log('\n📡 Available Publications:');
   console.log('   Users: users.current, users.list');
   console.log('   Projects: projects.owned, projects.memberOf, projects.single');
-  console.log('   Tasks: tasks.byProject, tasks.assignedToMe, tasks.single');
+  console.log('   Tasks: tasks.byProject, tasks.assignedToMe, tasks.single, tasks.trash');
+  console.log('   Comments: comments.forTask');
+  console.log('   Time: timeEntries.runningTimer');
+  console.log('   Templates: templates.projectTemplates, templates.forProject');
+  console.log('   Invitations: invitations.mine, invitations.forProject');
+  console.log('   Organizations: organizations.mine');
+  console.log('   Teams: teams.list');
+  console.log('   API tokens: apiTokens.mine');
+  console.log('   Webhooks: webhooks.forProject, webhookDeliveries.forWebhook');
   console.log('   Activity: activityLogs.mine, activityLogs.dashboard');
+  console.log('\n🌍 REST API (Authorization: Bearer <API token>):');
+  console.log('   /api/v1/projects, /api/v1/tasks, /api/v1/tasks/:taskId/comments, /api/v1/comments/:commentId, /api/v1/reports/*');
+  console.log('   /api/v1/openapi.json (OpenAPI 3, no token needed)');
   console.log('\n🎯 Ready for connections!\n');
 });
 
@@ -0,0 +1,169 @@
+/**
+ * Database Migrations
+ *
+ * WHY MIGRATIONS:
+ * - New features sometimes need existing documents reshaped
+ * - Each migration must run exactly once per database
+ * - Order matters: later migrations may depend on earlier ones
+ *
+ * HOW IT WORKS:
+ * - Applied migration ids are stored in the 'migrations' collection
+ * - On startup, every migration not yet recorded runs in order
+ * - A failing migration stops the run (later ones wait for a fix)
+ *
+ * RULES FOR WRITING MIGRATIONS:
+ * - Never edit or reorder a migration that has shipped; add a new one
+ * - Make them idempotent where possible (safe to re-run after a crash)
+ */
+
+import { Mongo } from 'meteor/mongo';
+import { TasksCollection } from '/imports/api/tasks';
+import {
+  TimeEntriesCollection,
+  NewTimeEntry,
+  splitDuration,
+} from '/imports/api/timeEntries';
+import { ProjectsCollection, DEFAULT_MEMBER_ROLE, buildMembers } from '/imports/api/projects';
+import { TemplatesCollection } from '/imports/api/templates';
+import { UsersCollection } from '/imports/api/users';
+import { OrganizationsCollection, NewOrganization } from '/imports/api/organizations';
+
+/**
+ * Record of an applied migration
+ */
+interface MigrationRecord {
+  _id: string; // Migration id
+  appliedAt: Date;
+}
+
+interface Migration {
+  id: string;
+  description: string;
+  up: () => void;
+}
+
+const MigrationsCollection = new Mongo.Collection<MigrationRecord>('migrations');
+
+// ============================================================================
+// MIGRATIONS (in order)
+// ============================================================================
+
+const migrations: Migration[] = [
+  {
+    id: '001-time-entry-opening-balances',
+    description: 'Move hours logged before the time entry ledger into opening entries',
+    up: () => {
+      // WHY: actualHours is now recomputed from time entries. Without an
+      // opening entry, the first sync would wipe hours logged with the old
+      // $inc-based tasks.logTime
+      const tasks = TasksCollection.find({ actualHours: { $gt: 0 } }).fetch();
+
+      tasks.forEach((task) => {
+        // Idempotent: skip tasks that already have ledger entries
+        if (TimeEntriesCollection.find({ taskId: task._id }).count() > 0) return;
+
+        // Balances over MAX_ENTRY_HOURS become several entries - a longer
+        // one couldn't be edited (timeEntries.update re-validates it)
+        splitDuration({ startedAt: task.createdAt, hours: task.actualHours! }).forEach(
+          (piece) => {
+            const entry: NewTimeEntry = {
+              taskId: task._id!,
+              projectId: task.projectId,
+              userId: task.assignedToId || task.createdBy,
+              ...piece,
+              note: 'Opening balance (logged before time entries existed)',
+              billable: false,
+              createdAt: new Date(),
+            };
+
+            TimeEntriesCollection.insert(entry);
+          }
+        );
+      });
+
+      console.log(`   Created opening time entries for ${tasks.length} tasks`);
+    },
+  },
+  {
+    id: '002-project-member-roles',
+    description: 'Give existing project team members the contributor role',
+    up: () => {
+      // WHY contributor: Before roles, every team member could create
+      // tasks and edit their own - the closest role to that behaviour
+      const projects = ProjectsCollection.find({ members: { $exists: false } }).fetch();
+
+      projects.forEach((project) => {
+        ProjectsCollection.update(project._id!, {
+          $set: { members: buildMembers(project.teamMemberIds, [], DEFAULT_MEMBER_ROLE) },
+        });
+      });
+
+      console.log(`   Added member roles to ${projects.length} projects`);
+    },
+  },
+  {
+    id: '003-organizations',
+    description: 'Put existing users, projects and templates into a default workspace',
+    up: () => {
+      // WHY: Before organizations everything was one shared space. Users
+      // keep the role they had there (profile.role) as their workspace role
+      let organization = OrganizationsCollection.findOne({ slug: 'default' });
+
+      if (!organization) {
+        const users = UsersCollection.find({}, { fields: { profile: 1, createdAt: 1 } }).fetch();
+        const now = new Date();
+
+        const defaultOrganization: NewOrganization = {
+          name: 'Default workspace',
+          slug: 'default',
+          memberIds: users.map((user) => user._id!),
+          members: users.map((user) => ({
+            userId: user._id!,
+            role: user.profile?.role || 'member',
+            joinedAt: user.createdAt || now,
+          })),
+          createdBy: users.find((user) => user.profile?.role === 'admin')?._id || 'system',
+          createdAt: now,
+        };
+
+        OrganizationsCollection.insert(defaultOrganization);
+        organization = OrganizationsCollection.findOne({ slug: 'default' })!;
+      }
+
+      const organizationId = organization._id!;
+      const missing = { organizationId: { $exists: false } };
+
+      const projects = ProjectsCollection.update(missing, { $set: { organizationId } }, { multi: true });
+      const templates = TemplatesCollection.update(missing, { $set: { organizationId } }, { multi: true });
+      UsersCollection.update(
+        { _id: { $in: organization.memberIds }, activeOrganizationId: { $exists: false } },
+        { $set: { activeOrganizationId: organizationId } },
+        { multi: true }
+      );
+
+      console.log(
+        `   Moved ${organization.memberIds.length} users, ${projects} projects and ${templates} templates into "${organization.name}"`
+      );
+    },
+  },
+];
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Run all pending migrations
+ *
+ * Called from Meteor.startup in server/main.ts
+ */
+export function runMigrations() {
+  migrations.forEach((migration) => {
+    if (MigrationsCollection.findOne(migration.id)) return;
+
+    console.log(`🔧 Running migration ${migration.id}: ${migration.description}`);
+    migration.up();
+
+    MigrationsCollection.insert({ _id: migration.id, appliedAt: new Date() });
+  });
+}
@@ -0,0 +1,178 @@
+import assert from 'assert';
+import { Meteor } from 'meteor/meteor';
+import { Random } from 'meteor/random';
+import { ApiTokensCollection, CurrentApiToken, METHOD_SCOPES } from '../imports/api/apiTokens';
+import type { ApiTokenContext } from '../imports/api/apiTokens';
+import { setConnectionApiToken } from '../imports/api/apiTokens/context';
+import { verifyApiToken } from '../imports/api/apiTokens/tokens';
+import { guardHandlers } from '../imports/api/apiTokens/guard';
+import { createUser, createApiToken, assertFails } from './fixtures';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/**
+ * A DDP connection, as far as the guard looks at one
+ */
+function createConnection(context?: ApiTokenContext) {
+  const connection = { id: Random.id(), onClose: () => {} };
+  if (context) setConnectionApiToken(connection, context);
+  return connection;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('API tokens', function () {
+  let userId: string;
+
+  before(function () {
+    userId = createUser('scripter');
+  });
+
+  after(function () {
+    ApiTokensCollection.remove({ userId });
+    Meteor.users.remove(userId);
+  });
+
+  afterEach(function () {
+    ApiTokensCollection.remove({ userId });
+    Meteor.users.update(userId, { $unset: { deactivatedAt: '' } });
+  });
+
+  describe('verifyApiToken', function () {
+    it('accepts a live token and records its use', function () {
+      const { token, tokenId } = createApiToken(userId, ['read:tasks']);
+
+      assert.strictEqual(verifyApiToken(token)._id, tokenId);
+      assert.ok(ApiTokensCollection.findOne(tokenId)!.lastUsedAt);
+    });
+
+    it('refuses unknown, revoked and expired tokens alike', async function () {
+      const revoked = createApiToken(userId, ['read:tasks']);
+      ApiTokensCollection.update(revoked.tokenId, { $set: { revokedAt: new Date() } });
+      const expired = createApiToken(userId, ['read:tasks'], new Date(Date.now() - 1000));
+
+      await assertFails('not-authorized', () => verifyApiToken('tmk_unknown'));
+      await assertFails('not-authorized', () => verifyApiToken(revoked.token));
+      await assertFails('not-authorized', () => verifyApiToken(expired.token));
+    });
+
+    it('refuses the tokens of a deactivated user', async function () {
+      const { token } = createApiToken(userId, ['read:tasks']);
+      Meteor.users.update(userId, { $set: { deactivatedAt: new Date() } });
+
+      await assertFails('not-authorized', () => verifyApiToken(token));
+    });
+  });
+
+  describe('guard', function () {
+    // Records which handlers ran, and the token they ran for
+    let calls: { name: string; tokenId?: string }[];
+    let handlers: Record<string, (...args: any[]) => any>;
+
+    beforeEach(function () {
+      calls = [];
+      const record = (name: string) =>
+        function (this: any) {
+          calls.push({ name, tokenId: CurrentApiToken.get()?.tokenId });
+          return name;
+        };
+
+      handlers = {
+        'tasks.insert': record('tasks.insert'),
+        'apiTokens.authenticate': record('apiTokens.authenticate'),
+        'apiTokens.create': record('apiTokens.create'),
+        // Calls an unlisted method from inside a listed one
+        'tasks.update': function (this: any) {
+          calls.push({ name: 'tasks.update', tokenId: CurrentApiToken.get()?.tokenId });
+          return handlers['apiTokens.create'].apply(this);
+        },
+      };
+      guardHandlers(handlers, METHOD_SCOPES);
+    });
+
+    const callOn = (connection: any, name: string) =>
+      handlers[name].apply({ userId, connection }, []);
+
+    it('lets calls without a token through', function () {
+      callOn(createConnection(), 'apiTokens.create');
+      callOn(null, 'apiTokens.create');
+
+      assert.deepStrictEqual(calls, [
+        { name: 'apiTokens.create', tokenId: undefined },
+        { name: 'apiTokens.create', tokenId: undefined },
+      ]);
+    });
+
+    it('refuses methods that are not listed for tokens', async function () {
+      const { context } = createApiToken(userId, ['write:tasks']);
+
+      await assertFails('not-authorized', () =>
+        callOn(createConnection(context), 'apiTokens.create')
+      );
+      assert.strictEqual(calls.length, 0);
+    });
+
+    it('needs the scope a method is listed with', async function () {
+      const readOnly = createApiToken(userId, ['read:tasks']);
+      const writer = createApiToken(userId, ['write:tasks']);
+
+      await assertFails('not-authorized', () =>
+        callOn(createConnection(readOnly.context), 'tasks.insert')
+      );
+
+      callOn(createConnection(writer.context), 'tasks.insert');
+      assert.deepStrictEqual(calls, [{ name: 'tasks.insert', tokenId: writer.tokenId }]);
+    });
+
+    it('runs methods listed without a scope for any token', function () {
+      const { context } = createApiToken(userId, []);
+
+      callOn(createConnection(context), 'apiTokens.authenticate');
+      assert.strictEqual(calls.length, 1);
+    });
+
+    it('stops a connection on its next call once the token is revoked', async function () {
+      const { tokenId, context } = createApiToken(userId, ['write:tasks']);
+      const connection = createConnection(context);
+
+      callOn(connection, 'tasks.insert');
+      ApiTokensCollection.update(tokenId, { $set: { revokedAt: new Date() } });
+
+      await assertFails('not-authorized', () => callOn(connection, 'tasks.insert'));
+      assert.strictEqual(calls.length, 1);
+    });
+
+    it('stops a connection once the token expires or its user is deactivated', async function () {
+      const expiring = createApiToken(userId, ['write:tasks']);
+      const connection = createConnection(expiring.context);
+      ApiTokensCollection.update(expiring.tokenId, {
+        $set: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      await assertFails('not-authorized', () => callOn(connection, 'tasks.insert'));
+
+      const live = createApiToken(userId, ['write:tasks']);
+      Meteor.users.update(userId, { $set: { deactivatedAt: new Date() } });
+
+      await assertFails('not-authorized', () =>
+        callOn(createConnection(live.context), 'tasks.insert')
+      );
+      assert.strictEqual(calls.length, 0);
+    });
+
+    it('does not check nested calls again', function () {
+      const { tokenId, context } = createApiToken(userId, ['write:tasks']);
+
+      // apiTokens.create is unlisted, but reached from inside tasks.update
+      assert.strictEqual(callOn(createConnection(context), 'tasks.update'), 'apiTokens.create');
+      assert.deepStrictEqual(calls, [
+        { name: 'tasks.update', tokenId },
+        { name: 'apiTokens.create', tokenId },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import assert from 'assert';
+import { CommentsCollection } from '../imports/api/comments';
+import '../imports/api/comments/methods';
+import { createWorkspace, callAs, assertFails, Workspace } from './fixtures';
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('comments', function () {
+  let ws: Workspace;
+
+  before(function () {
+    ws = createWorkspace();
+  });
+
+  after(function () {
+    ws.remove();
+  });
+
+  afterEach(function () {
+    CommentsCollection.remove({ projectId: ws.projectId });
+  });
+
+  const post = (userId: string, body: string, parentId?: string): string =>
+    callAs(userId, 'comments.insert', ws.taskId, body, parentId);
+
+  describe('permissions', function () {
+    it('lets the project team comment, and no one else', async function () {
+      assert.ok(post(ws.contributorId, 'Team member'));
+      assert.ok(post(ws.adminId, 'Admin'));
+
+      await assertFails('not-authorized', () => post(ws.outsiderId, 'Outsider'));
+      await assertFails('not-authorized', () =>
+        callAs(null, 'comments.insert', ws.taskId, 'Logged out')
+      );
+    });
+
+    it('lets only the author edit a comment', async function () {
+      const commentId = post(ws.contributorId, 'Original');
+
+      await assertFails('not-authorized', () =>
+        callAs(ws.ownerId, 'comments.edit', commentId, 'Changed by owner')
+      );
+
+      callAs(ws.contributorId, 'comments.edit', commentId, 'Changed');
+      const comment = CommentsCollection.findOne(commentId)!;
+      assert.strictEqual(comment.body, 'Changed');
+      assert.ok(comment.editedAt);
+    });
+
+    it("lets the project owner remove someone else's comment", async function () {
+      const commentId = post(ws.contributorId, 'Off topic');
+
+      await assertFails('not-authorized', () =>
+        callAs(ws.outsiderId, 'comments.remove', commentId)
+      );
+
+      callAs(ws.ownerId, 'comments.remove', commentId);
+      assert.strictEqual(CommentsCollection.findOne(commentId), undefined);
+    });
+  });
+
+  describe('threading', function () {
+    it('puts replies in the thread of their root comment', function () {
+      const rootId = post(ws.ownerId, 'Root');
+      const replyId = post(ws.contributorId, 'Reply', rootId);
+      const nestedId = post(ws.ownerId, 'Nested', replyId);
+
+      const nested = CommentsCollection.findOne(nestedId)!;
+      assert.strictEqual(nested.parentId, replyId);
+      assert.strictEqual(nested.threadId, rootId);
+      assert.strictEqual(nested.depth, 2);
+    });
+
+    it('refuses replies nested too deep', async function () {
+      let parentId = post(ws.ownerId, 'Depth 0');
+      for (let depth = 1; depth <= 5; depth++) {
+        parentId = post(ws.ownerId, `Depth ${depth}`, parentId);
+      }
+
+      await assertFails('validation-error', () => post(ws.ownerId, 'Depth 6', parentId));
+    });
+
+    it('keeps a removed comment with replies as a placeholder', async function () {
+      const rootId = post(ws.ownerId, 'Root');
+      post(ws.contributorId, 'Reply', rootId);
+
+      callAs(ws.ownerId, 'comments.remove', rootId);
+
+      const root = CommentsCollection.findOne(rootId)!;
+      assert.ok(root.deletedAt);
+      assert.strictEqual(root.body, '');
+      await assertFails('validation-error', () => post(ws.ownerId, 'Late reply', rootId));
+    });
+
+    it('removes placeholders once their last reply is gone', function () {
+      const rootId = post(ws.ownerId, 'Root');
+      const replyId = post(ws.ownerId, 'Reply', rootId);
+      const nestedId = post(ws.contributorId, 'Nested', replyId);
+      const otherId = post(ws.contributorId, 'Other reply', rootId);
+
+      callAs(ws.ownerId, 'comments.remove', rootId);
+      callAs(ws.ownerId, 'comments.remove', replyId);
+      callAs(ws.contributorId, 'comments.remove', nestedId);
+
+      // The reply placeholder went with its only reply; the root still
+      // holds another one
+      assert.strictEqual(CommentsCollection.findOne(replyId), undefined);
+      assert.ok(CommentsCollection.findOne(rootId)!.deletedAt);
+
+      callAs(ws.contributorId, 'comments.remove', otherId);
+      assert.strictEqual(CommentsCollection.find({ projectId: ws.projectId }).count(), 0);
+    });
+  });
+});
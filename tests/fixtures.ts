@@ -0,0 +1,174 @@
+import { Meteor } from 'meteor/meteor';
+import { Random } from 'meteor/random';
+import { OrganizationsCollection } from '../imports/api/organizations';
+import { ProjectsCollection } from '../imports/api/projects';
+import { TasksCollection } from '../imports/api/tasks';
+import { CommentsCollection } from '../imports/api/comments';
+import { ActivityLogsCollection } from '../imports/api/activityLogs';
+import { ApiTokensCollection } from '../imports/api/apiTokens';
+import { generateApiToken } from '../imports/api/apiTokens/tokens';
+import type { OrganizationRole } from '../imports/api/organizations';
+import type { ApiScope, ApiTokenContext } from '../imports/api/apiTokens';
+
+// ============================================================================
+// SERVER TEST FIXTURES
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+//
+// A small workspace in the test database: an organization, its users, one
+// project and one task. Every test file creates its own and removes it in
+// after(), so files don't see each other's data.
+
+export interface Workspace {
+  organizationId: string;
+  adminId: string;
+  ownerId: string; // Manager who owns the project
+  contributorId: string; // On the project team
+  outsiderId: string; // Member of the organization, not of the project
+  projectId: string;
+  taskId: string;
+  remove: () => void;
+}
+
+/**
+ * Insert a user directly (no password - tests call methods as them)
+ */
+export function createUser(
+  name: string,
+  options: { role?: OrganizationRole; email?: string; verified?: boolean } = {}
+): string {
+  return Meteor.users.insert({
+    username: `${name}-${Random.id(6)}`,
+    emails: [
+      { address: options.email || `${Random.id(8)}@example.com`, verified: !!options.verified },
+    ],
+    profile: { firstName: name, lastName: 'Test', role: options.role || 'member' },
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Create a workspace with an admin, a project owner, a project
+ * contributor and an organization member outside the project
+ */
+export function createWorkspace(): Workspace {
+  const adminId = createUser('admin', { role: 'admin' });
+  const ownerId = createUser('owner', { role: 'manager' });
+  const contributorId = createUser('contributor');
+  const outsiderId = createUser('outsider');
+  const userIds = [adminId, ownerId, contributorId, outsiderId];
+  const roles: OrganizationRole[] = ['admin', 'manager', 'member', 'member'];
+
+  const now = new Date();
+  const organizationId = OrganizationsCollection.insert({
+    name: 'Test workspace',
+    slug: `test-${Random.id(8).toLowerCase()}`,
+    memberIds: userIds,
+    members: userIds.map((userId, i) => ({ userId, role: roles[i], joinedAt: now })),
+    createdBy: adminId,
+    createdAt: now,
+  });
+  Meteor.users.update(
+    { _id: { $in: userIds } },
+    { $set: { activeOrganizationId: organizationId } },
+    { multi: true }
+  );
+
+  const projectId = ProjectsCollection.insert({
+    name: 'Test project',
+    description: '',
+    status: 'active',
+    tags: [],
+    ownerId,
+    organizationId,
+    teamMemberIds: [contributorId],
+    members: [{ userId: contributorId, role: 'contributor', addedAt: now }],
+    metadata: { totalTasks: 1, completedTasks: 0, priority: 'medium' },
+    createdAt: now,
+  });
+
+  const taskId = TasksCollection.insert({
+    projectId,
+    title: 'Test task',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    tags: [],
+    createdBy: ownerId,
+    createdAt: now,
+  });
+
+  return {
+    organizationId,
+    adminId,
+    ownerId,
+    contributorId,
+    outsiderId,
+    projectId,
+    taskId,
+    remove: () => {
+      ActivityLogsCollection.remove({ userId: { $in: userIds } });
+      ApiTokensCollection.remove({ userId: { $in: userIds } });
+      CommentsCollection.remove({ projectId });
+      TasksCollection.remove({ projectId });
+      ProjectsCollection.remove(projectId);
+      OrganizationsCollection.remove(organizationId);
+      Meteor.users.remove({ _id: { $in: userIds } });
+    },
+  };
+}
+
+/**
+ * Insert an API token for a user (valid for a day unless expiresAt says otherwise)
+ *
+ * @returns The token as a client sends it, its ID and its call context
+ */
+export function createApiToken(
+  userId: string,
+  scopes: ApiScope[],
+  expiresAt = new Date(Date.now() + DAY_MS)
+): { token: string; tokenId: string; context: ApiTokenContext } {
+  const { token, hashedToken, prefix } = generateApiToken();
+  const tokenId = ApiTokensCollection.insert({
+    userId,
+    name: 'Test token',
+    hashedToken,
+    prefix,
+    scopes,
+    expiresAt,
+    createdAt: new Date(),
+  });
+  return { token, tokenId, context: { tokenId, userId, scopes } };
+}
+
+/**
+ * Run a method as a user, the way a client call would
+ *
+ * NOTE: Calls the handler directly - no DDP connection, so nothing
+ * connection-bound (API tokens) applies
+ */
+export function callAs(userId: string | null, name: string, ...args: any[]): any {
+  const handler = (Meteor.server as any).method_handlers[name];
+  const invocation = {
+    userId,
+    connection: null,
+    isSimulation: false,
+    unblock: () => {},
+    setUserId: () => {},
+  };
+  return handler.apply(invocation, args);
+}
+
+/**
+ * Assert that a call fails with a Meteor.Error code
+ */
+export async function assertFails(code: string, run: () => any): Promise<void> {
+  try {
+    await run();
+  } catch (error: any) {
+    if (error?.error !== code) throw error;
+    return;
+  }
+  throw new Error(`Expected a '${code}' error`);
+}
@@ -1,5 +1,15 @@
 import { Meteor } from 'meteor/meteor';
 import assert from 'assert';
+import './policy';
+
+// Server-only: these call methods against the test database; the REST
+// routes also load WebApp, webhooks need a local HTTP receiver
+if (Meteor.isServer) {
+  require('./apiTokens');
+  require('./comments');
+  require('./rest');
+  require('./webhooks');
+}
 
 describe('meteorjs-learning', function () {
   it('package.json has correct name', async function () {
@@ -0,0 +1,290 @@
+import assert from 'assert';
+import { can } from '../imports/api/policy/policy';
+import type { PolicyAction, PolicyActions, PolicyUser } from '../imports/api/policy/types';
+import type { Project } from '../imports/api/projects';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+// Users as getWorkspaceUser() builds them: role = role in the workspace
+const user = (
+  _id: string,
+  role: 'admin' | 'manager' | 'member' = 'member',
+  organizationId: string | null = 'org1' // null: in no workspace
+) => ({
+  _id,
+  profile: { firstName: _id, lastName: 'Test', role },
+  organizationId: organizationId ?? undefined,
+});
+
+const admin = user('admin', 'admin');
+const manager = user('manager', 'manager');
+const owner = user('owner', 'manager');
+const maintainer = user('maintainer');
+const contributor = user('contributor');
+const viewer = user('viewer');
+const legacy = user('legacy'); // In teamMemberIds, no members entry
+const outsider = user('outsider');
+
+const project: Pick<Project, 'organizationId' | 'ownerId' | 'teamMemberIds' | 'members'> = {
+  organizationId: 'org1',
+  ownerId: 'owner',
+  teamMemberIds: ['maintainer', 'contributor', 'viewer', 'legacy'],
+  members: [
+    { userId: 'maintainer', role: 'maintainer', addedAt: new Date() },
+    { userId: 'contributor', role: 'contributor', addedAt: new Date() },
+    { userId: 'viewer', role: 'viewer', addedAt: new Date() },
+  ],
+};
+
+const othersTask = { createdBy: 'maintainer', assignedToId: undefined, deletedBy: undefined };
+const createdTask = { createdBy: 'contributor', assignedToId: undefined, deletedBy: undefined };
+const assignedTask = { createdBy: 'maintainer', assignedToId: 'contributor', deletedBy: undefined };
+
+interface Case<A extends PolicyAction = PolicyAction> {
+  user: PolicyUser;
+  action: A;
+  resource: PolicyActions[A];
+  expected: boolean;
+}
+
+/**
+ * One row per question; helper keeps each row type-checked against
+ * its action's resource shape
+ */
+const row = <A extends PolicyAction>(
+  u: PolicyUser,
+  action: A,
+  resource: PolicyActions[A],
+  expected: boolean
+): Case => ({ user: u, action, resource, expected }) as Case;
+
+function runTable(cases: Case[]) {
+  for (const { user: u, action, resource, expected } of cases) {
+    const who = u?._id ?? String(u);
+    it(`${who} ${expected ? 'can' : 'cannot'} ${action}`, function () {
+      assert.strictEqual(can(u, action, resource as never), expected);
+    });
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('policy', function () {
+  describe('without a user', function () {
+    runTable([
+      row(null, 'project.view', { project }, false),
+      row(undefined, 'project.create', null, false),
+      row({ _id: '' }, 'user.viewActivity', { userId: '', organizationIds: ['org1'] }, false),
+    ]);
+  });
+
+  describe('system actions', function () {
+    runTable([
+      row(admin, 'project.create', null, true),
+      row(manager, 'project.create', null, true),
+      row(contributor, 'project.create', null, false),
+      row({ _id: 'noprofile' }, 'project.create', null, false),
+      row(admin, 'project.viewAll', null, true),
+      row(manager, 'project.viewAll', null, false),
+      row(manager, 'user.list', null, true),
+      row(contributor, 'user.list', null, false),
+      row(manager, 'team.viewPerformance', null, true),
+      row(contributor, 'team.viewPerformance', null, false),
+      row(admin, 'webhook.replay', null, true),
+      row(manager, 'webhook.replay', null, false),
+    ]);
+  });
+
+  describe('other users', function () {
+    runTable([
+      row(contributor, 'user.viewActivity', { userId: 'contributor', organizationIds: ['org1'] }, true),
+      row(contributor, 'user.viewActivity', { userId: 'viewer', organizationIds: ['org1'] }, false),
+      row(manager, 'user.viewActivity', { userId: 'viewer', organizationIds: ['org1'] }, false),
+      row(admin, 'user.viewActivity', { userId: 'viewer', organizationIds: ['org1'] }, true),
+      row(contributor, 'user.viewTimesheet', { userId: 'contributor', organizationIds: ['org1'] }, true),
+      row(contributor, 'user.viewTimesheet', { userId: 'viewer', organizationIds: ['org1'] }, false),
+      row(manager, 'user.viewTimesheet', { userId: 'viewer', organizationIds: ['org1'] }, true),
+      row(admin, 'user.deactivate', { userId: 'viewer', organizationIds: ['org1'] }, true),
+      row(admin, 'user.deactivate', { userId: 'admin', organizationIds: ['org1'] }, false),
+      row(manager, 'user.deactivate', { userId: 'viewer', organizationIds: ['org1'] }, false),
+    ]);
+  });
+
+  describe('projects', function () {
+    runTable([
+      row(owner, 'project.view', { project }, true),
+      row(viewer, 'project.view', { project }, true),
+      row(legacy, 'project.view', { project }, true),
+      row(outsider, 'project.view', { project }, false),
+      row(manager, 'project.view', { project }, false),
+      row(admin, 'project.view', { project }, true),
+      row(admin, 'project.view', { project: null }, false),
+
+      row(owner, 'project.update', { project }, true),
+      row(admin, 'project.update', { project }, true),
+      row(maintainer, 'project.update', { project }, false),
+
+      row(maintainer, 'project.manageTeam', { project }, true),
+      row(contributor, 'project.manageTeam', { project }, false),
+      row(owner, 'project.manageMaintainers', { project }, true),
+      row(maintainer, 'project.manageMaintainers', { project }, false),
+      row(owner, 'project.manageWebhooks', { project }, true),
+      row(admin, 'project.manageWebhooks', { project }, true),
+      row(maintainer, 'project.manageWebhooks', { project }, false),
+    ]);
+  });
+
+  describe('tasks', function () {
+    runTable([
+      row(contributor, 'task.create', { project }, true),
+      row(legacy, 'task.create', { project }, true),
+      row(viewer, 'task.create', { project }, false),
+      row(outsider, 'task.create', { project }, false),
+      row(admin, 'task.create', { project: undefined }, false),
+
+      row(maintainer, 'task.update', { task: createdTask, project }, true),
+      row(owner, 'task.update', { task: createdTask, project }, true),
+      row(contributor, 'task.update', { task: createdTask, project }, true),
+      row(contributor, 'task.update', { task: assignedTask, project }, true),
+      row(contributor, 'task.update', { task: othersTask, project }, false),
+      row(viewer, 'task.update', { task: { ...othersTask, assignedToId: 'viewer' }, project }, false),
+      row(admin, 'task.update', { task: othersTask, project }, true),
+
+      row(contributor, 'task.work', { task: assignedTask, project }, true),
+      row(viewer, 'task.work', { task: othersTask, project }, false),
+      // Assignees who were demoted, removed or are in another workspace now
+      row(viewer, 'task.work', { task: { ...othersTask, assignedToId: 'viewer' }, project }, false),
+      row(outsider, 'task.work', { task: { ...othersTask, assignedToId: 'outsider' }, project }, false),
+      row(
+        user('contributor', 'member', 'org2'),
+        'task.work',
+        { task: assignedTask, project },
+        false
+      ),
+
+      row(contributor, 'task.move', { task: createdTask, project }, true),
+      row(contributor, 'task.move', { task: assignedTask, project }, false),
+      row(maintainer, 'task.move', { task: createdTask, project }, true),
+
+      row(contributor, 'task.delete', { task: createdTask, project }, true),
+      row(contributor, 'task.delete', { task: assignedTask, project }, false),
+      row(maintainer, 'task.delete', { task: createdTask, project }, true),
+      row(viewer, 'task.delete', { task: { ...othersTask, createdBy: 'viewer' }, project }, false),
+
+      row(contributor, 'task.restore', { task: { ...othersTask, deletedBy: 'contributor' }, project }, true),
+      row(contributor, 'task.restore', { task: { ...othersTask, deletedBy: 'maintainer' }, project }, false),
+      row(viewer, 'task.restore', { task: { ...othersTask, deletedBy: 'viewer' }, project }, false),
+      row(outsider, 'task.restore', { task: { ...othersTask, deletedBy: 'outsider' }, project }, false),
+    ]);
+  });
+
+  describe('comments', function () {
+    const comment = { authorId: 'viewer' };
+
+    runTable([
+      row(viewer, 'comment.create', { project }, true),
+      row(outsider, 'comment.create', { project }, false),
+
+      row(viewer, 'comment.edit', { comment, project }, true),
+      row(maintainer, 'comment.edit', { comment, project }, false),
+      row(admin, 'comment.edit', { comment, project }, false),
+      // Author removed from the project since posting
+      row(user('viewer'), 'comment.edit', { comment, project: { ...project, teamMemberIds: [], members: [] } }, false),
+
+      row(viewer, 'comment.remove', { comment, project }, true),
+      row(owner, 'comment.remove', { comment, project }, true),
+      row(admin, 'comment.remove', { comment, project }, true),
+      row(maintainer, 'comment.remove', { comment, project }, false),
+    ]);
+  });
+
+  describe('workspaces', function () {
+    const otherAdmin = user('admin', 'admin', 'org2');
+    const noWorkspace = user('owner', 'manager', null);
+    const organization = {
+      members: [
+        { userId: 'admin', role: 'admin' as const, joinedAt: new Date() },
+        { userId: 'manager', role: 'manager' as const, joinedAt: new Date() },
+      ],
+    };
+
+    runTable([
+      // Roles don't reach into another workspace
+      row(otherAdmin, 'project.view', { project }, false),
+      row(otherAdmin, 'task.delete', { task: othersTask, project }, false),
+      row(otherAdmin, 'timeEntry.manage', { entry: { userId: 'contributor' }, project }, false),
+      row(user('owner', 'manager', 'org2'), 'project.update', { project }, false),
+      row(otherAdmin, 'user.viewActivity', { userId: 'viewer', organizationIds: ['org1'] }, false),
+      row(manager, 'user.viewTimesheet', { userId: 'viewer', organizationIds: ['org2'] }, false),
+      row(admin, 'user.deactivate', { userId: 'viewer', organizationIds: ['org1', 'org2'] }, false),
+      row(otherAdmin, 'template.use', { template: { ownerId: 'manager', organizationId: 'org1' }, project: null }, false),
+      row(otherAdmin, 'template.remove', { template: { ownerId: 'admin', organizationId: 'org1' }, project: null }, false),
+
+      // Outside of any workspace: no role, only your own data
+      row(noWorkspace, 'project.create', null, false),
+      row(noWorkspace, 'project.view', { project }, false),
+      row(noWorkspace, 'user.viewTimesheet', { userId: 'owner', organizationIds: [] }, true),
+      row(noWorkspace, 'organization.create', null, true),
+
+      // Organization admins run their organization, whichever is active
+      row(otherAdmin, 'organization.manage', { organization }, true),
+      row(manager, 'organization.manage', { organization }, false),
+      row(outsider, 'organization.manage', { organization: null }, false),
+    ]);
+  });
+
+  describe('teams', function () {
+    const team = { organizationId: 'org1', leadId: 'contributor' };
+
+    runTable([
+      row(manager, 'team.create', null, true),
+      row(contributor, 'team.create', null, false),
+
+      row(manager, 'team.update', { team }, true),
+      row(contributor, 'team.update', { team }, false),
+      row(user('manager', 'manager', 'org2'), 'team.update', { team }, false),
+
+      row(contributor, 'team.manageMembers', { team }, true),
+      row(viewer, 'team.manageMembers', { team }, false),
+      row(admin, 'team.manageMembers', { team }, true),
+      row(user('contributor', 'member', 'org2'), 'team.manageMembers', { team }, false),
+      row(admin, 'team.manageMembers', { team: null }, false),
+
+      // Team members are copied into the project (viaTeam) - nothing new to ask
+      row(
+        user('teammate'),
+        'project.view',
+        {
+          project: {
+            ...project,
+            teamMemberIds: [...project.teamMemberIds, 'teammate'],
+            members: [
+              ...project.members!,
+              { userId: 'teammate', role: 'viewer', addedAt: new Date(), viaTeam: true },
+            ],
+          },
+        },
+        true
+      ),
+    ]);
+  });
+
+  describe('time entries and templates', function () {
+    runTable([
+      row(contributor, 'timeEntry.manage', { entry: { userId: 'contributor' }, project }, true),
+      row(maintainer, 'timeEntry.manage', { entry: { userId: 'contributor' }, project }, false),
+      row(owner, 'timeEntry.manage', { entry: { userId: 'contributor' }, project }, true),
+      row(admin, 'timeEntry.manage', { entry: { userId: 'contributor' }, project }, true),
+      row(contributor, 'timeEntry.manage', { entry: { userId: 'contributor' }, project: null }, true),
+
+      row(manager, 'template.remove', { template: { ownerId: 'manager', organizationId: 'org1' }, project: null }, true),
+      row(owner, 'template.remove', { template: { ownerId: 'manager', organizationId: 'org1' }, project }, true),
+      row(maintainer, 'template.remove', { template: { ownerId: 'manager', organizationId: 'org1' }, project }, false),
+      row(contributor, 'template.use', { template: { ownerId: 'manager', organizationId: 'org1' }, project: null }, true),
+    ]);
+  });
+});
@@ -0,0 +1,330 @@
+import assert from 'assert';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Match } from 'meteor/check';
+import { REST_ROUTES } from '../imports/api/rest/routes';
+import { OPERATIONS } from '../imports/api/rest/client';
+import { buildOpenApiDocument, toOpenApiPath } from '../imports/api/rest/openapi';
+import { toPattern } from '../imports/api/schemas';
+import { TaskChangesSchema, TaskInputSchema } from '../imports/api/tasks/schemas';
+import { ProjectInputSchema } from '../imports/api/projects/schemas';
+import { TasksCollection } from '../imports/api/tasks';
+import '../imports/api/tasks/methods';
+import { handleRestRequest } from '../imports/api/rest/server';
+import { callMethod } from '../imports/api/rest/call';
+import type { RestRequest } from '../imports/api/rest';
+import type { ApiScope } from '../imports/api/apiTokens';
+import { createWorkspace, createApiToken, assertFails, Workspace } from './fixtures';
+
+// ============================================================================
+// LOCAL SERVER
+// ============================================================================
+
+/**
+ * Serve the REST API from a local HTTP server, as WebApp would below
+ * API_BASE_PATH
+ */
+function startApi(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer(handleRestRequest);
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('rest contract', function () {
+  describe('generated client', function () {
+    // Fails when a route was added or changed without regenerating
+    // client.ts (see clientGenerator.ts)
+    it('has one operation per route, in the same order', function () {
+      const expected = REST_ROUTES.map(({ operationId, method, path, scope }) => [
+        operationId,
+        { method, path, scope },
+      ]);
+      assert.deepStrictEqual(Object.entries(OPERATIONS), expected);
+    });
+
+    it('has unique operation IDs', function () {
+      const ids = REST_ROUTES.map((route) => route.operationId);
+      assert.strictEqual(new Set(ids).size, ids.length);
+    });
+  });
+
+  describe('OpenAPI document', function () {
+    const document = buildOpenApiDocument(REST_ROUTES, '/api/v1');
+
+    it('describes every route', function () {
+      REST_ROUTES.forEach((route) => {
+        const operation = document.paths[toOpenApiPath(route.path)][route.method.toLowerCase()];
+        assert.strictEqual(operation.operationId, route.operationId);
+      });
+    });
+
+    it('describes the documents and method inputs as components', function () {
+      ['Task', 'TaskInput', 'TaskChanges', 'Project', 'ProjectInput', 'Comment'].forEach(
+        (name) => assert.ok(document.components.schemas[name], name)
+      );
+    });
+
+    it('sends dates as date-time strings', function () {
+      assert.deepStrictEqual(document.components.schemas.TaskInput.properties.dueDate, {
+        type: 'string',
+        format: 'date-time',
+        nullable: true,
+      });
+    });
+  });
+
+  describe('method patterns', function () {
+    const taskInput = {
+      projectId: 'p1',
+      title: 'Write docs',
+      description: '',
+      priority: 'medium',
+      tags: [],
+    };
+
+    it('accept what the schema describes', function () {
+      assert.ok(Match.test(taskInput, toPattern(TaskInputSchema)));
+      assert.ok(Match.test({ assignedToId: null }, toPattern(TaskChangesSchema)));
+    });
+
+    it('reject unknown fields and enum values', function () {
+      assert.ok(!Match.test({ ...taskInput, status: 'done' }, toPattern(TaskInputSchema)));
+      assert.ok(!Match.test({ ...taskInput, priority: 'urgent' }, toPattern(TaskInputSchema)));
+    });
+
+    it('check workflow transitions as a record', function () {
+      const project = {
+        name: 'Docs',
+        description: '',
+        teamMemberIds: [],
+        status: 'active',
+        tags: [],
+        workflow: {
+          statuses: [{ key: 'todo', label: 'To Do', category: 'todo' }],
+          initialStatus: 'todo',
+          transitions: { todo: ['todo'] },
+        },
+      };
+      const pattern = toPattern(ProjectInputSchema);
+
+      assert.ok(Match.test(project, pattern));
+      assert.ok(
+        !Match.test(
+          { ...project, workflow: { ...project.workflow, transitions: { todo: 'done' } } },
+          pattern
+        )
+      );
+    });
+  });
+});
+
+describe('rest api', function () {
+  let ws: Workspace;
+  let api: Awaited<ReturnType<typeof startApi>>;
+  let token: string;
+
+  before(async function () {
+    ws = createWorkspace();
+    token = createApiToken(ws.ownerId, ['read:tasks', 'write:tasks']).token;
+    api = await startApi();
+  });
+
+  after(async function () {
+    await api.close();
+    ws.remove();
+  });
+
+  afterEach(function () {
+    TasksCollection.remove({ projectId: ws.projectId, _id: { $ne: ws.taskId } });
+  });
+
+  /**
+   * Send a request; `body` is sent as given (a string) or as JSON
+   */
+  const request = async (
+    method: string,
+    path: string,
+    options: { token?: string | null; body?: unknown } = {}
+  ) => {
+    const bearer = options.token === undefined ? token : options.token;
+    const response = await fetch(api.url + path, {
+      method,
+      headers: {
+        ...(bearer && { Authorization: `Bearer ${bearer}` }),
+        ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body:
+        options.body === undefined || typeof options.body === 'string'
+          ? (options.body as string | undefined)
+          : JSON.stringify(options.body),
+    });
+    const text = await response.text();
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: text ? JSON.parse(text) : undefined,
+    };
+  };
+
+  const insertTask = (title: string, fields: Record<string, unknown> = {}) =>
+    TasksCollection.insert({
+      projectId: ws.projectId,
+      title,
+      description: '',
+      status: 'todo',
+      priority: 'medium',
+      tags: [],
+      createdBy: ws.ownerId,
+      createdAt: new Date(),
+      ...fields,
+    });
+
+  describe('status codes', function () {
+    it('answers 401 without a valid token', async function () {
+      const missing = await request('GET', '/tasks', { token: null });
+      const unknown = await request('GET', '/tasks', { token: 'tmk_unknown' });
+
+      assert.strictEqual(missing.status, 401);
+      assert.strictEqual(missing.body.error, 'not-authenticated');
+      assert.strictEqual(unknown.status, 401);
+    });
+
+    it('answers 403 when the token lacks the route scope', async function () {
+      const comments = createApiToken(ws.ownerId, ['read:comments']).token;
+      const response = await request('GET', '/tasks', { token: comments });
+
+      assert.strictEqual(response.status, 403);
+      assert.strictEqual(response.body.error, 'not-authorized');
+    });
+
+    it('answers 404 for unknown endpoints and documents', async function () {
+      assert.strictEqual((await request('GET', '/nothing')).status, 404);
+      assert.strictEqual((await request('GET', '/tasks/unknown')).status, 404);
+    });
+
+    it('answers 405 with the allowed methods', async function () {
+      const response = await request('PUT', '/tasks');
+
+      assert.strictEqual(response.status, 405);
+      assert.strictEqual(response.headers.get('allow'), 'GET, POST');
+    });
+
+    it('answers 400 for non-object bodies and failed method checks', async function () {
+      assert.strictEqual((await request('POST', '/tasks', { body: '{not json' })).status, 400);
+      assert.strictEqual((await request('POST', '/tasks', { body: '[]' })).status, 400);
+
+      const invalid = await request('POST', '/tasks', { body: { projectId: ws.projectId } });
+      assert.strictEqual(invalid.status, 400);
+    });
+
+    it('answers 413 for bodies over 1 MB', async function () {
+      const body = JSON.stringify({ description: 'x'.repeat(1024 * 1024) });
+      const response = await request('POST', '/tasks', { body });
+
+      assert.strictEqual(response.status, 413);
+      assert.strictEqual(response.body.error, 'payload-too-large');
+    });
+
+    it('answers 201 with the created task', async function () {
+      const response = await request('POST', '/tasks', {
+        body: {
+          projectId: ws.projectId,
+          title: 'Created over HTTP',
+          description: '',
+          priority: 'high',
+          tags: [],
+        },
+      });
+
+      assert.strictEqual(response.status, 201);
+      assert.strictEqual(response.body.title, 'Created over HTTP');
+      assert.strictEqual(TasksCollection.findOne(response.body._id)!.createdBy, ws.ownerId);
+    });
+  });
+
+  describe('lists', function () {
+    beforeEach(function () {
+      insertTask('B');
+      insertTask('C');
+      insertTask('A');
+    });
+
+    const titles = (body: any) => body.data.map((task: any) => task.title);
+
+    it('pages through the results in the requested order', async function () {
+      const first = await request('GET', '/tasks?sort=title&limit=2');
+      const second = await request('GET', '/tasks?sort=title&limit=2&offset=2');
+      const descending = await request('GET', '/tasks?sort=-title&limit=1');
+
+      assert.deepStrictEqual(titles(first.body), ['A', 'B']);
+      assert.strictEqual(first.body.total, 4);
+      assert.strictEqual(first.body.limit, 2);
+      assert.deepStrictEqual(titles(second.body), ['C', 'Test task']);
+      assert.strictEqual(second.body.offset, 2);
+      assert.deepStrictEqual(titles(descending.body), ['Test task']);
+    });
+
+    it('refuses limits, offsets and sort fields out of range', async function () {
+      const queries = ['limit=0', 'limit=101', 'limit=ten', 'offset=-1', 'sort=description'];
+
+      for (const query of queries) {
+        const response = await request('GET', `/tasks?${query}`);
+        assert.strictEqual(response.status, 400, query);
+        assert.strictEqual(response.body.error, 'validation-error', query);
+      }
+    });
+
+    it('finds unassigned tasks with assignedToId=none, whether unset or null', async function () {
+      insertTask('Unassigned', { assignedToId: null });
+      insertTask('Assigned', { assignedToId: ws.contributorId });
+
+      const response = await request('GET', '/tasks?assignedToId=none&sort=title');
+
+      assert.deepStrictEqual(titles(response.body), ['A', 'B', 'C', 'Test task', 'Unassigned']);
+    });
+  });
+
+  describe('callMethod', function () {
+    const requestFor = (scopes: ApiScope[]): RestRequest => ({
+      userId: ws.ownerId,
+      token: createApiToken(ws.ownerId, scopes).context,
+      params: {},
+      query: {},
+      body: {},
+    });
+
+    it('needs the scope the method is listed with', async function () {
+      await assertFails('not-authorized', () =>
+        callMethod(requestFor(['read:tasks']), 'tasks.update', ws.taskId, { title: 'Nope' })
+      );
+      assert.strictEqual(TasksCollection.findOne(ws.taskId)!.title, 'Test task');
+    });
+
+    it('refuses methods not listed for tokens, whatever the scopes', async function () {
+      await assertFails('not-authorized', () =>
+        callMethod(requestFor(['write:tasks', 'write:projects']), 'apiTokens.revoke', 'x')
+      );
+    });
+
+    it("runs the method as the token's user", async function () {
+      await callMethod(requestFor(['write:tasks']), 'tasks.update', ws.taskId, {
+        title: 'Renamed',
+      });
+      assert.strictEqual(TasksCollection.findOne(ws.taskId)!.title, 'Renamed');
+
+      TasksCollection.update(ws.taskId, { $set: { title: 'Test task' } });
+    });
+  });
+});
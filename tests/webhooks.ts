@@ -0,0 +1,362 @@
+import assert from 'assert';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { WebhooksCollection, WebhookDeliveriesCollection } from '../imports/api/webhooks';
+import type { ActivityLog } from '../imports/api/activityLogs';
+import type { WebhookPayload } from '../imports/api/webhooks';
+import {
+  sendWebhook,
+  signWebhookPayload,
+  getRetryDelay,
+  getNextDeliveryState,
+  MAX_DELIVERY_ATTEMPTS,
+} from '../imports/api/webhooks/delivery';
+import {
+  enqueueWebhookDeliveries,
+  processDueDeliveries,
+  replayFailedDeliveries,
+  removeWebhooks,
+} from '../imports/api/webhooks/outbox';
+import {
+  isPublicAddress,
+  publicOnlyLookup,
+  validateReceiverHost,
+} from '../imports/api/webhooks/addresses';
+import { assertFails } from './fixtures';
+
+// ============================================================================
+// LOCAL RECEIVER
+// ============================================================================
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * An HTTP server that records what it is sent and answers with `status`
+ */
+function startReceiver(): Promise<{
+  url: string;
+  received: ReceivedRequest[];
+  respondWith: (status: number) => void;
+  close: () => Promise<void>;
+}> {
+  const received: ReceivedRequest[] = [];
+  let status = 200;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/hooks`,
+        received,
+        respondWith: (next) => (status = next),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * What a receiver does with X-Webhook-Signature
+ */
+function verifySignature(secret: string, header: string, body: string): boolean {
+  const { t, v1 } = Object.fromEntries(header.split(',').map((part) => part.split('=')));
+  const expected = createHmac('sha256', secret).update(`${t}.${body}`).digest('hex');
+  return v1 === expected;
+}
+
+const SECRET = 'whsec_test';
+
+/**
+ * The local receiver is on 127.0.0.1 - only reachable with the address
+ * check switched off
+ */
+function allowPrivateAddresses(allowed: boolean): void {
+  if (allowed) {
+    process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = 'true';
+  } else {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+  }
+}
+
+const payload: WebhookPayload = {
+  id: 'delivery1',
+  event: 'task.complete',
+  projectId: 'project1',
+  occurredAt: new Date().toISOString(),
+  activity: {
+    id: 'log1',
+    userId: 'user1',
+    action: 'complete',
+    entityType: 'task',
+    entityId: 'task1',
+  },
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('webhooks', function () {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  before(async function () {
+    allowPrivateAddresses(true);
+    receiver = await startReceiver();
+  });
+
+  after(async function () {
+    allowPrivateAddresses(false);
+    await receiver.close();
+  });
+
+  beforeEach(function () {
+    receiver.received.length = 0;
+    receiver.respondWith(200);
+  });
+
+  describe('retry schedule', function () {
+    it('doubles the wait from one minute, up to six hours', function () {
+      const minutes = [1, 2, 3, 4, 5, 10].map((n) => getRetryDelay(n) / 60000);
+      assert.deepStrictEqual(minutes, [1, 2, 4, 8, 16, 360]);
+    });
+
+    it('retries failures until the last attempt', function () {
+      const now = new Date();
+      const failed = { attemptedAt: now, durationMs: 5, statusCode: 500, error: 'HTTP 500' };
+
+      assert.deepStrictEqual(getNextDeliveryState(1, failed, now), {
+        status: 'pending',
+        nextAttemptAt: new Date(now.getTime() + 60000),
+      });
+      assert.deepStrictEqual(getNextDeliveryState(MAX_DELIVERY_ATTEMPTS, failed, now), {
+        status: 'failed',
+      });
+      assert.deepStrictEqual(
+        getNextDeliveryState(1, { attemptedAt: now, durationMs: 5, statusCode: 204 }, now),
+        { status: 'delivered' }
+      );
+    });
+  });
+
+  describe('sendWebhook', function () {
+    it('posts the payload, signed with the secret', async function () {
+      const attempt = await sendWebhook({ url: receiver.url, secret: SECRET }, payload);
+
+      assert.strictEqual(attempt.statusCode, 200);
+      assert.strictEqual(attempt.error, undefined);
+
+      const [request] = receiver.received;
+      assert.deepStrictEqual(JSON.parse(request.body), payload);
+      assert.strictEqual(request.headers['x-webhook-id'], 'delivery1');
+      assert.strictEqual(request.headers['x-webhook-event'], 'task.complete');
+      const signature = request.headers['x-webhook-signature'] as string;
+      assert.ok(verifySignature(SECRET, signature, request.body));
+      assert.ok(!verifySignature('whsec_other', signature, request.body));
+    });
+
+    it('signs the timestamp together with the body', function () {
+      assert.notStrictEqual(
+        signWebhookPayload(SECRET, 1700000000, '{}'),
+        signWebhookPayload(SECRET, 1700000001, '{}')
+      );
+    });
+
+    it('reports non-2xx answers as errors', async function () {
+      receiver.respondWith(500);
+      const attempt = await sendWebhook({ url: receiver.url, secret: SECRET }, payload);
+
+      assert.strictEqual(attempt.statusCode, 500);
+      assert.strictEqual(attempt.error, 'HTTP 500');
+    });
+
+    it('reports unreachable receivers as errors instead of throwing', async function () {
+      const closed = await startReceiver();
+      await closed.close();
+
+      const attempt = await sendWebhook({ url: closed.url, secret: SECRET }, payload);
+
+      assert.strictEqual(attempt.statusCode, undefined);
+      assert.ok(attempt.error);
+    });
+  });
+
+  describe('receiver addresses', function () {
+    beforeEach(function () {
+      allowPrivateAddresses(false);
+    });
+
+    afterEach(function () {
+      allowPrivateAddresses(true);
+    });
+
+    it('tells public addresses from private and reserved ones', function () {
+      ['93.184.215.14', '8.8.8.8', '2606:4700:4700::1111'].forEach((address) =>
+        assert.ok(isPublicAddress(address), address)
+      );
+      [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.1',
+        '169.254.169.254', // Cloud metadata
+        '100.64.0.1',
+        '0.0.0.0',
+        '224.0.0.1',
+        '255.255.255.255',
+        '::1',
+        '::',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a9fe:a9fe',
+        'not-an-address',
+      ].forEach((address) => assert.ok(!isPublicAddress(address), address));
+    });
+
+    it('refuses to register private hosts', async function () {
+      const urls = [
+        'http://127.0.0.1/hooks',
+        'https://10.0.0.1/hooks',
+        'https://[::1]/hooks',
+        'https://[::ffff:192.168.0.1]/hooks',
+        'https://2130706433/hooks', // 127.0.0.1 spelled as a number
+        'https://localhost/hooks',
+      ];
+
+      for (const url of urls) {
+        await assertFails('validation-error', () => validateReceiverHost(new URL(url)));
+      }
+      await validateReceiverHost(new URL('https://93.184.215.14/hooks'));
+    });
+
+    it('does not deliver to private addresses', async function () {
+      const attempt = await sendWebhook({ url: receiver.url, secret: SECRET }, payload);
+
+      assert.strictEqual(attempt.statusCode, undefined);
+      assert.match(attempt.error!, /not public/);
+      assert.strictEqual(receiver.received.length, 0);
+    });
+
+    it('checks the addresses a host resolves to when connecting', function (done) {
+      publicOnlyLookup('localhost', { all: true }, (error: any) => {
+        assert.ok(error);
+        assert.match(error.message, /not public/);
+        done();
+      });
+    });
+  });
+
+  describe('outbox', function () {
+    const projectId = 'webhook-test-project';
+    let webhookId: string;
+
+    const log = (id: string): ActivityLog => ({
+      _id: id,
+      userId: 'user1',
+      action: 'update',
+      entityType: 'project',
+      entityId: projectId,
+      createdAt: new Date(),
+    });
+
+    beforeEach(function () {
+      webhookId = WebhooksCollection.insert({
+        projectId,
+        url: receiver.url,
+        actions: ['update'],
+        entityTypes: ['project'],
+        secret: SECRET,
+        active: true,
+        createdBy: 'user1',
+        createdAt: new Date(),
+      });
+    });
+
+    afterEach(function () {
+      removeWebhooks({ projectId });
+    });
+
+    it('queues a log once, for webhooks subscribed to it', function () {
+      assert.strictEqual(enqueueWebhookDeliveries(log('log-a')), 1);
+      assert.strictEqual(enqueueWebhookDeliveries(log('log-a')), 0);
+      assert.strictEqual(enqueueWebhookDeliveries({ ...log('log-b'), action: 'delete' }), 0);
+    });
+
+    it('delivers queued logs and records the attempt', async function () {
+      enqueueWebhookDeliveries(log('log-c'));
+
+      assert.strictEqual(await processDueDeliveries(), 1);
+
+      const delivery = WebhookDeliveriesCollection.findOne({ webhookId })!;
+      assert.strictEqual(delivery.status, 'delivered');
+      assert.strictEqual(delivery.attempts.length, 1);
+
+      const body = JSON.parse(receiver.received[0].body);
+      assert.strictEqual(body.id, delivery._id);
+      assert.strictEqual(body.event, 'project.update');
+    });
+
+    it('backs off after a failure, and replays failed deliveries', async function () {
+      receiver.respondWith(503);
+      enqueueWebhookDeliveries(log('log-d'));
+
+      await processDueDeliveries();
+
+      let delivery = WebhookDeliveriesCollection.findOne({ webhookId })!;
+      assert.strictEqual(delivery.status, 'pending');
+      assert.strictEqual(delivery.attemptCount, 1);
+      assert.ok(delivery.nextAttemptAt!.getTime() > Date.now() + 50 * 1000);
+
+      // Not due yet: nothing is sent
+      assert.strictEqual(await processDueDeliveries(), 0);
+
+      // Make the next attempt the last one, and due now
+      WebhookDeliveriesCollection.update(delivery._id!, {
+        $set: { attemptCount: MAX_DELIVERY_ATTEMPTS - 1, nextAttemptAt: new Date() },
+      });
+      await processDueDeliveries();
+
+      delivery = WebhookDeliveriesCollection.findOne({ webhookId })!;
+      assert.strictEqual(delivery.status, 'failed');
+      assert.ok(delivery.failedAt);
+
+      receiver.respondWith(200);
+      assert.strictEqual(replayFailedDeliveries({ webhookId }), 1);
+      await processDueDeliveries();
+
+      delivery = WebhookDeliveriesCollection.findOne({ webhookId })!;
+      assert.strictEqual(delivery.status, 'delivered');
+      assert.strictEqual(delivery.attemptCount, 1);
+      assert.strictEqual(delivery.attempts.length, 3);
+      assert.strictEqual(receiver.received.length, 3);
+
+      // Every attempt carried the same delivery ID
+      const ids = receiver.received.map((request) => request.headers['x-webhook-id']);
+      assert.deepStrictEqual(ids, [delivery._id, delivery._id, delivery._id]);
+    });
+
+    it('fails deliveries of paused webhooks without sending them', async function () {
+      enqueueWebhookDeliveries(log('log-e'));
+      WebhooksCollection.update(webhookId, { $set: { active: false } });
+
+      await processDueDeliveries();
+
+      const delivery = WebhookDeliveriesCollection.findOne({ webhookId })!;
+      assert.strictEqual(delivery.status, 'failed');
+      assert.strictEqual(receiver.received.length, 0);
+    });
+  });
+});